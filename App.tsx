@@ -1,25 +1,99 @@
-import React, { useState, useEffect } from 'react';
-import { AppData, DailyLog, MonthlyReport, Project, ViewState } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppData, CurrentUser, DailyLog, InternAccount, MonthlyReport, Objective, OpenRequest, Project, RecordView, Review, SkillAssessment, TagColor, TagDefinition, TrashCollection, ViewState, WorkspaceSettings } from './types';
 import { Icons } from './components/ui/Icons';
 import { Dashboard } from './components/Dashboard';
 import { Logbook } from './components/Logbook';
 import { Reports } from './components/Reports';
 import { Projects } from './components/Projects';
+import { ExportMenu } from './components/ExportMenu';
+import { ImportDialog } from './components/ImportDialog';
+import { Settings } from './components/Settings';
+import { Timesheet } from './components/Timesheet';
+import { CommandPalette } from './components/CommandPalette';
+import { ShortcutCheatSheet } from './components/ShortcutCheatSheet';
+import { UserMenu } from './components/UserMenu';
+import { SyncConflicts } from './components/SyncConflicts';
+import { Trash } from './components/Trash';
+import { Tags } from './components/Tags';
+import { Goals } from './components/Goals';
+import { Skills } from './components/Skills';
+import { Toast, Toasts } from './components/Toasts';
+import { TemplateManager } from './components/TemplateManager';
+import { PortfolioBuilder } from './components/PortfolioBuilder';
+import { createDraftLog } from './components/Logbook';
+import { pruneOrphanAttachments, collectAttachments } from './services/attachmentStore';
+import { loadWorkspace, loadAllWorkspaces, loadInterns, saveInterns, addIntern, removeIntern, setSyncWorkspace, persistChanges, createEmptyWorkspace } from './services/storage';
+import { getInternLabel, loadActiveInternId, loadCurrentUser, saveActiveInternId, saveCurrentUser } from './services/interns';
+import { isLocked } from './services/review';
+import { SyncConflict, SyncSettings, SyncStatus, applySyncResult, loadSyncSettings, queueLocalChanges, resolveConflict, saveSyncSettings, syncWorkspace, touch } from './services/sync';
+import { SyncRecord, countOutbox } from './services/outbox';
+import { SyncError } from './services/syncApi';
+import { deleteFromTrash, emptyTrash, moveToTrash, purgeExpiredTrash, restoreFromTrash } from './services/trash';
+import { draftRecurringLog } from './services/templates';
+import { removeSkillAssessment, setSkillAssessment } from './services/skills';
+import { checkInKeyResult } from './services/objectives';
+import { countLockedLogsWithTag, deleteTag, mergeTags, normalizeTags, renameTag, setTagAliases, setTagColor, setTagParent } from './services/tags';
+import { History, applyHistoryEntry, checkHistoryEntry, createHistory, markChange, recordChange } from './services/history';
+import { CommandId, ShortcutMap, TEXT_EDITING_COMMANDS, eventToShortcut, findCommandForShortcut, formatShortcut, isTypingTarget, loadShortcuts, saveShortcuts } from './services/commands';
+import { todayKey } from './services/calendar';
+import { Route, RouteQuery, formatRoute, readRoute } from './services/router';
 
-const LOCAL_STORAGE_KEY = 'telkom_ddp_data_v1';
 const THEME_STORAGE_KEY = 'telkom_ddp_theme';
 
-// Seed data to make the app look good initially if empty
-const INITIAL_DATA: AppData = {
-  logs: [],
-  reports: [],
-  projects: []
-};
+const SYNC_INTERVAL_MS = 30_000;
+const SYNC_DEBOUNCE_MS = 2_000; // Push shortly after an edit, once a burst of edits has settled
+
+const TOAST_DURATION_MS = 6_000;
+const MAX_TOASTS = 3;
+
+const RECORD_NOUNS: Record<TrashCollection, string> = { logs: 'Log', reports: 'Report', projects: 'Project' };
+
+type StorageStatus = 'loading' | 'ready' | 'error';
 
 const App: React.FC = () => {
-  const [data, setData] = useState<AppData>(INITIAL_DATA);
-  const [currentView, setCurrentView] = useState<ViewState>('dashboard');
+  const [data, setData] = useState<AppData>(createEmptyWorkspace);
+  const [storageStatus, setStorageStatus] = useState<StorageStatus>('loading');
+  const [storageError, setStorageError] = useState<string | null>(null);
+  // Last snapshot known to be in storage for the open workspace; null until it has loaded successfully.
+  // A new object per load, so writes still queued for the previous workspace keep their own.
+  const persistedRef = useRef<{ data: AppData } | null>(null);
+  // Last snapshot handed to storage and queued for sync; ahead of persistedRef while a write is pending or after one failed
+  const handledRef = useRef<AppData | null>(null);
+  // Writes run one at a time, in the order the changes were made
+  const writeQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const [interns, setInterns] = useState<InternAccount[]>([]);
+  // Whose workspace is open; `data` always belongs to this intern
+  const [activeInternId, setActiveInternId] = useState<string>(loadActiveInternId);
+  const [user, setUser] = useState<CurrentUser>(loadCurrentUser);
+  const hasPrunedRef = useRef(false);
+  const [loadCount, setLoadCount] = useState(0); // Bumped to load the open workspace again
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(loadSyncSettings);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'off', pending: 0 });
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [isConflictsOpen, setIsConflictsOpen] = useState(false);
+  // Last write to the outbox, so a sync starts only once every saved change is queued
+  const queuedRef = useRef<Promise<void>>(Promise.resolve());
+  const isSyncingRef = useRef(false);
+  const syncTimerRef = useRef<number | undefined>(undefined);
+  const activeInternRef = useRef(activeInternId);
+  activeInternRef.current = activeInternId;
+  // Undo/redo for the open intern's workspace, recorded as changes are persisted
+  const [history, setHistory] = useState<History>(createHistory);
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  // The URL is the source of truth for the view, the open record and the view's filters
+  const [route, setRoute] = useState<Route>(readRoute);
+  // Route entered from outside the app (a link, a refresh, back/forward) whose record still has to be opened
+  const [linkedRoute, setLinkedRoute] = useState<Route | null>(readRoute);
+  const currentView = route.view;
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isCheatSheetOpen, setIsCheatSheetOpen] = useState(false);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [isPortfolioOpen, setIsPortfolioOpen] = useState(false);
+  const [shortcuts, setShortcuts] = useState<ShortcutMap>(loadShortcuts);
+  // Record to open once its view is showing, set by the palette and shortcuts
+  const [openRequest, setOpenRequest] = useState<OpenRequest | null>(null);
   
   const [theme, setTheme] = useState<'light' | 'dark'>(() => {
     if (typeof window !== 'undefined') {
@@ -45,27 +119,141 @@ const App: React.FC = () => {
     setTheme(prev => prev === 'light' ? 'dark' : 'light');
   };
 
-  // Load from Local Storage
+  // Load (and migrate) the active intern's workspace from IndexedDB
   useEffect(() => {
-    const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
-    if (saved) {
-      try {
-        setData(JSON.parse(saved));
-      } catch (e) {
-        console.error("Failed to parse data", e);
-      }
+    let cancelled = false;
+    // Writes still queued for a workspace land before it is read back
+    writeQueueRef.current
+      .then(loadInterns)
+      .then(async list => {
+        // The saved intern may have been deleted since
+        const internId = list.some(i => i.id === activeInternId) ? activeInternId : list[0].id;
+        const loaded = await loadWorkspace(internId);
+        if (cancelled) return;
+        persistedRef.current = { data: loaded };
+        handledRef.current = loaded;
+        setInterns(list);
+        setData(purgeExpiredTrash(loaded));
+        setActiveInternId(internId);
+        setStorageStatus('ready');
+        countOutbox(internId).then(pending => setSyncStatus(s => ({ ...s, pending }))).catch(() => {});
+
+        // Drop stored files that no record of any intern points at any more
+        if (hasPrunedRef.current) return;
+        hasPrunedRef.current = true;
+        const workspaces = await loadAllWorkspaces();
+        const referenced = new Set(workspaces.flatMap(collectAttachments).map(a => a.id));
+        pruneOrphanAttachments(referenced).catch(e => console.error("Failed to prune attachments", e));
+      })
+      .catch(e => {
+        if (cancelled) return;
+        console.error("Failed to load workspace", e);
+        setStorageError(e instanceof Error ? e.message : String(e));
+        setStorageStatus('error');
+      });
+    return () => { cancelled = true; };
+  }, [activeInternId, loadCount]);
+
+  const reportSaveError = (e: unknown) => {
+    console.error("Failed to save workspace", e);
+    setStorageError(`Saving failed: ${e instanceof Error ? e.message : String(e)}`);
+  };
+
+  // Persist changed records. Nothing is written unless the workspace loaded cleanly.
+  useEffect(() => {
+    const previous = handledRef.current;
+    const stored = persistedRef.current;
+    if (storageStatus !== 'ready' || !previous || !stored || previous === data) return;
+    handledRef.current = data;
+    setHistory(h => recordChange(h, previous, data));
+
+    // Each write starts once the one before it has finished and is diffed against what that one
+    // confirmed, so a failed write's changes go out with the next one
+    const internId = activeInternId;
+    writeQueueRef.current = writeQueueRef.current
+      .then(() => persistChanges(stored.data, data, internId))
+      .then(() => { stored.data = data; })
+      .catch(reportSaveError);
+
+    // Queue the same changes for the sync server
+    queuedRef.current = queuedRef.current
+      .then(() => queueLocalChanges(internId, previous, data))
+      .then(() => countOutbox(internId))
+      .then(pending => setSyncStatus(s => ({ ...s, pending })))
+      .catch(reportSaveError);
+    if (syncSettings.enabled) {
+      window.clearTimeout(syncTimerRef.current);
+      syncTimerRef.current = window.setTimeout(() => runSyncRef.current(), SYNC_DEBOUNCE_MS);
     }
-  }, []);
+  }, [data, storageStatus]);
 
-  // Save to Local Storage on change
+  // Recurring templates draft the day's log once the intern's workspace is open
   useEffect(() => {
-    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(data));
-  }, [data]);
+    if (storageStatus !== 'ready' || user.role !== 'intern') return;
+    const next = draftRecurringLog(data, todayKey(), date => touch(createDraftLog(date)));
+    if (next === data) return;
+    setData(next);
+    const log = next.logs.find(l => l.date === todayKey())!;
+    showToast("Drafted today's log from a recurring template", { label: 'Open', run: () => openRecord('logs', log.id) });
+  }, [storageStatus, activeInternId, user.role]);
+
+  const dismissToast = (id: string) => setToasts(prev => prev.filter(t => t.id !== id));
+
+  const showToast = (message: string, action?: Toast['action']) => {
+    const id = crypto.randomUUID();
+    setToasts(prev => [...prev, { id, message, action }].slice(-MAX_TOASTS));
+    window.setTimeout(() => dismissToast(id), TOAST_DURATION_MS);
+  };
+
+  // Makes an undoable change to the workspace; returns the id of its history entry
+  const change = (label: string, update: (prev: AppData) => AppData) => {
+    const entryId = crypto.randomUUID();
+    setData(prev => markChange(update(prev), entryId, label));
+    return entryId;
+  };
+
+  // Without an id these step through the history in order; a toast's button names its own entry
+  const undo = (entryId?: string) => {
+    const entry = entryId ? history.past.find(e => e.id === entryId) : history.past[history.past.length - 1];
+    if (!entry) return showToast('Nothing to undo');
+    // An entry that can't be applied any more is dropped, so older ones can still be undone
+    const blocked = checkHistoryEntry(data, entry, 'undo', user.role);
+    if (blocked) {
+      setHistory(h => ({ ...h, past: h.past.filter(e => e.id !== entry.id) }));
+      return showToast(`Can't undo ${entry.label}: ${blocked}`);
+    }
+    setHistory(h => ({ past: h.past.filter(e => e.id !== entry.id), future: [entry, ...h.future] }));
+    setData(prev => applyHistoryEntry(prev, entry, 'undo'));
+    showToast(`Undone: ${entry.label}`, { label: 'Redo', run: () => redoRef.current(entry.id) });
+  };
+
+  const redo = (entryId?: string) => {
+    const entry = entryId ? history.future.find(e => e.id === entryId) : history.future[0];
+    if (!entry) return showToast('Nothing to redo');
+    const blocked = checkHistoryEntry(data, entry, 'redo', user.role);
+    if (blocked) {
+      setHistory(h => ({ ...h, future: h.future.filter(e => e.id !== entry.id) }));
+      return showToast(`Can't redo ${entry.label}: ${blocked}`);
+    }
+    setHistory(h => ({ past: [...h.past, entry], future: h.future.filter(e => e.id !== entry.id) }));
+    setData(prev => applyHistoryEntry(prev, entry, 'redo'));
+    showToast(`Redone: ${entry.label}`, { label: 'Undo', run: () => undoRef.current(entry.id) });
+  };
+
+  const undoRef = useRef(undo);
+  undoRef.current = undo;
+  const redoRef = useRef(redo);
+  redoRef.current = redo;
+
+  const undoAction = (entryId: string): Toast['action'] => ({ label: 'Undo', run: () => undoRef.current(entryId) });
 
   // Actions
+  // Saves go through the sync layer's touch(), which stamps them for replication
   const saveLog = (log: DailyLog) => {
-    setData(prev => {
+    log = touch({ ...log, tags: normalizeTags(log.tags, data.settings.tags) });
+    change('Save Log', prev => {
       const exists = prev.logs.find(l => l.id === log.id);
+      if (isLocked(exists?.review)) return prev; // Approved entries stay as approved
       const newLogs = exists 
         ? prev.logs.map(l => l.id === log.id ? log : l)
         : [log, ...prev.logs];
@@ -73,14 +261,27 @@ const App: React.FC = () => {
     });
   };
 
+  // Deleted records go to the trash, with a toast to take it back
+  const trashRecord = (collection: TrashCollection, id: string) => {
+    const entryId = change(`Delete ${RECORD_NOUNS[collection]}`, prev => moveToTrash(prev, collection, id));
+    showToast(`${RECORD_NOUNS[collection]} moved to trash`, undoAction(entryId));
+  };
+
   const deleteLog = (id: string) => {
     // Confirmation is now handled by the UI component (Logbook.tsx)
-    setData(prev => ({ ...prev, logs: prev.logs.filter(l => l.id !== id) }));
+    if (isLocked(data.logs.find(l => l.id === id)?.review)) return;
+    trashRecord('logs', id);
+  };
+
+  const reviewLog = (id: string, review: Review) => {
+    change('Review Log', prev => ({ ...prev, logs: prev.logs.map(l => l.id === id ? touch({ ...l, review }) : l) }));
   };
 
   const saveReport = (report: MonthlyReport) => {
-    setData(prev => {
+    report = touch(report);
+    change('Save Report', prev => {
       const exists = prev.reports.find(r => r.id === report.id);
+      if (isLocked(exists?.review)) return prev;
       const newReports = exists 
         ? prev.reports.map(r => r.id === report.id ? report : r)
         : [...prev.reports, report];
@@ -89,12 +290,17 @@ const App: React.FC = () => {
   };
 
   const deleteReport = (id: string) => {
-    if(confirm("Delete this report?"))
-    setData(prev => ({ ...prev, reports: prev.reports.filter(r => r.id !== id) }));
+    if (isLocked(data.reports.find(r => r.id === id)?.review)) return;
+    trashRecord('reports', id);
+  };
+
+  const reviewReport = (id: string, review: Review) => {
+    change('Review Report', prev => ({ ...prev, reports: prev.reports.map(r => r.id === id ? touch({ ...r, review }) : r) }));
   };
 
   const saveProject = (project: Project) => {
-    setData(prev => {
+    project = touch(project);
+    change('Save Project', prev => {
       const exists = prev.projects.find(p => p.id === project.id);
       const newProjects = exists 
         ? prev.projects.map(p => p.id === project.id ? project : p)
@@ -103,12 +309,314 @@ const App: React.FC = () => {
     });
   };
 
-  const deleteProject = (id: string) => {
-    if(confirm("Delete this project?"))
-    setData(prev => ({ ...prev, projects: prev.projects.filter(p => p.id !== id) }));
+  // Logs and dependent projects lose their link to it until it is restored
+  const deleteProject = (id: string) => trashRecord('projects', id);
+
+  const saveSettings = (settings: WorkspaceSettings) => {
+    change('Change Settings', prev => ({ ...prev, settings }));
+    // Keep the mentor's intern list in step with the profile
+    const name = settings.profile.name.trim();
+    if (interns.some(i => i.id === activeInternId && i.name !== name)) {
+      const next = interns.map(i => i.id === activeInternId ? { ...i, name } : i);
+      setInterns(next);
+      saveInterns(next).catch(reportSaveError);
+    }
+  };
+
+  const actions = { saveLog, deleteLog, reviewLog, saveReport, deleteReport, reviewReport, saveProject, deleteProject };
+
+  const restoreTrashItem = (itemId: string) => {
+    const item = data.trash.find(i => i.id === itemId);
+    if (!item) return;
+    const entryId = change('Restore from Trash', prev => restoreFromTrash(prev, itemId));
+    showToast(`${RECORD_NOUNS[item.collection]} restored`, undoAction(entryId));
+  };
+
+  const deleteTrashItem = (itemId: string) => {
+    const entryId = change('Delete Forever', prev => deleteFromTrash(prev, itemId));
+    showToast('Deleted forever', undoAction(entryId));
+  };
+
+  const emptyTrashItems = () => {
+    const entryId = change('Empty Trash', emptyTrash);
+    showToast('Trash emptied', undoAction(entryId));
+  };
+
+  const changeTagRegistry = (label: string, update: (registry: TagDefinition[]) => TagDefinition[]) =>
+    change(label, prev => ({ ...prev, settings: { ...prev.settings, tags: update(prev.settings.tags) } }));
+
+  // Approved logs keep their tags; the toast says how many were left alone
+  const lockedTagNote = (name: string) => {
+    const locked = countLockedLogsWithTag(data, name);
+    return locked > 0 ? ` (${locked} approved log${locked === 1 ? '' : 's'} unchanged)` : '';
+  };
+
+  const tagActions = {
+    setColor: (name: string, color: TagColor) => changeTagRegistry('Change Tag Color', tags => setTagColor(tags, name, color)),
+    setParent: (name: string, parent: string) => changeTagRegistry('Move Tag', tags => setTagParent(tags, name, parent)),
+    setAliases: (name: string, aliases: string[]) => change('Change Tag Aliases', prev => setTagAliases(prev, name, aliases)),
+    rename: (from: string, to: string) => {
+      const entryId = change('Rename Tag', prev => renameTag(prev, from, to));
+      showToast(`Renamed ${from} to ${to.trim()}${lockedTagNote(from)}`, undoAction(entryId));
+    },
+    merge: (source: string, target: string) => {
+      const entryId = change('Merge Tags', prev => mergeTags(prev, source, target));
+      showToast(`Merged ${source} into ${target}${lockedTagNote(source)}`, undoAction(entryId));
+    },
+    remove: (name: string) => {
+      const entryId = change('Remove Tag', prev => deleteTag(prev, name));
+      showToast(`Removed ${name} from all logs${lockedTagNote(name)}`, undoAction(entryId));
+    },
+  };
+
+  const changeObjectives = (label: string, update: (objectives: Objective[]) => Objective[]) =>
+    change(label, prev => ({ ...prev, settings: { ...prev.settings, objectives: update(prev.settings.objectives) } }));
+
+  const changeSkills = (label: string, update: (skills: SkillAssessment[]) => SkillAssessment[]) =>
+    change(label, prev => ({ ...prev, settings: { ...prev.settings, skills: update(prev.settings.skills) } }));
+
+  const updateSyncSettings = (next: SyncSettings) => {
+    setSyncSettings(next);
+    saveSyncSettings(next);
+  };
+
+  // Pushes queued changes and pulls other devices' changes for the open intern
+  const runSync = async () => {
+    const base = handledRef.current;
+    const intern = interns.find(i => i.id === activeInternId);
+    if (!syncSettings.enabled || storageStatus !== 'ready' || !base || !intern || isSyncingRef.current) return;
+    isSyncingRef.current = true;
+    const internId = intern.id;
+    setSyncStatus(s => ({ ...s, state: 'syncing' }));
+    try {
+      await queuedRef.current;
+      // The handled snapshot is exactly what has been queued
+      const queuedBase = handledRef.current ?? base;
+      const result = await syncWorkspace(intern, queuedBase, syncSettings);
+      if (activeInternRef.current !== internId) {
+        setSyncStatus(s => ({ ...s, state: 'idle' })); // Switched interns mid-sync
+        return;
+      }
+      setData(prev => applySyncResult(prev, queuedBase, result));
+      setConflicts(result.conflicts);
+      setSyncStatus({ state: 'idle', pending: result.pending, lastSyncedAt: result.syncedAt });
+    } catch (e) {
+      console.error("Sync failed", e);
+      const offline = e instanceof SyncError && e.kind === 'network';
+      setSyncStatus(s => ({ ...s, state: offline ? 'offline' : 'error', error: e instanceof Error ? e.message : String(e) }));
+    } finally {
+      isSyncingRef.current = false;
+    }
   };
 
-  const actions = { saveLog, deleteLog, saveReport, deleteReport, saveProject, deleteProject };
+  const runSyncRef = useRef(runSync);
+  runSyncRef.current = runSync;
+
+  // Sync on load, on an interval and when the connection comes back
+  useEffect(() => {
+    if (!syncSettings.enabled) {
+      setSyncStatus(s => ({ ...s, state: 'off' }));
+      return;
+    }
+    if (storageStatus !== 'ready') return;
+    runSyncRef.current();
+    const interval = window.setInterval(() => runSyncRef.current(), SYNC_INTERVAL_MS);
+    const handleOnline = () => runSyncRef.current();
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [syncSettings.enabled, storageStatus, activeInternId]);
+
+  const handleResolveConflict = async (conflict: SyncConflict, keep: SyncRecord | null) => {
+    try {
+      setData(await resolveConflict(activeInternId, conflict, keep));
+      setConflicts(prev => prev.filter(c => c.key !== conflict.key));
+      runSyncRef.current();
+    } catch (e) {
+      reportSaveError(e);
+    }
+  };
+
+  const updateUser = (next: CurrentUser) => {
+    setUser(next);
+    saveCurrentUser(next);
+  };
+
+  const activeIndex = interns.findIndex(i => i.id === activeInternId);
+  // Signs the intern's review comments when the user hasn't set their own name
+  const internName = data.settings.profile.name.trim() || (activeIndex >= 0 ? getInternLabel(interns[activeIndex], activeIndex) : '');
+
+  const updateShortcuts = (next: ShortcutMap) => {
+    setShortcuts(next);
+    saveShortcuts(next);
+  };
+
+  // Reports are addressed by month, logs and projects by id
+  const toRouteId = (view: RecordView, id: string) =>
+    view === 'reports' ? data.reports.find(r => r.id === id)?.month : (view === 'logs' ? data.logs : data.projects).some(r => r.id === id) ? id : undefined;
+  const fromRouteId = (view: RecordView, routeId: string) =>
+    view === 'reports' ? data.reports.find(r => r.month === routeId)?.id : (view === 'logs' ? data.logs : data.projects).find(r => r.id === routeId)?.id;
+
+  const navigate = (next: Route, replace = false) => {
+    const hash = formatRoute(next);
+    if (hash !== window.location.hash) {
+      if (replace) window.history.replaceState(null, '', hash);
+      else window.history.pushState(null, '', hash);
+    }
+    setRoute(next);
+  };
+
+  const setCurrentView = (view: ViewState) => navigate({ view, query: {} });
+
+  // Filter edits replace the current entry so typing a search doesn't flood the history
+  const setFilters = (query: RouteQuery) => navigate({ ...route, query }, true);
+
+  const setRecord = (view: RecordView) => (id: string | null) =>
+    navigate({ view, id: id ? toRouteId(view, id) : undefined, query: route.view === view ? route.query : {} });
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const next = readRoute();
+      setRoute(next);
+      setLinkedRoute(next);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Open (or close) the record named in a linked route once the workspace has loaded
+  useEffect(() => {
+    if (!linkedRoute || storageStatus === 'loading') return;
+    setLinkedRoute(null);
+    const { view, id } = linkedRoute;
+    if (view !== 'logs' && view !== 'reports' && view !== 'projects') return;
+    const recordId = id ? fromRouteId(view, id) : undefined;
+    if (id && !recordId) navigate({ ...linkedRoute, id: undefined }, true); // Deleted or mistyped record
+    setOpenRequest(recordId ? { view, id: recordId } : { view, close: true });
+  }, [linkedRoute, storageStatus]);
+
+  // Opens another intern's workspace. Nothing is saved until it has loaded.
+  const switchIntern = (internId: string) => {
+    if (internId === activeInternId) return;
+    persistedRef.current = null;
+    handledRef.current = null;
+    setStorageStatus('loading');
+    setActiveInternId(internId);
+    saveActiveInternId(internId);
+    setOpenRequest(null);
+    setConflicts([]);
+    setHistory(createHistory());
+    navigate({ view: currentView, query: {} }, true);
+  };
+
+  // Syncs the open intern with the workspace another device uses, then reloads their data
+  const joinSyncWorkspace = (workspaceId: string) => {
+    writeQueueRef.current
+      .then(() => setSyncWorkspace(interns, activeInternId, workspaceId))
+      .then(next => {
+        setInterns(next);
+        persistedRef.current = null;
+        handledRef.current = null;
+        setStorageStatus('loading');
+        setConflicts([]);
+        setHistory(createHistory());
+        setLoadCount(n => n + 1);
+      })
+      .catch(reportSaveError);
+  };
+
+  const handleAddIntern = (name: string) => {
+    addIntern(interns, name)
+      .then(next => {
+        setInterns(next);
+        switchIntern(next[next.length - 1].id);
+      })
+      .catch(reportSaveError);
+  };
+
+  const handleRemoveIntern = (internId: string) => {
+    // After queued writes, so none of them puts the intern's records back
+    writeQueueRef.current
+      .then(() => removeIntern(interns, internId))
+      .then(next => {
+        setInterns(next);
+        if (internId === activeInternId) switchIntern(next[0].id);
+      })
+      .catch(reportSaveError);
+  };
+
+  const openRecord = (view: RecordView, id?: string) => {
+    setRecord(view)(id ?? null);
+    setOpenRequest({ view, id });
+  };
+
+  // The month's report, or a new one for that month
+  const openReportForMonth = (month: string) => {
+    const id = data.reports.find(r => r.month === month)?.id;
+    setRecord('reports')(id ?? null);
+    setOpenRequest({ view: 'reports', id, month });
+  };
+
+  const runCommand = (id: CommandId) => {
+    switch (id) {
+      case 'openPalette': return setIsPaletteOpen(true);
+      case 'showShortcuts': return setIsCheatSheetOpen(true);
+      case 'goDashboard': return setCurrentView('dashboard');
+      case 'goLogs': return setCurrentView('logs');
+      case 'goTimesheet': return setCurrentView('timesheet');
+      case 'goReports': return setCurrentView('reports');
+      case 'goProjects': return setCurrentView('projects');
+      case 'goGoals': return setCurrentView('goals');
+      case 'goSkills': return setCurrentView('skills');
+      case 'goTags': return setCurrentView('tags');
+      case 'goTrash': return setCurrentView('trash');
+      case 'goSettings': return setCurrentView('settings');
+      case 'newLog': {
+        // Today's log already exists: open it instead of starting a duplicate
+        return openRecord('logs', data.logs.find(l => l.date === todayKey())?.id);
+      }
+      case 'newReport': return openRecord('reports');
+      case 'newProject': return openRecord('projects');
+      case 'summarizeMonth': {
+        const id = data.reports.find(r => r.month === todayKey().slice(0, 7))?.id;
+        setRecord('reports')(id ?? null);
+        return setOpenRequest({ view: 'reports', id, summarize: true });
+      }
+      case 'manageTemplates': return setIsTemplatesOpen(true);
+      case 'buildPortfolio': return setIsPortfolioOpen(true);
+      case 'undo': return undo();
+      case 'redo': return redo();
+      case 'toggleTheme': return toggleTheme();
+      case 'toggleSidebar': return setIsSidebarOpen(open => !open);
+    }
+  };
+
+  // Global keyboard shortcuts. Plain keys, and undo/redo, are left alone while typing in a field.
+  const runCommandRef = useRef(runCommand);
+  runCommandRef.current = runCommand;
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const shortcut = eventToShortcut(e);
+      if (!shortcut) return;
+      const command = findCommandForShortcut(shortcuts, shortcut);
+      if (!command) return;
+      if (isTypingTarget(e.target) && (!/^(Mod|Alt)\+/.test(shortcut) || TEXT_EDITING_COMMANDS.includes(command))) return;
+      e.preventDefault();
+      if (command === 'openPalette') {
+        setIsPaletteOpen(open => !open);
+        return;
+      }
+      setIsPaletteOpen(false);
+      setIsCheatSheetOpen(false);
+      runCommandRef.current(command);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcuts]);
+
+  const openRequestFor = (view: RecordView) => openRequest?.view === view ? openRequest : undefined;
 
   // Nav Item Helper
   const NavItem = ({ view, icon: Icon, label }: { view: ViewState, icon: any, label: string }) => (
@@ -134,22 +642,46 @@ const App: React.FC = () => {
             <div className="w-6 h-6 bg-red-600 rounded flex items-center justify-center text-white font-bold text-xs">T</div>
             <span className="font-semibold text-gray-800 dark:text-gray-200 whitespace-nowrap">Telkom DDP</span>
           </div>
-          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 pl-8">Internship Workspace</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 pl-8 truncate">{user.role === 'mentor' && internName ? internName : 'Internship Workspace'}</p>
         </div>
 
         <div className="p-3 space-y-1 flex-1 overflow-y-auto">
           <NavItem view="dashboard" icon={Icons.Dashboard} label="Dashboard" />
           <div className="pt-4 pb-1 pl-3 text-xs font-semibold text-gray-400 uppercase tracking-wider">Databases</div>
           <NavItem view="logs" icon={Icons.Logbook} label="Daily Logbook" />
+          <NavItem view="timesheet" icon={Icons.Clock} label="Weekly Timesheet" />
           <NavItem view="reports" icon={Icons.Report} label="Monthly Reports" />
           <NavItem view="projects" icon={Icons.Project} label="Internship Projects" />
+          <NavItem view="goals" icon={Icons.Target} label="Internship Goals" />
+          <NavItem view="skills" icon={Icons.Skills} label="Skills Matrix" />
+          <div className="pt-4 pb-1 pl-3 text-xs font-semibold text-gray-400 uppercase tracking-wider">Workspace</div>
+          <NavItem view="tags" icon={Icons.Tag} label="Tags" />
+          <NavItem view="trash" icon={Icons.Delete} label={data.trash.length > 0 ? `Trash (${data.trash.length})` : 'Trash'} />
+          <NavItem view="settings" icon={Icons.Settings} label="Settings" />
         </div>
 
         <div className="p-4 border-t border-gray-200/50 dark:border-gray-800/50">
            <div className="flex items-center gap-2 text-xs text-gray-400">
-             <div className="w-2 h-2 rounded-full bg-green-500"></div>
-             Workspace Ready
+             <div className={`w-2 h-2 rounded-full ${
+               storageStatus === 'ready' ? 'bg-green-500' : storageStatus === 'loading' ? 'bg-yellow-400' : 'bg-red-500'
+             }`}></div>
+             {storageStatus === 'ready' ? 'Workspace Ready' : storageStatus === 'loading' ? 'Loading Workspace...' : 'Read-only (not saving)'}
            </div>
+           {syncSettings.enabled && (
+             <button
+               onClick={() => conflicts.length > 0 ? setIsConflictsOpen(true) : runSync()}
+               className={`mt-2 flex items-center gap-2 text-xs hover:text-gray-600 dark:hover:text-gray-200 ${conflicts.length > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-gray-400'}`}
+               title={syncStatus.error || 'Sync now'}
+             >
+               {syncStatus.state === 'offline' ? <Icons.CloudOff className="w-3 h-3" /> : conflicts.length > 0 ? <Icons.Merge className="w-3 h-3" /> : <Icons.Sync className={`w-3 h-3 ${syncStatus.state === 'syncing' ? 'animate-spin' : ''}`} />}
+               {conflicts.length > 0 ? `${conflicts.length} sync conflict${conflicts.length === 1 ? '' : 's'}, resolve...`
+                 : syncStatus.state === 'syncing' ? 'Syncing...'
+                 : syncStatus.state === 'offline' ? `Offline${syncStatus.pending > 0 ? `, ${syncStatus.pending} waiting` : ''}`
+                 : syncStatus.state === 'error' ? 'Sync failed, retry'
+                 : syncStatus.pending > 0 ? `${syncStatus.pending} change${syncStatus.pending === 1 ? '' : 's'} to sync`
+                 : 'Synced'}
+             </button>
+           )}
         </div>
       </aside>
 
@@ -164,11 +696,26 @@ const App: React.FC = () => {
               <span className="text-sm text-gray-600 dark:text-gray-300 font-medium">
                 {currentView === 'dashboard' ? 'Magang Telkom DDP Dashboard' : 
                  currentView === 'logs' ? 'Daily Logbook' : 
-                 currentView === 'reports' ? 'Monthly Reports' : 'Internship Projects'}
+                 currentView === 'timesheet' ? 'Weekly Timesheet' :
+                 currentView === 'reports' ? 'Monthly Reports' : 
+                 currentView === 'projects' ? 'Internship Projects' :
+                 currentView === 'goals' ? 'Internship Goals' :
+                 currentView === 'skills' ? 'Skills Matrix' :
+                 currentView === 'tags' ? 'Tags' :
+                 currentView === 'trash' ? 'Trash' : 'Settings'}
               </span>
             </div>
             
             <div className="flex items-center gap-4">
+              <button
+                onClick={() => setIsPaletteOpen(true)}
+                className="hidden sm:flex items-center gap-2 px-2 py-1 rounded-md border border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+                title="Command palette"
+              >
+                <Icons.Search className="w-3.5 h-3.5" /> Search
+                {shortcuts.openPalette && <kbd className="font-sans text-[10px] text-gray-400">{formatShortcut(shortcuts.openPalette)}</kbd>}
+              </button>
+              <ExportMenu data={data} onImport={() => setIsImportOpen(true)} canImport={storageStatus === 'ready'} />
               <button 
                 onClick={toggleTheme}
                 className="p-1.5 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400 transition-colors"
@@ -176,19 +723,127 @@ const App: React.FC = () => {
               >
                 {theme === 'light' ? <Icons.Moon className="w-4 h-4" /> : <Icons.Sun className="w-4 h-4" />}
               </button>
-              <div className="w-6 h-6 rounded-full bg-indigo-600 text-white flex items-center justify-center text-xs">Me</div>
+              <UserMenu
+                user={user}
+                onUserChange={updateUser}
+                interns={interns}
+                activeInternId={activeInternId}
+                onSwitchIntern={switchIntern}
+                onAddIntern={handleAddIntern}
+                onRemoveIntern={handleRemoveIntern}
+                canEdit={storageStatus === 'ready'}
+              />
             </div>
          </header>
 
          <div className="flex-1 overflow-y-auto p-4 md:p-8 lg:px-12">
             <div className="max-w-5xl mx-auto">
-              {currentView === 'dashboard' && <Dashboard data={data} actions={actions} />}
-              {currentView === 'logs' && <Logbook logs={data.logs} onSave={actions.saveLog} onDelete={actions.deleteLog} />}
-              {currentView === 'reports' && <Reports reports={data.reports} logs={data.logs} onSave={actions.saveReport} onDelete={actions.deleteReport} />}
-              {currentView === 'projects' && <Projects projects={data.projects} onSave={actions.saveProject} onDelete={actions.deleteProject} />}
+              {storageError && (
+                <div className="mb-6 flex items-start gap-3 p-4 rounded-lg border border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+                  <Icons.Alert className="w-5 h-5 shrink-0 mt-0.5" />
+                  <div>
+                    <p className="font-semibold">{storageError}</p>
+                    {storageStatus === 'error' && (
+                      <p className="mt-1 text-red-600/80 dark:text-red-300/80">
+                        Your existing data has been left untouched. Changes made in this session will not be saved.
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+              {currentView === 'dashboard' && <Dashboard data={data} actions={actions} user={user} internName={internName} internId={activeInternId} />}
+              {currentView === 'logs' && <Logbook logs={data.logs} projects={data.projects} onSave={actions.saveLog} onDelete={actions.deleteLog} calendar={data.settings.calendar} openRequest={openRequestFor('logs')} onOpenHandled={() => setOpenRequest(null)} user={user} internName={internName} internId={activeInternId} onReview={actions.reviewLog} filters={route.query} onFiltersChange={setFilters} onRecordChange={setRecord('logs')} templates={data.settings.templates} snippets={data.settings.snippets} tagRegistry={data.settings.tags} />}
+              {currentView === 'timesheet' && <Timesheet logs={data.logs} projects={data.projects} settings={data.settings} />}
+              {currentView === 'reports' && <Reports reports={data.reports} logs={data.logs} projects={data.projects} profile={data.settings.profile} onSave={actions.saveReport} onDelete={actions.deleteReport} openRequest={openRequestFor('reports')} onOpenHandled={() => setOpenRequest(null)} onRecordChange={setRecord('reports')} user={user} internName={internName} onReview={actions.reviewReport} templates={data.settings.templates} objectives={data.settings.objectives} tagRegistry={data.settings.tags} />}
+              {currentView === 'projects' && <Projects projects={data.projects} logs={data.logs} onSave={actions.saveProject} onDelete={actions.deleteProject} openRequest={openRequestFor('projects')} onOpenHandled={() => setOpenRequest(null)} filters={route.query} onFiltersChange={setFilters} onRecordChange={setRecord('projects')} templates={data.settings.templates} onBuildPortfolio={() => setIsPortfolioOpen(true)} />}
+              {currentView === 'goals' && (
+                <Goals
+                  objectives={data.settings.objectives}
+                  logs={data.logs}
+                  projects={data.projects}
+                  reports={data.reports}
+                  registry={data.settings.tags}
+                  onSave={objective => changeObjectives('Save Goal', objectives =>
+                    objectives.some(o => o.id === objective.id) ? objectives.map(o => o.id === objective.id ? objective : o) : [...objectives, objective])}
+                  onDelete={id => changeObjectives('Delete Goal', objectives => objectives.filter(o => o.id !== id))}
+                  onCheckIn={(objectiveId, keyResultId, value) => changeObjectives('Check In', objectives => objectives.map(o => o.id !== objectiveId ? o : {
+                    ...o,
+                    keyResults: o.keyResults.map(kr => kr.id === keyResultId ? checkInKeyResult(kr, todayKey(), value) : kr),
+                  }))}
+                  onOpenReport={openReportForMonth}
+                />
+              )}
+              {currentView === 'skills' && (
+                <Skills
+                  logs={data.logs}
+                  projects={data.projects}
+                  registry={data.settings.tags}
+                  assessments={data.settings.skills}
+                  onAssess={(name, changes) => changeSkills('Assess Skill', skills => setSkillAssessment(skills, name, changes))}
+                  onRemove={name => changeSkills('Remove Skill', skills => removeSkillAssessment(skills, name))}
+                  onOpenProject={id => openRecord('projects', id)}
+                />
+              )}
+              {currentView === 'tags' && (
+                <Tags
+                  logs={data.logs}
+                  registry={data.settings.tags}
+                  onSetColor={tagActions.setColor}
+                  onSetParent={tagActions.setParent}
+                  onSetAliases={tagActions.setAliases}
+                  onRename={tagActions.rename}
+                  onMerge={tagActions.merge}
+                  onDelete={tagActions.remove}
+                  onOpenLogs={tag => navigate({ view: 'logs', query: { tag } })}
+                />
+              )}
+              {currentView === 'trash' && <Trash trash={data.trash} onRestore={restoreTrashItem} onDelete={deleteTrashItem} onEmpty={emptyTrashItems} />}
+              {currentView === 'settings' && <Settings settings={data.settings} onSave={saveSettings} shortcuts={shortcuts} onShortcutsChange={updateShortcuts} sync={syncSettings} onSyncChange={updateSyncSettings} syncStatus={syncStatus} onSyncNow={runSync} onManageTemplates={() => setIsTemplatesOpen(true)} workspaceId={interns.find(i => i.id === activeInternId)?.workspaceId ?? ''} onJoinWorkspace={joinSyncWorkspace} />}
             </div>
          </div>
       </main>
+
+      {isImportOpen && (
+        <ImportDialog data={data} onApply={next => change('Import Backup', () => next)} onClose={() => setIsImportOpen(false)} />
+      )}
+
+      {isPaletteOpen && (
+        <CommandPalette
+          data={data}
+          shortcuts={shortcuts}
+          onRunCommand={runCommand}
+          onOpenRecord={openRecord}
+          onClose={() => setIsPaletteOpen(false)}
+        />
+      )}
+
+      {isConflictsOpen && (
+        <SyncConflicts conflicts={conflicts} onResolve={handleResolveConflict} onClose={() => setIsConflictsOpen(false)} />
+      )}
+
+      {isCheatSheetOpen && <ShortcutCheatSheet shortcuts={shortcuts} onClose={() => setIsCheatSheetOpen(false)} />}
+
+      {isTemplatesOpen && (
+        <TemplateManager
+          templates={data.settings.templates}
+          snippets={data.settings.snippets}
+          projects={data.projects}
+          logs={data.logs}
+          tagRegistry={data.settings.tags}
+          onChange={(templates, snippets) => change('Edit Templates', prev => ({ ...prev, settings: { ...prev.settings, templates, snippets } }))}
+          onClose={() => setIsTemplatesOpen(false)}
+        />
+      )}
+
+      {isPortfolioOpen && (
+        <PortfolioBuilder
+          data={data}
+          onChange={portfolio => change('Edit Portfolio', prev => ({ ...prev, settings: { ...prev.settings, portfolio } }))}
+          onClose={() => setIsPortfolioOpen(false)}
+        />
+      )}
+
+      <Toasts toasts={toasts} onDismiss={dismissToast} />
     </div>
   );
 };
@@ -0,0 +1,136 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Icons } from './ui/Icons';
+import { applyChanges, diffWords, getChangeIds } from '../services/textDiff';
+
+interface AISuggestionPanelProps {
+  title: string;
+  original: string;
+  suggestion: string;
+  isStreaming: boolean;
+  error?: string;
+  onStop: () => void;
+  onAccept: (text: string) => void;
+  onReject: () => void;
+}
+
+// Side panel that streams an AI suggestion and then lets the user review it as a word diff
+export const AISuggestionPanel: React.FC<AISuggestionPanelProps> = ({
+  title, original, suggestion, isStreaming, error, onStop, onAccept, onReject
+}) => {
+  const segments = useMemo(() => isStreaming ? [] : diffWords(original, suggestion), [original, suggestion, isStreaming]);
+  const changeIds = useMemo(() => getChangeIds(segments), [segments]);
+  const [accepted, setAccepted] = useState<Set<number>>(new Set());
+
+  // Every change starts out accepted once the suggestion is complete
+  useEffect(() => { setAccepted(new Set(changeIds)); }, [changeIds]);
+
+  const toggleChange = (id: number) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const hasSuggestion = !isStreaming && suggestion.length > 0;
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-[60] w-full max-w-md bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700 shadow-2xl flex flex-col">
+      <div className="flex justify-between items-center px-5 py-4 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <Icons.AI className={`w-4 h-4 text-purple-600 dark:text-purple-400 ${isStreaming ? 'animate-spin' : ''}`} />
+          {title}
+        </h3>
+        <button onClick={onReject} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" title="Discard suggestion">
+          <Icons.Close className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-5 text-sm">
+        {error && (
+          <div className="flex items-start gap-2 p-3 mb-4 rounded-md bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300">
+            <Icons.Alert className="w-4 h-4 shrink-0 mt-0.5" /> {error}
+          </div>
+        )}
+
+        {isStreaming ? (
+          <p className="whitespace-pre-wrap text-gray-800 dark:text-gray-100">
+            {suggestion}
+            <span className="inline-block w-1.5 h-4 align-text-bottom bg-purple-500 animate-pulse ml-0.5" />
+          </p>
+        ) : hasSuggestion && (
+          <>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              {changeIds.length === 0
+                ? 'The suggestion is identical to your draft.'
+                : `${accepted.size} of ${changeIds.length} changes selected. Click a change to include or skip it.`}
+            </p>
+            <div className="whitespace-pre-wrap leading-relaxed text-gray-800 dark:text-gray-100">
+              {segments.map((segment, i) => segment.kind === 'equal' ? (
+                <span key={i}>{segment.text}</span>
+              ) : (
+                <span
+                  key={i}
+                  onClick={() => toggleChange(segment.id)}
+                  className={`cursor-pointer rounded-sm ${accepted.has(segment.id) ? '' : 'opacity-50'}`}
+                  title={accepted.has(segment.id) ? 'Click to keep your original wording' : 'Click to use the suggestion'}
+                >
+                  {segment.removed && (
+                    <del className={accepted.has(segment.id)
+                      ? 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300'
+                      : 'no-underline bg-gray-100 dark:bg-gray-700'}
+                    >
+                      {segment.removed}
+                    </del>
+                  )}
+                  {segment.added && (
+                    <ins className={accepted.has(segment.id)
+                      ? 'no-underline bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300'
+                      : 'line-through text-gray-400'}
+                    >
+                      {segment.added}
+                    </ins>
+                  )}
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="px-5 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-2">
+        {isStreaming ? (
+          <button
+            onClick={onStop}
+            className="px-4 py-2 text-sm font-medium text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-md"
+          >
+            Stop
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={onReject}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+            >
+              Reject
+            </button>
+            <button
+              onClick={() => onAccept(applyChanges(segments, accepted))}
+              disabled={!hasSuggestion || accepted.size === 0 || accepted.size === changeIds.length}
+              className="px-4 py-2 text-sm font-medium text-purple-700 dark:text-purple-300 border border-purple-300 dark:border-purple-700 rounded-md hover:bg-purple-50 dark:hover:bg-purple-900/30 disabled:opacity-50"
+            >
+              Accept Selected
+            </button>
+            <button
+              onClick={() => onAccept(suggestion)}
+              disabled={!hasSuggestion || changeIds.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 dark:bg-purple-500 dark:hover:bg-purple-600 rounded-md shadow-sm disabled:opacity-50"
+            >
+              Accept All
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { DailyLog, Project } from '../types';
+import { Icons } from './ui/Icons';
+import { askLogbook, LogbookAnswer } from '../services/logbookQA';
+import { AIError } from '../services/aiProvider';
+import { parseDateKey } from '../services/calendar';
+
+interface AskLogbookProps {
+  logs: DailyLog[];
+  projects: Project[];
+  semantic: boolean;
+  internId: string;
+  onOpenLog: (log: DailyLog) => void;
+}
+
+const inputClass = "w-full border border-gray-400 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none placeholder-gray-500 dark:placeholder-gray-400";
+
+// Question box that answers from retrieved log entries and links to the ones it cites
+export const AskLogbook: React.FC<AskLogbookProps> = ({ logs, projects, semantic, internId, onOpenLog }) => {
+  const [question, setQuestion] = useState('');
+  const [result, setResult] = useState<LogbookAnswer | null>(null);
+  const [error, setError] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleAsk = async () => {
+    if (!question.trim()) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsAsking(true);
+    setError('');
+    setResult(null);
+    try {
+      setResult(await askLogbook(question, logs, projects, semantic, internId, controller.signal));
+    } catch (err) {
+      if (!(err instanceof AIError && err.kind === 'aborted')) {
+        setError(err instanceof Error ? err.message : 'Could not answer the question.');
+      }
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const logsById = new Map(logs.map(l => [l.id, l]));
+  const cited = result ? result.sourceIds.map(id => logsById.get(id)).filter((l): l is DailyLog => !!l) : [];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 border border-purple-200 dark:border-purple-900/50 rounded-lg p-4 space-y-3">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder='Ask your logbook, e.g. "When did I first work with Kubernetes?"'
+          value={question}
+          onChange={e => setQuestion(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && !isAsking && handleAsk()}
+          className={inputClass}
+        />
+        {isAsking ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="px-4 py-2 text-sm font-medium text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-md"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleAsk}
+            disabled={!question.trim()}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 dark:bg-purple-500 dark:hover:bg-purple-600 rounded-md disabled:opacity-50"
+          >
+            <Icons.AI className="w-4 h-4" /> Ask
+          </button>
+        )}
+      </div>
+
+      {isAsking && <p className="text-sm text-gray-500 dark:text-gray-400">Searching your logs...</p>}
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 rounded-md text-sm bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300">
+          <Icons.Alert className="w-4 h-4 shrink-0 mt-0.5" /> {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-800 dark:text-gray-100 whitespace-pre-wrap">{result.answer}</p>
+          {result.retrievedIds.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+              {cited.length > 0 ? 'Based on:' : `No entry cited out of ${result.retrievedIds.length} retrieved.`}
+              {cited.map(log => (
+                <button
+                  key={log.id}
+                  onClick={() => onOpenLog(log)}
+                  title={log.activity.split('\n').find(l => l.trim()) || ''}
+                  className="px-2 py-0.5 rounded border border-purple-200 dark:border-purple-800 bg-purple-50 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 hover:bg-purple-100 dark:hover:bg-purple-900/50"
+                >
+                  {parseDateKey(log.date).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
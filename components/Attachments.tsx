@@ -0,0 +1,218 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Attachment } from '../types';
+import { Icons } from './ui/Icons';
+import {
+  ACCEPTED_FILE_TYPES,
+  saveAttachmentFile,
+  getAttachmentBlob,
+  downloadAttachment,
+  formatFileSize,
+  isImageAttachment,
+  isPdfAttachment
+} from '../services/attachmentStore';
+
+interface AttachmentsProps {
+  attachments: Attachment[];
+  onChange: (attachments: Attachment[]) => void;
+  label?: string;
+  readOnly?: boolean; // Files can be previewed and downloaded but not added or removed
+}
+
+export const Attachments: React.FC<AttachmentsProps> = ({ attachments, onChange, label = 'Attachments', readOnly = false }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [previewing, setPreviewing] = useState<Attachment | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Load object URLs for image thumbnails
+  useEffect(() => {
+    let cancelled = false;
+    const urls: string[] = [];
+
+    Promise.all(attachments.filter(isImageAttachment).map(async a => {
+      const blob = await getAttachmentBlob(a.id).catch(() => undefined);
+      if (!blob) return null;
+      const url = URL.createObjectURL(blob);
+      urls.push(url);
+      return [a.id, url] as const;
+    })).then(entries => {
+      if (cancelled) return;
+      setThumbnails(Object.fromEntries(entries.filter((e): e is readonly [string, string] => e !== null)));
+    });
+
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [attachments]);
+
+  // Object URL for the preview overlay
+  useEffect(() => {
+    if (!previewing) return;
+    let cancelled = false;
+    let url: string | null = null;
+    getAttachmentBlob(previewing.id).then(blob => {
+      if (cancelled) return;
+      if (!blob) {
+        setError(`File "${previewing.name}" is missing from this browser's storage.`);
+        setPreviewing(null);
+        return;
+      }
+      url = URL.createObjectURL(blob);
+      setPreviewUrl(url);
+    }).catch(e => {
+      if (cancelled) return;
+      setError(`Could not open "${previewing.name}": ${e instanceof Error ? e.message : 'reading the file failed.'}`);
+      setPreviewing(null);
+    });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setPreviewUrl(null);
+    };
+  }, [previewing]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setError(null);
+    setIsUploading(true);
+
+    const added: Attachment[] = [];
+    const failures: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        added.push(await saveAttachmentFile(file));
+      } catch (e) {
+        failures.push(e instanceof Error ? e.message : `Could not store "${file.name}".`);
+      }
+    }
+
+    if (added.length > 0) onChange([...attachments, ...added]);
+    if (failures.length > 0) setError(failures.join(' '));
+    setIsUploading(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(e.dataTransfer.files);
+  };
+
+  const handleDownload = async (attachment: Attachment) => {
+    try {
+      await downloadAttachment(attachment);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Download failed.');
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    // The blob itself is cleaned up on next load once nothing references it,
+    // so cancelling the surrounding form does not lose the file.
+    onChange(attachments.filter(a => a.id !== id));
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+
+      {!readOnly && (
+        <div
+          onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          onClick={() => fileInputRef.current?.click()}
+          className={`border-2 border-dashed rounded-lg px-4 py-5 text-center cursor-pointer transition-colors ${
+            isDragging
+              ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+              : 'border-gray-300 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-500'
+          }`}
+        >
+          <Icons.Upload className="w-5 h-5 mx-auto mb-1 text-gray-400 dark:text-gray-500" />
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {isUploading ? 'Uploading...' : 'Drop files here or click to upload'}
+          </p>
+          <p className="text-xs text-gray-400 dark:text-gray-500">Images, PDFs and Office documents</p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ACCEPTED_FILE_TYPES}
+            className="hidden"
+            onChange={e => { handleFiles(e.target.files); e.target.value = ''; }}
+          />
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+      {readOnly && attachments.length === 0 && <p className="text-sm text-gray-400 dark:text-gray-500">No files.</p>}
+
+      {attachments.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {attachments.map(attachment => {
+            const canPreview = isImageAttachment(attachment) || isPdfAttachment(attachment);
+            return (
+              <li key={attachment.id} className="flex items-center gap-3 p-2 rounded-md border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/40">
+                {thumbnails[attachment.id] ? (
+                  <img src={thumbnails[attachment.id]} alt={attachment.name} className="w-10 h-10 object-cover rounded" />
+                ) : (
+                  <div className="w-10 h-10 rounded bg-gray-200 dark:bg-gray-600 flex items-center justify-center text-gray-500 dark:text-gray-300">
+                    {isImageAttachment(attachment) ? <Icons.Image className="w-4 h-4" /> : <Icons.File className="w-4 h-4" />}
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-800 dark:text-gray-100 truncate" title={attachment.name}>{attachment.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(attachment.size)}</p>
+                </div>
+                {canPreview && (
+                  <button onClick={() => setPreviewing(attachment)} className="p-1 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200" title="Preview">
+                    <Icons.Preview className="w-4 h-4" />
+                  </button>
+                )}
+                <button onClick={() => handleDownload(attachment)} className="p-1 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200" title="Download">
+                  <Icons.Download className="w-4 h-4" />
+                </button>
+                {!readOnly && (
+                  <button onClick={() => handleRemove(attachment.id)} className="p-1 text-gray-400 hover:text-red-500" title="Remove">
+                    <Icons.Delete className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Preview Overlay */}
+      {previewing && (
+        <div className="fixed inset-0 z-[60] flex justify-center items-center bg-black/60 backdrop-blur-sm p-4" onClick={() => setPreviewing(null)}>
+          <div className="w-full max-w-4xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+            <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+              <span className="text-sm font-medium text-gray-800 dark:text-gray-100 truncate">{previewing.name}</span>
+              <div className="flex items-center gap-2">
+                <button onClick={() => handleDownload(previewing)} className="p-1 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200" title="Download">
+                  <Icons.Download className="w-4 h-4" />
+                </button>
+                <button onClick={() => setPreviewing(null)} className="p-1 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200">
+                  <Icons.Close className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+            <div className="flex-1 overflow-auto bg-gray-100 dark:bg-gray-900 flex items-center justify-center">
+              {!previewUrl ? (
+                <p className="p-12 text-sm text-gray-500">Loading preview...</p>
+              ) : isImageAttachment(previewing) ? (
+                <img src={previewUrl} alt={previewing.name} className="max-w-full max-h-[80vh] object-contain" />
+              ) : (
+                <iframe src={previewUrl} title={previewing.name} className="w-full h-[80vh] bg-white" />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,252 @@
+import React, { useState, useMemo } from 'react';
+import { AttendanceLimits, AttendanceStatus, CalendarSettings, DailyLog } from '../types';
+import { Icons } from './ui/Icons';
+import { MissingLogDays } from './MissingLogDays';
+import {
+  getMonthlyAttendance,
+  countAttendance,
+  checkAttendanceLimits,
+  buildHeatmap
+} from '../services/attendance';
+import {
+  findMissingLogDays,
+  getTrackingStart,
+  getDayInfo,
+  getHolidays,
+  parseDateKey,
+  toDateKey,
+  todayKey,
+  addDays
+} from '../services/calendar';
+
+interface AttendanceAnalyticsProps {
+  logs: DailyLog[];
+  limits: AttendanceLimits;
+  calendar: CalendarSettings;
+  onCreateDraft: (date: string) => void;
+}
+
+const HEATMAP_WEEKS = 26;
+
+const STATUS_STYLES: Record<AttendanceStatus, { tile: string; cell: string; bar: string }> = {
+  [AttendanceStatus.Present]: {
+    tile: 'text-green-700 dark:text-green-300',
+    cell: 'bg-green-500 dark:bg-green-600',
+    bar: 'bg-green-500'
+  },
+  [AttendanceStatus.WFH]: {
+    tile: 'text-blue-700 dark:text-blue-300',
+    cell: 'bg-blue-500 dark:bg-blue-600',
+    bar: 'bg-blue-500'
+  },
+  [AttendanceStatus.Permission]: {
+    tile: 'text-yellow-700 dark:text-yellow-300',
+    cell: 'bg-yellow-400 dark:bg-yellow-500',
+    bar: 'bg-yellow-400'
+  },
+  [AttendanceStatus.Sick]: {
+    tile: 'text-red-700 dark:text-red-300',
+    cell: 'bg-red-500 dark:bg-red-600',
+    bar: 'bg-red-500'
+  },
+};
+
+const limitFor = (status: AttendanceStatus, limits: AttendanceLimits) =>
+  status === AttendanceStatus.Sick ? limits.maxSickDays
+    : status === AttendanceStatus.Permission ? limits.maxPermissionDays
+    : status === AttendanceStatus.WFH ? limits.maxWfhDays
+    : 0;
+
+const monthLabel = (month: string, format: 'long' | 'short' = 'long') =>
+  new Date(month + '-01').toLocaleDateString(undefined, { month: format, year: 'numeric' });
+
+export const AttendanceAnalytics: React.FC<AttendanceAnalyticsProps> = ({ logs, limits, calendar, onCreateDraft }) => {
+  const currentMonth = toDateKey(new Date()).slice(0, 7);
+  const [selectedMonth, setSelectedMonth] = useState(currentMonth);
+
+  const monthly = useMemo(() => getMonthlyAttendance(logs), [logs]);
+
+  const monthOptions = useMemo(() => {
+    const months = new Set([currentMonth, ...monthly.map(m => m.month)]);
+    return Array.from(months).sort().reverse();
+  }, [monthly, currentMonth]);
+
+  const monthLogs = useMemo(() => logs.filter(l => l.date.startsWith(selectedMonth)), [logs, selectedMonth]);
+  const counts = useMemo(() => countAttendance(monthLogs), [monthLogs]);
+  const warnings = useMemo(() => checkAttendanceLimits(counts, limits), [counts, limits]);
+
+  const monthStart = `${selectedMonth}-01`;
+  const monthEnd = toDateKey(new Date(parseDateKey(monthStart).getFullYear(), parseDateKey(monthStart).getMonth() + 1, 0));
+
+  // Working days without a log, from the internship start (or month start) up to yesterday
+  const missingDays = useMemo(() => {
+    const trackingStart = getTrackingStart(logs, calendar);
+    if (!trackingStart) return [];
+    const yesterday = addDays(todayKey(), -1);
+    const start = trackingStart > monthStart ? trackingStart : monthStart;
+    const end = monthEnd < yesterday ? monthEnd : yesterday;
+    return findMissingLogDays(logs, start, end, calendar);
+  }, [logs, calendar, monthStart, monthEnd]);
+
+  const holidays = useMemo(() => getHolidays(monthStart, monthEnd), [monthStart, monthEnd]);
+
+  const heatmap = useMemo(() => buildHeatmap(logs, HEATMAP_WEEKS), [logs]);
+
+  return (
+    <div className="space-y-6">
+      {/* The dashboard card around this already carries the heading */}
+      <div className="flex justify-end">
+        <select
+          value={selectedMonth}
+          onChange={e => setSelectedMonth(e.target.value)}
+          className="border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+        >
+          {monthOptions.map(m => <option key={m} value={m}>{monthLabel(m)}</option>)}
+        </select>
+      </div>
+
+      {/* Status Tiles */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {Object.values(AttendanceStatus).map(status => {
+          const limit = limitFor(status, limits);
+          const used = counts[status];
+          return (
+            <div key={status} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/30">
+              <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{status}</div>
+              <div className={`text-2xl font-bold ${STATUS_STYLES[status].tile}`}>
+                {used}
+                {limit > 0 && <span className="text-sm font-normal text-gray-400 dark:text-gray-500"> / {limit}</span>}
+              </div>
+              {limit > 0 && (
+                <div className="mt-2 h-1.5 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${used > limit ? 'bg-red-600' : STATUS_STYLES[status].bar}`}
+                    style={{ width: `${Math.min(100, (used / limit) * 100)}%` }}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Quota Warnings */}
+      {warnings.length > 0 && (
+        <div className="space-y-2">
+          {warnings.map(w => (
+            <div
+              key={w.status}
+              className={`flex items-center gap-2 p-3 rounded-md text-sm ${
+                w.level === 'exceeded'
+                  ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+                  : 'bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300'
+              }`}
+            >
+              <Icons.Alert className="w-4 h-4 shrink-0" />
+              {w.level === 'exceeded'
+                ? `${w.status} limit exceeded: ${w.used} days used of ${w.limit} allowed in ${monthLabel(selectedMonth)}.`
+                : `${w.status} days are close to the limit: ${w.used} of ${w.limit} used in ${monthLabel(selectedMonth)}.`}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Heatmap */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Logged Days (last {HEATMAP_WEEKS} weeks)</h3>
+        <div className="overflow-x-auto">
+          <div className="flex gap-[3px]">
+            {heatmap.map((week, wi) => (
+              <div key={wi} className="flex flex-col gap-[3px]">
+                {week.map(day => {
+                  const info = getDayInfo(day.date, calendar);
+                  const offDay = info.kind !== 'workday';
+                  return (
+                    <div
+                      key={day.date}
+                      title={`${day.date}: ${day.log ? day.log.attendance : day.unconfirmed ? 'draft, not confirmed' : 'no log'}${info.label ? ` (${info.label})` : ''}`}
+                      className={`w-3 h-3 rounded-sm ${
+                        day.isFuture ? 'bg-transparent'
+                          : day.log ? STATUS_STYLES[day.log.attendance].cell
+                          : day.unconfirmed ? 'bg-white dark:bg-gray-800 border border-dashed border-orange-400'
+                          : offDay ? 'bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700'
+                          : 'bg-gray-200 dark:bg-gray-700'
+                      }`}
+                    />
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-gray-500 dark:text-gray-400">
+          {Object.values(AttendanceStatus).map(status => (
+            <span key={status} className="flex items-center gap-1">
+              <span className={`w-2.5 h-2.5 rounded-sm ${STATUS_STYLES[status].cell}`} /> {status}
+            </span>
+          ))}
+          <span className="flex items-center gap-1">
+            <span className="w-2.5 h-2.5 rounded-sm bg-gray-200 dark:bg-gray-700" /> No log
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-2.5 h-2.5 rounded-sm bg-white dark:bg-gray-800 border border-dashed border-orange-400" /> Unconfirmed draft
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-2.5 h-2.5 rounded-sm bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700" /> Weekend / holiday / leave
+          </span>
+        </div>
+      </div>
+
+      {/* Missing Days */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+          Working Days Without a Log ({missingDays.length})
+        </h3>
+        {missingDays.length === 0 ? (
+          <p className="text-sm text-gray-400 dark:text-gray-500">Every working day in {monthLabel(selectedMonth)} so far has a log.</p>
+        ) : (
+          <MissingLogDays
+            days={missingDays}
+            onCreateDraft={onCreateDraft}
+            onCreateAll={() => missingDays.forEach(onCreateDraft)}
+          />
+        )}
+        {holidays.length > 0 && (
+          <p className="mt-3 text-xs text-gray-400 dark:text-gray-500">
+            Public holidays this month: {holidays.map(h => `${parseDateKey(h.date).getDate()} — ${h.label}`).join(', ')}
+          </p>
+        )}
+      </div>
+
+      {/* Monthly Recap */}
+      {monthly.length > 0 && (
+        <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 dark:bg-gray-700 text-gray-500 dark:text-gray-400 font-medium">
+              <tr>
+                <th className="px-4 py-2">Month</th>
+                {Object.values(AttendanceStatus).map(s => <th key={s} className="px-4 py-2 text-right">{s}</th>)}
+                <th className="px-4 py-2 text-right">Total</th>
+                <th className="px-4 py-2 text-right" title="Drafts for missed days, not counted until confirmed">Unconfirmed</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+              {monthly.map(m => (
+                <tr
+                  key={m.month}
+                  onClick={() => setSelectedMonth(m.month)}
+                  className={`cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 ${m.month === selectedMonth ? 'bg-emerald-50/50 dark:bg-emerald-900/10' : ''}`}
+                >
+                  <td className="px-4 py-2 font-medium">{monthLabel(m.month, 'short')}</td>
+                  {Object.values(AttendanceStatus).map(s => <td key={s} className="px-4 py-2 text-right">{m.counts[s]}</td>)}
+                  <td className="px-4 py-2 text-right font-semibold">{m.total}</td>
+                  <td className="px-4 py-2 text-right text-gray-400 dark:text-gray-500">{m.unconfirmed || ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
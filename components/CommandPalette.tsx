@@ -0,0 +1,195 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { AppData, DailyLog, MonthlyReport, Project, RecordView } from '../types';
+import { Icons } from './ui/Icons';
+import { COMMANDS, CommandId, ShortcutMap, formatShortcut } from '../services/commands';
+import { buildIndex, fuzzyMatch, logToDocument, searchDocuments, SearchDocument } from '../services/searchIndex';
+import { parseDateKey } from '../services/calendar';
+import { getPreviewLine } from '../services/markdown';
+
+interface CommandPaletteProps {
+  data: AppData;
+  shortcuts: ShortcutMap;
+  onRunCommand: (id: CommandId) => void;
+  onOpenRecord: (view: RecordView, id: string) => void;
+  onClose: () => void;
+}
+
+interface PaletteItem {
+  key: string;
+  group: string;
+  title: string;
+  subtitle?: string;
+  icon: React.ElementType;
+  shortcut?: string;
+  run: () => void;
+}
+
+const MAX_RECORD_RESULTS = 8;
+
+const COMMAND_ICONS: Record<CommandId, React.ElementType> = {
+  openPalette: Icons.Search,
+  showShortcuts: Icons.Keyboard,
+  goDashboard: Icons.Dashboard,
+  goLogs: Icons.Logbook,
+  goTimesheet: Icons.Clock,
+  goReports: Icons.Report,
+  goProjects: Icons.Project,
+  goGoals: Icons.Target,
+  goSkills: Icons.Skills,
+  goTags: Icons.Tag,
+  goTrash: Icons.Delete,
+  goSettings: Icons.Settings,
+  newLog: Icons.Plus,
+  newReport: Icons.Plus,
+  newProject: Icons.Plus,
+  summarizeMonth: Icons.AI,
+  manageTemplates: Icons.Template,
+  buildPortfolio: Icons.Portfolio,
+  undo: Icons.Undo,
+  redo: Icons.Redo,
+  toggleTheme: Icons.Moon,
+  toggleSidebar: Icons.Dashboard,
+};
+
+// Ctrl/Cmd+K palette: runs commands and jumps to any log, report or project by its content
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ data, shortcuts, onRunCommand, onOpenRecord, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Records are prefixed by kind so one index covers all three databases
+  const index = useMemo(() => {
+    const projectNames = new Map<string, string>(data.projects.map(p => [p.id, p.name]));
+    const documents: SearchDocument[] = [
+      ...data.logs.map(log => {
+        const doc = logToDocument(log, projectNames);
+        return { id: `logs:${log.id}`, fields: [...doc.fields, [log.date, 1]] as SearchDocument['fields'] };
+      }),
+      ...data.reports.map(r => ({
+        id: `reports:${r.id}`,
+        fields: [[r.month, 2], [r.summary, 1], [r.achievements, 1], [r.challengesSolutions, 1], [r.nextMonthPlan, 1]] as SearchDocument['fields'],
+      })),
+      ...data.projects.map(p => ({
+        id: `projects:${p.id}`,
+        fields: [[p.name, 3], [p.techStack.join(' '), 2], [p.description, 1], [p.role, 1], [p.deliverables, 1], [p.tasks.map(t => t.title).join(' '), 1]] as SearchDocument['fields'],
+      })),
+    ];
+    return buildIndex(documents);
+  }, [data]);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const commands = COMMANDS
+      .map(c => ({ command: c, score: fuzzyMatch(query, `${c.label} ${c.keywords || ''}`) }))
+      .filter(c => c.score > 0)
+      .sort((a, b) => query ? b.score - a.score : 0)
+      .map(({ command }) => ({
+        key: `command:${command.id}`,
+        group: query ? 'Commands' : command.group,
+        title: command.label,
+        icon: COMMAND_ICONS[command.id],
+        shortcut: shortcuts[command.id] || undefined,
+        run: () => onRunCommand(command.id),
+      }));
+    if (!query.trim()) return commands;
+
+    const logs = new Map<string, DailyLog>(data.logs.map(l => [l.id, l]));
+    const reports = new Map<string, MonthlyReport>(data.reports.map(r => [r.id, r]));
+    const projects = new Map<string, Project>(data.projects.map(p => [p.id, p]));
+    const records = searchDocuments(index, query).slice(0, MAX_RECORD_RESULTS).flatMap((hit): PaletteItem[] => {
+      const separator = hit.id.indexOf(':');
+      const view = hit.id.slice(0, separator) as RecordView;
+      const id = hit.id.slice(separator + 1);
+      const open = () => onOpenRecord(view, id);
+      if (view === 'logs') {
+        const log = logs.get(id)!;
+        const date = parseDateKey(log.date).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+        return [{ key: hit.id, group: 'Logs', title: date, subtitle: getPreviewLine(log.activity), icon: Icons.Logbook, run: open }];
+      }
+      if (view === 'reports') {
+        const report = reports.get(id)!;
+        const month = parseDateKey(`${report.month}-01`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+        return [{ key: hit.id, group: 'Reports', title: `${month} Report`, subtitle: getPreviewLine(report.summary), icon: Icons.Report, run: open }];
+      }
+      const project = projects.get(id)!;
+      return [{ key: hit.id, group: 'Projects', title: project.name, subtitle: project.status, icon: Icons.Project, run: open }];
+    });
+    return [...commands, ...records];
+  }, [query, index, data, shortcuts, onRunCommand, onOpenRecord]);
+
+  useEffect(() => { setActive(0); }, [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${active}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  const runItem = (item: PaletteItem) => {
+    onClose();
+    item.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActive(i => Math.min(i + 1, items.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActive(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && items[active]) {
+      e.preventDefault();
+      runItem(items[active]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex justify-center items-start pt-[15vh] bg-black/20 dark:bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl overflow-hidden border border-gray-200 dark:border-gray-700" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center gap-3 px-4 border-b border-gray-200 dark:border-gray-700">
+          <Icons.Search className="w-4 h-4 text-gray-400" />
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command or search logs, reports and projects..."
+            className="flex-1 py-3 bg-transparent text-sm text-gray-900 dark:text-white outline-none placeholder-gray-400 dark:placeholder-gray-500"
+          />
+          <kbd className="text-[10px] px-1.5 py-0.5 rounded border border-gray-200 dark:border-gray-600 text-gray-400">Esc</kbd>
+        </div>
+
+        <div ref={listRef} className="max-h-[50vh] overflow-y-auto py-2">
+          {items.length === 0 && (
+            <p className="px-4 py-6 text-center text-sm text-gray-400 dark:text-gray-500">No commands or records match "{query}".</p>
+          )}
+          {items.map((item, i) => (
+            <React.Fragment key={item.key}>
+              {(i === 0 || items[i - 1].group !== item.group) && (
+                <div className="px-4 pt-2 pb-1 text-[10px] font-semibold uppercase tracking-wider text-gray-400">{item.group}</div>
+              )}
+              <button
+                data-index={i}
+                onClick={() => runItem(item)}
+                onMouseMove={() => setActive(i)}
+                className={`w-full flex items-center gap-3 px-4 py-2 text-left text-sm ${
+                  i === active ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-900 dark:text-blue-100' : 'text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                <item.icon className="w-4 h-4 shrink-0 text-gray-400" />
+                <span className="truncate">{item.title}</span>
+                {item.subtitle && <span className="truncate text-xs text-gray-400 dark:text-gray-500">{item.subtitle}</span>}
+                {item.shortcut && (
+                  <kbd className="ml-auto shrink-0 text-[10px] px-1.5 py-0.5 rounded border border-gray-200 dark:border-gray-600 text-gray-500 dark:text-gray-400">
+                    {formatShortcut(item.shortcut)}
+                  </kbd>
+                )}
+              </button>
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
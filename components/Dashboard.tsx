@@ -1,22 +1,28 @@
 import React from 'react';
-import { AppData, DailyLog, MonthlyReport, Project } from '../types';
-import { Logbook } from './Logbook';
+import { AppData, CurrentUser, DailyLog, MonthlyReport, Project, Review } from '../types';
+import { Logbook, createDraftLog } from './Logbook';
 import { Reports } from './Reports';
 import { Projects } from './Projects';
+import { AttendanceAnalytics } from './AttendanceAnalytics';
 
 interface DashboardProps {
   data: AppData;
   actions: {
     saveLog: (log: DailyLog) => void;
     deleteLog: (id: string) => void;
+    reviewLog: (id: string, review: Review) => void;
     saveReport: (report: MonthlyReport) => void;
     deleteReport: (id: string) => void;
+    reviewReport: (id: string, review: Review) => void;
     saveProject: (project: Project) => void;
     deleteProject: (id: string) => void;
   };
+  user: CurrentUser;
+  internName: string;
+  internId: string;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ data, actions }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ data, actions, user, internName, internId }) => {
   return (
     <div className="space-y-12 pb-20">
       <section>
@@ -29,6 +35,21 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, actions }) => {
         </p>
       </section>
 
+      {/* Attendance Analytics */}
+      <section className="bg-white dark:bg-gray-800 p-6 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm relative">
+        <div className="absolute top-0 left-0 w-1 h-full bg-emerald-500 rounded-l-xl"></div>
+        <div className="mb-4">
+             <h3 className="text-sm uppercase tracking-wider text-gray-500 dark:text-gray-400 font-bold mb-1">Attendance</h3>
+             <p className="text-xs text-gray-400 dark:text-gray-500">Monthly recap, logged days and leave quotas</p>
+        </div>
+        <AttendanceAnalytics
+          logs={data.logs}
+          limits={data.settings.attendanceLimits}
+          calendar={data.settings.calendar}
+          onCreateDraft={date => actions.saveLog(createDraftLog(date))}
+        />
+      </section>
+
       {/* Linked View: Daily Logbook (This Week) */}
       <section className="bg-white dark:bg-gray-800 p-6 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm relative">
         <div className="absolute top-0 left-0 w-1 h-full bg-blue-500 rounded-l-xl"></div>
@@ -38,9 +59,18 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, actions }) => {
         </div>
         <Logbook 
           logs={data.logs} 
+          projects={data.projects}
           onSave={actions.saveLog} 
           onDelete={actions.deleteLog} 
+          calendar={data.settings.calendar}
           filterWeek={true} 
+          user={user}
+          internName={internName}
+          internId={internId}
+          onReview={actions.reviewLog}
+          templates={data.settings.templates}
+          snippets={data.settings.snippets}
+          tagRegistry={data.settings.tags}
         />
       </section>
 
@@ -54,8 +84,16 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, actions }) => {
         <Reports 
           reports={data.reports} 
           logs={data.logs} 
+          projects={data.projects}
+          profile={data.settings.profile}
           onSave={actions.saveReport} 
           onDelete={actions.deleteReport} 
+          user={user}
+          internName={internName}
+          onReview={actions.reviewReport}
+          templates={data.settings.templates}
+          objectives={data.settings.objectives}
+          tagRegistry={data.settings.tags}
         />
       </section>
 
@@ -68,8 +106,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, actions }) => {
         </div>
         <Projects 
           projects={data.projects} 
+          logs={data.logs}
           onSave={actions.saveProject} 
           onDelete={actions.deleteProject} 
+          templates={data.settings.templates}
         />
       </section>
     </div>
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { AppData } from '../types';
+import { Icons } from './ui/Icons';
+import {
+  createBackup,
+  createMarkdownZip,
+  logsToCsv,
+  reportsToCsv,
+  projectsToCsv,
+  exportFileStamp
+} from '../services/exportService';
+import { downloadBlob, downloadText } from '../services/download';
+
+interface ExportMenuProps {
+  data: AppData;
+  onImport: () => void;
+  canImport: boolean;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ data, onImport, canImport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const run = async (task: () => void | Promise<void>) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    try {
+      await task();
+    } catch (e) {
+      console.error("Export failed", e);
+      alert(`Export failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    setIsExporting(false);
+  };
+
+  const stamp = exportFileStamp();
+
+  const items = [
+    {
+      label: 'JSON backup',
+      hint: 'Everything, including files',
+      icon: Icons.Json,
+      action: () => run(async () => {
+        const backup = await createBackup(data);
+        downloadText(JSON.stringify(backup, null, 2), `telkom-ddp-backup-${stamp}.json`, 'application/json');
+      })
+    },
+    {
+      label: 'Daily Logbook (CSV)',
+      icon: Icons.Spreadsheet,
+      action: () => run(() => downloadText(logsToCsv(data.logs), `daily-logbook-${stamp}.csv`, 'text/csv'))
+    },
+    {
+      label: 'Monthly Reports (CSV)',
+      icon: Icons.Spreadsheet,
+      action: () => run(() => downloadText(reportsToCsv(data.reports), `monthly-reports-${stamp}.csv`, 'text/csv'))
+    },
+    {
+      label: 'Projects (CSV)',
+      icon: Icons.Spreadsheet,
+      action: () => run(() => downloadText(projectsToCsv(data.projects), `internship-projects-${stamp}.csv`, 'text/csv'))
+    },
+    {
+      label: 'Markdown pages (ZIP)',
+      icon: Icons.Archive,
+      action: () => run(() => downloadBlob(createMarkdownZip(data), `telkom-ddp-pages-${stamp}.zip`))
+    },
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isExporting}
+        className="flex items-center gap-1 px-2 py-1 rounded-md text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+      >
+        <Icons.Download className="w-4 h-4" />
+        <span className="hidden sm:inline">{isExporting ? 'Exporting...' : 'Export'}</span>
+        <Icons.ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-20" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-60 z-30 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg py-1">
+            {items.map(item => (
+              <button
+                key={item.label}
+                onClick={item.action}
+                className="w-full flex items-start gap-3 px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                <item.icon className="w-4 h-4 mt-0.5 text-gray-400" />
+                <span>
+                  {item.label}
+                  {item.hint && <span className="block text-xs text-gray-400">{item.hint}</span>}
+                </span>
+              </button>
+            ))}
+            <div className="my-1 border-t border-gray-100 dark:border-gray-700" />
+            <button
+              onClick={() => { setIsOpen(false); onImport(); }}
+              disabled={!canImport}
+              className="w-full flex items-center gap-3 px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              <Icons.Upload className="w-4 h-4 text-gray-400" />
+              Import backup...
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,318 @@
+import React, { useMemo, useState } from 'react';
+import { DailyLog, KeyResult, KeyResultMeasure, MonthlyReport, Objective, Project, TagDefinition } from '../types';
+import { Icons } from './ui/Icons';
+import { MonthlyGoalReview } from './MonthlyGoalReview';
+import { MEASURES, createKeyResult, createObjective, getKeyResultUnit, getKeyResultValue, getObjectiveProgress, getProgressRatio } from '../services/objectives';
+import { formatTagPath, getAllTagNames } from '../services/tags';
+import { parseDateKey, todayKey } from '../services/calendar';
+
+interface GoalsProps {
+  objectives: Objective[];
+  logs: DailyLog[];
+  projects: Project[];
+  reports: MonthlyReport[];
+  registry: TagDefinition[];
+  onSave: (objective: Objective) => void;
+  onDelete: (id: string) => void;
+  onCheckIn: (objectiveId: string, keyResultId: string, value: number) => void;
+  onOpenReport: (month: string) => void;
+}
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+export const Goals: React.FC<GoalsProps> = ({ objectives, logs, projects, reports, registry, onSave, onDelete, onCheckIn, onOpenReport }) => {
+  const [editing, setEditing] = useState<Objective | null>(null);
+  const [checkIns, setCheckIns] = useState<Record<string, string>>({});
+  const [reviewMonth, setReviewMonth] = useState(todayKey().slice(0, 7));
+
+  const today = todayKey();
+  const context = useMemo(() => ({ logs, projects, registry }), [logs, projects, registry]);
+  const tagNames = useMemo(() => getAllTagNames(registry, logs), [registry, logs]);
+  const reviewReport = reports.find(r => r.month === reviewMonth);
+
+  const updateKeyResult = (id: string, changes: Partial<KeyResult>) =>
+    setEditing(prev => prev && { ...prev, keyResults: prev.keyResults.map(kr => kr.id === id ? { ...kr, ...changes } : kr) });
+
+  const isSaveable = (objective: Objective) =>
+    objective.title.trim() !== '' && objective.keyResults.every(kr =>
+      kr.title.trim() && kr.target > 0 && (kr.measure === 'manual' || kr.measure === 'logDays' || kr.projectId));
+
+  const handleSave = () => {
+    if (!editing || !isSaveable(editing)) return;
+    onSave(editing);
+    setEditing(null);
+  };
+
+  const submitCheckIn = (objectiveId: string, kr: KeyResult) => {
+    const value = parseFloat(checkIns[kr.id]);
+    if (Number.isNaN(value)) return;
+    onCheckIn(objectiveId, kr.id, value);
+    setCheckIns(prev => ({ ...prev, [kr.id]: '' }));
+  };
+
+  const inputClass = "w-full border border-gray-400 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none placeholder-gray-500 dark:placeholder-gray-400";
+  const smallInputClass = "border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded px-2 py-1 text-xs outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-xl font-semibold flex items-center gap-2 text-gray-800 dark:text-gray-100">
+            <Icons.Target className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            Internship Goals
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Objectives with measurable key results. Progress counted from your logs and projects shows up in each monthly report.
+          </p>
+        </div>
+        <button
+          onClick={() => setEditing(createObjective())}
+          className="bg-blue-600 dark:bg-blue-500 text-white px-3 py-1.5 rounded-md text-sm font-medium hover:bg-blue-700 dark:hover:bg-blue-600 flex items-center gap-2"
+        >
+          <Icons.Plus className="w-4 h-4" /> New Goal
+        </button>
+      </div>
+
+      {objectives.length === 0 ? (
+        <div className="text-center py-10 text-gray-400 dark:text-gray-500 border-2 border-dashed border-gray-200 dark:border-gray-700 rounded-lg">
+          No goals yet. Add what you want to achieve by the end of the internship.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {objectives.map(objective => {
+            const progress = getObjectiveProgress(objective, context, today);
+            const overdue = objective.dueDate && objective.dueDate < today && progress < 1;
+            return (
+              <div key={objective.id} className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm p-5 space-y-4">
+                <div className="flex justify-between items-start gap-3">
+                  <div className="min-w-0">
+                    <h3 className="font-bold text-gray-900 dark:text-gray-100">{objective.title}</h3>
+                    {objective.description && <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5 line-clamp-2">{objective.description}</p>}
+                  </div>
+                  <button onClick={() => setEditing(objective)} className="p-1 rounded text-gray-400 hover:text-gray-700 dark:hover:text-gray-200" title="Edit goal">
+                    <Icons.More className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <div>
+                  <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    <span className={overdue ? 'text-red-600 dark:text-red-400 font-semibold' : ''}>
+                      {objective.dueDate ? `${overdue ? 'Overdue' : 'Due'}: ${parseDateKey(objective.dueDate).toLocaleDateString()}` : 'No due date'}
+                    </span>
+                    <span className="font-semibold text-gray-700 dark:text-gray-200">{percent(progress)}</span>
+                  </div>
+                  <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div className={`h-full transition-all ${progress >= 1 ? 'bg-green-500' : 'bg-blue-500'}`} style={{ width: percent(progress) }} />
+                  </div>
+                </div>
+
+                <ul className="space-y-3">
+                  {objective.keyResults.map(kr => {
+                    const value = getKeyResultValue(kr, context, today);
+                    return (
+                      <li key={kr.id} className="text-sm">
+                        <div className="flex justify-between items-center gap-2">
+                          <span className="text-gray-700 dark:text-gray-300 truncate">{kr.title}</span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                            {value} / {kr.target} {getKeyResultUnit(kr)}
+                          </span>
+                        </div>
+                        <div className="mt-1 h-1 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                          <div className="h-full bg-blue-400" style={{ width: percent(getProgressRatio(value, kr.target)) }} />
+                        </div>
+                        {kr.measure === 'manual' ? (
+                          <div className="mt-1.5 flex items-center gap-2">
+                            <input
+                              type="number"
+                              value={checkIns[kr.id] ?? ''}
+                              onChange={e => setCheckIns(prev => ({ ...prev, [kr.id]: e.target.value }))}
+                              onKeyDown={e => e.key === 'Enter' && submitCheckIn(objective.id, kr)}
+                              placeholder={String(value)}
+                              className={`${smallInputClass} w-20`}
+                            />
+                            <button
+                              onClick={() => submitCheckIn(objective.id, kr)}
+                              disabled={!checkIns[kr.id]}
+                              className="text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline"
+                            >
+                              Update for today
+                            </button>
+                          </div>
+                        ) : (
+                          <p className="mt-0.5 text-[11px] text-gray-400 dark:text-gray-500">
+                            Counted: {MEASURES[kr.measure].label.toLowerCase()}
+                            {kr.projectId && ` · ${projects.find(p => p.id === kr.projectId)?.name ?? 'deleted project'}`}
+                            {kr.tag && ` · #${kr.tag}`}
+                          </p>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <section className="bg-white dark:bg-gray-800 p-6 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm space-y-4">
+        <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-3">
+          <div>
+            <h3 className="text-sm uppercase tracking-wider text-gray-500 dark:text-gray-400 font-bold mb-1">Monthly Review</h3>
+            <p className="text-xs text-gray-400 dark:text-gray-500">Which goals moved in a month, and what became of the previous month's plan</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <input type="month" value={reviewMonth} onChange={e => e.target.value && setReviewMonth(e.target.value)} className={`${inputClass} w-auto`} />
+            <button
+              onClick={() => onOpenReport(reviewMonth)}
+              className="flex items-center gap-1.5 px-3 py-2 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 whitespace-nowrap"
+            >
+              <Icons.Report className="w-4 h-4" /> {reviewReport ? 'Open Report' : 'Write Report'}
+            </button>
+          </div>
+        </div>
+        {objectives.length === 0 && !reports.some(r => r.month < reviewMonth) ? (
+          <p className="text-sm text-gray-400 dark:text-gray-500">Add goals or write monthly reports to review them here.</p>
+        ) : (
+          <MonthlyGoalReview
+            month={reviewMonth}
+            objectives={objectives}
+            context={context}
+            reports={reports}
+            achievements={reviewReport?.achievements ?? ''}
+          />
+        )}
+      </section>
+
+      {editing && (
+        <div className="fixed inset-0 z-50 flex justify-center items-center bg-black/20 dark:bg-black/50 backdrop-blur-sm p-4" onClick={() => setEditing(null)}>
+          <div className="w-full max-w-3xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+            <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-700/50">
+              <h3 className="text-xl font-bold text-gray-900 dark:text-white">Internship Goal</h3>
+              <button onClick={() => setEditing(null)}><Icons.Close className="w-6 h-6 text-gray-400 dark:text-gray-300" /></button>
+            </div>
+
+            <div className="p-6 overflow-y-auto flex-1 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Objective</label>
+                  <input
+                    type="text"
+                    value={editing.title}
+                    onChange={e => setEditing({ ...editing, title: e.target.value })}
+                    placeholder="e.g. Become productive in the team's backend stack"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Due Date</label>
+                  <input type="date" value={editing.dueDate} onChange={e => setEditing({ ...editing, dueDate: e.target.value })} className={inputClass} />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Why it matters</label>
+                <textarea
+                  rows={2}
+                  value={editing.description}
+                  onChange={e => setEditing({ ...editing, description: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Key Results</label>
+                <div className="space-y-3">
+                  {editing.keyResults.map(kr => (
+                    <div key={kr.id} className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={kr.title}
+                          onChange={e => updateKeyResult(kr.id, { title: e.target.value })}
+                          placeholder="e.g. Ship 3 API endpoints to production"
+                          className={inputClass}
+                        />
+                        <button
+                          onClick={() => setEditing({ ...editing, keyResults: editing.keyResults.filter(k => k.id !== kr.id) })}
+                          className="p-2 rounded-md text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+                          title="Remove key result"
+                        >
+                          <Icons.Delete className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+                        <select
+                          value={kr.measure}
+                          onChange={e => updateKeyResult(kr.id, { measure: e.target.value as KeyResultMeasure })}
+                          className={smallInputClass}
+                        >
+                          {(Object.keys(MEASURES) as KeyResultMeasure[]).map(m => <option key={m} value={m}>{MEASURES[m].label}</option>)}
+                        </select>
+                        <span>Target</span>
+                        <input
+                          type="number"
+                          min={0}
+                          value={kr.target}
+                          onChange={e => updateKeyResult(kr.id, { target: Math.max(0, parseFloat(e.target.value) || 0) })}
+                          className={`${smallInputClass} w-20`}
+                        />
+                        {kr.measure === 'manual' ? (
+                          <input
+                            type="text"
+                            value={kr.unit}
+                            onChange={e => updateKeyResult(kr.id, { unit: e.target.value })}
+                            placeholder="unit, e.g. endpoints"
+                            className={`${smallInputClass} w-32`}
+                          />
+                        ) : (
+                          <span>{MEASURES[kr.measure].unit}</span>
+                        )}
+                        {kr.measure !== 'manual' && (
+                          <select value={kr.projectId} onChange={e => updateKeyResult(kr.id, { projectId: e.target.value })} className={smallInputClass}>
+                            <option value="">{kr.measure === 'logDays' ? 'Any project' : 'Choose a project...'}</option>
+                            {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                          </select>
+                        )}
+                        {kr.measure === 'logDays' && (
+                          <select value={kr.tag} onChange={e => updateKeyResult(kr.id, { tag: e.target.value })} className={smallInputClass}>
+                            <option value="">Any tag</option>
+                            {tagNames.map(tag => <option key={tag} value={tag}>{formatTagPath(tag, registry)}</option>)}
+                          </select>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setEditing({ ...editing, keyResults: [...editing.keyResults, createKeyResult()] })}
+                  className="mt-3 flex items-center gap-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  <Icons.Plus className="w-4 h-4" /> Add Key Result
+                </button>
+              </div>
+            </div>
+
+            <div className="p-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 flex justify-end gap-3">
+              {objectives.some(o => o.id === editing.id) && (
+                <button
+                  onClick={() => { onDelete(editing.id); setEditing(null); }}
+                  className="mr-auto px-3 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md flex items-center gap-2"
+                >
+                  <Icons.Delete className="w-4 h-4" /> Delete Goal
+                </button>
+              )}
+              <button onClick={() => setEditing(null)} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">Cancel</button>
+              <button
+                onClick={handleSave}
+                disabled={!isSaveable(editing)}
+                className="px-6 py-2 bg-blue-600 dark:bg-blue-500 text-white rounded-md text-sm font-medium hover:bg-blue-700 dark:hover:bg-blue-600 shadow-sm disabled:opacity-50"
+              >
+                Save Goal
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
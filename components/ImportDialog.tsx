@@ -0,0 +1,201 @@
+import React, { useState, useRef } from 'react';
+import { AppData } from '../types';
+import { Icons } from './ui/Icons';
+import {
+  planImport,
+  applyImport,
+  ImportPlan,
+  ImportAction,
+  ConflictResolution,
+  IMPORT_COLLECTIONS
+} from '../services/importService';
+
+interface ImportDialogProps {
+  data: AppData;
+  onApply: (next: AppData) => void;
+  onClose: () => void;
+}
+
+const COLLECTION_LABELS = {
+  logs: 'Daily Logbook',
+  reports: 'Monthly Reports',
+  projects: 'Internship Projects'
+};
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  add: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  update: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  skip: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+  locked: 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400',
+};
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  add: 'New',
+  update: 'Conflict',
+  skip: 'Unchanged',
+  locked: 'Approved, kept',
+};
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ data, onApply, onClose }) => {
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [replaceSettings, setReplaceSettings] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setError(null);
+    setPlan(null);
+    setFileName(file.name);
+    try {
+      setPlan(planImport(await file.text(), data));
+      setResolutions({});
+      setReplaceSettings(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read the backup file.');
+    }
+  };
+
+  const setAllConflicts = (resolution: ConflictResolution) => {
+    if (!plan) return;
+    setResolutions(Object.fromEntries(plan.items.filter(i => i.action === 'update').map(i => [i.key, resolution])));
+  };
+
+  const handleApply = async () => {
+    if (!plan) return;
+    setIsApplying(true);
+    try {
+      onApply(await applyImport(data, plan, resolutions, replaceSettings));
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Import failed.');
+      setIsApplying(false);
+    }
+  };
+
+  const count = (action: ImportAction) => plan?.items.filter(i => i.action === action).length || 0;
+  const hasChanges = count('add') + count('update') > 0 || replaceSettings;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-center items-center bg-black/20 dark:bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-3xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-700/50">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 dark:text-white">Import Workspace Backup</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Records are matched by id. Nothing changes until you confirm.</p>
+          </div>
+          <button onClick={onClose}><Icons.Close className="w-6 h-6 text-gray-400 dark:text-gray-300" /></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-6">
+          <div
+            onClick={() => fileInputRef.current?.click()}
+            className="border-2 border-dashed border-gray-300 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-500 rounded-lg px-4 py-6 text-center cursor-pointer transition-colors"
+          >
+            <Icons.Upload className="w-5 h-5 mx-auto mb-1 text-gray-400 dark:text-gray-500" />
+            <p className="text-sm text-gray-600 dark:text-gray-300">{fileName || 'Choose a .json backup file'}</p>
+            {plan?.exportedAt && (
+              <p className="text-xs text-gray-400 dark:text-gray-500">Exported {new Date(plan.exportedAt).toLocaleString()}</p>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={e => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 p-3 rounded-md bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+              <Icons.Alert className="w-4 h-4 shrink-0 mt-0.5" /> {error}
+            </div>
+          )}
+
+          {plan && (
+            <>
+              <div className="grid grid-cols-3 gap-3 text-center">
+                {(['add', 'update', 'skip'] as ImportAction[]).map(action => (
+                  <div key={action} className="p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+                    <div className="text-2xl font-bold text-gray-900 dark:text-white">{count(action)}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {action === 'add' ? 'to add' : action === 'update' ? 'to update' : 'to skip'}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {count('locked') > 0 && (
+                <p className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                  <Icons.Alert className="w-3 h-3 shrink-0" />
+                  {count('locked')} approved record(s) differ from the backup and are kept as they are, review status included.
+                </p>
+              )}
+
+              {plan.settingsDiffer && (
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input type="checkbox" checked={replaceSettings} onChange={e => setReplaceSettings(e.target.checked)} />
+                  Also replace my workspace settings (intern profile) with the ones in this backup
+                </label>
+              )}
+
+              {count('update') > 0 && (
+                <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                  <span>Resolve all conflicts:</span>
+                  <button onClick={() => setAllConflicts('overwrite')} className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">Overwrite</button>
+                  <button onClick={() => setAllConflicts('keep-local')} className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">Keep local</button>
+                  <button onClick={() => setAllConflicts('keep-both')} className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">Keep both</button>
+                </div>
+              )}
+
+              {IMPORT_COLLECTIONS.map(collection => {
+                const items = plan.items.filter(i => i.collection === collection);
+                if (items.length === 0) return null;
+                return (
+                  <div key={collection}>
+                    <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">{COLLECTION_LABELS[collection]}</h4>
+                    <ul className="divide-y divide-gray-100 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+                      {items.map(item => (
+                        <li key={item.key} className="flex items-center gap-3 px-3 py-2 text-sm">
+                          <span className={`px-2 py-0.5 rounded text-xs font-medium shrink-0 ${ACTION_STYLES[item.action]}`}>
+                            {ACTION_LABELS[item.action]}
+                          </span>
+                          <span className="flex-1 truncate text-gray-700 dark:text-gray-200" title={item.label}>{item.label}</span>
+                          {item.action === 'update' && (
+                            <select
+                              value={resolutions[item.key] || 'overwrite'}
+                              onChange={e => setResolutions(prev => ({ ...prev, [item.key]: e.target.value as ConflictResolution }))}
+                              className="border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded px-2 py-1 text-xs"
+                            >
+                              <option value="overwrite">Overwrite</option>
+                              <option value="keep-local">Keep local</option>
+                              <option value="keep-both">Keep both</option>
+                            </select>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                );
+              })}
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">Cancel</button>
+          <button
+            onClick={handleApply}
+            disabled={!plan || !hasChanges || isApplying}
+            className="px-6 py-2 bg-blue-600 dark:bg-blue-500 text-white rounded-md text-sm font-medium hover:bg-blue-700 dark:hover:bg-blue-600 shadow-sm disabled:opacity-50"
+          >
+            {isApplying ? 'Importing...' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
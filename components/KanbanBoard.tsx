@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { ProjectTask, TaskStatus } from '../types';
+import { Icons } from './ui/Icons';
+import { TASK_COLUMNS, createTask, isTaskOverdue, moveTask } from '../services/projectTasks';
+import { parseDateKey } from '../services/calendar';
+import { getDependencyCandidates, removeTaskDependency } from '../services/projectSchedule';
+
+interface KanbanBoardProps {
+  tasks: ProjectTask[];
+  onChange: (tasks: ProjectTask[]) => void;
+}
+
+const COLUMN_ACCENTS: Record<TaskStatus, string> = {
+  [TaskStatus.Todo]: 'border-t-gray-400',
+  [TaskStatus.InProgress]: 'border-t-blue-500',
+  [TaskStatus.Review]: 'border-t-amber-500',
+  [TaskStatus.Done]: 'border-t-green-500',
+};
+
+export const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, onChange }) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropColumn, setDropColumn] = useState<TaskStatus | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newTitles, setNewTitles] = useState<Partial<Record<TaskStatus, string>>>({});
+  const [newItem, setNewItem] = useState('');
+
+  const selected = tasks.find(t => t.id === selectedId);
+
+  const updateTask = (id: string, changes: Partial<ProjectTask>) => {
+    onChange(tasks.map(t => t.id === id ? { ...t, ...changes } : t));
+  };
+
+  const addTask = (status: TaskStatus) => {
+    const title = newTitles[status]?.trim();
+    if (!title) return;
+    onChange([...tasks, createTask(title, status)]);
+    setNewTitles(prev => ({ ...prev, [status]: '' }));
+  };
+
+  const removeTask = (id: string) => {
+    onChange(removeTaskDependency(id, tasks.filter(t => t.id !== id)));
+    setSelectedId(null);
+  };
+
+  const addChecklistItem = () => {
+    if (!selected || !newItem.trim()) return;
+    updateTask(selected.id, {
+      checklist: [...selected.checklist, { id: crypto.randomUUID(), text: newItem.trim(), done: false }]
+    });
+    setNewItem('');
+  };
+
+  const handleDrop = (e: React.DragEvent, status: TaskStatus, beforeId?: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const taskId = e.dataTransfer.getData('text/plain') || draggingId;
+    if (taskId) onChange(moveTask(tasks, taskId, status, beforeId));
+    setDraggingId(null);
+    setDropColumn(null);
+  };
+
+  const inputClass = "w-full border border-gray-400 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-2 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none placeholder-gray-500 dark:placeholder-gray-400";
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <div className="grid grid-cols-4 gap-3 min-w-[640px]">
+          {TASK_COLUMNS.map(status => {
+            const columnTasks = tasks.filter(t => t.status === status);
+            return (
+              <div
+                key={status}
+                onDragOver={e => { e.preventDefault(); setDropColumn(status); }}
+                onDragLeave={e => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropColumn(null); }}
+                onDrop={e => handleDrop(e, status)}
+                className={`flex flex-col rounded-lg border-t-4 ${COLUMN_ACCENTS[status]} bg-gray-50 dark:bg-gray-900/40 p-2 min-h-[10rem] transition-colors ${
+                  dropColumn === status ? 'ring-2 ring-indigo-400 bg-indigo-50/50 dark:bg-indigo-900/20' : ''
+                }`}
+              >
+                <div className="flex justify-between items-center px-1 mb-2 text-xs font-semibold text-gray-600 dark:text-gray-300">
+                  {status}
+                  <span className="text-gray-400 dark:text-gray-500 font-normal">{columnTasks.length}</span>
+                </div>
+
+                <div className="space-y-2 flex-1">
+                  {columnTasks.map(task => {
+                    const doneItems = task.checklist.filter(c => c.done).length;
+                    const overdue = isTaskOverdue(task);
+                    return (
+                      <div
+                        key={task.id}
+                        draggable
+                        onDragStart={e => { e.dataTransfer.setData('text/plain', task.id); e.dataTransfer.effectAllowed = 'move'; setDraggingId(task.id); }}
+                        onDragEnd={() => { setDraggingId(null); setDropColumn(null); }}
+                        onDragOver={e => e.preventDefault()}
+                        onDrop={e => handleDrop(e, status, task.id)}
+                        onClick={() => setSelectedId(selectedId === task.id ? null : task.id)}
+                        className={`p-2 rounded-md bg-white dark:bg-gray-800 border text-xs cursor-grab active:cursor-grabbing shadow-sm ${
+                          selectedId === task.id ? 'border-indigo-500' : 'border-gray-200 dark:border-gray-700 hover:border-indigo-300'
+                        } ${draggingId === task.id ? 'opacity-40' : ''}`}
+                      >
+                        <div className={`font-medium text-gray-800 dark:text-gray-100 ${status === TaskStatus.Done ? 'line-through opacity-60' : ''}`}>
+                          {task.title}
+                        </div>
+                        {task.dependsOn.some(id => tasks.find(t => t.id === id)?.status !== TaskStatus.Done) && (
+                          <div className="mt-1 text-[10px] font-semibold uppercase text-amber-600 dark:text-amber-400">Blocked</div>
+                        )}
+                        {(task.dueDate || task.assignee || task.checklist.length > 0) && (
+                          <div className="flex flex-wrap gap-x-2 gap-y-1 mt-1.5 text-gray-500 dark:text-gray-400">
+                            {task.dueDate && (
+                              <span className={`flex items-center gap-0.5 ${overdue ? 'text-red-600 dark:text-red-400 font-semibold' : ''}`}>
+                                <Icons.Calendar className="w-3 h-3" />
+                                {parseDateKey(task.dueDate).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}
+                              </span>
+                            )}
+                            {task.checklist.length > 0 && (
+                              <span className={`flex items-center gap-0.5 ${doneItems === task.checklist.length ? 'text-green-600 dark:text-green-400' : ''}`}>
+                                <Icons.Checklist className="w-3 h-3" />{doneItems}/{task.checklist.length}
+                              </span>
+                            )}
+                            {task.assignee && (
+                              <span className="flex items-center gap-0.5 truncate max-w-full">
+                                <Icons.User className="w-3 h-3" />{task.assignee}
+                              </span>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <input
+                  type="text"
+                  value={newTitles[status] || ''}
+                  onChange={e => setNewTitles(prev => ({ ...prev, [status]: e.target.value }))}
+                  onKeyDown={e => e.key === 'Enter' && addTask(status)}
+                  placeholder="+ Add task"
+                  className="mt-2 w-full bg-transparent text-xs px-1 py-1 rounded outline-none text-gray-700 dark:text-gray-300 placeholder-gray-400 dark:placeholder-gray-500 focus:bg-white dark:focus:bg-gray-800 focus:ring-1 focus:ring-indigo-400"
+                />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Task Details */}
+      {selected && (
+        <div className="p-3 rounded-lg border border-indigo-200 dark:border-indigo-900/50 bg-indigo-50/40 dark:bg-indigo-900/10 space-y-3">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={selected.title}
+              onChange={e => updateTask(selected.id, { title: e.target.value })}
+              className={`${inputClass} font-medium`}
+            />
+            <button onClick={() => removeTask(selected.id)} className="p-1.5 text-gray-400 hover:text-red-500" title="Delete task">
+              <Icons.Delete className="w-4 h-4" />
+            </button>
+            <button onClick={() => setSelectedId(null)} className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" title="Close">
+              <Icons.Close className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Status</label>
+              <select
+                value={selected.status}
+                onChange={e => onChange(moveTask(tasks, selected.id, e.target.value as TaskStatus))}
+                className={inputClass}
+              >
+                {TASK_COLUMNS.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Due Date</label>
+              <input
+                type="date"
+                value={selected.dueDate}
+                onChange={e => updateTask(selected.id, { dueDate: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Assignee</label>
+              <input
+                type="text"
+                value={selected.assignee}
+                onChange={e => updateTask(selected.id, { assignee: e.target.value })}
+                placeholder="e.g. Me, Mentor"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {tasks.length > 1 && (
+            <div>
+              <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Blocked By</label>
+              <div className="flex flex-wrap gap-1.5">
+                {getDependencyCandidates<ProjectTask>(tasks, selected.id).map(task => {
+                  const active = selected.dependsOn.includes(task.id);
+                  return (
+                    <button
+                      key={task.id}
+                      type="button"
+                      onClick={() => updateTask(selected.id, {
+                        dependsOn: active ? selected.dependsOn.filter(id => id !== task.id) : [...selected.dependsOn, task.id]
+                      })}
+                      className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                        active
+                          ? 'bg-indigo-600 dark:bg-indigo-500 text-white border-indigo-600 dark:border-indigo-500'
+                          : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:border-indigo-400'
+                      }`}
+                    >
+                      {task.title}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Checklist</label>
+            <ul className="space-y-1 mb-2">
+              {selected.checklist.map(item => (
+                <li key={item.id} className="flex items-center gap-2 text-sm group">
+                  <input
+                    type="checkbox"
+                    checked={item.done}
+                    onChange={() => updateTask(selected.id, {
+                      checklist: selected.checklist.map(c => c.id === item.id ? { ...c, done: !c.done } : c)
+                    })}
+                    className="accent-indigo-600"
+                  />
+                  <span className={`flex-1 text-gray-700 dark:text-gray-300 ${item.done ? 'line-through opacity-60' : ''}`}>{item.text}</span>
+                  <button
+                    onClick={() => updateTask(selected.id, { checklist: selected.checklist.filter(c => c.id !== item.id) })}
+                    className="text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100"
+                  >
+                    <Icons.Close className="w-3 h-3" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <input
+              type="text"
+              value={newItem}
+              onChange={e => setNewItem(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && addChecklistItem()}
+              placeholder="Add an item and press Enter"
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,43 +1,145 @@
-import React, { useState, useMemo } from 'react';
-import { DailyLog, AttendanceStatus } from '../types';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { DailyLog, AttendanceStatus, CalendarSettings, CurrentUser, OpenRequest, Project, ProjectStatus, RecordTemplate, Review, ReviewStatus, Snippet, TagDefinition } from '../types';
 import { Icons } from './ui/Icons';
-import { generateTextImprovement } from '../services/geminiService';
+import { streamTextImprovement } from '../services/aiService';
+import { AIError } from '../services/aiProvider';
+import { AISuggestionPanel } from './AISuggestionPanel';
+import { AskLogbook } from './AskLogbook';
+import { Attachments } from './Attachments';
+import { MarkdownEditor } from './MarkdownEditor';
+import { MarkdownPreviewLine } from './Markdown';
+import { MissingLogDays } from './MissingLogDays';
+import { findMissingLogDays, getTrackingStart, todayKey, addDays } from '../services/calendar';
+import { getAllocatedHours, getShiftHours, getWorkedHours } from '../services/timesheet';
+import { buildSearchIndex, getSnippet, searchDocuments, TextPart, tokenize } from '../services/searchIndex';
+import { fuseRankings, RankedLog, semanticSearch } from '../services/semanticSearch';
+import { RouteQuery, setQueryParam } from '../services/router';
+import { createReview, isLocked } from '../services/review';
+import { TRASH_RETENTION_DAYS } from '../services/trash';
+import { applyTemplate, fillVariables, getSnippetsForTags } from '../services/templates';
+import { formatTagPath, getAllTagNames, getTagFamily, tagKey } from '../services/tags';
+import { ReviewBadge, ReviewPanel } from './ReviewPanel';
+import { TemplatePicker } from './TemplatePicker';
+import { TagChip, TagInput } from './TagInput';
+
+type AIField = 'activity' | 'learnings';
+
+// Semantic results below this rank are too loosely related to be worth listing
+const SEMANTIC_RESULT_LIMIT = 20;
+const SEMANTIC_DEBOUNCE_MS = 400;
+
+interface AISuggestion {
+  field: AIField;
+  original: string;
+  text: string;
+  isStreaming: boolean;
+  error?: string;
+}
 
 interface LogbookProps {
   logs: DailyLog[];
+  projects: Project[];
   onSave: (log: DailyLog) => void;
   onDelete: (id: string) => void;
+  calendar: CalendarSettings;
   filterWeek?: boolean;
+  openRequest?: OpenRequest;
+  onOpenHandled?: () => void;
+  user: CurrentUser;
+  internName: string; // Signs the intern's review comments
+  internId: string; // Scopes the cached search embeddings to this workspace
+  onReview: (id: string, review: Review) => void;
+  filters?: RouteQuery; // Routed views keep their filters in the URL
+  onFiltersChange?: (filters: RouteQuery) => void;
+  onRecordChange?: (id: string | null) => void; // The log open in the editor, for the URL
+  templates: RecordTemplate[];
+  snippets: Snippet[];
+  tagRegistry: TagDefinition[];
 }
 
-const DEFAULT_LOG_TEMPLATE: Partial<DailyLog> = {
+export const DEFAULT_LOG_TEMPLATE: Partial<DailyLog> = {
   attendance: AttendanceStatus.Present,
   activity: "**Morning Session:**\n- \n\n**Afternoon Session:**\n- ",
   learnings: "- Learned about: \n- Improved skill in: ",
   challenges: "No significant challenges today.",
-  tags: []
+  tags: [],
+  attachments: [],
+  projectIds: [],
+  review: createReview(),
+  updatedAt: '',
+  version: 0
 };
 
-export const Logbook: React.FC<LogbookProps> = ({ logs, onSave, onDelete, filterWeek }) => {
+// A template-filled log for a day that was never logged, flagged for review
+export const createDraftLog = (date: string): DailyLog => ({
+  ...DEFAULT_LOG_TEMPLATE,
+  id: crypto.randomUUID(),
+  date,
+  isDraft: true
+} as DailyLog);
+
+export const Logbook: React.FC<LogbookProps> = ({ logs, projects, onSave, onDelete, calendar, filterWeek, openRequest, onOpenHandled, user, internName, internId, onReview, filters, onFiltersChange, onRecordChange, templates, snippets, tagRegistry }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingLog, setEditingLog] = useState<Partial<DailyLog>>(DEFAULT_LOG_TEMPLATE);
-  const [isThinking, setIsThinking] = useState(false);
+  const [templateId, setTemplateId] = useState('');
+  const [suggestion, setSuggestion] = useState<AISuggestion | null>(null);
+  const [aiUndo, setAiUndo] = useState<{ field: AIField; previous: string } | null>(null);
+  const aiAbortRef = useRef<AbortController | null>(null);
   const [logToDelete, setLogToDelete] = useState<string | null>(null);
+  const [showMissing, setShowMissing] = useState(false);
   
-  // Filter States
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedTag, setSelectedTag] = useState('');
-  const [selectedAttendance, setSelectedAttendance] = useState('');
+  // Filter States (local when the logbook is embedded in the dashboard)
+  const [localFilters, setLocalFilters] = useState<RouteQuery>({});
+  const activeFilters = filters ?? localFilters;
+  const setFilter = (key: string, value: string) => (onFiltersChange ?? setLocalFilters)(setQueryParam(activeFilters, key, value));
+  const searchQuery = activeFilters.q || '';
+  const selectedTag = activeFilters.tag || '';
+  const selectedAttendance = activeFilters.attendance || '';
+  const selectedReview = activeFilters.review || '';
+  const [useSemantic, setUseSemantic] = useState(false);
+  const [semanticRanking, setSemanticRanking] = useState<RankedLog[] | null>(null);
+  const [semanticState, setSemanticState] = useState<{ loading: boolean; error?: string }>({ loading: false });
+  const [showAsk, setShowAsk] = useState(false);
+
+  // Every tag for the filter dropdown and autocomplete, parents before their children
+  const uniqueTags = useMemo(() => getAllTagNames(tagRegistry, logs), [tagRegistry, logs]);
+  // A parent tag also matches logs tagged with any tag below it
+  const tagFamily = useMemo(() => selectedTag ? getTagFamily(selectedTag, tagRegistry) : null, [selectedTag, tagRegistry]);
+
+  const searchIndex = useMemo(() => buildSearchIndex(logs, projects), [logs, projects]);
+  // A query of nothing but stop words ("the", "and") searches for nothing, so it filters nothing
+  const isSearching = useMemo(() => tokenize(searchQuery).length > 0, [searchQuery]);
+  const keywordHits = useMemo(() => isSearching ? searchDocuments(searchIndex, searchQuery) : [], [searchIndex, searchQuery, isSearching]);
+  const matchedTerms = useMemo(() => new Map(keywordHits.map(h => [h.id, h.terms])), [keywordHits]);
 
-  // Extract unique tags for the filter dropdown
-  const uniqueTags = useMemo(() => {
-    const allTags = logs.flatMap(log => log.tags);
-    return Array.from(new Set(allTags)).sort();
-  }, [logs]);
+  // Embeddings go through the AI provider, so wait for typing to pause
+  useEffect(() => {
+    setSemanticRanking(null);
+    setSemanticState({ loading: false });
+    if (!useSemantic || !isSearching) return;
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setSemanticState({ loading: true });
+      try {
+        const ranking = await semanticSearch(searchQuery, logs, projects, internId, controller.signal);
+        setSemanticRanking(ranking.slice(0, SEMANTIC_RESULT_LIMIT));
+        setSemanticState({ loading: false });
+      } catch (error) {
+        if (!controller.signal.aborted) setSemanticState({ loading: false, error: (error as Error).message });
+      }
+    }, SEMANTIC_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [useSemantic, searchQuery, isSearching, logs, projects, internId]);
 
   // Filter Logic
   const displayedLogs = useMemo(() => {
-    return logs.filter(log => {
+    const ranking: RankedLog[] = semanticRanking ? fuseRankings([keywordHits, semanticRanking]) : keywordHits;
+    const rank = new Map(ranking.map((r, i) => [r.id, i]));
+
+    const filtered = logs.filter(log => {
       // 1. Date/Week Filter
       if (filterWeek) {
         const date = new Date(log.date);
@@ -46,14 +148,9 @@ export const Logbook: React.FC<LogbookProps> = ({ logs, onSave, onDelete, filter
         if (date < oneWeekAgo) return false;
       }
 
-      // 2. Search Query (Case insensitive)
-      if (searchQuery) {
-        const query = searchQuery.toLowerCase();
-        const contentMatch = 
-          log.activity.toLowerCase().includes(query) || 
-          log.learnings.toLowerCase().includes(query) ||
-          log.challenges.toLowerCase().includes(query);
-        if (!contentMatch) return false;
+      // 2. Search Query (ranked, typo tolerant)
+      if (isSearching && !rank.has(log.id)) {
+        return false;
       }
 
       // 3. Attendance Filter
@@ -62,13 +159,39 @@ export const Logbook: React.FC<LogbookProps> = ({ logs, onSave, onDelete, filter
       }
 
       // 4. Tag Filter
-      if (selectedTag && !log.tags.includes(selectedTag)) {
+      if (tagFamily && !log.tags.some(tag => tagFamily.has(tagKey(tag)))) {
+        return false;
+      }
+
+      // 5. Review Status Filter
+      if (selectedReview && log.review.status !== selectedReview) {
         return false;
       }
 
       return true;
     });
-  }, [logs, filterWeek, searchQuery, selectedAttendance, selectedTag]);
+
+    // Best matches first while searching
+    return isSearching ? filtered.sort((a, b) => rank.get(a.id)! - rank.get(b.id)!) : filtered;
+  }, [logs, filterWeek, isSearching, keywordHits, semanticRanking, selectedAttendance, tagFamily, selectedReview]);
+
+  // The part of a search result around the first matching word, from whichever field has it
+  const getResultSnippet = (log: DailyLog): TextPart[] | null => {
+    const terms = matchedTerms.get(log.id);
+    if (!terms) return null;
+    for (const text of [log.activity, log.learnings, log.challenges]) {
+      const parts = getSnippet(text, terms);
+      if (parts.some(p => p.match)) return parts;
+    }
+    return null;
+  };
+
+  // Working days since the internship started (up to yesterday) that have no log
+  const missingDays = useMemo(() => {
+    if (filterWeek) return [];
+    const start = getTrackingStart(logs, calendar);
+    return start ? findMissingLogDays(logs, start, addDays(todayKey(), -1), calendar) : [];
+  }, [logs, calendar, filterWeek]);
 
   const handleOpenModal = (log?: DailyLog) => {
     if (log) {
@@ -77,27 +200,138 @@ export const Logbook: React.FC<LogbookProps> = ({ logs, onSave, onDelete, filter
       setEditingLog({
         ...DEFAULT_LOG_TEMPLATE,
         id: crypto.randomUUID(),
-        date: new Date().toISOString().split('T')[0],
+        date: todayKey(),
       });
     }
+    setTemplateId('');
     setIsModalOpen(true);
+    onRecordChange?.(log?.id ?? null);
   };
 
+  const closeModal = () => {
+    aiAbortRef.current?.abort();
+    setSuggestion(null);
+    setAiUndo(null);
+    setIsModalOpen(false);
+    onRecordChange?.(null);
+  };
+
+  // Opened from the command palette, a shortcut or a link
+  useEffect(() => {
+    if (!openRequest) return;
+    if (openRequest.close) closeModal();
+    else handleOpenModal(logs.find(l => l.id === openRequest.id));
+    onOpenHandled?.();
+  }, [openRequest]);
+
+  // The stored log, if the one in the editor has been saved before
+  const savedLog = isModalOpen ? logs.find(l => l.id === editingLog.id) : undefined;
+  const locked = isLocked(savedLog?.review);
+
   const handleSave = () => {
+    if (locked) return;
     if (editingLog.date && editingLog.activity) {
-      onSave(editingLog as DailyLog);
-      setIsModalOpen(false);
+      // Saving from the form counts as reviewing a draft. The review is kept as stored,
+      // since comments may have been added while the form was open.
+      const { isDraft, ...log } = editingLog;
+      onSave({ ...log, review: savedLog?.review ?? createReview() } as DailyLog);
+      closeModal();
     }
   };
 
-  const handleAIImprove = async (field: 'activity' | 'learnings') => {
-    if (!editingLog[field]) return;
-    setIsThinking(true);
-    const improved = await generateTextImprovement(editingLog[field] as string, `Internship Daily Log - ${field}`);
-    setEditingLog(prev => ({ ...prev, [field]: improved }));
-    setIsThinking(false);
+  const projectNames = useMemo(() => new Map(projects.map(p => [p.id, p.name])), [projects]);
+
+  // Refills a new log from another template, keeping its date
+  const chooseTemplate = (template: RecordTemplate | null) => {
+    setTemplateId(template?.id ?? '');
+    setEditingLog(prev => {
+      const base = { ...DEFAULT_LOG_TEMPLATE, id: prev.id, date: prev.date };
+      return template ? applyTemplate(template, base, prev.date || todayKey(), projects) : base;
+    });
+  };
+
+  const tagSnippets = getSnippetsForTags(snippets, editingLog.tags || []);
+
+  const insertSnippet = (snippet: Snippet) => {
+    const text = fillVariables(snippet.text, {
+      date: editingLog.date || todayKey(),
+      projectNames: (editingLog.projectIds || []).map(id => projectNames.get(id)).filter((n): n is string => !!n),
+    });
+    setEditingLog(prev => ({ ...prev, activity: prev.activity ? `${prev.activity.trimEnd()}\n${text}` : text }));
   };
 
+  const toggleProject = (projectId: string) => {
+    setEditingLog(prev => {
+      const current = prev.projectIds || [];
+      return {
+        ...prev,
+        projectIds: current.includes(projectId) ? current.filter(id => id !== projectId) : [...current, projectId],
+        projectHours: prev.projectHours?.filter(h => h.projectId !== projectId)
+      };
+    });
+  };
+
+  // An empty input clears the allocation so the project falls back to an even share of the shift
+  const setProjectHours = (projectId: string, value: string) => {
+    setEditingLog(prev => {
+      const others = (prev.projectHours || []).filter(h => h.projectId !== projectId);
+      const hours = parseFloat(value);
+      return {
+        ...prev,
+        projectHours: value === '' || isNaN(hours) ? others : [...others, { projectId, hours: Math.max(0, hours) }]
+      };
+    });
+  };
+
+  const shiftHours = getShiftHours(editingLog);
+  const allocatedHours = getAllocatedHours(editingLog as DailyLog);
+
+  // Streams a suggestion into the side panel; nothing changes until it is accepted
+  const handleAIImprove = async (field: AIField) => {
+    const original = editingLog[field] || '';
+    if (!original) return;
+    aiAbortRef.current?.abort();
+    const controller = new AbortController();
+    aiAbortRef.current = controller;
+    setSuggestion({ field, original, text: '', isStreaming: true });
+
+    try {
+      const text = await streamTextImprovement(
+        original,
+        `Internship Daily Log - ${field}`,
+        partial => setSuggestion(prev => prev && { ...prev, text: partial }),
+        controller.signal
+      );
+      setSuggestion(prev => prev && { ...prev, text, isStreaming: false });
+    } catch (error) {
+      // Stopping keeps whatever arrived so far for review
+      const stopped = error instanceof AIError && error.kind === 'aborted';
+      setSuggestion(prev => prev && { ...prev, isStreaming: false, error: stopped ? undefined : (error as Error).message });
+    } finally {
+      if (aiAbortRef.current === controller) aiAbortRef.current = null;
+    }
+  };
+
+  const acceptSuggestion = (text: string) => {
+    if (!suggestion) return;
+    setAiUndo({ field: suggestion.field, previous: editingLog[suggestion.field] || '' });
+    setEditingLog(prev => ({ ...prev, [suggestion.field]: text }));
+    setSuggestion(null);
+  };
+
+  const rejectSuggestion = () => {
+    aiAbortRef.current?.abort();
+    setSuggestion(null);
+  };
+
+  const undoSuggestion = () => {
+    if (!aiUndo) return;
+    setEditingLog(prev => ({ ...prev, [aiUndo.field]: aiUndo.previous }));
+    setAiUndo(null);
+  };
+
+  const isThinking = !!suggestion?.isStreaming;
+
   const confirmDelete = () => {
     if (logToDelete) {
       onDelete(logToDelete);
@@ -123,22 +357,66 @@ export const Logbook: React.FC<LogbookProps> = ({ logs, onSave, onDelete, filter
         </button>
       </div>
 
+      {/* Missing Days */}
+      {missingDays.length > 0 && (
+        <div className="rounded-lg border border-orange-200 dark:border-orange-900/50 bg-orange-50/50 dark:bg-orange-900/10 p-3">
+          <button
+            onClick={() => setShowMissing(!showMissing)}
+            className="w-full flex items-center justify-between text-sm text-orange-800 dark:text-orange-300"
+          >
+            <span className="flex items-center gap-2 font-medium">
+              <Icons.Alert className="w-4 h-4" />
+              {missingDays.length} working {missingDays.length === 1 ? 'day has' : 'days have'} no log
+            </span>
+            <Icons.ChevronDown className={`w-4 h-4 transition-transform ${showMissing ? 'rotate-180' : ''}`} />
+          </button>
+          {showMissing && (
+            <div className="mt-3">
+              <MissingLogDays
+                days={missingDays}
+                onCreateDraft={date => onSave(createDraftLog(date))}
+                onCreateAll={() => missingDays.forEach(date => onSave(createDraftLog(date)))}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Search and Filters */}
       <div className="flex flex-col md:flex-row gap-3">
         <div className="relative flex-1">
           <Icons.Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500 dark:text-gray-400" />
           <input 
             type="text" 
-            placeholder="Search activity, learnings, or challenges..." 
+            placeholder="Search logs, projects and tags..." 
             value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            onChange={(e) => setFilter('q', e.target.value)}
             className={`${inputClass} pl-10`}
           />
         </div>
+        <button
+          onClick={() => setUseSemantic(!useSemantic)}
+          title="Also rank logs by meaning using the AI provider's embedding model"
+          className={`flex items-center justify-center gap-1.5 px-3 py-2 rounded-md text-sm border transition-colors ${useSemantic
+            ? 'border-purple-300 dark:border-purple-700 bg-purple-50 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300'
+            : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+        >
+          <Icons.AI className={`w-4 h-4 ${semanticState.loading ? 'animate-spin' : ''}`} /> Semantic
+        </button>
+        {!filterWeek && (
+          <button
+            onClick={() => setShowAsk(!showAsk)}
+            className={`flex items-center justify-center gap-1.5 px-3 py-2 rounded-md text-sm border transition-colors ${showAsk
+              ? 'border-purple-300 dark:border-purple-700 bg-purple-50 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300'
+              : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+          >
+            <Icons.Ask className="w-4 h-4" /> Ask
+          </button>
+        )}
         <div className="w-full md:w-48">
           <select 
             value={selectedAttendance}
-            onChange={(e) => setSelectedAttendance(e.target.value)}
+            onChange={(e) => setFilter('attendance', e.target.value)}
             className={inputClass}
           >
             <option value="">All Statuses</option>
@@ -150,17 +428,39 @@ export const Logbook: React.FC<LogbookProps> = ({ logs, onSave, onDelete, filter
         <div className="w-full md:w-48">
           <select 
             value={selectedTag}
-            onChange={(e) => setSelectedTag(e.target.value)}
+            onChange={(e) => setFilter('tag', e.target.value)}
             className={inputClass}
           >
             <option value="">All Tags</option>
             {uniqueTags.map(tag => (
-              <option key={tag} value={tag}>{tag}</option>
+              <option key={tag} value={tag}>{formatTagPath(tag, tagRegistry)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="w-full md:w-48">
+          <select 
+            value={selectedReview}
+            onChange={(e) => setFilter('review', e.target.value)}
+            className={inputClass}
+          >
+            <option value="">Any Review Status</option>
+            {Object.values(ReviewStatus).map(status => (
+              <option key={status} value={status}>{status}</option>
             ))}
           </select>
         </div>
       </div>
 
+      {semanticState.error && (
+        <p className="-mt-3 text-xs text-red-600 dark:text-red-400 flex items-center gap-1">
+          <Icons.Alert className="w-3 h-3" /> Semantic search failed, showing keyword matches only: {semanticState.error}
+        </p>
+      )}
+
+      {showAsk && !filterWeek && (
+        <AskLogbook logs={logs} projects={projects} semantic={useSemantic} internId={internId} onOpenLog={handleOpenModal} />
+      )}
+
       <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden shadow-sm">
         <div className="overflow-x-auto">
           <table className="w-full text-sm text-left">
@@ -177,7 +477,7 @@ export const Logbook: React.FC<LogbookProps> = ({ logs, onSave, onDelete, filter
               {displayedLogs.length === 0 ? (
                 <tr>
                   <td colSpan={5} className="px-4 py-8 text-center text-gray-400 dark:text-gray-500">
-                    {searchQuery || selectedTag || selectedAttendance 
+                    {searchQuery || selectedTag || selectedAttendance || selectedReview
                       ? "No logs match your filters." 
                       : "No logs found. Start by creating one!"}
                   </td>
@@ -187,34 +487,58 @@ export const Logbook: React.FC<LogbookProps> = ({ logs, onSave, onDelete, filter
                   <tr key={log.id} className="hover:bg-gray-50 dark:hover:bg-gray-700 group cursor-pointer" onClick={() => handleOpenModal(log)}>
                     <td className="px-4 py-3 text-gray-900 dark:text-gray-100 font-medium">
                       {new Date(log.date).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+                      {getWorkedHours(log) > 0 && (
+                        <span className="ml-2 text-xs font-normal text-gray-400 dark:text-gray-500">{getWorkedHours(log)}h</span>
+                      )}
+                      {log.isDraft && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300">Draft</span>
+                      )}
+                      {log.review.status !== ReviewStatus.Draft && (
+                        <div className="mt-1"><ReviewBadge review={log.review} /></div>
+                      )}
                     </td>
                     <td className="px-4 py-3">
-                      <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium
-                        ${log.attendance === AttendanceStatus.Present ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' : 
-                          log.attendance === AttendanceStatus.Sick ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' : 
-                          log.attendance === AttendanceStatus.WFH ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'}`}>
-                        {log.attendance}
-                      </span>
+                      {log.isDraft ? (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300" title="Confirm the attendance by saving the log">Unconfirmed</span>
+                      ) : (
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium
+                          ${log.attendance === AttendanceStatus.Present ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' : 
+                            log.attendance === AttendanceStatus.Sick ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' : 
+                            log.attendance === AttendanceStatus.WFH ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'}`}>
+                          {log.attendance}
+                        </span>
+                      )}
                     </td>
                     <td className="px-4 py-3 text-gray-600 dark:text-gray-300 truncate max-w-xs">
-                      {log.activity.split('\n')[0] || log.activity}
+                      {log.attachments?.length > 0 && (
+                        <span className="inline-flex items-center gap-0.5 mr-2 text-xs text-gray-400 dark:text-gray-500" title={`${log.attachments.length} attachment(s)`}>
+                          <Icons.Attachment className="w-3 h-3" />{log.attachments.length}
+                        </span>
+                      )}
+                      {getResultSnippet(log)?.map((part, i) => part.match
+                        ? <mark key={i} className="bg-yellow-100 dark:bg-yellow-900/50 text-inherit rounded-sm">{part.text}</mark>
+                        : <span key={i}>{part.text}</span>
+                      ) ?? <MarkdownPreviewLine text={log.activity} />}
                     </td>
                     <td className="px-4 py-3">
                       <div className="flex gap-1 flex-wrap">
-                        {log.tags.map(tag => (
-                          <span key={tag} className="bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-1.5 py-0.5 rounded text-xs border border-gray-200 dark:border-gray-600">
-                            {tag}
+                        {log.projectIds.filter(id => projectNames.has(id)).map(id => (
+                          <span key={id} className="bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 px-1.5 py-0.5 rounded text-xs border border-indigo-200 dark:border-indigo-800 flex items-center gap-1">
+                            <Icons.Project className="w-3 h-3" />{projectNames.get(id)}
                           </span>
                         ))}
+                        {log.tags.map(tag => <TagChip key={tag} tag={tag} registry={tagRegistry} />)}
                       </div>
                     </td>
                     <td className="px-4 py-3 text-right">
-                       <button 
-                        onClick={(e) => { e.stopPropagation(); setLogToDelete(log.id); }}
-                        className="text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity p-1"
-                      >
-                        <Icons.Delete className="w-4 h-4" />
-                      </button>
+                      {!isLocked(log.review) && (
+                        <button 
+                          onClick={(e) => { e.stopPropagation(); setLogToDelete(log.id); }}
+                          className="text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity p-1"
+                        >
+                          <Icons.Delete className="w-4 h-4" />
+                        </button>
+                      )}
                     </td>
                   </tr>
                 ))
@@ -226,117 +550,280 @@ export const Logbook: React.FC<LogbookProps> = ({ logs, onSave, onDelete, filter
 
       {/* Centered Modal */}
       {isModalOpen && (
-        <div className="fixed inset-0 z-50 flex justify-center items-center bg-black/20 dark:bg-black/50 backdrop-blur-sm p-4" onClick={() => setIsModalOpen(false)}>
+        <div className="fixed inset-0 z-50 flex justify-center items-center bg-black/20 dark:bg-black/50 backdrop-blur-sm p-4" onClick={closeModal}>
           <div className="w-full max-w-2xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl p-6 overflow-y-auto max-h-[90vh]" onClick={e => e.stopPropagation()}>
             <div className="flex justify-between items-start mb-6">
               <div>
                 <h3 className="text-xl font-semibold text-gray-900 dark:text-white">Daily Log Entry</h3>
-                <p className="text-sm text-gray-500 dark:text-gray-400">Template applied: Daily Log Format</p>
+                {locked ? (
+                  <p className="text-sm text-green-700 dark:text-green-400 flex items-center gap-1"><Icons.Lock className="w-3.5 h-3.5" /> Approved by your mentor, read-only</p>
+                ) : savedLog ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Template applied: Daily Log Format</p>
+                ) : (
+                  <TemplatePicker templates={templates} kind="logs" defaultLabel="Daily Log Format" value={templateId} onChange={chooseTemplate} />
+                )}
               </div>
-              <button onClick={() => setIsModalOpen(false)} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">
+              <button onClick={closeModal} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">
                 <Icons.Close className="w-6 h-6" />
               </button>
             </div>
 
             <div className="space-y-6">
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Date</label>
-                  <input 
-                    type="date" 
-                    value={editingLog.date} 
-                    onChange={e => setEditingLog({...editingLog, date: e.target.value})}
-                    className={inputClass}
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Attendance</label>
-                  <select 
-                    value={editingLog.attendance} 
-                    onChange={e => setEditingLog({...editingLog, attendance: e.target.value as AttendanceStatus})}
-                    className={inputClass}
-                  >
-                    {Object.values(AttendanceStatus).map(s => <option key={s} value={s}>{s}</option>)}
-                  </select>
+              <fieldset disabled={locked} className="space-y-6 min-w-0">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Date</label>
+                    <input 
+                      type="date" 
+                      value={editingLog.date} 
+                      onChange={e => setEditingLog({...editingLog, date: e.target.value})}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Attendance</label>
+                    <select 
+                      value={editingLog.attendance} 
+                      onChange={e => setEditingLog({...editingLog, attendance: e.target.value as AttendanceStatus})}
+                      className={inputClass}
+                    >
+                      {Object.values(AttendanceStatus).map(s => <option key={s} value={s}>{s}</option>)}
+                    </select>
+                  </div>
                 </div>
-              </div>
 
-              <div>
-                <div className="flex justify-between items-center mb-1">
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Activity Description</label>
-                  <button 
-                    onClick={() => handleAIImprove('activity')} 
-                    disabled={isThinking}
-                    className="text-xs text-purple-600 dark:text-purple-400 hover:text-purple-700 dark:hover:text-purple-300 flex items-center gap-1"
-                  >
-                    <Icons.AI className={`w-3 h-3 ${isThinking ? 'animate-spin' : ''}`} /> {isThinking ? 'Thinking...' : 'AI Refine'}
-                  </button>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Start Time</label>
+                    <input
+                      type="time"
+                      value={editingLog.startTime || ''}
+                      onChange={e => setEditingLog({...editingLog, startTime: e.target.value || undefined})}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">End Time</label>
+                    <input
+                      type="time"
+                      value={editingLog.endTime || ''}
+                      onChange={e => setEditingLog({...editingLog, endTime: e.target.value || undefined})}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Break (minutes)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={5}
+                      value={editingLog.breakMinutes ?? ''}
+                      onChange={e => setEditingLog({...editingLog, breakMinutes: e.target.value ? Math.max(0, parseInt(e.target.value, 10) || 0) : undefined})}
+                      placeholder="60"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Hours Worked</label>
+                    <div className="px-3 py-2 text-sm font-semibold text-gray-800 dark:text-gray-100">
+                      {shiftHours !== null ? `${shiftHours}h` : allocatedHours > 0 ? `${allocatedHours}h` : '—'}
+                    </div>
+                  </div>
                 </div>
-                <textarea 
-                  rows={6}
-                  value={editingLog.activity}
-                  onChange={e => setEditingLog({...editingLog, activity: e.target.value})}
-                  className={`${inputClass} font-mono`}
-                  placeholder="What did you do today?"
-                />
-              </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {aiUndo && (
+                  <div className="flex items-center gap-2 p-3 rounded-md text-sm bg-purple-50 dark:bg-purple-900/20 text-purple-700 dark:text-purple-300">
+                    <Icons.AI className="w-4 h-4 shrink-0" />
+                    <span className="flex-1">AI suggestion applied to {aiUndo.field === 'activity' ? 'Activity Description' : 'Learnings'}.</span>
+                    <button onClick={undoSuggestion} className="font-medium hover:underline">Undo</button>
+                    <button onClick={() => setAiUndo(null)}><Icons.Close className="w-4 h-4" /></button>
+                  </div>
+                )}
+
                 <div>
                   <div className="flex justify-between items-center mb-1">
-                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Learnings</label>
-                     <button onClick={() => handleAIImprove('learnings')} className="text-xs text-purple-600 dark:text-purple-400 hover:text-purple-700 dark:hover:text-purple-300 flex items-center gap-1"><Icons.AI className="w-3 h-3"/> AI Refine</button>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Activity Description</label>
+                    <button 
+                      onClick={() => handleAIImprove('activity')} 
+                      disabled={isThinking}
+                      className="text-xs text-purple-600 dark:text-purple-400 hover:text-purple-700 dark:hover:text-purple-300 flex items-center gap-1"
+                    >
+                      <Icons.AI className={`w-3 h-3 ${isThinking ? 'animate-spin' : ''}`} /> {isThinking ? 'Thinking...' : 'AI Refine'}
+                    </button>
                   </div>
-                  <textarea 
-                    rows={4}
-                    value={editingLog.learnings}
-                    onChange={e => setEditingLog({...editingLog, learnings: e.target.value})}
-                    className={inputClass}
-                    placeholder="Key takeaways..."
+                  <MarkdownEditor
+                    rows={6}
+                    value={editingLog.activity}
+                    onChange={activity => setEditingLog({...editingLog, activity})}
+                    attachments={editingLog.attachments}
+                    className={`${inputClass} font-mono`}
+                    placeholder="What did you do today?"
+                    readOnly={locked}
                   />
                 </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <div className="flex justify-between items-center mb-1">
+                       <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Learnings</label>
+                       <button onClick={() => handleAIImprove('learnings')} disabled={isThinking} className="text-xs text-purple-600 dark:text-purple-400 hover:text-purple-700 dark:hover:text-purple-300 flex items-center gap-1"><Icons.AI className="w-3 h-3"/> AI Refine</button>
+                    </div>
+                    <MarkdownEditor
+                      rows={4}
+                      value={editingLog.learnings}
+                      onChange={learnings => setEditingLog({...editingLog, learnings})}
+                      attachments={editingLog.attachments}
+                      className={inputClass}
+                      readOnly={locked}
+                      placeholder="Key takeaways..."
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Challenges</label>
+                    <MarkdownEditor
+                      rows={4}
+                      value={editingLog.challenges}
+                      onChange={challenges => setEditingLog({...editingLog, challenges})}
+                      attachments={editingLog.attachments}
+                      className={inputClass}
+                      readOnly={locked}
+                      placeholder="Any blockers?"
+                    />
+                  </div>
+                </div>
+
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Challenges</label>
-                  <textarea 
-                    rows={4}
-                    value={editingLog.challenges}
-                    onChange={e => setEditingLog({...editingLog, challenges: e.target.value})}
-                    className={inputClass}
-                    placeholder="Any blockers?"
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Tags</label>
+                  <TagInput
+                    value={editingLog.tags || []}
+                    onChange={tags => setEditingLog({ ...editingLog, tags })}
+                    registry={tagRegistry}
+                    knownTags={uniqueTags}
+                    placeholder="React, Meeting, Bugfix..."
                   />
+                  {tagSnippets.length > 0 && (
+                    <div className="mt-2 flex flex-wrap items-center gap-2">
+                      <span className="text-xs text-gray-500 dark:text-gray-400">Snippets:</span>
+                      {tagSnippets.map(snippet => (
+                        <button
+                          key={snippet.id}
+                          type="button"
+                          onClick={() => insertSnippet(snippet)}
+                          title={`Add to the activity description:\n${snippet.text}`}
+                          className="max-w-[16rem] truncate px-2 py-0.5 rounded text-xs border border-dashed border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:border-blue-400 hover:text-blue-600 dark:hover:text-blue-400"
+                        >
+                          #{snippet.tag} {snippet.text.split('\n')[0]}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
-              </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Tags (comma separated)</label>
-                <input 
-                  type="text" 
-                  value={editingLog.tags?.join(', ')} 
-                  onChange={e => setEditingLog({...editingLog, tags: e.target.value.split(',').map(t => t.trim()).filter(Boolean)})}
-                  placeholder="React, Meeting, Bugfix..."
-                  className={inputClass}
+                {projects.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Projects Worked On</label>
+                    <div className="flex flex-wrap gap-2">
+                      {projects
+                        .filter(p => p.status !== ProjectStatus.Completed || editingLog.projectIds?.includes(p.id))
+                        .map(project => {
+                          const selected = editingLog.projectIds?.includes(project.id);
+                          return (
+                            <button
+                              key={project.id}
+                              type="button"
+                              onClick={() => toggleProject(project.id)}
+                              className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors flex items-center gap-1 ${
+                                selected
+                                  ? 'bg-indigo-600 dark:bg-indigo-500 text-white border-indigo-600 dark:border-indigo-500'
+                                  : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:border-indigo-400'
+                              }`}
+                            >
+                              {selected && <Icons.Success className="w-3 h-3" />}
+                              {project.name}
+                            </button>
+                          );
+                        })}
+                    </div>
+                    {(editingLog.projectIds?.length || 0) > 0 && (
+                      <div className="mt-3 space-y-2">
+                        {editingLog.projectIds!.filter(id => projectNames.has(id)).map(id => (
+                          <div key={id} className="flex items-center gap-3 text-sm">
+                            <span className="flex-1 truncate text-gray-700 dark:text-gray-300">{projectNames.get(id)}</span>
+                            <div className="w-24">
+                              <input
+                                type="number"
+                                min={0}
+                                step={0.25}
+                                value={editingLog.projectHours?.find(h => h.projectId === id)?.hours ?? ''}
+                                onChange={e => setProjectHours(id, e.target.value)}
+                                placeholder="auto"
+                                className={inputClass}
+                              />
+                            </div>
+                            <span className="text-xs text-gray-400 dark:text-gray-500 w-4">h</span>
+                          </div>
+                        ))}
+                        {shiftHours !== null && allocatedHours > shiftHours && (
+                          <p className="text-xs text-orange-600 dark:text-orange-400 flex items-center gap-1">
+                            <Icons.Alert className="w-3 h-3" /> Project hours ({allocatedHours}h) exceed the recorded shift ({shiftHours}h).
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </fieldset>
+
+              <Attachments
+                label="Evidence & Attachments"
+                attachments={editingLog.attachments || []}
+                onChange={attachments => setEditingLog(prev => ({ ...prev, attachments }))}
+                readOnly={locked}
+              />
+
+              {savedLog && (
+                <ReviewPanel
+                  review={savedLog.review}
+                  user={user}
+                  internName={internName}
+                  onChange={review => onReview(savedLog.id, review)}
                 />
-              </div>
+              )}
 
               <div className="pt-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
                 <button 
-                  onClick={() => setIsModalOpen(false)}
+                  onClick={closeModal}
                   className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
                 >
-                  Cancel
-                </button>
-                <button 
-                  onClick={handleSave}
-                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 rounded-md shadow-sm transition-colors"
-                >
-                  Save Entry
+                  {locked ? 'Close' : 'Cancel'}
                 </button>
+                {!locked && (
+                  <button 
+                    onClick={handleSave}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 rounded-md shadow-sm transition-colors"
+                  >
+                    Save Entry
+                  </button>
+                )}
               </div>
             </div>
           </div>
         </div>
       )}
 
+      {isModalOpen && suggestion && (
+        <AISuggestionPanel
+          title={`AI Refine: ${suggestion.field === 'activity' ? 'Activity Description' : 'Learnings'}`}
+          original={suggestion.original}
+          suggestion={suggestion.text}
+          isStreaming={suggestion.isStreaming}
+          error={suggestion.error}
+          onStop={() => aiAbortRef.current?.abort()}
+          onAccept={acceptSuggestion}
+          onReject={rejectSuggestion}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {logToDelete && (
         <div className="fixed inset-0 z-50 flex justify-center items-center bg-black/20 dark:bg-black/50 backdrop-blur-sm p-4" onClick={() => setLogToDelete(null)}>
@@ -347,7 +834,7 @@ export const Logbook: React.FC<LogbookProps> = ({ logs, onSave, onDelete, filter
               </div>
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Delete Log Entry?</h3>
               <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
-                Are you sure you want to delete this log? This action cannot be undone.
+                The log moves to the trash, where it is kept for {TRASH_RETENTION_DAYS} days. You can also undo this right away.
               </p>
               <div className="flex gap-3 w-full">
                 <button 
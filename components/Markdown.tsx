@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ATTACHMENT_SCHEME, Block, Inline, ListItem, getPreviewLine, parseInline, parseMarkdown } from '../services/markdown';
+import { highlightCode, TokenKind } from '../services/syntaxHighlight';
+import { getAttachmentBlob } from '../services/attachmentStore';
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+  onToggleTask?: (line: number) => void; // Makes task checkboxes clickable
+  light?: boolean; // Ignore dark mode, for the printed report
+}
+
+interface RenderContext {
+  onToggleTask?: (line: number) => void;
+  tone: (classes: string) => string;
+}
+
+// Renders Markdown as React elements; nothing in the text is ever inserted as HTML
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  plain: '',
+  comment: 'text-gray-400 dark:text-gray-500 italic',
+  string: 'text-green-700 dark:text-green-400',
+  number: 'text-orange-600 dark:text-orange-400',
+  keyword: 'text-purple-700 dark:text-purple-400 font-medium',
+  literal: 'text-blue-700 dark:text-blue-400',
+};
+
+const HEADING_CLASSES = ['text-xl', 'text-lg', 'text-base', 'text-sm', 'text-sm', 'text-sm'];
+
+// Images embedded from the record's own attachments, loaded from IndexedDB
+const AttachmentImage: React.FC<{ id: string; alt: string; ctx: RenderContext }> = ({ id, alt, ctx }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getAttachmentBlob(id)
+      .then(blob => {
+        if (cancelled) return;
+        if (!blob) return setMissing(true);
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => !cancelled && setMissing(true));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [id]);
+
+  if (missing) return <span className="italic text-gray-400">[missing image: {alt || id}]</span>;
+  if (!url) return <span className={ctx.tone('inline-block w-32 h-20 rounded bg-gray-100 dark:bg-gray-700 animate-pulse align-middle')} />;
+  return <img src={url} alt={alt} className={ctx.tone('inline-block max-w-full max-h-80 rounded border border-gray-200 dark:border-gray-700')} />;
+};
+
+const renderInline = (nodes: Inline[], ctx: RenderContext): React.ReactNode[] => nodes.map((node, i) => {
+  switch (node.type) {
+    case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+    case 'break': return <br key={i} />;
+    case 'strong': return <strong key={i} className="font-semibold">{renderInline(node.children, ctx)}</strong>;
+    case 'em': return <em key={i}>{renderInline(node.children, ctx)}</em>;
+    case 'del': return <del key={i}>{renderInline(node.children, ctx)}</del>;
+    case 'code': return <code key={i} className={ctx.tone('px-1 py-0.5 rounded bg-gray-100 dark:bg-gray-700 font-mono text-[0.85em]')}>{node.text}</code>;
+    case 'link': return (
+      <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" onClick={e => e.stopPropagation()} className={ctx.tone('text-blue-600 dark:text-blue-400 underline underline-offset-2')}>
+        {renderInline(node.children, ctx)}
+      </a>
+    );
+    case 'image': return node.src.startsWith(ATTACHMENT_SCHEME)
+      ? <AttachmentImage key={i} id={node.src.slice(ATTACHMENT_SCHEME.length)} alt={node.alt} ctx={ctx} />
+      : <img key={i} src={node.src} alt={node.alt} referrerPolicy="no-referrer" className="inline-block max-w-full max-h-80 rounded" />;
+  }
+});
+
+const renderListItem = (item: ListItem, key: number, ctx: RenderContext) => {
+  // A lone paragraph renders inline so bullets stay compact
+  const content = item.children.length === 1 && item.children[0].type === 'paragraph'
+    ? renderInline(item.children[0].children, ctx)
+    : renderBlocks(item.children, ctx);
+  if (item.checked === null) return <li key={key}>{content}</li>;
+  return (
+    <li key={key} className="list-none -ml-5 flex items-start gap-2">
+      <input
+        type="checkbox"
+        checked={item.checked}
+        disabled={!ctx.onToggleTask}
+        onChange={() => ctx.onToggleTask?.(item.line)}
+        onClick={e => e.stopPropagation()}
+        className="mt-1 accent-blue-600"
+      />
+      <div className={ctx.tone(`flex-1 ${item.checked ? 'line-through text-gray-400 dark:text-gray-500' : ''}`)}>{content}</div>
+    </li>
+  );
+};
+
+const renderBlocks = (blocks: Block[], ctx: RenderContext): React.ReactNode[] => blocks.map((block, i) => {
+  switch (block.type) {
+    case 'heading': {
+      const Tag = `h${block.level}` as 'h1';
+      return <Tag key={i} className={`${HEADING_CLASSES[block.level - 1]} font-semibold mt-3 first:mt-0`}>{renderInline(block.children, ctx)}</Tag>;
+    }
+    case 'paragraph': return <p key={i}>{renderInline(block.children, ctx)}</p>;
+    case 'list': return block.ordered
+      ? <ol key={i} start={block.start} className="list-decimal pl-5 space-y-0.5">{block.items.map((item, j) => renderListItem(item, j, ctx))}</ol>
+      : <ul key={i} className="list-disc pl-5 space-y-0.5">{block.items.map((item, j) => renderListItem(item, j, ctx))}</ul>;
+    case 'quote': return (
+      <blockquote key={i} className={ctx.tone('border-l-4 border-gray-300 dark:border-gray-600 pl-3 text-gray-600 dark:text-gray-400 space-y-2')}>
+        {renderBlocks(block.children, ctx)}
+      </blockquote>
+    );
+    case 'code': return (
+      <pre key={i} className={ctx.tone('p-3 rounded-md bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 overflow-x-auto text-xs leading-relaxed')}>
+        <code className="font-mono">
+          {highlightCode(block.text, block.lang).map((token, j) => token.kind === 'plain'
+            ? <React.Fragment key={j}>{token.text}</React.Fragment>
+            : <span key={j} className={ctx.tone(TOKEN_CLASSES[token.kind])}>{token.text}</span>)}
+        </code>
+      </pre>
+    );
+    case 'table': return (
+      <div key={i} className="overflow-x-auto">
+        <table className="text-sm border-collapse">
+          <thead>
+            <tr>
+              {block.header.map((cell, c) => (
+                <th key={c} style={{ textAlign: block.align[c] || undefined }} className={ctx.tone('border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 px-2 py-1 font-semibold')}>
+                  {renderInline(cell, ctx)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {block.rows.map((row, r) => (
+              <tr key={r}>
+                {row.map((cell, c) => (
+                  <td key={c} style={{ textAlign: block.align[c] || undefined }} className={ctx.tone('border border-gray-300 dark:border-gray-600 px-2 py-1')}>
+                    {renderInline(cell, ctx)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+    case 'rule': return <hr key={i} className={ctx.tone('border-gray-200 dark:border-gray-700')} />;
+  }
+});
+
+const keepAll = (classes: string) => classes;
+const dropDark = (classes: string) => classes.split(' ').filter(c => !c.startsWith('dark:')).join(' ');
+
+export const Markdown: React.FC<MarkdownProps> = ({ text, className = '', onToggleTask, light = false }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className={`space-y-2 break-words ${className}`}>{renderBlocks(blocks, { onToggleTask, tone: light ? dropDark : keepAll })}</div>;
+};
+
+/** The first line of a field with inline formatting only, for table rows and cards. */
+export const MarkdownPreviewLine: React.FC<{ text: string }> = ({ text }) => (
+  <>{renderInline(parseInline(getPreviewLine(text)).filter(node => node.type !== 'image'), { tone: keepAll })}</>
+);
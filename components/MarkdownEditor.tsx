@@ -0,0 +1,250 @@
+import React, { useState, useRef, useLayoutEffect } from 'react';
+import { Attachment } from '../types';
+import { Icons } from './ui/Icons';
+import { Markdown } from './Markdown';
+import { ATTACHMENT_SCHEME, toggleTaskAt } from '../services/markdown';
+import { isImageAttachment } from '../services/attachmentStore';
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  rows?: number;
+  placeholder?: string;
+  attachments?: Attachment[]; // Images among these can be embedded
+  className?: string; // Classes for the textarea, so it matches the form's inputs
+  readOnly?: boolean; // Shows the rendered text only
+}
+
+interface Edit {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const LIST_ITEM = /^(\s*)([-*+]|(\d+)[.)])\s+(\[[ xX]\]\s+)?/;
+
+const TABLE_TEMPLATE = '| Column | Column |\n| --- | --- |\n| | |';
+
+// Wraps the selection in a marker, or removes it when the selection is already wrapped
+const wrapSelection = (text: string, start: number, end: number, before: string, after = before, placeholder = 'text'): Edit => {
+  const selected = text.slice(start, end);
+  if (text.slice(start - before.length, start) === before && text.slice(end, end + after.length) === after) {
+    return {
+      text: text.slice(0, start - before.length) + selected + text.slice(end + after.length),
+      selectionStart: start - before.length,
+      selectionEnd: end - before.length,
+    };
+  }
+  const inner = selected || placeholder;
+  return {
+    text: text.slice(0, start) + before + inner + after + text.slice(end),
+    selectionStart: start + before.length,
+    selectionEnd: start + before.length + inner.length,
+  };
+};
+
+// Adds a prefix to every line touched by the selection, or removes it when all lines already have it
+const prefixLines = (text: string, start: number, end: number, prefix: (index: number) => string, existing: RegExp): Edit => {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const nextBreak = text.indexOf('\n', end);
+  const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+  const lines = text.slice(lineStart, lineEnd).split('\n');
+  const remove = lines.every(line => existing.test(line));
+  const replaced = lines.map((line, i) => remove ? line.replace(existing, '') : prefix(i) + line.replace(LIST_ITEM, '')).join('\n');
+  return {
+    text: text.slice(0, lineStart) + replaced + text.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + replaced.length,
+  };
+};
+
+// Puts a block on its own lines, separated from the surrounding text by blank lines
+const insertBlock = (text: string, start: number, end: number, block: string, cursorOffset: number): Edit => {
+  const before = text.slice(0, start);
+  const lead = before === '' || before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n';
+  const after = text.slice(end);
+  const trail = after === '' || after.startsWith('\n\n') ? '' : after.startsWith('\n') ? '\n' : '\n\n';
+  const position = start + lead.length + cursorOffset;
+  return { text: before + lead + block + trail + after, selectionStart: position, selectionEnd: position };
+};
+
+// Textarea with a Markdown toolbar and a rendered preview tab
+export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({ value, onChange, rows = 4, placeholder, attachments = [], className = '', readOnly = false }) => {
+  const [mode, setMode] = useState<'write' | 'preview'>('write');
+  const [showImages, setShowImages] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const pendingSelection = useRef<[number, number] | null>(null);
+
+  const images = attachments.filter(isImageAttachment);
+
+  // Restore the caret once the edited value has been rendered
+  useLayoutEffect(() => {
+    const selection = pendingSelection.current;
+    const textarea = textareaRef.current;
+    if (!selection || !textarea) return;
+    pendingSelection.current = null;
+    textarea.focus();
+    textarea.setSelectionRange(selection[0], selection[1]);
+  }, [value]);
+
+  const apply = (edit: (text: string, start: number, end: number) => Edit) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const result = edit(value, textarea.selectionStart, textarea.selectionEnd);
+    pendingSelection.current = [result.selectionStart, result.selectionEnd];
+    onChange(result.text);
+  };
+
+  const insertLink = () => apply((text, start, end) => {
+    const label = text.slice(start, end) || 'link text';
+    const insert = `[${label}](https://)`;
+    const urlStart = start + label.length + 3;
+    return { text: text.slice(0, start) + insert + text.slice(end), selectionStart: urlStart, selectionEnd: urlStart + 8 };
+  });
+
+  const insertImage = (attachment: Attachment) => {
+    setShowImages(false);
+    apply((text, start, end) => {
+      const insert = `![${attachment.name.replace(/[[\]]/g, '')}](${ATTACHMENT_SCHEME}${attachment.id})`;
+      const position = start + insert.length;
+      return { text: text.slice(0, start) + insert + text.slice(end), selectionStart: position, selectionEnd: position };
+    });
+  };
+
+  const tools: { label: string; icon: React.ElementType; run: () => void }[] = [
+    { label: 'Bold (Ctrl+B)', icon: Icons.Bold, run: () => apply((t, s, e) => wrapSelection(t, s, e, '**')) },
+    { label: 'Italic (Ctrl+I)', icon: Icons.Italic, run: () => apply((t, s, e) => wrapSelection(t, s, e, '_')) },
+    { label: 'Strikethrough', icon: Icons.Strikethrough, run: () => apply((t, s, e) => wrapSelection(t, s, e, '~~')) },
+    { label: 'Heading', icon: Icons.Heading, run: () => apply((t, s, e) => prefixLines(t, s, e, () => '### ', /^#{1,6}\s+/)) },
+    { label: 'Bulleted list', icon: Icons.BulletList, run: () => apply((t, s, e) => prefixLines(t, s, e, () => '- ', /^\s*[-*+]\s+(?!\[[ xX]\])/)) },
+    { label: 'Numbered list', icon: Icons.NumberedList, run: () => apply((t, s, e) => prefixLines(t, s, e, i => `${i + 1}. `, /^\s*\d+[.)]\s+/)) },
+    { label: 'Checklist', icon: Icons.Checklist, run: () => apply((t, s, e) => prefixLines(t, s, e, () => '- [ ] ', /^\s*[-*+]\s+\[[ xX]\]\s+/)) },
+    { label: 'Quote', icon: Icons.Quote, run: () => apply((t, s, e) => prefixLines(t, s, e, () => '> ', /^>\s?/)) },
+    { label: 'Inline code', icon: Icons.Code, run: () => apply((t, s, e) => wrapSelection(t, s, e, '`', '`', 'code')) },
+    {
+      label: 'Code block',
+      icon: Icons.CodeBlock,
+      run: () => apply((t, s, e) => {
+        const code = t.slice(s, e);
+        return insertBlock(t, s, e, '```\n' + code + '\n```', 4 + code.length);
+      }),
+    },
+    { label: 'Link', icon: Icons.Link, run: insertLink },
+    { label: 'Table', icon: Icons.Table, run: () => apply((t, s, e) => insertBlock(t, s, e, TABLE_TEMPLATE, 2)) },
+  ];
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey && (e.key === 'b' || e.key === 'i')) {
+      // Keep the app's global shortcuts from seeing formatting keys
+      e.preventDefault();
+      e.stopPropagation();
+      apply((t, s, end) => wrapSelection(t, s, end, e.key === 'b' ? '**' : '_'));
+      return;
+    }
+    if (e.key !== 'Enter' || e.shiftKey || e.nativeEvent.isComposing) return;
+
+    // Continue lists on Enter; an empty item ends the list instead
+    const textarea = e.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    if (selectionStart !== selectionEnd) return;
+    const lineStart = value.lastIndexOf('\n', selectionStart - 1) + 1;
+    const line = value.slice(lineStart, selectionStart);
+    const match = line.match(LIST_ITEM);
+    if (!match) return;
+    e.preventDefault();
+    if (line.trim() === match[0].trim()) {
+      pendingSelection.current = [lineStart, lineStart];
+      onChange(value.slice(0, lineStart) + value.slice(selectionStart));
+      return;
+    }
+    const [, indent, bullet, number, task] = match;
+    const marker = number ? `${Number(number) + 1}${bullet.slice(-1)}` : bullet;
+    const insert = `\n${indent}${marker} ${task ? '[ ] ' : ''}`;
+    const position = selectionStart + insert.length;
+    pendingSelection.current = [position, position];
+    onChange(value.slice(0, selectionStart) + insert + value.slice(selectionEnd));
+  };
+
+  const tabClass = (active: boolean) => `px-2.5 py-1 text-xs font-medium rounded ${
+    active ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+  }`;
+
+  const preview = (
+    <div className="min-h-[6rem] border border-gray-200 dark:border-gray-700 rounded-md px-3 py-2 text-sm text-gray-800 dark:text-gray-200 bg-gray-50/50 dark:bg-gray-800/50">
+      {value.trim()
+        ? <Markdown text={value} onToggleTask={readOnly ? undefined : line => onChange(toggleTaskAt(value, line))} />
+        : <p className="text-gray-400 dark:text-gray-500 italic">Nothing to preview.</p>}
+    </div>
+  );
+
+  if (readOnly) return preview;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-1 mb-1">
+        <div className="flex p-0.5 rounded-md bg-gray-100 dark:bg-gray-700">
+          <button type="button" onClick={() => setMode('write')} className={tabClass(mode === 'write')}>Write</button>
+          <button type="button" onClick={() => setMode('preview')} className={tabClass(mode === 'preview')}>Preview</button>
+        </div>
+        {mode === 'write' && (
+          <div className="flex flex-wrap items-center gap-0.5 ml-1">
+            {tools.map(tool => (
+              <button
+                key={tool.label}
+                type="button"
+                title={tool.label}
+                aria-label={tool.label}
+                onMouseDown={e => e.preventDefault()}
+                onClick={tool.run}
+                className="p-1.5 rounded text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-800 dark:hover:text-gray-200"
+              >
+                <tool.icon className="w-3.5 h-3.5" />
+              </button>
+            ))}
+            {images.length > 0 && (
+              <div className="relative">
+                <button
+                  type="button"
+                  title="Embed image from attachments"
+                  aria-label="Embed image from attachments"
+                  onMouseDown={e => e.preventDefault()}
+                  onClick={() => setShowImages(!showImages)}
+                  className={`p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 ${showImages ? 'text-blue-600 dark:text-blue-400' : 'text-gray-500 dark:text-gray-400'}`}
+                >
+                  <Icons.Image className="w-3.5 h-3.5" />
+                </button>
+                {showImages && (
+                  <div className="absolute z-20 left-0 mt-1 w-56 max-h-48 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg py-1">
+                    {images.map(image => (
+                      <button
+                        key={image.id}
+                        type="button"
+                        onMouseDown={e => e.preventDefault()}
+                        onClick={() => insertImage(image)}
+                        className="w-full text-left px-3 py-1.5 text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 truncate"
+                      >
+                        {image.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {mode === 'write' ? (
+        <textarea
+          ref={textareaRef}
+          rows={rows}
+          value={value}
+          onChange={e => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          className={className}
+          placeholder={placeholder}
+        />
+      ) : preview}
+    </div>
+  );
+};
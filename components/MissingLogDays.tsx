@@ -0,0 +1,36 @@
+import React from 'react';
+import { Icons } from './ui/Icons';
+import { parseDateKey } from '../services/calendar';
+
+interface MissingLogDaysProps {
+  days: string[];
+  onCreateDraft: (date: string) => void;
+  onCreateAll?: () => void;
+}
+
+// Chips for working days with no log, each with a one-click "create draft" action
+export const MissingLogDays: React.FC<MissingLogDaysProps> = ({ days, onCreateDraft, onCreateAll }) => (
+  <div>
+    <div className="flex flex-wrap gap-2">
+      {days.map(day => (
+        <button
+          key={day}
+          onClick={() => onCreateDraft(day)}
+          title="Create a draft log for this day"
+          className="group flex items-center gap-1 px-2 py-1 rounded text-xs bg-orange-50 dark:bg-orange-900/20 text-orange-700 dark:text-orange-300 border border-orange-200 dark:border-orange-900/50 hover:bg-orange-100 dark:hover:bg-orange-900/40 transition-colors"
+        >
+          {parseDateKey(day).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })}
+          <Icons.Plus className="w-3 h-3 opacity-50 group-hover:opacity-100" />
+        </button>
+      ))}
+    </div>
+    {onCreateAll && days.length > 1 && (
+      <button
+        onClick={onCreateAll}
+        className="mt-3 text-xs font-medium text-orange-700 dark:text-orange-300 hover:underline flex items-center gap-1"
+      >
+        <Icons.Plus className="w-3 h-3" /> Create drafts for all {days.length} days
+      </button>
+    )}
+  </div>
+);
@@ -0,0 +1,111 @@
+import React, { useMemo } from 'react';
+import { MonthlyReport, Objective } from '../types';
+import { Icons } from './ui/Icons';
+import { CarryOverStatus, GoalContext, getCarryOver, getKeyResultUnit, getMonthlyGoalMoves, hasMoved } from '../services/objectives';
+
+interface MonthlyGoalReviewProps {
+  month: string; // YYYY-MM
+  objectives: Objective[];
+  context: GoalContext;
+  reports: MonthlyReport[];
+  achievements: string; // This month's, possibly still being edited
+  onAddToAchievements?: (text: string) => void;
+}
+
+const STATUS_STYLES: Record<CarryOverStatus, { label: string; className: string }> = {
+  done: { label: 'Done', className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' },
+  partial: { label: 'Partly', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300' },
+  open: { label: 'Not mentioned', className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300' },
+};
+
+const formatMonth = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(year, m - 1, 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+};
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+// A month's review in the report: which goals moved, and what became of last month's plan
+export const MonthlyGoalReview: React.FC<MonthlyGoalReviewProps> = ({ month, objectives, context, reports, achievements, onAddToAchievements }) => {
+  const moves = useMemo(() => getMonthlyGoalMoves(objectives, context, month), [objectives, context, month]);
+  const carryOver = useMemo(() => getCarryOver(reports, month, achievements), [reports, month, achievements]);
+  const moved = moves.filter(hasMoved);
+
+  if (objectives.length === 0 && !carryOver) return null;
+
+  const movedSummary = () => moved.map(({ objective, keyResults }) => [
+    `- **${objective.title || 'Untitled goal'}**`,
+    ...keyResults.filter(kr => kr.after !== kr.before).map(({ keyResult, before, after }) =>
+      `  - ${keyResult.title || 'Key result'}: ${before} → ${after} / ${keyResult.target} ${getKeyResultUnit(keyResult)}`.trimEnd()),
+  ].join('\n')).join('\n');
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4 bg-gray-50/50 dark:bg-gray-900/20">
+      {objectives.length > 0 && (
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 flex items-center gap-1.5">
+              <Icons.Target className="w-4 h-4" /> Goals in {formatMonth(month)}
+            </h4>
+            {onAddToAchievements && moved.length > 0 && (
+              <button
+                type="button"
+                onClick={() => onAddToAchievements(movedSummary())}
+                className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Add to achievements
+              </button>
+            )}
+          </div>
+          {moved.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">No goal moved this month.</p>
+          ) : (
+            <ul className="space-y-2">
+              {moved.map(({ objective, before, after, keyResults }) => (
+                <li key={objective.id} className="text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="flex-1 font-medium text-gray-800 dark:text-gray-200 truncate">{objective.title || 'Untitled goal'}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">{percent(before)} → </span>
+                    <span className="text-xs font-semibold text-green-700 dark:text-green-400">{percent(after)}</span>
+                  </div>
+                  <div className="mt-1 h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden flex">
+                    <div className="bg-blue-500" style={{ width: percent(Math.min(before, after)) }} />
+                    <div className="bg-green-500" style={{ width: percent(Math.max(0, after - before)) }} />
+                  </div>
+                  <ul className="mt-1 pl-3 text-xs text-gray-500 dark:text-gray-400">
+                    {keyResults.filter(kr => kr.after !== kr.before).map(({ keyResult, before: from, after: to }) => (
+                      <li key={keyResult.id}>
+                        {keyResult.title || 'Key result'}: {from} → <span className="text-gray-700 dark:text-gray-200">{to}</span> / {keyResult.target} {getKeyResultUnit(keyResult)}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {carryOver && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2 flex items-center gap-1.5">
+            <Icons.Checklist className="w-4 h-4" /> {formatMonth(carryOver.previous.month)} plan vs. this month's achievements
+          </h4>
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800">
+            {carryOver.items.map((item, i) => (
+              <li key={i} className="flex items-start gap-3 px-3 py-2 text-sm">
+                <span className={`shrink-0 px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[item.status].className}`}>
+                  {STATUS_STYLES[item.status].label}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-gray-800 dark:text-gray-200">{item.plan}</p>
+                  {item.match && <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={item.match}>↳ {item.match}</p>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
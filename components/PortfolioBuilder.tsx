@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import { AppData, PortfolioSettings, PortfolioTheme } from '../types';
+import { Icons } from './ui/Icons';
+import {
+  PORTFOLIO_THEMES,
+  buildPortfolio,
+  getCompletedProjects,
+  getHighlightCandidates,
+  portfolioToHtml,
+  portfolioToJsonResume,
+  portfolioToMarkdown
+} from '../services/portfolio';
+import { downloadText } from '../services/download';
+import { exportFileStamp } from '../services/exportService';
+import { getPreviewLine } from '../services/markdown';
+import { parseDateKey } from '../services/calendar';
+
+interface PortfolioBuilderProps {
+  data: AppData;
+  onChange: (portfolio: PortfolioSettings) => void;
+  onClose: () => void;
+}
+
+// How many of a project's logs are offered as highlights
+const CANDIDATE_LIMIT = 8;
+
+// Builds the end-of-internship portfolio from completed projects, with a live preview.
+// Edits stay in the dialog and are saved to the workspace when it closes.
+export const PortfolioBuilder: React.FC<PortfolioBuilderProps> = ({ data, onChange, onClose }) => {
+  const [draft, setDraft] = useState<PortfolioSettings>(data.settings.portfolio);
+
+  const completed = useMemo(() => getCompletedProjects(data.projects), [data.projects]);
+  const portfolio = useMemo(() => buildPortfolio({ ...data, settings: { ...data.settings, portfolio: draft } }), [data, draft]);
+  const html = useMemo(() => portfolioToHtml(portfolio), [portfolio]);
+
+  const update = (changes: Partial<PortfolioSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const close = () => {
+    if (draft !== data.settings.portfolio) onChange(draft);
+    onClose();
+  };
+
+  const toggleProject = (id: string) => update({
+    excludedProjectIds: draft.excludedProjectIds.includes(id)
+      ? draft.excludedProjectIds.filter(p => p !== id)
+      : [...draft.excludedProjectIds, id],
+  });
+
+  // Picking a highlight turns the automatic choice into an explicit list
+  const toggleHighlight = (projectId: string, logId: string) => {
+    const current = portfolio.projects.find(p => p.project.id === projectId)?.highlights.map(h => h.logId) ?? [];
+    const next = current.includes(logId) ? current.filter(id => id !== logId) : [...current, logId];
+    update({ highlights: { ...draft.highlights, [projectId]: next } });
+  };
+
+  const resetHighlights = (projectId: string) => {
+    const highlights = { ...draft.highlights };
+    delete highlights[projectId];
+    update({ highlights });
+  };
+
+  const fileName = `portfolio-${(data.settings.profile.name || 'intern').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')}-${exportFileStamp()}`;
+  const exports = [
+    { label: 'HTML', icon: Icons.Code, action: () => downloadText(html, `${fileName}.html`, 'text/html') },
+    { label: 'Markdown', icon: Icons.Report, action: () => downloadText(portfolioToMarkdown(portfolio), `${fileName}.md`, 'text/markdown') },
+    { label: 'JSON Resume', icon: Icons.Json, action: () => downloadText(JSON.stringify(portfolioToJsonResume(portfolio), null, 2), `${fileName}.json`, 'application/json') },
+  ];
+
+  const inputClass = "w-full border border-gray-400 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none placeholder-gray-500 dark:placeholder-gray-400";
+  const labelClass = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-center items-center bg-black/20 dark:bg-black/50 backdrop-blur-sm p-4" onClick={close}>
+      <div className="w-full max-w-6xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl overflow-hidden h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-700/50">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 dark:text-white">Internship Portfolio</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Built from your completed projects and the highlights of their logs.</p>
+          </div>
+          <button onClick={close}><Icons.Close className="w-6 h-6 text-gray-400 dark:text-gray-300" /></button>
+        </div>
+
+        <div className="flex-1 flex flex-col lg:flex-row min-h-0">
+          <div className="lg:w-[26rem] shrink-0 overflow-y-auto p-6 space-y-6 border-b lg:border-b-0 lg:border-r border-gray-200 dark:border-gray-700">
+            <section className="space-y-3">
+              <h4 className="text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-bold">About You</h4>
+              {!data.settings.profile.name && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">Your name, division and university come from the profile in Settings.</p>
+              )}
+              <div>
+                <label className={labelClass}>Headline</label>
+                <input type="text" value={draft.headline} onChange={e => update({ headline: e.target.value })} placeholder="e.g. Backend Developer Intern" className={inputClass} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Email</label>
+                  <input type="email" value={draft.email} onChange={e => update({ email: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Website</label>
+                  <input type="url" value={draft.website} onChange={e => update({ website: e.target.value })} placeholder="https://" className={inputClass} />
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Summary</label>
+                <textarea rows={4} value={draft.summary} onChange={e => update({ summary: e.target.value })} placeholder="A few sentences about you and your internship (Markdown)" className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Theme</label>
+                <select value={draft.theme} onChange={e => update({ theme: e.target.value as PortfolioTheme })} className={inputClass}>
+                  {(Object.keys(PORTFOLIO_THEMES) as PortfolioTheme[]).map(theme => <option key={theme} value={theme}>{PORTFOLIO_THEMES[theme].label}</option>)}
+                </select>
+              </div>
+            </section>
+
+            <section className="space-y-3">
+              <h4 className="text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-bold">Completed Projects</h4>
+              {completed.length === 0 && (
+                <p className="text-sm text-gray-400 dark:text-gray-500">No completed projects yet. Mark a project as Completed to add it here.</p>
+              )}
+              {completed.map(project => {
+                const included = !draft.excludedProjectIds.includes(project.id);
+                const picked = portfolio.projects.find(p => p.project.id === project.id)?.highlights.map(h => h.logId) ?? [];
+                const candidates = getHighlightCandidates(project, data.logs).filter((log, i) => i < CANDIDATE_LIMIT || picked.includes(log.id));
+                return (
+                  <div key={project.id} className="rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+                    <label className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white">
+                      <input type="checkbox" checked={included} onChange={() => toggleProject(project.id)} />
+                      <span className="truncate">{project.name}</span>
+                      {project.role && <span className="text-xs font-normal text-gray-500 dark:text-gray-400 truncate">{project.role}</span>}
+                    </label>
+                    {included && (
+                      <div className="mt-2 pl-6">
+                        <div className="flex justify-between items-center mb-1 text-xs text-gray-500 dark:text-gray-400">
+                          <span>Highlights {draft.highlights[project.id] ? '(picked)' : '(automatic)'}</span>
+                          {draft.highlights[project.id] && (
+                            <button onClick={() => resetHighlights(project.id)} className="text-blue-600 dark:text-blue-400 hover:underline">Pick automatically</button>
+                          )}
+                        </div>
+                        {candidates.length === 0 ? (
+                          <p className="text-xs text-gray-400 dark:text-gray-500">No logs linked to this project.</p>
+                        ) : (
+                          <ul className="space-y-1">
+                            {candidates.map(log => (
+                              <li key={log.id}>
+                                <label className="flex items-start gap-2 text-xs text-gray-700 dark:text-gray-300">
+                                  <input type="checkbox" className="mt-0.5" checked={picked.includes(log.id)} onChange={() => toggleHighlight(project.id, log.id)} />
+                                  <span className="text-gray-400 dark:text-gray-500 whitespace-nowrap">
+                                    {parseDateKey(log.date).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}
+                                  </span>
+                                  <span className="line-clamp-2">{getPreviewLine(log.activity)}</span>
+                                </label>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </section>
+          </div>
+
+          <div className="flex-1 min-h-[20rem] bg-gray-100 dark:bg-gray-900 p-4">
+            <iframe title="Portfolio preview" srcDoc={html} sandbox="" className="w-full h-full rounded-lg border border-gray-200 dark:border-gray-700 bg-white" />
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 flex flex-wrap justify-between items-center gap-3">
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {portfolio.projects.length} project{portfolio.projects.length === 1 ? '' : 's'}, {portfolio.skills.length} skill{portfolio.skills.length === 1 ? '' : 's'}
+          </span>
+          <div className="flex flex-wrap gap-2">
+            {exports.map(({ label, icon: Icon, action }) => (
+              <button
+                key={label}
+                onClick={action}
+                className="flex items-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                <Icon className="w-4 h-4" /> {label}
+              </button>
+            ))}
+            <button onClick={close} className="px-6 py-2 bg-blue-600 dark:bg-blue-500 text-white rounded-md text-sm font-medium hover:bg-blue-700 dark:hover:bg-blue-600 shadow-sm">
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,397 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Project, ProjectStatus, ProjectTask, TaskStatus } from '../types';
+import { Icons } from './ui/Icons';
+import { addDays, parseDateKey, todayKey } from '../services/calendar';
+import { getProjectProgress, isTaskOverdue } from '../services/projectTasks';
+import {
+  ProjectSpan,
+  daysBetween,
+  findCriticalPath,
+  getProjectSpan,
+  isProjectOverdue
+} from '../services/projectSchedule';
+
+interface ProjectTimelineProps {
+  projects: Project[];
+  onOpen: (project: Project) => void;
+  onSave: (project: Project) => void;
+}
+
+type Zoom = 'week' | 'month' | 'quarter';
+
+type Row =
+  | { kind: 'project'; project: Project; y: number; height: number }
+  | { kind: 'task'; project: Project; task: ProjectTask; y: number; height: number };
+
+interface ResizeState {
+  project: Project;
+  edge: 'start' | 'end';
+  span: ProjectSpan;
+  originX: number;
+  delta: number; // Days moved so far
+}
+
+const ZOOM_LEVELS: Record<Zoom, { label: string; dayWidth: number; padding: number }> = {
+  week: { label: 'Week', dayWidth: 28, padding: 7 },
+  month: { label: 'Month', dayWidth: 8, padding: 14 },
+  quarter: { label: 'Quarter', dayWidth: 3, padding: 30 },
+};
+
+const LABEL_WIDTH = 224;
+const PROJECT_ROW_HEIGHT = 40;
+const TASK_ROW_HEIGHT = 28;
+
+const resizedSpan = ({ span, edge, delta }: ResizeState) => edge === 'start'
+  ? { start: [addDays(span.start, delta), span.end].sort()[0], end: span.end }
+  : { start: span.start, end: [addDays(span.end, delta), span.start].sort()[1] };
+
+const isTickDay = (key: string, zoom: Zoom) => {
+  const date = parseDateKey(key);
+  if (zoom === 'week') return date.getDay() === 1;
+  if (zoom === 'month') return date.getDate() === 1;
+  return date.getDate() === 1 && date.getMonth() % 3 === 0;
+};
+
+const tickLabel = (key: string, zoom: Zoom) => {
+  const date = parseDateKey(key);
+  if (zoom === 'week') return date.toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+  if (zoom === 'month') return date.toLocaleDateString(undefined, { month: 'short', year: '2-digit' });
+  return `Q${date.getMonth() / 3 + 1} ${date.getFullYear()}`;
+};
+
+export const ProjectTimeline: React.FC<ProjectTimelineProps> = ({ projects, onOpen, onSave }) => {
+  const [zoom, setZoom] = useState<Zoom>('month');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [resize, setResize] = useState<ResizeState | null>(null);
+  const resizeRef = useRef(resize);
+  resizeRef.current = resize;
+  // The click that ends a resize should not also open the project
+  const suppressClick = useRef(false);
+
+  const today = todayKey();
+  const { dayWidth, padding } = ZOOM_LEVELS[zoom];
+
+  // Bar spans, with the bar being resized shown at its dragged size
+  const spans = useMemo(() => {
+    const map = new Map(projects.map(p => [p.id, getProjectSpan(p, today)]));
+    if (resize) map.set(resize.project.id, { ...resize.span, ...resizedSpan(resize) });
+    return map;
+  }, [projects, today, resize]);
+
+  const criticalPath = useMemo(() => findCriticalPath(projects, today), [projects, today]);
+  const criticalEdges = useMemo(
+    () => new Set(criticalPath.slice(1).map((id, i) => `${criticalPath[i]}>${id}`)),
+    [criticalPath]
+  );
+
+  // Visible date range: every bar, milestone and task due date plus today, with some padding
+  const range = useMemo(() => {
+    const dates = [today];
+    projects.forEach(p => {
+      const span = getProjectSpan(p, today);
+      dates.push(span.start, span.end, ...p.milestones.map(m => m.date), ...p.tasks.map(t => t.dueDate));
+    });
+    const sorted = dates.filter(Boolean).sort();
+    let start = addDays(sorted[0], -padding);
+    const startDate = parseDateKey(start);
+    start = zoom === 'week'
+      ? addDays(start, -((startDate.getDay() + 6) % 7))
+      : addDays(start, 1 - startDate.getDate());
+    const end = addDays(sorted[sorted.length - 1], padding * 2);
+    const days = daysBetween(start, end) + 1;
+    const ticks: string[] = [];
+    for (let i = 0; i < days; i++) {
+      const key = addDays(start, i);
+      if (isTickDay(key, zoom)) ticks.push(key);
+    }
+    return { start, days, ticks };
+  }, [projects, today, zoom, padding]);
+
+  const x = (date: string) => daysBetween(range.start, date) * dayWidth;
+  const chartWidth = range.days * dayWidth;
+
+  const rows = useMemo(() => {
+    const list: Row[] = [];
+    let y = 0;
+    projects.forEach(project => {
+      list.push({ kind: 'project', project, y, height: PROJECT_ROW_HEIGHT });
+      y += PROJECT_ROW_HEIGHT;
+      if (expanded.has(project.id)) {
+        project.tasks.forEach(task => {
+          list.push({ kind: 'task', project, task, y, height: TASK_ROW_HEIGHT });
+          y += TASK_ROW_HEIGHT;
+        });
+      }
+    });
+    return { list, height: y };
+  }, [projects, expanded]);
+
+  // Dependency arrows between project bars and between task due-date markers
+  const arrows = useMemo(() => {
+    const projectRows = new Map<string, Row>();
+    const taskRows = new Map<string, Row & { kind: 'task' }>();
+    rows.list.forEach(row => {
+      if (row.kind === 'project') projectRows.set(row.project.id, row);
+      else taskRows.set(row.task.id, row);
+    });
+
+    const result: { key: string; x1: number; y1: number; x2: number; y2: number; critical: boolean; conflict: boolean }[] = [];
+    projects.forEach(project => {
+      const to = projectRows.get(project.id)!;
+      const toSpan = spans.get(project.id)!;
+      project.dependsOn.forEach(depId => {
+        const from = projectRows.get(depId);
+        const fromSpan = spans.get(depId);
+        if (!from || !fromSpan) return;
+        result.push({
+          key: `${depId}>${project.id}`,
+          x1: x(fromSpan.end) + dayWidth, y1: from.y + from.height / 2,
+          x2: x(toSpan.start), y2: to.y + to.height / 2,
+          critical: criticalEdges.has(`${depId}>${project.id}`),
+          conflict: fromSpan.end >= toSpan.start
+        });
+      });
+    });
+    taskRows.forEach(to => {
+      to.task.dependsOn.forEach(depId => {
+        const from = taskRows.get(depId);
+        if (!from || !from.task.dueDate || !to.task.dueDate) return;
+        result.push({
+          key: `${depId}>${to.task.id}`,
+          x1: x(from.task.dueDate) + dayWidth / 2, y1: from.y + from.height / 2,
+          x2: x(to.task.dueDate) + dayWidth / 2, y2: to.y + to.height / 2,
+          critical: false,
+          conflict: from.task.dueDate > to.task.dueDate
+        });
+      });
+    });
+    return result;
+  }, [rows, projects, spans, criticalEdges, range.start, dayWidth]);
+
+  // Resizing: follow the pointer anywhere on the page and save once it is released
+  useEffect(() => {
+    if (!resize) return;
+    const handleMove = (e: PointerEvent) => {
+      setResize(r => r && { ...r, delta: Math.round((e.clientX - r.originX) / dayWidth) });
+    };
+    const handleUp = () => {
+      const current = resizeRef.current;
+      setResize(null);
+      if (!current || current.delta === 0) return;
+      suppressClick.current = true;
+      setTimeout(() => { suppressClick.current = false; });
+      const { start, end } = resizedSpan(current);
+      onSave({ ...current.project, startDate: start, endDate: end });
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [resize?.project.id, dayWidth]);
+
+  const startResize = (e: React.PointerEvent, project: Project, edge: 'start' | 'end') => {
+    e.preventDefault();
+    e.stopPropagation();
+    setResize({ project, edge, span: getProjectSpan(project, today), originX: e.clientX, delta: 0 });
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const barColor = (status: ProjectStatus) =>
+    status === ProjectStatus.Completed ? 'bg-green-500 dark:bg-green-600'
+      : status === ProjectStatus.OnProgress ? 'bg-blue-500 dark:bg-blue-600'
+      : 'bg-gray-400 dark:bg-gray-500';
+
+  const formatDate = (key: string) => parseDateKey(key).toLocaleDateString();
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="flex justify-between items-center px-6 pt-4">
+        <div className="flex bg-gray-100 dark:bg-gray-900 p-1 rounded-lg border border-gray-200 dark:border-gray-700 text-xs">
+          {(Object.keys(ZOOM_LEVELS) as Zoom[]).map(level => (
+            <button
+              key={level}
+              onClick={() => setZoom(level)}
+              className={`px-3 py-1 rounded-md transition-all ${zoom === level ? 'bg-white dark:bg-gray-700 shadow-sm text-indigo-600 dark:text-indigo-400 font-medium' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+            >
+              {ZOOM_LEVELS[level].label}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-gray-400 dark:text-gray-500">Drag the ends of a bar to change its dates</span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="p-6" style={{ width: LABEL_WIDTH + chartWidth + 48 }}>
+          {/* Timeline Header */}
+          <div className="flex border-b border-gray-200 dark:border-gray-700 mb-2 pb-2">
+            <div className="shrink-0 px-2 text-sm font-semibold text-gray-500 dark:text-gray-400" style={{ width: LABEL_WIDTH }}>Project Name</div>
+            <div className="relative h-6" style={{ width: chartWidth }}>
+              {range.ticks.map(tick => (
+                <div
+                  key={tick}
+                  className="absolute bottom-0 text-xs font-medium text-gray-400 dark:text-gray-500 border-l border-gray-300 dark:border-gray-600 pl-1 whitespace-nowrap"
+                  style={{ left: x(tick) }}
+                >
+                  {tickLabel(tick, zoom)}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Timeline Body */}
+          <div className="relative" style={{ height: rows.height }}>
+            {/* Background Grid */}
+            <div className="absolute top-0 bottom-0 pointer-events-none" style={{ left: LABEL_WIDTH, width: chartWidth }}>
+              {range.ticks.map(tick => (
+                <div key={tick} className="absolute top-0 bottom-0 border-l border-gray-100 dark:border-gray-700/50" style={{ left: x(tick) }} />
+              ))}
+              <div className="absolute top-0 bottom-0 border-l-2 border-red-500/50 border-dashed" style={{ left: x(today) + dayWidth / 2 }}>
+                <div className="absolute -top-3 -left-4 text-[9px] font-bold text-red-500 bg-red-50 dark:bg-red-900/50 px-1 rounded">Today</div>
+              </div>
+            </div>
+
+            {/* Dependency Arrows */}
+            <svg className="absolute top-0 pointer-events-none overflow-visible" style={{ left: LABEL_WIDTH }} width={chartWidth} height={rows.height}>
+              <defs>
+                {['gray', 'orange', 'red'].map(color => (
+                  <marker key={color} id={`timeline-arrow-${color}`} viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M0,0 L8,4 L0,8 z" className={color === 'gray' ? 'fill-gray-400' : color === 'orange' ? 'fill-orange-500' : 'fill-red-500'} />
+                  </marker>
+                ))}
+              </defs>
+              {arrows.map(a => {
+                const color = a.conflict ? 'red' : a.critical ? 'orange' : 'gray';
+                const bend = Math.max(16, Math.abs(a.x2 - a.x1) / 2);
+                return (
+                  <path
+                    key={a.key}
+                    d={`M${a.x1},${a.y1} C${a.x1 + bend},${a.y1} ${a.x2 - bend},${a.y2} ${a.x2},${a.y2}`}
+                    fill="none"
+                    strokeWidth={a.critical ? 2 : 1.5}
+                    strokeDasharray={a.conflict ? '4 3' : undefined}
+                    markerEnd={`url(#timeline-arrow-${color})`}
+                    className={color === 'gray' ? 'stroke-gray-400' : color === 'orange' ? 'stroke-orange-500' : 'stroke-red-500'}
+                  />
+                );
+              })}
+            </svg>
+
+            {/* Rows */}
+            {rows.list.map(row => {
+              if (row.kind === 'task') {
+                const { task } = row;
+                const overdue = isTaskOverdue(task, today);
+                return (
+                  <div key={task.id} className="absolute left-0 right-0 flex items-center" style={{ top: row.y, height: row.height }}>
+                    <div className="shrink-0 pl-8 pr-4 truncate text-xs text-gray-500 dark:text-gray-400" style={{ width: LABEL_WIDTH }} title={`${task.title} (${task.status})`}>
+                      <span className={task.status === TaskStatus.Done ? 'line-through' : ''}>{task.title}</span>
+                    </div>
+                    <div className="relative h-full" style={{ width: chartWidth }}>
+                      {task.dueDate && (
+                        <div
+                          className={`absolute top-1/2 -translate-y-1/2 w-2.5 h-2.5 rounded-full border-2 border-white dark:border-gray-800 ${
+                            task.status === TaskStatus.Done ? 'bg-green-500' : overdue ? 'bg-red-500' : 'bg-indigo-500'
+                          }`}
+                          style={{ left: x(task.dueDate) + dayWidth / 2 - 5 }}
+                          title={`${task.title}\nDue ${formatDate(task.dueDate)} · ${task.status}`}
+                        />
+                      )}
+                    </div>
+                  </div>
+                );
+              }
+
+              const { project } = row;
+              const span = spans.get(project.id)!;
+              const overdue = isProjectOverdue(project, today);
+              const critical = criticalPath.includes(project.id);
+              const progress = getProjectProgress(project);
+              const left = x(span.start);
+              const width = Math.max(dayWidth, (daysBetween(span.start, span.end) + 1) * dayWidth);
+
+              return (
+                <div
+                  key={project.id}
+                  className={`absolute left-0 right-0 flex items-center group rounded transition-colors cursor-pointer ${
+                    overdue ? 'bg-red-50/60 dark:bg-red-900/10' : 'hover:bg-gray-50 dark:hover:bg-gray-700/30'
+                  }`}
+                  style={{ top: row.y, height: row.height }}
+                  onClick={() => !suppressClick.current && onOpen(project)}
+                >
+                  <div className="shrink-0 pr-4 flex items-center gap-1 text-sm font-medium text-gray-700 dark:text-gray-300" style={{ width: LABEL_WIDTH }}>
+                    {project.tasks.length > 0 ? (
+                      <button
+                        onClick={e => { e.stopPropagation(); toggleExpanded(project.id); }}
+                        className="p-0.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                        title={expanded.has(project.id) ? 'Hide tasks' : 'Show tasks'}
+                      >
+                        {expanded.has(project.id) ? <Icons.ChevronDown className="w-3.5 h-3.5" /> : <Icons.ChevronRight className="w-3.5 h-3.5" />}
+                      </button>
+                    ) : <span className="w-[18px] shrink-0" />}
+                    <span className={`truncate ${overdue ? 'text-red-600 dark:text-red-400' : ''}`} title={project.name}>{project.name}</span>
+                    {overdue && (
+                      <span className="shrink-0 px-1 rounded text-[9px] font-bold uppercase bg-red-100 dark:bg-red-900/40 text-red-600 dark:text-red-300">Overdue</span>
+                    )}
+                  </div>
+
+                  <div className="relative h-full" style={{ width: chartWidth }}>
+                    <div
+                      className={`absolute h-6 top-2 rounded shadow-sm flex items-center px-2 overflow-hidden text-white text-[10px] font-medium hover:brightness-110 ${barColor(project.status)} ${
+                        overdue ? 'ring-2 ring-red-500 ring-offset-1 dark:ring-offset-gray-800' : critical ? 'ring-2 ring-orange-400 ring-offset-1 dark:ring-offset-gray-800' : ''
+                      } ${span.openEnded ? 'border-r-2 border-dashed border-white/80' : ''}`}
+                      style={{ left, width }}
+                      title={`${project.name}\n${formatDate(span.start)} - ${span.openEnded ? 'no end date' : formatDate(span.end)}\nStatus: ${project.status}\nProgress: ${progress.percent}%${critical ? '\nOn the critical path' : ''}`}
+                    >
+                      <div className="absolute inset-y-0 left-0 bg-black/20" style={{ width: `${progress.percent}%` }} />
+                      <span className="relative whitespace-nowrap drop-shadow-md">{project.status} · {progress.percent}%</span>
+                      <div
+                        onPointerDown={e => startResize(e, project, 'start')}
+                        onClick={e => e.stopPropagation()}
+                        className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize hover:bg-white/40"
+                      />
+                      <div
+                        onPointerDown={e => startResize(e, project, 'end')}
+                        onClick={e => e.stopPropagation()}
+                        className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize hover:bg-white/40"
+                      />
+                    </div>
+
+                    {project.milestones.map(milestone => (
+                      <div
+                        key={milestone.id}
+                        className={`absolute top-1/2 w-3 h-3 -mt-1.5 rotate-45 border-2 border-white dark:border-gray-800 shadow ${
+                          milestone.done ? 'bg-green-500' : milestone.date < today ? 'bg-red-500' : 'bg-amber-400'
+                        }`}
+                        style={{ left: x(milestone.date) + dayWidth / 2 - 6 }}
+                        title={`${milestone.title}\n${formatDate(milestone.date)}${milestone.done ? ' · reached' : ''}`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 px-6 pb-4 text-xs text-gray-500 dark:text-gray-400">
+        <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rotate-45 bg-amber-400" /> Milestone</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded ring-2 ring-red-500" /> Overdue</span>
+        {criticalPath.length > 0 && (
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded ring-2 ring-orange-400" /> Critical path</span>
+        )}
+        <span className="flex items-center gap-1"><span className="w-4 border-t-2 border-gray-400" /> Dependency</span>
+        <span className="flex items-center gap-1"><span className="w-4 border-t-2 border-dashed border-red-500" /> Starts before its dependency ends</span>
+      </div>
+    </div>
+  );
+};
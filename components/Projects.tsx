@@ -1,11 +1,30 @@
-import React, { useState, useMemo } from 'react';
-import { Project, ProjectStatus } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Project, ProjectStatus, DailyLog, Milestone, OpenRequest, RecordTemplate } from '../types';
 import { Icons } from './ui/Icons';
+import { Attachments } from './Attachments';
+import { MarkdownPreviewLine } from './Markdown';
+import { RouteQuery, setQueryParam } from '../services/router';
+import { getProjectActivity } from '../services/projectActivity';
+import { getProjectProgress } from '../services/projectTasks';
+import { todayKey } from '../services/calendar';
+import { KanbanBoard } from './KanbanBoard';
+import { ProjectTimeline } from './ProjectTimeline';
+import { getDependencyCandidates, isProjectOverdue } from '../services/projectSchedule';
+import { applyTemplate } from '../services/templates';
+import { TemplatePicker } from './TemplatePicker';
 
 interface ProjectsProps {
   projects: Project[];
+  logs: DailyLog[];
   onSave: (project: Project) => void;
   onDelete: (id: string) => void;
+  openRequest?: OpenRequest;
+  onOpenHandled?: () => void;
+  filters?: RouteQuery; // Routed views keep their filters in the URL
+  onFiltersChange?: (filters: RouteQuery) => void;
+  onRecordChange?: (id: string | null) => void; // The project open in the editor, for the URL
+  templates: RecordTemplate[];
+  onBuildPortfolio?: () => void;
 }
 
 const DEFAULT_PROJECT_TEMPLATE: Partial<Project> = {
@@ -14,16 +33,27 @@ const DEFAULT_PROJECT_TEMPLATE: Partial<Project> = {
   techStack: [],
   role: "Fullstack Developer",
   deliverables: "- Source Code\n- Documentation",
+  documents: [],
+  tasks: [],
+  milestones: [],
+  dependsOn: [],
   startDate: new Date().toISOString().split('T')[0],
+  updatedAt: '',
+  version: 0,
 };
 
 type ViewMode = 'gallery' | 'timeline';
 
-export const Projects: React.FC<ProjectsProps> = ({ projects, onSave, onDelete }) => {
+export const Projects: React.FC<ProjectsProps> = ({ projects, logs, onSave, onDelete, openRequest, onOpenHandled, filters, onFiltersChange, onRecordChange, templates, onBuildPortfolio }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingProject, setEditingProject] = useState<Partial<Project>>(DEFAULT_PROJECT_TEMPLATE);
+  const [templateId, setTemplateId] = useState('');
   const [viewMode, setViewMode] = useState<ViewMode>('gallery');
-  const [selectedTech, setSelectedTech] = useState('');
+  // Filter state (local when the gallery is embedded in the dashboard)
+  const [localFilters, setLocalFilters] = useState<RouteQuery>({});
+  const activeFilters = filters ?? localFilters;
+  const selectedTech = activeFilters.tech || '';
+  const setSelectedTech = (tech: string) => (onFiltersChange ?? setLocalFilters)(setQueryParam(activeFilters, 'tech', tech));
 
   const handleOpenModal = (project?: Project) => {
     if (project) {
@@ -32,19 +62,86 @@ export const Projects: React.FC<ProjectsProps> = ({ projects, onSave, onDelete }
       setEditingProject({
         ...DEFAULT_PROJECT_TEMPLATE,
         id: crypto.randomUUID(),
-        startDate: new Date().toISOString().split('T')[0],
+        startDate: todayKey(),
       });
     }
+    setTemplateId('');
     setIsModalOpen(true);
+    onRecordChange?.(project?.id ?? null);
   };
 
+  const closeModal = () => {
+    setIsModalOpen(false);
+    onRecordChange?.(null);
+  };
+
+  // Refills a new project from another template, keeping what identifies it
+  const chooseTemplate = (template: RecordTemplate | null) => {
+    setTemplateId(template?.id ?? '');
+    setEditingProject(prev => {
+      const base = { ...DEFAULT_PROJECT_TEMPLATE, id: prev.id, name: prev.name, startDate: prev.startDate, endDate: prev.endDate };
+      return template ? applyTemplate(template, base, prev.startDate || todayKey(), projects) : base;
+    });
+  };
+
+  // Opened from the command palette, a shortcut or a link
+  useEffect(() => {
+    if (!openRequest) return;
+    if (openRequest.close) closeModal();
+    else handleOpenModal(projects.find(p => p.id === openRequest.id));
+    onOpenHandled?.();
+  }, [openRequest]);
+
   const handleSave = () => {
     if (editingProject.name) {
       onSave(editingProject as Project);
-      setIsModalOpen(false);
+      closeModal();
     }
   };
 
+  // Activity for the project open in the modal (only saved projects can have linked logs)
+  const editingActivity = useMemo(() => {
+    if (!editingProject.id) return null;
+    return getProjectActivity(editingProject as Project, logs);
+  }, [editingProject.id, logs]);
+
+  // Projects this one may depend on; anything that already depends on it would form a cycle
+  const dependencyCandidates = useMemo(() => {
+    if (!editingProject.id) return [];
+    const others = projects.filter(p => p.id !== editingProject.id);
+    return getDependencyCandidates<Project>([...others, editingProject as Project], editingProject.id);
+  }, [projects, editingProject.id, editingProject.dependsOn]);
+
+  const toggleDependency = (projectId: string) => {
+    setEditingProject(prev => {
+      const current = prev.dependsOn || [];
+      return { ...prev, dependsOn: current.includes(projectId) ? current.filter(id => id !== projectId) : [...current, projectId] };
+    });
+  };
+
+  const addMilestone = () => {
+    const milestone: Milestone = {
+      id: crypto.randomUUID(),
+      title: 'New milestone',
+      date: editingProject.endDate || todayKey(),
+      done: false
+    };
+    setEditingProject(prev => ({ ...prev, milestones: [...(prev.milestones || []), milestone] }));
+  };
+
+  const updateMilestone = (id: string, changes: Partial<Milestone>) => {
+    setEditingProject(prev => ({
+      ...prev,
+      milestones: prev.milestones?.map(m => m.id === id ? { ...m, ...changes } : m)
+    }));
+  };
+
+  const loggedDays = useMemo(() => {
+    const counts = new Map<string, number>();
+    logs.forEach(l => l.projectIds.forEach(id => counts.set(id, (counts.get(id) || 0) + 1)));
+    return counts;
+  }, [logs]);
+
   const getGradient = (name: string) => {
     const gradients = [
       'from-pink-500 to-rose-500',
@@ -70,68 +167,6 @@ export const Projects: React.FC<ProjectsProps> = ({ projects, onSave, onDelete }
     return projects.filter(p => p.techStack.includes(selectedTech));
   }, [projects, selectedTech]);
 
-  // --- Timeline Logic ---
-  const timelineData = useMemo(() => {
-    if (filteredProjects.length === 0) return null;
-
-    const validProjects = filteredProjects.filter(p => p.startDate || p.endDate);
-    if (validProjects.length === 0) return null;
-
-    let minDate = new Date();
-    let maxDate = new Date();
-    
-    // Determine bounds
-    validProjects.forEach((p, idx) => {
-      const start = p.startDate ? new Date(p.startDate) : new Date();
-      const end = p.endDate ? new Date(p.endDate) : new Date(start.getTime() + 86400000 * 30);
-      
-      if (idx === 0) {
-          minDate = new Date(start);
-          maxDate = new Date(end);
-      } else {
-          if (start < minDate) minDate = new Date(start);
-          if (end > maxDate) maxDate = new Date(end);
-      }
-    });
-
-    // Buffers
-    minDate.setDate(minDate.getDate() - 15);
-    maxDate.setDate(maxDate.getDate() + 45); // Extra buffer for labels
-
-    const totalDuration = maxDate.getTime() - minDate.getTime();
-    if (totalDuration <= 0) return null;
-
-    // Generate Month Headers
-    const months: { label: string, left: number }[] = [];
-    const currentIter = new Date(minDate);
-    currentIter.setDate(1); 
-    
-    while (currentIter <= maxDate) {
-      const iterTime = currentIter.getTime();
-      if (iterTime >= minDate.getTime()) {
-         const left = ((iterTime - minDate.getTime()) / totalDuration) * 100;
-         if (left >= 0 && left <= 100) {
-            months.push({
-              label: currentIter.toLocaleDateString('default', { month: 'short', year: '2-digit' }),
-              left
-            });
-         }
-      }
-      currentIter.setMonth(currentIter.getMonth() + 1);
-    }
-
-    return { minDate, maxDate, totalDuration, months };
-  }, [filteredProjects]);
-
-  const todayPercent = useMemo(() => {
-    if (!timelineData) return -1;
-    const now = new Date().getTime();
-    const min = timelineData.minDate.getTime();
-    const total = timelineData.totalDuration;
-    const p = ((now - min) / total) * 100;
-    return (p >= 0 && p <= 100) ? p : -1;
-  }, [timelineData]);
-
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
@@ -168,6 +203,16 @@ export const Projects: React.FC<ProjectsProps> = ({ projects, onSave, onDelete }
             </button>
           </div>
 
+          {onBuildPortfolio && (
+            <button
+              onClick={onBuildPortfolio}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-md border border-gray-300 dark:border-gray-600 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+              title="Build a portfolio from completed projects"
+            >
+              <Icons.Portfolio className="w-4 h-4" /> Portfolio
+            </button>
+          )}
+
           <button 
             onClick={() => handleOpenModal()}
             className="bg-indigo-600 dark:bg-indigo-500 text-white px-3 py-1.5 rounded-md text-sm font-medium hover:bg-indigo-700 dark:hover:bg-indigo-600 flex items-center gap-2 transition-colors flex-1 sm:flex-none justify-center"
@@ -210,9 +255,40 @@ export const Projects: React.FC<ProjectsProps> = ({ projects, onSave, onDelete }
                     ))}
                   </div>
                   
+                  {(() => {
+                    const progress = getProjectProgress(project);
+                    return (
+                      <div className="mb-3" title={progress.total > 0 ? `${progress.done} of ${progress.total} tasks done` : 'No tasks yet'}>
+                        <div className="flex justify-between text-[10px] text-gray-500 dark:text-gray-400 mb-1">
+                          <span>{progress.total > 0 ? `${progress.done}/${progress.total} tasks` : 'No tasks'}</span>
+                          <span>{progress.percent}%</span>
+                        </div>
+                        <div className="h-1.5 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                          <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress.percent}%` }} />
+                        </div>
+                      </div>
+                    );
+                  })()}
+
                   <div className="pt-3 border-t border-gray-100 dark:border-gray-700 flex justify-between items-center text-xs text-gray-500 dark:text-gray-400">
-                    <span>{project.role}</span>
-                    {project.endDate && <span>Due: {new Date(project.endDate).toLocaleDateString()}</span>}
+                    <span className="flex items-center gap-2">
+                      {project.role}
+                      {loggedDays.get(project.id) ? (
+                        <span className="inline-flex items-center gap-0.5" title={`${loggedDays.get(project.id)} logged day(s)`}>
+                          <Icons.Logbook className="w-3 h-3" />{loggedDays.get(project.id)}
+                        </span>
+                      ) : null}
+                      {project.documents?.length > 0 && (
+                        <span className="inline-flex items-center gap-0.5" title={`${project.documents.length} document(s)`}>
+                          <Icons.Attachment className="w-3 h-3" />{project.documents.length}
+                        </span>
+                      )}
+                    </span>
+                    {project.endDate && (
+                      <span className={isProjectOverdue(project) ? 'text-red-600 dark:text-red-400 font-semibold' : ''}>
+                        {isProjectOverdue(project) ? 'Overdue' : 'Due'}: {new Date(project.endDate).toLocaleDateString()}
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -221,109 +297,27 @@ export const Projects: React.FC<ProjectsProps> = ({ projects, onSave, onDelete }
         </div>
       ) : (
         /* Timeline View */
-        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
-          {filteredProjects.length === 0 ? (
-             <div className="p-12 text-center text-gray-400 dark:text-gray-500">
-                {projects.length === 0 ? "No projects to display on timeline." : "No projects match the selected filter."}
-             </div>
-          ) : timelineData ? (
-             <div className="overflow-x-auto">
-               <div className="min-w-[800px] p-6">
-                 {/* Timeline Header */}
-                 <div className="flex border-b border-gray-200 dark:border-gray-700 mb-4 pb-2">
-                    <div className="w-1/4 shrink-0 px-2 text-sm font-semibold text-gray-500 dark:text-gray-400">Project Name</div>
-                    <div className="flex-1 relative h-6">
-                      {timelineData.months.map((month, idx) => (
-                        <div 
-                          key={idx} 
-                          className="absolute bottom-0 text-xs font-medium text-gray-400 dark:text-gray-500 border-l border-gray-300 dark:border-gray-600 pl-1"
-                          style={{ left: `${month.left}%` }}
-                        >
-                          {month.label}
-                        </div>
-                      ))}
-                    </div>
-                 </div>
-
-                 {/* Timeline Body */}
-                 <div className="relative">
-                    {/* Background Grid */}
-                    <div className="absolute inset-0 flex pointer-events-none">
-                       <div className="w-1/4 shrink-0"></div>
-                       <div className="flex-1 relative h-full">
-                          {timelineData.months.map((month, idx) => (
-                              <div 
-                                key={idx} 
-                                className="absolute top-0 bottom-0 border-l border-gray-100 dark:border-gray-700/50"
-                                style={{ left: `${month.left}%` }}
-                              />
-                          ))}
-                          {todayPercent >= 0 && (
-                            <div 
-                              className="absolute top-0 bottom-0 border-l-2 border-red-500/50 border-dashed z-0"
-                              style={{ left: `${todayPercent}%` }}
-                            >
-                               <div className="absolute -top-3 -left-4 text-[9px] font-bold text-red-500 bg-red-50 dark:bg-red-900/50 px-1 rounded">Today</div>
-                            </div>
-                          )}
-                       </div>
-                    </div>
-
-                    {/* Rows */}
-                    <div className="space-y-3 relative z-10">
-                      {filteredProjects.map(project => {
-                        const startDate = project.startDate ? new Date(project.startDate) : new Date();
-                        const endDate = project.endDate ? new Date(project.endDate) : new Date(startDate.getTime() + 86400000 * 30);
-                        
-                        const startPercent = Math.max(0, ((startDate.getTime() - timelineData.minDate.getTime()) / timelineData.totalDuration) * 100);
-                        const endPercent = Math.min(100, ((endDate.getTime() - timelineData.minDate.getTime()) / timelineData.totalDuration) * 100);
-                        const widthPercent = Math.max(1, endPercent - startPercent); // Min width 1%
-
-                        // Color logic
-                        const isCompleted = project.status === ProjectStatus.Completed;
-                        const isProgress = project.status === ProjectStatus.OnProgress;
-                        
-                        const barColor = isCompleted 
-                          ? 'bg-green-500 dark:bg-green-600' 
-                          : isProgress 
-                            ? 'bg-blue-500 dark:bg-blue-600' 
-                            : 'bg-gray-400 dark:bg-gray-500';
-
-                        return (
-                          <div key={project.id} className="flex items-center group hover:bg-gray-50 dark:hover:bg-gray-700/30 rounded py-2 -mx-2 px-2 transition-colors cursor-pointer" onClick={() => handleOpenModal(project)}>
-                            <div className="w-1/4 shrink-0 pr-4 truncate text-sm font-medium text-gray-700 dark:text-gray-300" title={project.name}>
-                               {project.name}
-                            </div>
-                            
-                            <div className="flex-1 relative h-6">
-                               <div 
-                                  className={`absolute h-5 top-0.5 rounded shadow-sm flex items-center px-2 overflow-hidden text-white text-[10px] font-medium transition-all hover:brightness-110 ${barColor}`}
-                                  style={{ left: `${startPercent}%`, width: `${widthPercent}%` }}
-                                  title={`${project.name}\n${startDate.toLocaleDateString()} - ${endDate.toLocaleDateString()}\nStatus: ${project.status}`}
-                               >
-                                  <span className="whitespace-nowrap drop-shadow-md">{project.status}</span>
-                               </div>
-                            </div>
-                          </div>
-                        );
-                      })}
-                    </div>
-                 </div>
-               </div>
-             </div>
-          ) : (
-            <div className="p-12 text-center text-gray-500">Loading Timeline...</div>
-          )}
-        </div>
+        filteredProjects.length === 0 ? (
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-12 text-center text-gray-400 dark:text-gray-500">
+            {projects.length === 0 ? "No projects to display on timeline." : "No projects match the selected filter."}
+          </div>
+        ) : (
+          <ProjectTimeline projects={filteredProjects} onOpen={handleOpenModal} onSave={onSave} />
+        )
       )}
 
       {/* Modal */}
       {isModalOpen && (
-        <div className="fixed inset-0 z-50 flex justify-center items-center bg-black/20 dark:bg-black/50 backdrop-blur-sm p-4" onClick={() => setIsModalOpen(false)}>
-           <div className="w-full max-w-2xl bg-white dark:bg-gray-800 rounded-lg shadow-2xl p-6 overflow-y-auto max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="fixed inset-0 z-50 flex justify-center items-center bg-black/20 dark:bg-black/50 backdrop-blur-sm p-4" onClick={closeModal}>
+           <div className="w-full max-w-4xl bg-white dark:bg-gray-800 rounded-lg shadow-2xl p-6 overflow-y-auto max-h-[90vh]" onClick={e => e.stopPropagation()}>
               <div className="flex justify-between mb-6">
-                <h3 className="text-xl font-bold text-gray-900 dark:text-white">Project Details</h3>
-                <button onClick={() => setIsModalOpen(false)}><Icons.Close className="w-5 h-5 text-gray-400 dark:text-gray-300" /></button>
+                <div>
+                  <h3 className="text-xl font-bold text-gray-900 dark:text-white">Project Details</h3>
+                  {!projects.some(p => p.id === editingProject.id) && (
+                    <TemplatePicker templates={templates} kind="projects" defaultLabel="Default" value={templateId} onChange={chooseTemplate} />
+                  )}
+                </div>
+                <button onClick={closeModal}><Icons.Close className="w-5 h-5 text-gray-400 dark:text-gray-300" /></button>
               </div>
 
               <div className="space-y-4">
@@ -417,8 +411,139 @@ export const Projects: React.FC<ProjectsProps> = ({ projects, onSave, onDelete }
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Milestones</label>
+                  {(editingProject.milestones || []).length > 0 && (
+                    <ul className="space-y-2 mb-2">
+                      {editingProject.milestones!.map(milestone => (
+                        <li key={milestone.id} className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={milestone.done}
+                            onChange={() => updateMilestone(milestone.id, { done: !milestone.done })}
+                            className="accent-indigo-600"
+                            title="Reached"
+                          />
+                          <input
+                            type="text"
+                            value={milestone.title}
+                            onChange={e => updateMilestone(milestone.id, { title: e.target.value })}
+                            className={inputClass}
+                          />
+                          <div className="w-44 shrink-0">
+                            <input
+                              type="date"
+                              value={milestone.date}
+                              onChange={e => e.target.value && updateMilestone(milestone.id, { date: e.target.value })}
+                              className={inputClass}
+                            />
+                          </div>
+                          <button
+                            onClick={() => setEditingProject(prev => ({ ...prev, milestones: prev.milestones?.filter(m => m.id !== milestone.id) }))}
+                            className="text-gray-400 hover:text-red-500"
+                          >
+                            <Icons.Delete className="w-4 h-4" />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <button
+                    type="button"
+                    onClick={addMilestone}
+                    className="text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline flex items-center gap-1"
+                  >
+                    <Icons.Plus className="w-3 h-3" /> Add milestone
+                  </button>
+                </div>
+
+                {dependencyCandidates.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Depends On</label>
+                    <div className="flex flex-wrap gap-2">
+                      {dependencyCandidates.map(project => {
+                        const selected = editingProject.dependsOn?.includes(project.id);
+                        return (
+                          <button
+                            key={project.id}
+                            type="button"
+                            onClick={() => toggleDependency(project.id)}
+                            className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors flex items-center gap-1 ${
+                              selected
+                                ? 'bg-indigo-600 dark:bg-indigo-500 text-white border-indigo-600 dark:border-indigo-500'
+                                : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:border-indigo-400'
+                            }`}
+                          >
+                            {selected && <Icons.Success className="w-3 h-3" />}
+                            {project.name}
+                          </button>
+                        );
+                      })}
+                    </div>
+                    <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">Projects that must finish before this one starts. Shown as arrows on the timeline.</p>
+                  </div>
+                )}
+
+                <div>
+                  <div className="flex justify-between items-center mb-2">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Tasks</label>
+                    {(editingProject.tasks?.length || 0) > 0 && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {getProjectProgress(editingProject as Project).percent}% complete
+                      </span>
+                    )}
+                  </div>
+                  <KanbanBoard
+                    tasks={editingProject.tasks || []}
+                    onChange={tasks => setEditingProject(prev => ({ ...prev, tasks }))}
+                  />
+                  <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">Drag cards between columns. Progress is the share of tasks in Done.</p>
+                </div>
+
+                {editingActivity && editingActivity.logs.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Activity History</label>
+                    <div className="grid grid-cols-3 gap-3 mb-3 text-center">
+                      <div className="p-2 rounded-md bg-gray-50 dark:bg-gray-700/40 border border-gray-200 dark:border-gray-700">
+                        <div className="text-lg font-bold text-gray-900 dark:text-white">{editingActivity.days}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">Days Logged</div>
+                      </div>
+                      <div className="p-2 rounded-md bg-gray-50 dark:bg-gray-700/40 border border-gray-200 dark:border-gray-700">
+                        <div className="text-lg font-bold text-gray-900 dark:text-white">{editingActivity.hours}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">Hours Recorded</div>
+                        {editingActivity.untimedLogs > 0 && (
+                          <div className="text-[10px] text-gray-400 dark:text-gray-500">{editingActivity.untimedLogs} log(s) without time</div>
+                        )}
+                      </div>
+                      <div className="p-2 rounded-md bg-gray-50 dark:bg-gray-700/40 border border-gray-200 dark:border-gray-700">
+                        <div className="text-lg font-bold text-gray-900 dark:text-white">
+                          {editingActivity.latest ? new Date(editingActivity.latest.date).toLocaleDateString(undefined, { day: 'numeric', month: 'short' }) : '-'}
+                        </div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">Latest Activity</div>
+                      </div>
+                    </div>
+                    <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-3 max-h-60 overflow-y-auto">
+                      {editingActivity.logs.map(log => (
+                        <li key={log.id} className="ml-4">
+                          <div className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-indigo-500 border-2 border-white dark:border-gray-800" />
+                          <time className="text-xs text-gray-500 dark:text-gray-400">
+                            {new Date(log.date).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })} · {log.attendance}
+                          </time>
+                          <p className="text-sm text-gray-700 dark:text-gray-200 truncate"><MarkdownPreviewLine text={log.activity} /></p>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+
+                <Attachments
+                  label="Documents"
+                  attachments={editingProject.documents || []}
+                  onChange={documents => setEditingProject(prev => ({ ...prev, documents }))}
+                />
+
                 <div className="pt-4 flex justify-end gap-3 border-t border-gray-100 dark:border-gray-700">
-                  <button onClick={() => setIsModalOpen(false)} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300">Cancel</button>
+                  <button onClick={closeModal} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300">Cancel</button>
                   <button onClick={handleSave} className="px-4 py-2 bg-indigo-600 dark:bg-indigo-500 text-white rounded-md text-sm hover:bg-indigo-700 dark:hover:bg-indigo-600">Save Project</button>
                 </div>
               </div>
@@ -0,0 +1,103 @@
+import React, { useState, useMemo } from 'react';
+import { DailyLog } from '../types';
+import { Icons } from './ui/Icons';
+import { DRAFT_SECTIONS, DraftSection, ReportDraft } from '../services/reportDraft';
+import { parseDateKey } from '../services/calendar';
+
+interface ReportDraftReviewProps {
+  draft: ReportDraft;
+  logs: DailyLog[];
+  onApply: (sections: DraftSection[]) => void;
+  onDiscard: () => void;
+}
+
+// Review step for an AI-drafted report: every bullet shows the log dates it cites
+export const ReportDraftReview: React.FC<ReportDraftReviewProps> = ({ draft, logs, onApply, onDiscard }) => {
+  const [selected, setSelected] = useState<Set<DraftSection>>(new Set(DRAFT_SECTIONS.map(s => s.key)));
+  const logsByDate = useMemo(() => {
+    const map = new Map<string, DailyLog[]>();
+    logs.forEach(l => map.set(l.date, [...(map.get(l.date) || []), l]));
+    return map;
+  }, [logs]);
+
+  const unverifiedCount = DRAFT_SECTIONS.reduce((sum, { key }) => sum + draft[key].filter(b => b.unverified).length, 0);
+
+  const toggleSection = (key: DraftSection) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const sourceTitle = (date: string) =>
+    (logsByDate.get(date) || []).map(l => `${l.attendance}: ${l.activity.split('\n').find(line => line.trim()) || ''}`).join('\n');
+
+  return (
+    <div className="border border-purple-200 dark:border-purple-900/50 rounded-lg bg-purple-50/40 dark:bg-purple-900/10 p-4 space-y-4">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h4 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <Icons.AI className="w-4 h-4 text-purple-600 dark:text-purple-400" /> AI Draft
+          </h4>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Check each item against the cited logs (hover a date to preview it), then choose the sections to apply.
+          </p>
+        </div>
+        <button onClick={onDiscard} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" title="Discard draft">
+          <Icons.Close className="w-5 h-5" />
+        </button>
+      </div>
+
+      {unverifiedCount > 0 && (
+        <div className="flex items-center gap-2 p-2 rounded-md text-xs bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300">
+          <Icons.Alert className="w-4 h-4 shrink-0" />
+          {unverifiedCount} item(s) cite no log from this month and are marked unverified.
+        </div>
+      )}
+
+      {DRAFT_SECTIONS.map(({ key, label }) => (
+        <div key={key}>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 cursor-pointer">
+            <input type="checkbox" checked={selected.has(key)} onChange={() => toggleSection(key)} className="accent-purple-600" />
+            {label}
+          </label>
+          <ul className={`space-y-1.5 pl-6 text-sm ${selected.has(key) ? '' : 'opacity-40'}`}>
+            {draft[key].length === 0 && <li className="text-gray-400 dark:text-gray-500">Nothing drafted.</li>}
+            {draft[key].map((bullet, i) => (
+              <li key={i} className="text-gray-800 dark:text-gray-100">
+                {bullet.text}
+                <span className="inline-flex flex-wrap gap-1 ml-2 align-middle">
+                  {bullet.unverified ? (
+                    <span className="px-1.5 rounded text-[10px] font-semibold uppercase bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300">Unverified</span>
+                  ) : bullet.sources.map(date => (
+                    <span
+                      key={date}
+                      title={sourceTitle(date)}
+                      className="px-1.5 rounded text-[10px] bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 cursor-help"
+                    >
+                      {parseDateKey(date).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}
+                    </span>
+                  ))}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+
+      <div className="flex justify-end gap-2 pt-2 border-t border-purple-100 dark:border-purple-900/40">
+        <button onClick={onDiscard} className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md">
+          Discard
+        </button>
+        <button
+          onClick={() => onApply(DRAFT_SECTIONS.map(s => s.key).filter(k => selected.has(k)))}
+          disabled={selected.size === 0}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 dark:bg-purple-500 dark:hover:bg-purple-600 rounded-md disabled:opacity-50"
+        >
+          Apply {selected.size === DRAFT_SECTIONS.length ? 'All Sections' : `${selected.size} Section(s)`}
+        </button>
+      </div>
+    </div>
+  );
+};
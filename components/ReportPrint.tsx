@@ -0,0 +1,155 @@
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { MonthlyReport, DailyLog, InternProfile, AttendanceStatus } from '../types';
+import { Icons } from './ui/Icons';
+import { Markdown } from './Markdown';
+
+interface ReportPrintProps {
+  report: MonthlyReport;
+  logs: DailyLog[];
+  profile: InternProfile;
+  onClose: () => void;
+}
+
+// Print-ready document for a monthly report.
+// Rendered into <body> next to #root, so the print stylesheet in index.html can hide the app
+// and let the browser's "Save as PDF" produce just this document.
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="mb-8 break-inside-avoid">
+    <h2 className="text-lg font-bold text-gray-900 border-b-2 border-red-600 pb-1 mb-3">{title}</h2>
+    <div className="text-sm leading-relaxed text-gray-800">{children}</div>
+  </section>
+);
+
+const Blank = () => <span className="italic text-gray-400">Not filled in.</span>;
+
+export const ReportPrint: React.FC<ReportPrintProps> = ({ report, logs, profile, onClose }) => {
+  const monthLabel = new Date(report.month + '-01').toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  const linkedLogs = logs
+    .filter(l => report.linkedLogIds.includes(l.id))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const attendanceCounts = Object.values(AttendanceStatus).map(status => ({
+    status,
+    count: linkedLogs.filter(l => !l.isDraft && l.attendance === status).length
+  }));
+
+  const today = new Date().toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' });
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  return createPortal(
+    <div className="print-document fixed inset-0 z-[70] overflow-y-auto bg-gray-200">
+      {/* Toolbar */}
+      <div className="print-hide sticky top-0 z-10 flex items-center justify-between px-6 py-3 bg-white border-b border-gray-200 shadow-sm">
+        <span className="text-sm font-medium text-gray-700">Print preview — Monthly Report {monthLabel}</span>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => window.print()}
+            className="px-4 py-1.5 bg-orange-600 text-white rounded-md text-sm font-medium hover:bg-orange-700 flex items-center gap-2"
+          >
+            <Icons.Print className="w-4 h-4" /> Print / Save as PDF
+          </button>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-700">
+            <Icons.Close className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="print-sheet max-w-[210mm] mx-auto my-8 bg-white text-gray-900 shadow-lg">
+        {/* Cover */}
+        <div className="print-page-break min-h-[297mm] flex flex-col items-center justify-center text-center px-16 py-24">
+          <div className="w-14 h-14 bg-red-600 rounded-lg flex items-center justify-center text-white font-bold text-2xl mb-8">T</div>
+          <p className="text-sm uppercase tracking-[0.3em] text-gray-500 mb-2">Telkom Indonesia — Digital Development Program</p>
+          <h1 className="text-4xl font-bold mb-2">Monthly Internship Report</h1>
+          <p className="text-2xl text-red-600 font-semibold mb-16">{monthLabel}</p>
+
+          <table className="text-left text-sm">
+            <tbody>
+              {[
+                ['Name', profile.name],
+                ['Student ID', profile.studentId],
+                ['University', profile.university],
+                ['Placement', profile.division],
+                ['Mentor', profile.mentorName],
+              ].map(([label, value]) => (
+                <tr key={label}>
+                  <td className="pr-6 py-1 text-gray-500">{label}</td>
+                  <td className="py-1 font-medium">{value || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="px-16 py-14">
+          <Section title="1. Summary">{report.summary ? <Markdown text={report.summary} light /> : <Blank />}</Section>
+          <Section title="2. Achievements">{report.achievements ? <Markdown text={report.achievements} light /> : <Blank />}</Section>
+          <Section title="3. Challenges & Solutions">{report.challengesSolutions ? <Markdown text={report.challengesSolutions} light /> : <Blank />}</Section>
+          <Section title="4. Next Month Plan">{report.nextMonthPlan ? <Markdown text={report.nextMonthPlan} light /> : <Blank />}</Section>
+
+          {/* Appendix */}
+          <section className="mb-12">
+            <h2 className="text-lg font-bold text-gray-900 border-b-2 border-red-600 pb-1 mb-3">Appendix — Daily Logbook</h2>
+            <p className="text-xs text-gray-500 mb-3">
+              {linkedLogs.length} linked entries · {attendanceCounts.map(a => `${a.status}: ${a.count}`).join(' · ')}
+            </p>
+            {linkedLogs.length === 0 ? (
+              <p className="text-sm italic text-gray-400">No daily logs are linked to this report.</p>
+            ) : (
+              <table className="w-full text-xs border-collapse">
+                <thead>
+                  <tr className="bg-gray-100">
+                    <th className="border border-gray-300 px-2 py-1.5 text-left w-8">No</th>
+                    <th className="border border-gray-300 px-2 py-1.5 text-left w-28">Date</th>
+                    <th className="border border-gray-300 px-2 py-1.5 text-left w-20">Attendance</th>
+                    <th className="border border-gray-300 px-2 py-1.5 text-left">Activity</th>
+                    <th className="border border-gray-300 px-2 py-1.5 text-left w-1/4">Learnings</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {linkedLogs.map((log, idx) => (
+                    <tr key={log.id} className="break-inside-avoid align-top">
+                      <td className="border border-gray-300 px-2 py-1.5">{idx + 1}</td>
+                      <td className="border border-gray-300 px-2 py-1.5">
+                        {new Date(log.date).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })}
+                      </td>
+                      <td className="border border-gray-300 px-2 py-1.5">{log.attendance}</td>
+                      <td className="border border-gray-300 px-2 py-1.5"><Markdown text={log.activity} light /></td>
+                      <td className="border border-gray-300 px-2 py-1.5"><Markdown text={log.learnings} light /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          {/* Signature Block */}
+          <section className="break-inside-avoid">
+            <p className="text-sm text-right mb-8">{profile.city ? `${profile.city}, ` : ''}{today}</p>
+            <div className="grid grid-cols-3 gap-8 text-sm text-center">
+              {[
+                ['Prepared by', 'Intern', profile.name],
+                ['Reviewed by', 'Mentor', profile.mentorName],
+                ['Approved by', 'Supervisor', profile.supervisorName],
+              ].map(([caption, role, name]) => (
+                <div key={role}>
+                  <p className="text-gray-500">{caption},</p>
+                  <p className="font-medium mb-20">{role}</p>
+                  <div className="border-b border-gray-800 mx-4" />
+                  <p className="mt-1 font-medium">{name || ' '}</p>
+                </div>
+              ))}
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
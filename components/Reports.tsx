@@ -1,13 +1,37 @@
-import React, { useState } from 'react';
-import { MonthlyReport, DailyLog } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { MonthlyReport, DailyLog, InternProfile, OpenRequest, Project, CurrentUser, Objective, RecordTemplate, Review, ReviewStatus, TagDefinition } from '../types';
 import { Icons } from './ui/Icons';
-import { generateMonthlySummary } from '../services/geminiService';
+import { generateMonthlySummary } from '../services/aiService';
+import { Attachments } from './Attachments';
+import { MarkdownEditor } from './MarkdownEditor';
+import { Markdown } from './Markdown';
+import { ReportPrint } from './ReportPrint';
+import { ReportDraftReview } from './ReportDraftReview';
+import { DraftSection, ReportDraft, draftToReportFields, generateReportDraft } from '../services/reportDraft';
+import { AIError } from '../services/aiProvider';
+import { todayKey } from '../services/calendar';
+import { createReview, isLocked } from '../services/review';
+import { applyTemplate } from '../services/templates';
+import { ReviewBadge, ReviewPanel } from './ReviewPanel';
+import { TemplatePicker } from './TemplatePicker';
+import { MonthlyGoalReview } from './MonthlyGoalReview';
 
 interface ReportsProps {
   reports: MonthlyReport[];
   logs: DailyLog[];
+  projects: Project[];
+  profile: InternProfile;
   onSave: (report: MonthlyReport) => void;
   onDelete: (id: string) => void;
+  openRequest?: OpenRequest;
+  onOpenHandled?: () => void;
+  onRecordChange?: (id: string | null) => void; // The report open in the editor, for the URL
+  user: CurrentUser;
+  internName: string; // Signs the intern's review comments
+  onReview: (id: string, review: Review) => void;
+  templates: RecordTemplate[];
+  objectives: Objective[];
+  tagRegistry: TagDefinition[];
 }
 
 const DEFAULT_REPORT_TEMPLATE: Partial<MonthlyReport> = {
@@ -15,38 +39,87 @@ const DEFAULT_REPORT_TEMPLATE: Partial<MonthlyReport> = {
   achievements: "- Successfully delivered: \n- Key metric improved: ",
   challengesSolutions: "**Challenge:** \n**Solution:** ",
   nextMonthPlan: "- Focus on: \n- Learn: ",
-  linkedLogIds: []
+  linkedLogIds: [],
+  files: [],
+  review: createReview(),
+  updatedAt: '',
+  version: 0
 };
 
-export const Reports: React.FC<ReportsProps> = ({ reports, logs, onSave, onDelete }) => {
+export const Reports: React.FC<ReportsProps> = ({ reports, logs, projects, profile, onSave, onDelete, openRequest, onOpenHandled, onRecordChange, user, internName, onReview, templates, objectives, tagRegistry }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingReport, setEditingReport] = useState<Partial<MonthlyReport>>(DEFAULT_REPORT_TEMPLATE);
+  const [templateId, setTemplateId] = useState('');
   const [isSummarizing, setIsSummarizing] = useState(false);
+  const [aiError, setAiError] = useState<string | null>(null);
+  const [printingReport, setPrintingReport] = useState<MonthlyReport | null>(null);
+  // The month is kept with the draft so it is applied against the logs it was drafted from
+  const [draft, setDraft] = useState<{ month: string; sections: ReportDraft } | null>(null);
+  const [isDrafting, setIsDrafting] = useState(false);
+  const draftAbortRef = useRef<AbortController | null>(null);
 
-  const handleOpenModal = (report?: MonthlyReport) => {
+  const handleOpenModal = (report?: MonthlyReport, month = todayKey().slice(0, 7)) => {
     if (report) {
       setEditingReport(report);
     } else {
       setEditingReport({
         ...DEFAULT_REPORT_TEMPLATE,
         id: crypto.randomUUID(),
-        month: new Date().toISOString().slice(0, 7), // YYYY-MM
+        month, // YYYY-MM
       });
     }
+    setTemplateId('');
+    setAiError(null);
+    setDraft(null);
     setIsModalOpen(true);
+    onRecordChange?.(report?.id ?? null);
+  };
+
+  const closeModal = () => {
+    draftAbortRef.current?.abort();
+    setIsModalOpen(false);
+    onRecordChange?.(null);
+  };
+
+  // Opened from the command palette, a shortcut or a link
+  useEffect(() => {
+    if (!openRequest) return;
+    if (openRequest.close) {
+      closeModal();
+    } else {
+      const report = reports.find(r => r.id === openRequest.id);
+      handleOpenModal(report, openRequest.month);
+      if (openRequest.summarize && !isLocked(report?.review)) handleAutoSummarize(report?.month || todayKey().slice(0, 7));
+    }
+    onOpenHandled?.();
+  }, [openRequest]);
+
+  const savedReport = isModalOpen ? reports.find(r => r.id === editingReport.id) : undefined;
+  const locked = isLocked(savedReport?.review);
+  const goalContext = useMemo(() => ({ logs, projects, registry: tagRegistry }), [logs, projects, tagRegistry]);
+
+  // Refills a new report from another template, keeping its month
+  const chooseTemplate = (template: RecordTemplate | null) => {
+    setTemplateId(template?.id ?? '');
+    setEditingReport(prev => {
+      const base = { ...DEFAULT_REPORT_TEMPLATE, id: prev.id, month: prev.month };
+      return template ? applyTemplate(template, base, `${prev.month || todayKey().slice(0, 7)}-01`, projects) : base;
+    });
   };
 
   const handleSave = () => {
+    if (locked) return;
     if (editingReport.month) {
-      onSave(editingReport as MonthlyReport);
-      setIsModalOpen(false);
+      // The review is saved on its own, so keep the stored one rather than the form's copy
+      onSave({ ...editingReport, review: savedReport?.review ?? createReview() } as MonthlyReport);
+      closeModal();
     }
   };
 
-  const handleAutoSummarize = async () => {
+  const handleAutoSummarize = async (reportMonth = editingReport.month) => {
     // Find logs for this month
-    if (!editingReport.month) return;
-    const [year, month] = editingReport.month.split('-');
+    if (!reportMonth) return;
+    const [year, month] = reportMonth.split('-');
     
     const monthLogs = logs.filter(l => l.date.startsWith(`${year}-${month}`));
     if (monthLogs.length === 0) {
@@ -55,15 +128,62 @@ export const Reports: React.FC<ReportsProps> = ({ reports, logs, onSave, onDelet
     }
 
     setIsSummarizing(true);
-    const logText = monthLogs.map(l => `Date: ${l.date}\nActivity: ${l.activity}\nLearnings: ${l.learnings}`).join('\n---\n');
-    const summary = await generateMonthlySummary(logText);
-    
-    setEditingReport(prev => ({ 
-      ...prev, 
-      summary: summary,
-      linkedLogIds: monthLogs.map(l => l.id) 
+    setAiError(null);
+    const logText = monthLogs.map(l => [
+      `Date: ${l.date}`,
+      `Activity: ${l.activity}`,
+      `Learnings: ${l.learnings}`,
+      `Challenges: ${l.challenges}`,
+      l.tags.length > 0 ? `Tags: ${l.tags.join(', ')}` : '',
+    ].filter(Boolean).join('\n')).join('\n---\n');
+    try {
+      const summary = await generateMonthlySummary(logText);
+      setEditingReport(prev => ({ 
+        ...prev, 
+        summary: summary,
+        linkedLogIds: monthLogs.map(l => l.id) 
+      }));
+    } catch (error) {
+      setAiError((error as Error).message);
+    } finally {
+      setIsSummarizing(false);
+    }
+  };
+
+  // Drafts all four sections as structured JSON with cited log dates, shown for review first
+  const handleDraftReport = async () => {
+    const month = editingReport.month;
+    if (!month) return;
+    const controller = new AbortController();
+    draftAbortRef.current = controller;
+    setIsDrafting(true);
+    setAiError(null);
+    setDraft(null);
+    try {
+      setDraft({ month, sections: await generateReportDraft(month, logs, projects, controller.signal) });
+    } catch (error) {
+      if (!(error instanceof AIError && error.kind === 'aborted')) setAiError((error as Error).message);
+    } finally {
+      setIsDrafting(false);
+      draftAbortRef.current = null;
+    }
+  };
+
+  // A draft of another month's logs no longer fits the report
+  const changeMonth = (month: string) => {
+    draftAbortRef.current?.abort();
+    setDraft(null);
+    setEditingReport(prev => ({ ...prev, month }));
+  };
+
+  const applyDraft = (sections: DraftSection[]) => {
+    if (!draft) return;
+    setEditingReport(prev => ({
+      ...prev,
+      ...draftToReportFields(draft.sections, sections),
+      linkedLogIds: logs.filter(l => l.date.startsWith(draft.month)).map(l => l.id)
     }));
-    setIsSummarizing(false);
+    setDraft(null);
   };
 
   // Grouping logic for "Board View by Month" - effectively chronological cards
@@ -96,20 +216,34 @@ export const Reports: React.FC<ReportsProps> = ({ reports, logs, onSave, onDelet
           sortedReports.map(report => (
             <div key={report.id} onClick={() => handleOpenModal(report)} className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-sm hover:shadow-md transition-shadow cursor-pointer p-4 group relative">
               <div className="flex justify-between items-start mb-3">
-                <div className="bg-orange-50 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 text-xs font-bold px-2 py-1 rounded uppercase tracking-wide">
-                  {new Date(report.month + '-01').toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+                <div className="flex flex-wrap items-center gap-2">
+                  <div className="bg-orange-50 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 text-xs font-bold px-2 py-1 rounded uppercase tracking-wide">
+                    {new Date(report.month + '-01').toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+                  </div>
+                  {report.review.status !== ReviewStatus.Draft && <ReviewBadge review={report.review} />}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); setPrintingReport(report); }}
+                    className="text-gray-300 dark:text-gray-600 hover:text-orange-500 dark:hover:text-orange-400 transition-colors"
+                    title="Print / PDF"
+                  >
+                    <Icons.Print className="w-4 h-4" />
+                  </button>
+                  {!isLocked(report.review) && (
+                    <button 
+                      onClick={(e) => { e.stopPropagation(); onDelete(report.id); }}
+                      className="text-gray-300 dark:text-gray-600 hover:text-red-500 dark:hover:text-red-400 transition-colors"
+                    >
+                      <Icons.Delete className="w-4 h-4" />
+                    </button>
+                  )}
                 </div>
-                <button 
-                  onClick={(e) => { e.stopPropagation(); onDelete(report.id); }}
-                  className="text-gray-300 dark:text-gray-600 hover:text-red-500 dark:hover:text-red-400 transition-colors"
-                >
-                  <Icons.Delete className="w-4 h-4" />
-                </button>
               </div>
               <h3 className="font-semibold text-gray-800 dark:text-gray-100 mb-2 line-clamp-1">Monthly Summary</h3>
-              <p className="text-gray-600 dark:text-gray-300 text-sm line-clamp-3 mb-4 h-16">
-                {report.summary || "No summary provided."}
-              </p>
+              <div className="text-gray-600 dark:text-gray-300 text-sm mb-4 h-16 overflow-hidden">
+                {report.summary ? <Markdown text={report.summary} /> : "No summary provided."}
+              </div>
               
               <div className="border-t border-gray-100 dark:border-gray-700 pt-3 flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
                 <span className="flex items-center gap-1">
@@ -125,87 +259,180 @@ export const Reports: React.FC<ReportsProps> = ({ reports, logs, onSave, onDelet
       </div>
 
       {isModalOpen && (
-        <div className="fixed inset-0 z-50 flex justify-center items-center bg-black/20 dark:bg-black/50 backdrop-blur-sm p-4" onClick={() => setIsModalOpen(false)}>
+        <div className="fixed inset-0 z-50 flex justify-center items-center bg-black/20 dark:bg-black/50 backdrop-blur-sm p-4" onClick={closeModal}>
           <div className="w-full max-w-3xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
             <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-700/50">
               <div>
                 <h3 className="text-xl font-bold text-gray-900 dark:text-white">Monthly Report</h3>
-                <p className="text-sm text-gray-500 dark:text-gray-400">Format: Monthly Report Template</p>
+                {locked ? (
+                  <p className="text-sm text-green-700 dark:text-green-400 flex items-center gap-1"><Icons.Lock className="w-3.5 h-3.5" /> Approved by your mentor, read-only</p>
+                ) : savedReport ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Format: Monthly Report Template</p>
+                ) : (
+                  <TemplatePicker templates={templates} kind="reports" defaultLabel="Monthly Report Template" value={templateId} onChange={chooseTemplate} />
+                )}
               </div>
-              <button onClick={() => setIsModalOpen(false)}><Icons.Close className="w-6 h-6 text-gray-400 dark:text-gray-300" /></button>
+              <button onClick={closeModal}><Icons.Close className="w-6 h-6 text-gray-400 dark:text-gray-300" /></button>
             </div>
             
             <div className="p-6 overflow-y-auto flex-1 space-y-6">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Month</label>
-                <input 
-                  type="month" 
-                  value={editingReport.month}
-                  onChange={e => setEditingReport({...editingReport, month: e.target.value})}
-                  className={inputClass}
-                />
-              </div>
+              <fieldset disabled={locked} className="space-y-6 min-w-0">
+                <div className="flex items-end gap-3">
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Month</label>
+                    <input 
+                      type="month" 
+                      value={editingReport.month}
+                      onChange={e => changeMonth(e.target.value)}
+                      className={inputClass}
+                    />
+                  </div>
+                  {isDrafting ? (
+                    <button
+                      onClick={() => draftAbortRef.current?.abort()}
+                      className="px-3 py-2 text-sm font-medium rounded-md text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30 hover:bg-red-100 dark:hover:bg-red-900/50 flex items-center gap-2"
+                    >
+                      <Icons.AI className="w-4 h-4 animate-spin" /> Drafting... Stop
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleDraftReport}
+                      disabled={!editingReport.month || isSummarizing}
+                      className="px-3 py-2 text-sm font-medium rounded-md bg-purple-600 dark:bg-purple-500 text-white hover:bg-purple-700 dark:hover:bg-purple-600 flex items-center gap-2 disabled:opacity-50"
+                      title="Draft every section from this month's logs, with cited log dates"
+                    >
+                      <Icons.AI className="w-4 h-4" /> Draft Full Report
+                    </button>
+                  )}
+                </div>
 
-              <div>
-                <div className="flex justify-between items-center mb-1">
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Monthly Summary</label>
-                  <button 
-                    onClick={handleAutoSummarize} 
-                    disabled={isSummarizing || !editingReport.month}
-                    className="text-xs bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300 px-2 py-1 rounded hover:bg-purple-200 dark:hover:bg-purple-900/60 flex items-center gap-1 transition-colors disabled:opacity-50"
-                  >
-                    <Icons.AI className={`w-3 h-3 ${isSummarizing ? 'animate-spin' : ''}`} /> 
-                    {isSummarizing ? 'Analyzing Logs...' : 'Generate from Logs'}
-                  </button>
+                {draft && (
+                  <ReportDraftReview
+                    draft={draft.sections}
+                    logs={logs.filter(l => l.date.startsWith(draft.month))}
+                    onApply={applyDraft}
+                    onDiscard={() => setDraft(null)}
+                  />
+                )}
+
+                <div>
+                  <div className="flex justify-between items-center mb-1">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Monthly Summary</label>
+                    <button 
+                      onClick={() => handleAutoSummarize()} 
+                      disabled={isSummarizing || !editingReport.month}
+                      className="text-xs bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300 px-2 py-1 rounded hover:bg-purple-200 dark:hover:bg-purple-900/60 flex items-center gap-1 transition-colors disabled:opacity-50"
+                    >
+                      <Icons.AI className={`w-3 h-3 ${isSummarizing ? 'animate-spin' : ''}`} /> 
+                      {isSummarizing ? 'Analyzing Logs...' : 'Generate from Logs'}
+                    </button>
+                  </div>
+                  {aiError && (
+                    <div className="flex items-start gap-2 p-2 mb-2 rounded-md text-xs bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300">
+                      <Icons.Alert className="w-4 h-4 shrink-0" />
+                      <span className="flex-1">{aiError}</span>
+                      <button onClick={() => setAiError(null)}><Icons.Close className="w-3 h-3" /></button>
+                    </div>
+                  )}
+                  <MarkdownEditor
+                    rows={4}
+                    value={editingReport.summary}
+                    onChange={summary => setEditingReport({...editingReport, summary})}
+                    attachments={editingReport.files}
+                    className={inputClass}
+                    readOnly={locked}
+                    placeholder="Summary of the month..."
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                   <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Achievements</label>
+                      <MarkdownEditor
+                        rows={5}
+                        value={editingReport.achievements}
+                        onChange={achievements => setEditingReport({...editingReport, achievements})}
+                        attachments={editingReport.files}
+                        className={inputClass}
+                        readOnly={locked}
+                      />
+                   </div>
+                   <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Challenges & Solutions</label>
+                      <MarkdownEditor
+                        rows={5}
+                        value={editingReport.challengesSolutions}
+                        onChange={challengesSolutions => setEditingReport({...editingReport, challengesSolutions})}
+                        attachments={editingReport.files}
+                        className={inputClass}
+                        readOnly={locked}
+                      />
+                   </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Next Month Plan</label>
+                  <MarkdownEditor
+                    rows={3}
+                    value={editingReport.nextMonthPlan}
+                    onChange={nextMonthPlan => setEditingReport({...editingReport, nextMonthPlan})}
+                    attachments={editingReport.files}
+                    className={inputClass}
+                    readOnly={locked}
+                  />
                 </div>
-                <textarea 
-                  rows={4} 
-                  value={editingReport.summary}
-                  onChange={e => setEditingReport({...editingReport, summary: e.target.value})}
-                  className={inputClass}
-                  placeholder="Summary of the month..."
+              </fieldset>
+
+              {editingReport.month && (
+                <MonthlyGoalReview
+                  month={editingReport.month}
+                  objectives={objectives}
+                  context={goalContext}
+                  reports={reports}
+                  achievements={editingReport.achievements || ''}
+                  onAddToAchievements={locked ? undefined : text => setEditingReport(prev => ({
+                    ...prev,
+                    achievements: [prev.achievements?.trimEnd(), text].filter(Boolean).join('\n')
+                  }))}
                 />
-              </div>
+              )}
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                 <div>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Achievements</label>
-                    <textarea 
-                      rows={5} 
-                      value={editingReport.achievements}
-                      onChange={e => setEditingReport({...editingReport, achievements: e.target.value})}
-                      className={inputClass}
-                    />
-                 </div>
-                 <div>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Challenges & Solutions</label>
-                    <textarea 
-                      rows={5} 
-                      value={editingReport.challengesSolutions}
-                      onChange={e => setEditingReport({...editingReport, challengesSolutions: e.target.value})}
-                      className={inputClass}
-                    />
-                 </div>
-              </div>
+              <Attachments
+                label="Files"
+                attachments={editingReport.files || []}
+                onChange={files => setEditingReport(prev => ({ ...prev, files }))}
+                readOnly={locked}
+              />
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Next Month Plan</label>
-                <textarea 
-                  rows={3} 
-                  value={editingReport.nextMonthPlan}
-                  onChange={e => setEditingReport({...editingReport, nextMonthPlan: e.target.value})}
-                  className={inputClass}
+              {savedReport && (
+                <ReviewPanel
+                  review={savedReport.review}
+                  user={user}
+                  internName={internName}
+                  onChange={review => onReview(savedReport.id, review)}
                 />
-              </div>
+              )}
             </div>
 
             <div className="p-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 flex justify-end gap-3">
-              <button onClick={() => setIsModalOpen(false)} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">Cancel</button>
-              <button onClick={handleSave} className="px-6 py-2 bg-orange-600 dark:bg-orange-500 text-white rounded-md text-sm font-medium hover:bg-orange-700 dark:hover:bg-orange-600 shadow-sm">Save Report</button>
+              <button
+                onClick={() => editingReport.month && setPrintingReport(editingReport as MonthlyReport)}
+                className="mr-auto px-3 py-2 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white flex items-center gap-2"
+              >
+                <Icons.Print className="w-4 h-4" /> Print Preview
+              </button>
+              <button onClick={closeModal} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">{locked ? 'Close' : 'Cancel'}</button>
+              {!locked && (
+                <button onClick={handleSave} className="px-6 py-2 bg-orange-600 dark:bg-orange-500 text-white rounded-md text-sm font-medium hover:bg-orange-700 dark:hover:bg-orange-600 shadow-sm">Save Report</button>
+              )}
             </div>
           </div>
         </div>
       )}
+
+      {printingReport && (
+        <ReportPrint report={printingReport} logs={logs} profile={profile} onClose={() => setPrintingReport(null)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
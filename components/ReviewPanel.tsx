@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { CurrentUser, Review, ReviewStatus } from '../types';
+import { Icons } from './ui/Icons';
+import { addComment, changeStatus, getTransitions } from '../services/review';
+
+interface ReviewPanelProps {
+  review: Review;
+  user: CurrentUser;
+  internName: string;
+  onChange: (review: Review) => void; // Saved straight away, independent of the entry's form
+}
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  [ReviewStatus.Draft]: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  [ReviewStatus.Submitted]: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  [ReviewStatus.Approved]: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  [ReviewStatus.NeedsRevision]: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+};
+
+export const ReviewBadge: React.FC<{ review: Review }> = ({ review }) => (
+  <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${STATUS_STYLES[review.status]}`}>
+    {review.status === ReviewStatus.Approved && <Icons.Lock className="w-3 h-3" />}
+    {review.status}
+    {review.comments.some(c => c.text) && (
+      <span className="inline-flex items-center gap-0.5 opacity-70" title="Comments">
+        <Icons.Comment className="w-3 h-3" />{review.comments.filter(c => c.text).length}
+      </span>
+    )}
+  </span>
+);
+
+// Approval status and the comment thread between an intern and their mentor
+export const ReviewPanel: React.FC<ReviewPanelProps> = ({ review, user, internName, onChange }) => {
+  const [text, setText] = useState('');
+  const transitions = getTransitions(review.status, user.role);
+
+  const handleComment = () => {
+    if (!text.trim()) return;
+    onChange(addComment(review, user, internName, text));
+    setText('');
+  };
+
+  // Whatever is in the box goes along as a note with the status change
+  const handleTransition = (to: ReviewStatus) => {
+    onChange(changeStatus(review, to, user, internName, text));
+    setText('');
+  };
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3 bg-gray-50/50 dark:bg-gray-900/20">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="text-sm font-semibold text-gray-800 dark:text-gray-100 flex items-center gap-2">
+          <Icons.Comment className="w-4 h-4 text-gray-400" /> Mentor Review
+          <ReviewBadge review={review} />
+        </h4>
+        <div className="flex flex-wrap gap-2">
+          {transitions.map(t => (
+            <button
+              key={t.to}
+              onClick={() => handleTransition(t.to)}
+              className={`px-3 py-1 rounded-md text-xs font-medium border ${
+                t.to === ReviewStatus.Approved
+                  ? 'bg-green-600 border-green-600 text-white hover:bg-green-700'
+                  : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {review.status === ReviewStatus.Approved && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Approved entries are locked. {user.role === 'mentor' ? 'Reopen it to allow changes.' : 'Ask your mentor to reopen it if something needs fixing.'}
+        </p>
+      )}
+
+      {review.comments.length > 0 && (
+        <ol className="space-y-2 max-h-56 overflow-y-auto">
+          {review.comments.map(comment => (
+            <li key={comment.id} className="text-sm">
+              <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                <span className="font-semibold text-gray-700 dark:text-gray-200">{comment.author}</span>
+                <span className="capitalize">{comment.role}</span>
+                {comment.status && <span>→ {comment.status}</span>}
+                <time>{new Date(comment.createdAt).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}</time>
+              </div>
+              {comment.text && <p className="mt-0.5 whitespace-pre-wrap text-gray-800 dark:text-gray-200">{comment.text}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex gap-2">
+        <textarea
+          rows={2}
+          value={text}
+          onChange={e => setText(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault();
+              handleComment();
+            }
+          }}
+          placeholder={user.role === 'mentor' ? 'Leave feedback for the intern...' : 'Reply to your mentor...'}
+          className="flex-1 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none placeholder-gray-500 dark:placeholder-gray-400"
+        />
+        <button
+          onClick={handleComment}
+          disabled={!text.trim()}
+          title="Comment (Ctrl+Enter)"
+          className="self-end p-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+        >
+          <Icons.Send className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
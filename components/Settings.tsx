@@ -0,0 +1,574 @@
+import React, { useState } from 'react';
+import { AttendanceLimits, CalendarSettings, InternProfile, WorkspaceSettings } from '../types';
+import { Icons } from './ui/Icons';
+import { getHolidays, parseDateKey, todayKey, addDays } from '../services/calendar';
+import { AI_PROVIDER_LABELS, AIProviderConfig, AIProviderId, AISettings, loadAISettings, saveAISettings } from '../services/aiProvider';
+import { testConnection } from '../services/aiService';
+import { COMMANDS, CommandId, ShortcutMap, createDefaultShortcuts, eventToShortcut, formatShortcut } from '../services/commands';
+import { SyncSettings, SyncStatus } from '../services/sync';
+import { checkServer } from '../services/syncApi';
+
+interface SettingsProps {
+  settings: WorkspaceSettings;
+  onSave: (settings: WorkspaceSettings) => void;
+  shortcuts: ShortcutMap;
+  onShortcutsChange: (shortcuts: ShortcutMap) => void;
+  sync: SyncSettings;
+  onSyncChange: (sync: SyncSettings) => void;
+  syncStatus: SyncStatus;
+  onSyncNow: () => void;
+  onManageTemplates: () => void;
+  workspaceId: string; // The open intern's workspace on the sync server
+  onJoinWorkspace: (workspaceId: string) => void;
+}
+
+const PROFILE_FIELDS: { key: keyof InternProfile, label: string, placeholder: string }[] = [
+  { key: 'name', label: 'Full Name', placeholder: 'e.g. Alex Theodore' },
+  { key: 'studentId', label: 'Student ID (NIM)', placeholder: 'e.g. 1301200001' },
+  { key: 'university', label: 'University', placeholder: 'e.g. Telkom University' },
+  { key: 'division', label: 'Placement Unit / Division', placeholder: 'e.g. Digital Business & Technology' },
+  { key: 'mentorName', label: 'Mentor', placeholder: 'Name of your DDP mentor' },
+  { key: 'supervisorName', label: 'Supervisor', placeholder: 'Name of the approving supervisor' },
+  { key: 'city', label: 'City', placeholder: 'e.g. Bandung' },
+];
+
+const LIMIT_FIELDS: { key: keyof AttendanceLimits, label: string, hint: string }[] = [
+  { key: 'maxSickDays', label: 'Max Sick Days / Month', hint: '0 = no limit' },
+  { key: 'maxPermissionDays', label: 'Max Permission Days / Month', hint: '0 = no limit' },
+  { key: 'maxWfhDays', label: 'Max WFH Days / Month', hint: '0 = no limit' },
+  { key: 'warningThreshold', label: 'Warn At (% of limit)', hint: 'e.g. 80, or 0 for no warning' },
+];
+
+export const Settings: React.FC<SettingsProps> = ({ settings, onSave, shortcuts, onShortcutsChange, sync, onSyncChange, syncStatus, onSyncNow, onManageTemplates, workspaceId, onJoinWorkspace }) => {
+  const updateProfile = (key: keyof InternProfile, value: string) => {
+    onSave({ ...settings, profile: { ...settings.profile, [key]: value } });
+  };
+
+  const updateLimit = (key: keyof AttendanceLimits, value: string) => {
+    const parsed = Math.max(0, parseInt(value, 10) || 0);
+    onSave({ ...settings, attendanceLimits: { ...settings.attendanceLimits, [key]: parsed } });
+  };
+
+  const [newLeave, setNewLeave] = useState({ date: '', note: '' });
+
+  const updateCalendar = (calendar: Partial<CalendarSettings>) => {
+    onSave({ ...settings, calendar: { ...settings.calendar, ...calendar } });
+  };
+
+  const addLeaveDay = () => {
+    if (!newLeave.date || settings.calendar.leaveDays.some(l => l.date === newLeave.date)) return;
+    const leaveDays = [...settings.calendar.leaveDays, newLeave].sort((a, b) => a.date.localeCompare(b.date));
+    updateCalendar({ leaveDays });
+    setNewLeave({ date: '', note: '' });
+  };
+
+  // AI settings live in this browser only, outside the workspace data
+  const [ai, setAi] = useState<AISettings>(loadAISettings);
+  const [aiTest, setAiTest] = useState<{ state: 'idle' | 'running' | 'ok' | 'error'; message?: string }>({ state: 'idle' });
+  const aiConfig = ai.configs[ai.provider];
+  const aiConfigurable = ai.provider === 'gemini' || ai.provider === 'openai';
+
+  const updateAi = (next: AISettings) => {
+    setAi(next);
+    saveAISettings(next);
+    setAiTest({ state: 'idle' });
+  };
+
+  const updateAiConfig = (changes: Partial<AIProviderConfig>) => {
+    updateAi({ ...ai, configs: { ...ai.configs, [ai.provider]: { ...aiConfig, ...changes } } });
+  };
+
+  const runAiTest = async () => {
+    setAiTest({ state: 'running' });
+    try {
+      const reply = await testConnection(ai);
+      setAiTest({ state: 'ok', message: reply.slice(0, 120) });
+    } catch (error) {
+      setAiTest({ state: 'error', message: (error as Error).message });
+    }
+  };
+
+  const [syncTest, setSyncTest] = useState<{ state: 'idle' | 'running' | 'ok' | 'error'; message?: string }>({ state: 'idle' });
+
+  const updateSync = (changes: Partial<SyncSettings>) => {
+    onSyncChange({ ...sync, ...changes });
+    setSyncTest({ state: 'idle' });
+  };
+
+  const [joinId, setJoinId] = useState('');
+  const canJoin = /^[\w-]{1,100}$/.test(joinId.trim()) && joinId.trim() !== workspaceId;
+
+  const joinWorkspace = () => {
+    if (!canJoin) return;
+    if (!confirm('Sync this intern with that workspace instead? Their records here will be pushed to it, and changes not yet pushed to the current one are dropped.')) return;
+    onJoinWorkspace(joinId.trim());
+    setJoinId('');
+  };
+
+  const runSyncTest = async () => {
+    setSyncTest({ state: 'running' });
+    try {
+      await checkServer(sync);
+      setSyncTest({ state: 'ok' });
+    } catch (error) {
+      setSyncTest({ state: 'error', message: (error as Error).message });
+    }
+  };
+
+  // Shortcut recorder: the next key press becomes the shortcut of the command being recorded
+  const [recording, setRecording] = useState<CommandId | null>(null);
+  const [shortcutNotice, setShortcutNotice] = useState('');
+
+  const recordShortcut = (e: React.KeyboardEvent, id: CommandId) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') return setRecording(null);
+    const shortcut = e.key === 'Backspace' || e.key === 'Delete' ? '' : eventToShortcut(e.nativeEvent);
+    if (shortcut === null) return;
+
+    // A shortcut can only run one command, so take it away from any other
+    const previous = shortcut ? COMMANDS.find(c => c.id !== id && shortcuts[c.id] === shortcut) : undefined;
+    onShortcutsChange({ ...shortcuts, ...(previous ? { [previous.id]: '' } : {}), [id]: shortcut });
+    setShortcutNotice(previous ? `${formatShortcut(shortcut)} was removed from "${previous.label}".` : '');
+    setRecording(null);
+  };
+
+  const upcomingHolidays = getHolidays(todayKey(), addDays(todayKey(), 90));
+
+  const formatDay = (key: string) =>
+    parseDateKey(key).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+  const inputClass = "w-full border border-gray-400 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none placeholder-gray-500 dark:placeholder-gray-400";
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-xl font-semibold flex items-center gap-2 text-gray-800 dark:text-gray-100">
+        <Icons.Settings className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+        Workspace Settings
+      </h2>
+
+      <section className="bg-white dark:bg-gray-800 p-6 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm">
+        <div className="mb-4">
+          <h3 className="text-sm uppercase tracking-wider text-gray-500 dark:text-gray-400 font-bold mb-1 flex items-center gap-2">
+            <Icons.User className="w-4 h-4" /> Intern Profile
+          </h3>
+          <p className="text-xs text-gray-400 dark:text-gray-500">Shown on the cover and signature block of printed monthly reports</p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {PROFILE_FIELDS.map(field => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{field.label}</label>
+              <input
+                type="text"
+                value={settings.profile[field.key]}
+                onChange={e => updateProfile(field.key, e.target.value)}
+                placeholder={field.placeholder}
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="bg-white dark:bg-gray-800 p-6 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm">
+        <div className="mb-4">
+          <h3 className="text-sm uppercase tracking-wider text-gray-500 dark:text-gray-400 font-bold mb-1 flex items-center gap-2">
+            <Icons.Chart className="w-4 h-4" /> Attendance Limits
+          </h3>
+          <p className="text-xs text-gray-400 dark:text-gray-500">The dashboard warns when a month gets close to these quotas</p>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {LIMIT_FIELDS.map(field => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{field.label}</label>
+              <input
+                type="number"
+                min={0}
+                value={settings.attendanceLimits[field.key]}
+                onChange={e => updateLimit(field.key, e.target.value)}
+                className={inputClass}
+              />
+              <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">{field.hint}</p>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="bg-white dark:bg-gray-800 p-6 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm">
+        <div className="mb-4">
+          <h3 className="text-sm uppercase tracking-wider text-gray-500 dark:text-gray-400 font-bold mb-1 flex items-center gap-2">
+            <Icons.Calendar className="w-4 h-4" /> Working Calendar
+          </h3>
+          <p className="text-xs text-gray-400 dark:text-gray-500">
+            Weekends, Indonesian national holidays and your leave days are skipped when looking for missing logs
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Internship Start Date</label>
+              <input
+                type="date"
+                value={settings.calendar.internshipStart}
+                onChange={e => updateCalendar({ internshipStart: e.target.value })}
+                className={inputClass}
+              />
+              <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">Leave empty to start from your first log</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Leave Days</label>
+              <div className="flex gap-2">
+                <input
+                  type="date"
+                  value={newLeave.date}
+                  onChange={e => setNewLeave({ ...newLeave, date: e.target.value })}
+                  className={`${inputClass} w-40 shrink-0`}
+                />
+                <input
+                  type="text"
+                  value={newLeave.note}
+                  onChange={e => setNewLeave({ ...newLeave, note: e.target.value })}
+                  onKeyDown={e => e.key === 'Enter' && addLeaveDay()}
+                  placeholder="Note, e.g. Campus exam"
+                  className={inputClass}
+                />
+                <button
+                  onClick={addLeaveDay}
+                  disabled={!newLeave.date}
+                  className="px-3 bg-blue-600 dark:bg-blue-500 text-white rounded-md hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50"
+                  title="Add leave day"
+                >
+                  <Icons.Plus className="w-4 h-4" />
+                </button>
+              </div>
+              {settings.calendar.leaveDays.length > 0 && (
+                <ul className="mt-3 divide-y divide-gray-100 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+                  {settings.calendar.leaveDays.map(leave => (
+                    <li key={leave.date} className="flex items-center gap-3 px-3 py-2 text-sm">
+                      <span className="w-40 shrink-0 text-gray-800 dark:text-gray-100">{formatDay(leave.date)}</span>
+                      <span className="flex-1 truncate text-gray-500 dark:text-gray-400">{leave.note}</span>
+                      <button
+                        onClick={() => updateCalendar({ leaveDays: settings.calendar.leaveDays.filter(l => l.date !== leave.date) })}
+                        className="text-gray-400 hover:text-red-500"
+                      >
+                        <Icons.Delete className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Upcoming Public Holidays</label>
+            {upcomingHolidays.length === 0 ? (
+              <p className="text-sm text-gray-400 dark:text-gray-500">No national holidays in the next 90 days.</p>
+            ) : (
+              <ul className="space-y-1 text-sm">
+                {upcomingHolidays.map(h => (
+                  <li key={h.date} className="flex gap-3">
+                    <span className="w-40 shrink-0 text-gray-500 dark:text-gray-400">{formatDay(h.date)}</span>
+                    <span className="text-gray-800 dark:text-gray-100">{h.label}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </section>
+
+      <section className="bg-white dark:bg-gray-800 p-6 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm">
+        <div className="mb-4">
+          <h3 className="text-sm uppercase tracking-wider text-gray-500 dark:text-gray-400 font-bold mb-1 flex items-center gap-2">
+            <Icons.AI className="w-4 h-4" /> AI Assistant
+          </h3>
+          <p className="text-xs text-gray-400 dark:text-gray-500">
+            Used by the AI Refine and Generate buttons, semantic search and Ask. Saved in this browser only and never included in backups or exports.
+          </p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Provider</label>
+            <select
+              value={ai.provider}
+              onChange={e => updateAi({ ...ai, provider: e.target.value as AIProviderId })}
+              className={inputClass}
+            >
+              {(Object.keys(AI_PROVIDER_LABELS) as AIProviderId[]).map(id => (
+                <option key={id} value={id}>{AI_PROVIDER_LABELS[id]}</option>
+              ))}
+            </select>
+          </div>
+          {aiConfigurable && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Model</label>
+              <input
+                type="text"
+                value={aiConfig.model}
+                onChange={e => updateAiConfig({ model: e.target.value })}
+                placeholder={ai.provider === 'gemini' ? 'gemini-2.5-flash' : 'e.g. llama3.1, gpt-4o-mini'}
+                className={inputClass}
+              />
+            </div>
+          )}
+          {aiConfigurable && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Embedding Model</label>
+              <input
+                type="text"
+                value={aiConfig.embeddingModel}
+                onChange={e => updateAiConfig({ embeddingModel: e.target.value })}
+                placeholder={ai.provider === 'gemini' ? 'text-embedding-004' : 'e.g. nomic-embed-text, text-embedding-3-small'}
+                className={inputClass}
+              />
+              <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">Used by semantic search in the logbook</p>
+            </div>
+          )}
+          {ai.provider === 'openai' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Endpoint URL</label>
+              <input
+                type="url"
+                value={aiConfig.baseUrl}
+                onChange={e => updateAiConfig({ baseUrl: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                className={inputClass}
+              />
+              <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">Point this at a local Ollama or llama.cpp server to keep your logs on this machine</p>
+            </div>
+          )}
+          {aiConfigurable && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">API Key</label>
+              <input
+                type="password"
+                value={aiConfig.apiKey}
+                onChange={e => updateAiConfig({ apiKey: e.target.value })}
+                placeholder={ai.provider === 'gemini' ? (process.env.API_KEY ? 'Using the key from the build environment' : 'Required') : 'Optional for local servers'}
+                autoComplete="off"
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+        {ai.provider === 'none' && (
+          <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">AI features stay off until you choose a provider.</p>
+        )}
+        {ai.provider === 'mock' && (
+          <p className="mt-3 text-xs text-yellow-700 dark:text-yellow-400 flex items-center gap-1">
+            <Icons.Alert className="w-3 h-3" /> The mock returns canned text starting with "[Mock AI response]". Use it only to try the AI features out.
+          </p>
+        )}
+        {ai.provider === 'gemini' && (
+          <p className="mt-3 text-xs text-yellow-700 dark:text-yellow-400 flex items-center gap-1">
+            <Icons.Alert className="w-3 h-3" /> Log and report text is sent to Google when you use AI features with this provider.
+          </p>
+        )}
+        <div className="mt-4 flex items-center gap-3">
+          <button
+            onClick={runAiTest}
+            disabled={aiTest.state === 'running'}
+            className="px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            {aiTest.state === 'running' ? 'Testing...' : 'Test Connection'}
+          </button>
+          {aiTest.state === 'ok' && (
+            <span className="text-sm text-green-600 dark:text-green-400 flex items-center gap-1 truncate">
+              <Icons.Success className="w-4 h-4 shrink-0" /> Connected: {aiTest.message}
+            </span>
+          )}
+          {aiTest.state === 'error' && (
+            <span className="text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+              <Icons.Alert className="w-4 h-4 shrink-0" /> {aiTest.message}
+            </span>
+          )}
+        </div>
+      </section>
+
+      <section className="bg-white dark:bg-gray-800 p-6 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm">
+        <div className="mb-4">
+          <h3 className="text-sm uppercase tracking-wider text-gray-500 dark:text-gray-400 font-bold mb-1 flex items-center gap-2">
+            <Icons.Cloud className="w-4 h-4" /> Sync Server
+          </h3>
+          <p className="text-xs text-gray-400 dark:text-gray-500">
+            Keeps logs, reports, projects and their files in step across devices through your own server (<code>npm run server</code>).
+            Changes are saved in this browser first and pushed whenever the server can be reached. Saved in this browser only.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 mb-4">
+          <input type="checkbox" checked={sync.enabled} onChange={e => updateSync({ enabled: e.target.checked })} />
+          Sync this workspace
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Server URL</label>
+            <input
+              type="url"
+              value={sync.serverUrl}
+              onChange={e => updateSync({ serverUrl: e.target.value })}
+              placeholder="http://localhost:4000"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Access Token</label>
+            <input
+              type="password"
+              value={sync.token}
+              onChange={e => updateSync({ token: e.target.value })}
+              placeholder="Only if the server sets SYNC_TOKEN"
+              autoComplete="off"
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Workspace ID</label>
+            <input type="text" value={workspaceId} readOnly onFocus={e => e.target.select()} className={`${inputClass} font-mono text-xs`} />
+            <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">Enter it on your other devices to sync them with this one.</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Join Another Device's Workspace</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={joinId}
+                onChange={e => setJoinId(e.target.value)}
+                placeholder="Workspace ID from the other device"
+                className={`${inputClass} font-mono text-xs`}
+              />
+              <button
+                onClick={joinWorkspace}
+                disabled={!canJoin}
+                className="px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                Join
+              </button>
+            </div>
+          </div>
+        </div>
+        <div className="mt-4 flex flex-wrap items-center gap-3">
+          <button
+            onClick={runSyncTest}
+            disabled={syncTest.state === 'running'}
+            className="px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            {syncTest.state === 'running' ? 'Testing...' : 'Test Connection'}
+          </button>
+          <button
+            onClick={onSyncNow}
+            disabled={!sync.enabled || syncStatus.state === 'syncing'}
+            className="px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 flex items-center gap-1.5"
+          >
+            <Icons.Sync className={`w-3.5 h-3.5 ${syncStatus.state === 'syncing' ? 'animate-spin' : ''}`} /> Sync Now
+          </button>
+          {syncTest.state === 'ok' && (
+            <span className="text-sm text-green-600 dark:text-green-400 flex items-center gap-1">
+              <Icons.Success className="w-4 h-4 shrink-0" /> Server reachable
+            </span>
+          )}
+          {syncTest.state === 'error' && (
+            <span className="text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+              <Icons.Alert className="w-4 h-4 shrink-0" /> {syncTest.message}
+            </span>
+          )}
+        </div>
+        <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+          {syncStatus.pending > 0 ? `${syncStatus.pending} change${syncStatus.pending === 1 ? '' : 's'} waiting to be pushed. ` : 'No changes waiting. '}
+          {syncStatus.lastSyncedAt && `Last synced ${new Date(syncStatus.lastSyncedAt).toLocaleString()}.`}
+          {syncStatus.state === 'error' && syncStatus.error && <span className="text-red-600 dark:text-red-400"> {syncStatus.error}</span>}
+        </p>
+      </section>
+
+      <section className="bg-white dark:bg-gray-800 p-6 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm">
+        <div className="mb-4">
+          <h3 className="text-sm uppercase tracking-wider text-gray-500 dark:text-gray-400 font-bold mb-1 flex items-center gap-2">
+            <Icons.Clock className="w-4 h-4" /> Timesheet
+          </h3>
+          <p className="text-xs text-gray-400 dark:text-gray-500">Working days above or below this target are highlighted in the weekly timesheet</p>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Daily Target Hours</label>
+            <input
+              type="number"
+              min={1}
+              max={24}
+              step={0.5}
+              value={settings.timesheet.dailyTargetHours}
+              onChange={e => onSave({
+                ...settings,
+                timesheet: { dailyTargetHours: Math.min(24, Math.max(1, parseFloat(e.target.value) || 1)) }
+              })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      </section>
+
+      <section className="bg-white dark:bg-gray-800 p-6 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm">
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <h3 className="text-sm uppercase tracking-wider text-gray-500 dark:text-gray-400 font-bold mb-1 flex items-center gap-2">
+              <Icons.Template className="w-4 h-4" /> Templates & Snippets
+            </h3>
+            <p className="text-xs text-gray-400 dark:text-gray-500">
+              {settings.templates.length} template(s), {settings.templates.filter(t => t.recurrence.length > 0).length} recurring, and {settings.snippets.length} tag snippet(s)
+            </p>
+          </div>
+          <button
+            onClick={onManageTemplates}
+            className="shrink-0 px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Manage
+          </button>
+        </div>
+      </section>
+
+      <section className="bg-white dark:bg-gray-800 p-6 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm">
+        <div className="mb-4 flex justify-between items-start gap-4">
+          <div>
+            <h3 className="text-sm uppercase tracking-wider text-gray-500 dark:text-gray-400 font-bold mb-1 flex items-center gap-2">
+              <Icons.Keyboard className="w-4 h-4" /> Keyboard Shortcuts
+            </h3>
+            <p className="text-xs text-gray-400 dark:text-gray-500">
+              Click a shortcut and press the new key combination. Backspace removes it, Escape cancels. Saved in this browser only.
+            </p>
+          </div>
+          <button
+            onClick={() => { onShortcutsChange(createDefaultShortcuts()); setShortcutNotice(''); }}
+            className="shrink-0 px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Reset to Defaults
+          </button>
+        </div>
+        {shortcutNotice && (
+          <p className="mb-3 text-xs text-yellow-700 dark:text-yellow-400 flex items-center gap-1">
+            <Icons.Alert className="w-3 h-3" /> {shortcutNotice}
+          </p>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2">
+          {COMMANDS.map(command => (
+            <div key={command.id} className="flex justify-between items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+              {command.label}
+              <button
+                onClick={() => setRecording(recording === command.id ? null : command.id)}
+                onKeyDown={e => recording === command.id && recordShortcut(e, command.id)}
+                onBlur={() => recording === command.id && setRecording(null)}
+                className={`shrink-0 min-w-[88px] text-xs px-2 py-1 rounded border ${recording === command.id
+                  ? 'border-blue-500 ring-2 ring-blue-500/30 text-blue-600 dark:text-blue-400'
+                  : 'border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:border-gray-400'}`}
+              >
+                {recording === command.id ? 'Press keys...' : shortcuts[command.id] ? formatShortcut(shortcuts[command.id]) : 'None'}
+              </button>
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+};
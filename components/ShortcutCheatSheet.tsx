@@ -0,0 +1,52 @@
+import React from 'react';
+import { Icons } from './ui/Icons';
+import { COMMANDS, CommandGroup, ShortcutMap, formatShortcut } from '../services/commands';
+
+interface ShortcutCheatSheetProps {
+  shortcuts: ShortcutMap;
+  onClose: () => void;
+}
+
+const GROUPS: CommandGroup[] = ['Navigation', 'Create', 'Actions', 'Help'];
+
+// Overlay listing every command that currently has a shortcut
+export const ShortcutCheatSheet: React.FC<ShortcutCheatSheetProps> = ({ shortcuts, onClose }) => (
+  <div className="fixed inset-0 z-[70] flex justify-center items-center bg-black/20 dark:bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+    <div className="w-full max-w-2xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl p-6 max-h-[85vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <Icons.Keyboard className="w-5 h-5 text-blue-600 dark:text-blue-400" /> Keyboard Shortcuts
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">
+          <Icons.Close className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-5">
+        {GROUPS.map(group => {
+          const commands = COMMANDS.filter(c => c.group === group && shortcuts[c.id]);
+          if (commands.length === 0) return null;
+          return (
+            <div key={group}>
+              <h4 className="text-xs uppercase tracking-wider font-bold text-gray-500 dark:text-gray-400 mb-2">{group}</h4>
+              <ul className="space-y-1.5">
+                {commands.map(c => (
+                  <li key={c.id} className="flex justify-between items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+                    {c.label}
+                    <kbd className="shrink-0 text-xs px-1.5 py-0.5 rounded border border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                      {formatShortcut(shortcuts[c.id])}
+                    </kbd>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="mt-6 text-xs text-gray-400 dark:text-gray-500">
+        Shortcuts can be changed under Settings → Keyboard Shortcuts. Shortcuts without Ctrl/⌘ or Alt are ignored while typing in a field.
+      </p>
+    </div>
+  </div>
+);
@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { DailyLog, Project, SkillAssessment, TagDefinition } from '../types';
+import { Icons } from './ui/Icons';
+import { SKILL_LEVELS, SKILL_SOURCE_LABELS, SkillRow, buildSkillMatrix, findAssessment, skillsToCsv } from '../services/skills';
+import { parseDateKey } from '../services/calendar';
+import { downloadText } from '../services/download';
+import { exportFileStamp } from '../services/exportService';
+
+interface SkillsProps {
+  logs: DailyLog[];
+  projects: Project[];
+  registry: TagDefinition[];
+  assessments: SkillAssessment[];
+  onAssess: (name: string, changes: Partial<Omit<SkillAssessment, 'name'>>) => void;
+  onRemove: (name: string) => void; // Only for skills added by hand
+  onOpenProject: (id: string) => void;
+}
+
+type SortKey = 'days' | 'recent' | 'gap' | 'name';
+
+const SORTS: Record<SortKey, { label: string; compare: (a: SkillRow, b: SkillRow) => number }> = {
+  days: { label: 'Most used', compare: (a, b) => b.days - a.days },
+  recent: { label: 'Recently used', compare: (a, b) => (b.lastSeen || '').localeCompare(a.lastSeen || '') },
+  gap: { label: 'Furthest from target', compare: (a, b) => (b.target - b.level) - (a.target - a.level) },
+  name: { label: 'Name', compare: () => 0 },
+};
+
+const formatDay = (key?: string) =>
+  key ? parseDateKey(key).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' }) : '-';
+
+// Competency matrix for the DDP final evaluation: what was used, how often and where,
+// next to the intern's self-assessed and target levels
+export const Skills: React.FC<SkillsProps> = ({ logs, projects, registry, assessments, onAssess, onRemove, onOpenProject }) => {
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<SortKey>('days');
+  const [showHidden, setShowHidden] = useState(false);
+  const [newSkill, setNewSkill] = useState('');
+
+  const matrix = useMemo(() => buildSkillMatrix(logs, projects, registry, assessments), [logs, projects, registry, assessments]);
+  const projectNames = useMemo(() => new Map(projects.map(p => [p.id, p.name])), [projects]);
+
+  const visible = matrix.filter(row => !row.hidden);
+  const rows = matrix
+    .filter(row => (showHidden || !row.hidden) && row.name.toLowerCase().includes(search.trim().toLowerCase()))
+    .sort((a, b) => SORTS[sort].compare(a, b) || a.name.localeCompare(b.name));
+  const hiddenCount = matrix.length - visible.length;
+
+  const addSkill = () => {
+    const name = newSkill.trim().replace(/\s+/g, ' ');
+    if (!name) return;
+    if (!findAssessment(assessments, name) && !matrix.some(r => r.name.toLowerCase() === name.toLowerCase())) onAssess(name, {});
+    setNewSkill('');
+    setSearch('');
+  };
+
+  const handleExport = () => {
+    downloadText(skillsToCsv(visible, projects), `skills-matrix-${exportFileStamp()}.csv`, 'text/csv');
+  };
+
+  const inputClass = "border border-gray-400 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none placeholder-gray-500 dark:placeholder-gray-400";
+  const levelSelectClass = "border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded px-1.5 py-1 text-xs";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-xl font-semibold flex items-center gap-2 text-gray-800 dark:text-gray-100">
+            <Icons.Skills className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            Skills Matrix
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Built from project tech stacks, log tags and learnings. Rate yourself and set a target for the final evaluation.
+          </p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={visible.length === 0}
+          className="flex items-center gap-2 px-4 py-1.5 rounded-md border border-gray-300 dark:border-gray-600 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          <Icons.Spreadsheet className="w-4 h-4" /> Export CSV
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Skills', value: visible.length },
+          { label: 'Self-assessed', value: visible.filter(r => r.level > 0).length },
+          { label: 'At target', value: visible.filter(r => r.target > 0 && r.level >= r.target).length },
+          { label: 'Below target', value: visible.filter(r => r.target > r.level).length },
+        ].map(tile => (
+          <div key={tile.label} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+            <div className="text-2xl font-bold text-gray-900 dark:text-white">{tile.value}</div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">{tile.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3 md:items-center">
+        <div className="relative flex-1">
+          <Icons.Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="Filter skills..."
+            className={`${inputClass} w-full pl-9`}
+          />
+        </div>
+        <select value={sort} onChange={e => setSort(e.target.value as SortKey)} className={inputClass}>
+          {(Object.keys(SORTS) as SortKey[]).map(key => <option key={key} value={key}>Sort: {SORTS[key].label}</option>)}
+        </select>
+        {hiddenCount > 0 && (
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 whitespace-nowrap">
+            <input type="checkbox" checked={showHidden} onChange={e => setShowHidden(e.target.checked)} />
+            Show {hiddenCount} hidden
+          </label>
+        )}
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newSkill}
+            onChange={e => setNewSkill(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && addSkill()}
+            placeholder="e.g. Public Speaking"
+            className={`${inputClass} md:w-44`}
+          />
+          <button
+            onClick={addSkill}
+            disabled={!newSkill.trim()}
+            className="flex items-center gap-1.5 px-3 py-2 bg-blue-600 dark:bg-blue-500 text-white rounded-md text-sm font-medium hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 whitespace-nowrap"
+          >
+            <Icons.Plus className="w-4 h-4" /> Add Skill
+          </button>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-center py-10 text-gray-400 dark:text-gray-500 border-2 border-dashed border-gray-200 dark:border-gray-700 rounded-lg">
+          {matrix.length === 0 ? 'No skills yet. Add a tech stack to your projects or tags to your logs.' : 'No skills match the filter.'}
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg overflow-x-auto shadow-sm">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 dark:bg-gray-700/50 text-gray-500 dark:text-gray-400 font-medium border-b border-gray-200 dark:border-gray-700">
+              <tr>
+                <th className="px-4 py-3">Skill</th>
+                <th className="px-4 py-3 text-right" title="Days with a log tagged with or mentioning the skill">Days</th>
+                <th className="px-4 py-3 text-right" title="Days logged on projects with the skill in their tech stack">Project Days</th>
+                <th className="px-4 py-3">First Seen</th>
+                <th className="px-4 py-3">Last Seen</th>
+                <th className="px-4 py-3">Projects</th>
+                <th className="px-4 py-3">Level</th>
+                <th className="px-4 py-3">Target</th>
+                <th className="px-4 py-3 w-16"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+              {rows.map(row => (
+                <tr key={row.name} className={`hover:bg-gray-50 dark:hover:bg-gray-700/30 ${row.hidden ? 'opacity-50' : ''}`}>
+                  <td className="px-4 py-2.5">
+                    <div className="font-medium text-gray-900 dark:text-white">{row.name}</div>
+                    <div className="text-xs text-gray-400 dark:text-gray-500">{row.sources.map(s => SKILL_SOURCE_LABELS[s]).join(' · ')}</div>
+                  </td>
+                  <td className="px-4 py-2.5 text-right text-gray-700 dark:text-gray-300">{row.days}</td>
+                  <td className="px-4 py-2.5 text-right text-gray-500 dark:text-gray-400">{row.projectDays}</td>
+                  <td className="px-4 py-2.5 text-gray-500 dark:text-gray-400 whitespace-nowrap">{formatDay(row.firstSeen)}</td>
+                  <td className="px-4 py-2.5 text-gray-500 dark:text-gray-400 whitespace-nowrap">{formatDay(row.lastSeen)}</td>
+                  <td className="px-4 py-2.5">
+                    <div className="flex gap-1 flex-wrap">
+                      {row.projectIds.map(id => (
+                        <button
+                          key={id}
+                          onClick={() => onOpenProject(id)}
+                          className="bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 px-1.5 py-0.5 rounded text-xs border border-indigo-200 dark:border-indigo-800 hover:underline"
+                        >
+                          {projectNames.get(id)}
+                        </button>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-4 py-2.5">
+                    <select value={row.level} onChange={e => onAssess(row.name, { level: Number(e.target.value) })} className={levelSelectClass}>
+                      {SKILL_LEVELS.map((label, level) => <option key={level} value={level}>{level ? `${level} · ${label}` : '-'}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2.5">
+                    <div className="flex items-center gap-2">
+                      <select value={row.target} onChange={e => onAssess(row.name, { target: Number(e.target.value) })} className={levelSelectClass}>
+                        {SKILL_LEVELS.map((label, level) => <option key={level} value={level}>{level ? `${level} · ${label}` : '-'}</option>)}
+                      </select>
+                      {row.target > 0 && (
+                        row.level >= row.target
+                          ? <span title="Target reached"><Icons.Success className="w-4 h-4 text-green-500" /></span>
+                          : <span className="text-xs text-amber-600 dark:text-amber-400 whitespace-nowrap">{row.target - row.level} to go</span>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-4 py-2.5 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => onAssess(row.name, { hidden: !row.hidden })}
+                      className="p-1 rounded text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                      title={row.hidden ? 'Show in the matrix' : 'Not a skill, hide it'}
+                    >
+                      {row.hidden ? <Icons.Preview className="w-4 h-4" /> : <Icons.Hide className="w-4 h-4" />}
+                    </button>
+                    {row.sources.length === 1 && row.sources[0] === 'manual' && (
+                      <button onClick={() => onRemove(row.name)} className="p-1 rounded text-gray-400 hover:text-red-600" title="Remove skill">
+                        <Icons.Delete className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { Icons } from './ui/Icons';
+import { SyncConflict, touch } from '../services/sync';
+import { SyncRecord } from '../services/outbox';
+import { recordLabel, stableStringify } from '../services/importService';
+
+interface SyncConflictsProps {
+  conflicts: SyncConflict[];
+  onResolve: (conflict: SyncConflict, keep: SyncRecord | null) => Promise<void>;
+  onClose: () => void;
+}
+
+const COLLECTION_LABELS = {
+  logs: 'Daily Log',
+  reports: 'Monthly Report',
+  projects: 'Project'
+};
+
+// Bookkeeping fields that always differ and mean nothing to the user
+const IGNORED_FIELDS = ['id', 'version', 'updatedAt'];
+
+const fieldLabel = (field: string) => field.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === '') return '—';
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && value.every(v => typeof v === 'string')) return value.join(', ') || '—';
+  const text = JSON.stringify(value, null, 1);
+  return text.length > 400 ? `${text.slice(0, 400)}…` : text;
+};
+
+// Records are compared field by field, whatever their collection
+const fieldsOf = (record: SyncRecord | null): Record<string, unknown> => (record ?? {}) as Record<string, unknown>;
+
+const formatTime = (record: SyncRecord | null) =>
+  record?.updatedAt ? new Date(record.updatedAt).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' }) : '';
+
+// One conflicted record: pick a side, or pick field by field
+const ConflictCard: React.FC<{ conflict: SyncConflict; onResolve: SyncConflictsProps['onResolve'] }> = ({ conflict, onResolve }) => {
+  const { local, remote } = conflict;
+  const localFields = fieldsOf(local);
+  const remoteFields = fieldsOf(remote);
+  const [picks, setPicks] = useState<Record<string, 'local' | 'remote'>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fields = local && remote
+    ? [...new Set([...Object.keys(localFields), ...Object.keys(remoteFields)])].filter(field =>
+      !IGNORED_FIELDS.includes(field)
+      && stableStringify(localFields[field]) !== stableStringify(remoteFields[field]))
+    : [];
+
+  const resolve = async (keep: SyncRecord | null) => {
+    setIsSaving(true);
+    try {
+      await onResolve(conflict, keep);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveMerge = () => {
+    if (!local || !remote) return;
+    const merged = { ...localFields };
+    fields.forEach(field => {
+      if (picks[field] === 'remote') merged[field] = remoteFields[field];
+    });
+    resolve(touch(merged as unknown as SyncRecord));
+  };
+
+  const cellClass = (side: 'local' | 'remote', field: string) => `align-top px-3 py-2 cursor-pointer whitespace-pre-wrap break-words border-l border-gray-100 dark:border-gray-700 ${
+    (picks[field] || 'local') === side
+      ? 'bg-blue-50 dark:bg-blue-900/30 text-gray-900 dark:text-white'
+      : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+  }`;
+
+  const buttonClass = "px-3 py-1.5 rounded-md text-xs font-medium border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50";
+
+  return (
+    <li className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+      <div className="px-4 py-3 bg-gray-50 dark:bg-gray-700/50">
+        <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">{COLLECTION_LABELS[conflict.collection]}</p>
+        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{recordLabel(conflict.collection, local || remote)}</p>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+          {!local ? 'You deleted this, but it was changed on the server.'
+            : !remote ? 'You changed this, but it was deleted on the server.'
+            : 'Changed both here and on the server. Click a value to keep it.'}
+        </p>
+      </div>
+
+      {fields.length > 0 && (
+        <div className="max-h-72 overflow-y-auto">
+          <table className="w-full text-sm table-fixed">
+            <thead className="text-xs text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="w-32 px-3 py-1.5 text-left font-medium">Field</th>
+                <th className="px-3 py-1.5 text-left font-medium">This browser <span className="font-normal">{formatTime(local)}</span></th>
+                <th className="px-3 py-1.5 text-left font-medium">Server <span className="font-normal">{formatTime(remote)}</span></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+              {fields.map(field => (
+                <tr key={field}>
+                  <td className="align-top px-3 py-2 text-xs font-medium text-gray-600 dark:text-gray-300">{fieldLabel(field)}</td>
+                  <td className={cellClass('local', field)} onClick={() => setPicks(prev => ({ ...prev, [field]: 'local' }))}>
+                    {formatValue(localFields[field])}
+                  </td>
+                  <td className={cellClass('remote', field)} onClick={() => setPicks(prev => ({ ...prev, [field]: 'remote' }))}>
+                    {formatValue(remoteFields[field])}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="px-4 py-3 flex flex-wrap justify-end gap-2 border-t border-gray-100 dark:border-gray-700">
+        <button onClick={() => resolve(local)} disabled={isSaving} className={buttonClass}>
+          {local ? 'Keep mine' : 'Keep it deleted'}
+        </button>
+        <button onClick={() => resolve(remote)} disabled={isSaving} className={buttonClass}>
+          {remote ? "Use server's" : 'Delete it'}
+        </button>
+        {fields.length > 0 && (
+          <button
+            onClick={saveMerge}
+            disabled={isSaving}
+            className="px-3 py-1.5 rounded-md text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save merge
+          </button>
+        )}
+      </div>
+    </li>
+  );
+};
+
+export const SyncConflicts: React.FC<SyncConflictsProps> = ({ conflicts, onResolve, onClose }) => (
+  <div className="fixed inset-0 z-50 flex justify-center items-center bg-black/20 dark:bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+    <div className="w-full max-w-3xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-700/50">
+        <div>
+          <h3 className="text-xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <Icons.Merge className="w-5 h-5 text-amber-500" /> Sync Conflicts
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">These entries were changed on another device since this browser last synced.</p>
+        </div>
+        <button onClick={onClose}><Icons.Close className="w-6 h-6 text-gray-400 dark:text-gray-300" /></button>
+      </div>
+
+      <div className="p-6 overflow-y-auto flex-1">
+        {conflicts.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">All conflicts are resolved.</p>
+        ) : (
+          <ul className="space-y-4">
+            {conflicts.map(conflict => <ConflictCard key={conflict.key} conflict={conflict} onResolve={onResolve} />)}
+          </ul>
+        )}
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { TagColor, TagDefinition } from '../types';
+import { Icons } from './ui/Icons';
+import { findTag, formatTagPath, normalizeTags, suggestTags } from '../services/tags';
+
+export const TAG_CHIP_STYLES: Record<TagColor, string> = {
+  gray: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 border-gray-200 dark:border-gray-600',
+  red: 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 border-red-200 dark:border-red-800',
+  orange: 'bg-orange-50 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 border-orange-200 dark:border-orange-800',
+  yellow: 'bg-yellow-50 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300 border-yellow-200 dark:border-yellow-800',
+  green: 'bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300 border-green-200 dark:border-green-800',
+  teal: 'bg-teal-50 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300 border-teal-200 dark:border-teal-800',
+  blue: 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 border-blue-200 dark:border-blue-800',
+  purple: 'bg-purple-50 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 border-purple-200 dark:border-purple-800',
+  pink: 'bg-pink-50 dark:bg-pink-900/30 text-pink-700 dark:text-pink-300 border-pink-200 dark:border-pink-800',
+};
+
+interface TagChipProps {
+  tag: string;
+  registry: TagDefinition[];
+  onRemove?: () => void;
+}
+
+// A tag in its registry color; the full path shows on hover
+export const TagChip: React.FC<TagChipProps> = ({ tag, registry, onRemove }) => (
+  <span
+    title={formatTagPath(tag, registry)}
+    className={`px-1.5 py-0.5 rounded text-xs border inline-flex items-center gap-1 ${TAG_CHIP_STYLES[findTag(registry, tag)?.color ?? 'gray']}`}
+  >
+    {tag}
+    {onRemove && (
+      <button type="button" onClick={onRemove} className="opacity-60 hover:opacity-100" title={`Remove ${tag}`}>
+        <Icons.Close className="w-3 h-3" />
+      </button>
+    )}
+  </span>
+);
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  registry: TagDefinition[];
+  knownTags: string[]; // Every tag in the workspace, for autocomplete
+  placeholder?: string;
+}
+
+// Tag entry with autocomplete. Enter, Tab or a comma adds the typed tag; aliases and
+// other spellings of a known tag are turned into its name.
+export const TagInput: React.FC<TagInputProps> = ({ value, onChange, registry, knownTags, placeholder }) => {
+  const [draft, setDraft] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const suggestions = isFocused ? suggestTags(draft, knownTags, registry, value) : [];
+
+  const add = (tags: string[]) => {
+    onChange(normalizeTags([...value, ...tags], registry));
+    setDraft('');
+    setHighlighted(0);
+  };
+
+  const handleChange = (text: string) => {
+    // Pasting "a, b, c" adds all but the part still being typed
+    const parts = text.split(',');
+    if (parts.length > 1) add(parts.slice(0, -1));
+    setDraft(parts[parts.length - 1]);
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (suggestions.length === 0) return;
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(i => (i + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || (e.key === 'Tab' && draft.trim())) {
+      if (!draft.trim()) return;
+      e.preventDefault();
+      add([suggestions[highlighted] ?? draft]);
+    } else if (e.key === 'Escape' && draft) {
+      e.stopPropagation();
+      setDraft('');
+    } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="w-full min-h-[38px] flex flex-wrap items-center gap-1.5 border border-gray-400 dark:border-gray-600 bg-white dark:bg-gray-700 rounded-md px-2 py-1.5 focus-within:ring-2 focus-within:ring-blue-500">
+        {value.map(tag => (
+          <TagChip key={tag} tag={tag} registry={registry} onRemove={() => onChange(value.filter(t => t !== tag))} />
+        ))}
+        <input
+          type="text"
+          value={draft}
+          onChange={e => handleChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (draft.trim()) add([draft]);
+          }}
+          placeholder={value.length === 0 ? placeholder : ''}
+          className="flex-1 min-w-[8rem] bg-transparent text-sm text-gray-900 dark:text-white outline-none placeholder-gray-500 dark:placeholder-gray-400"
+        />
+      </div>
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full max-h-56 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg py-1">
+          {suggestions.map((tag, i) => (
+            <li key={tag}>
+              <button
+                type="button"
+                // Keep the input focused so the blur doesn't add the half-typed text
+                onMouseDown={e => { e.preventDefault(); add([tag]); }}
+                onMouseEnter={() => setHighlighted(i)}
+                className={`w-full text-left px-3 py-1.5 text-sm ${i === highlighted ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300' : 'text-gray-700 dark:text-gray-200'}`}
+              >
+                {formatTagPath(tag, registry)}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
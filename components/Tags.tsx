@@ -0,0 +1,268 @@
+import React, { useMemo, useState } from 'react';
+import { DailyLog, TagColor, TagDefinition } from '../types';
+import { Icons } from './ui/Icons';
+import { TagChip } from './TagInput';
+import { parseDateKey } from '../services/calendar';
+import { TAG_COLORS, findTag, formatTagPath, getAllTagNames, getParentCandidates, getTagPath, getTagStats } from '../services/tags';
+
+interface TagsProps {
+  logs: DailyLog[];
+  registry: TagDefinition[];
+  onSetColor: (name: string, color: TagColor) => void;
+  onSetParent: (name: string, parent: string) => void;
+  onSetAliases: (name: string, aliases: string[]) => void;
+  onRename: (from: string, to: string) => void;
+  onMerge: (source: string, target: string) => void;
+  onDelete: (name: string) => void;
+  onOpenLogs: (tag: string) => void; // Shows the logbook filtered by the tag
+}
+
+const SWATCHES: Record<TagColor, string> = {
+  gray: 'bg-gray-400',
+  red: 'bg-red-500',
+  orange: 'bg-orange-500',
+  yellow: 'bg-yellow-400',
+  green: 'bg-green-500',
+  teal: 'bg-teal-500',
+  blue: 'bg-blue-500',
+  purple: 'bg-purple-500',
+  pink: 'bg-pink-500',
+};
+
+const formatMonth = (month: string) =>
+  parseDateKey(`${month}-01`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+
+// Tag registry and usage statistics: colors, hierarchy, aliases, rename and merge
+export const Tags: React.FC<TagsProps> = ({ logs, registry, onSetColor, onSetParent, onSetAliases, onRename, onMerge, onDelete, onOpenLogs }) => {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [renameTo, setRenameTo] = useState('');
+  const [mergeInto, setMergeInto] = useState('');
+  const [aliasText, setAliasText] = useState('');
+
+  const allNames = useMemo(() => getAllTagNames(registry, logs), [registry, logs]);
+  const stats = useMemo(() => getTagStats(logs, registry), [logs, registry]);
+  const maxMonthly = Math.max(1, ...stats.flatMap(s => s.monthly.map(m => m.count)));
+  const taggedLogs = logs.filter(log => log.tags.length > 0).length;
+  const mostUsed = [...stats].sort((a, b) => b.logCount - a.logCount)[0];
+
+  const startEditing = (name: string) => {
+    if (editing === name) return setEditing(null);
+    setEditing(name);
+    setRenameTo(name);
+    setMergeInto('');
+    setAliasText((findTag(registry, name)?.aliases || []).join(', '));
+  };
+
+  const rename = (name: string) => {
+    if (!renameTo.trim() || renameTo.trim() === name) return;
+    onRename(name, renameTo);
+    setEditing(null);
+  };
+
+  const saveAliases = (name: string) => {
+    const aliases = aliasText.split(',').map(a => a.trim()).filter(Boolean);
+    const current = findTag(registry, name)?.aliases || [];
+    if (aliases.join('\n') !== current.join('\n')) onSetAliases(name, aliases);
+  };
+
+  const inputClass = "w-full border border-gray-400 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none placeholder-gray-500 dark:placeholder-gray-400";
+  const labelClass = "block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1";
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold flex items-center gap-2 text-gray-800 dark:text-gray-100">
+          <Icons.Tag className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          Tags
+        </h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          Give tags a color and a parent, list other spellings as aliases, and rename or merge tags across every log. Approved logs keep their tags as they are.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Tags', value: allNames.length },
+          { label: 'Tagged logs', value: taggedLogs },
+          { label: 'Untagged logs', value: logs.length - taggedLogs },
+          { label: 'Most used', value: mostUsed && mostUsed.logCount > 0 ? mostUsed.name : '-' },
+        ].map(tile => (
+          <div key={tile.label} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+            <div className="text-2xl font-bold text-gray-900 dark:text-white truncate">{tile.value}</div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">{tile.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {stats.length === 0 ? (
+        <div className="text-center py-10 text-gray-400 dark:text-gray-500 border-2 border-dashed border-gray-200 dark:border-gray-700 rounded-lg">
+          No tags yet. Tags added to daily logs show up here.
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden shadow-sm">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 dark:bg-gray-700/50 text-gray-500 dark:text-gray-400 font-medium border-b border-gray-200 dark:border-gray-700">
+              <tr>
+                <th className="px-4 py-3">Tag</th>
+                <th className="px-4 py-3 text-right">Logs</th>
+                <th className="px-4 py-3 text-right">Hours</th>
+                <th className="px-4 py-3">Last Used</th>
+                <th className="px-4 py-3">Last 6 Months</th>
+                <th className="px-4 py-3 w-10"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+              {stats.map(stat => {
+                const depth = getTagPath(stat.name, registry).length - 1;
+                const def = findTag(registry, stat.name);
+                return (
+                  <React.Fragment key={stat.name}>
+                    <tr className="hover:bg-gray-50 dark:hover:bg-gray-700/30">
+                      <td className="px-4 py-2.5">
+                        <div className="flex items-center gap-2" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+                          {depth > 0 && <Icons.ChevronRight className="w-3 h-3 text-gray-300 dark:text-gray-600 shrink-0" />}
+                          <button onClick={() => onOpenLogs(stat.name)} title="Show these logs">
+                            <TagChip tag={stat.name} registry={registry} />
+                          </button>
+                          {def && def.aliases.length > 0 && (
+                            <span className="text-xs text-gray-400 dark:text-gray-500 truncate" title="Aliases">
+                              also {def.aliases.join(', ')}
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-4 py-2.5 text-right text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                        {stat.logCount}
+                        {stat.familyLogCount > stat.logCount && (
+                          <span className="text-xs text-gray-400 dark:text-gray-500" title="Including the tags below it"> / {stat.familyLogCount}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2.5 text-right text-gray-700 dark:text-gray-300">{stat.hours ? stat.hours.toFixed(1) : '-'}</td>
+                      <td className="px-4 py-2.5 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                        {stat.lastUsed ? parseDateKey(stat.lastUsed).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' }) : 'Not used'}
+                      </td>
+                      <td className="px-4 py-2.5">
+                        <div className="flex items-end gap-0.5 h-6">
+                          {stat.monthly.map(m => (
+                            <div
+                              key={m.month}
+                              title={`${formatMonth(m.month)}: ${m.count} log(s)`}
+                              className={`w-2.5 rounded-sm ${m.count ? 'bg-blue-400 dark:bg-blue-500' : 'bg-gray-200 dark:bg-gray-700'}`}
+                              style={{ height: `${Math.max(12, (m.count / maxMonthly) * 100)}%` }}
+                            />
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-4 py-2.5 text-right">
+                        <button
+                          onClick={() => startEditing(stat.name)}
+                          className={`p-1 rounded ${editing === stat.name ? 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200' : 'text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+                          title="Edit tag"
+                        >
+                          <Icons.More className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+
+                    {editing === stat.name && (
+                      <tr className="bg-gray-50/50 dark:bg-gray-900/20">
+                        <td colSpan={6} className="px-4 py-4">
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                              <label className={labelClass}>Color</label>
+                              <div className="flex gap-1.5">
+                                {TAG_COLORS.map(color => (
+                                  <button
+                                    key={color}
+                                    onClick={() => onSetColor(stat.name, color)}
+                                    title={color}
+                                    className={`w-6 h-6 rounded-full ${SWATCHES[color]} ${(def?.color ?? 'gray') === color ? 'ring-2 ring-offset-2 ring-blue-500 dark:ring-offset-gray-800' : ''}`}
+                                  />
+                                ))}
+                              </div>
+                            </div>
+                            <div>
+                              <label className={labelClass}>Parent Tag</label>
+                              <select
+                                value={def?.parentId ? registry.find(t => t.id === def.parentId)?.name ?? '' : ''}
+                                onChange={e => onSetParent(stat.name, e.target.value)}
+                                className={inputClass}
+                              >
+                                <option value="">None (top level)</option>
+                                {getParentCandidates(stat.name, registry, allNames).map(name => (
+                                  <option key={name} value={name}>{formatTagPath(name, registry)}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <label className={labelClass}>Aliases (comma separated)</label>
+                              <input
+                                type="text"
+                                value={aliasText}
+                                onChange={e => setAliasText(e.target.value)}
+                                onBlur={() => saveAliases(stat.name)}
+                                onKeyDown={e => e.key === 'Enter' && saveAliases(stat.name)}
+                                placeholder="e.g. ReactJS, react.js"
+                                className={inputClass}
+                              />
+                            </div>
+                            <div>
+                              <label className={labelClass}>Rename</label>
+                              <div className="flex gap-2">
+                                <input
+                                  type="text"
+                                  value={renameTo}
+                                  onChange={e => setRenameTo(e.target.value)}
+                                  onKeyDown={e => e.key === 'Enter' && rename(stat.name)}
+                                  className={inputClass}
+                                />
+                                <button
+                                  onClick={() => rename(stat.name)}
+                                  disabled={!renameTo.trim() || renameTo.trim() === stat.name}
+                                  className="shrink-0 px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                                >
+                                  Rename
+                                </button>
+                              </div>
+                            </div>
+                            <div>
+                              <label className={labelClass}>Merge Into</label>
+                              <div className="flex gap-2">
+                                <select value={mergeInto} onChange={e => setMergeInto(e.target.value)} className={inputClass}>
+                                  <option value="">Choose a tag...</option>
+                                  {allNames.filter(name => name !== stat.name).map(name => (
+                                    <option key={name} value={name}>{formatTagPath(name, registry)}</option>
+                                  ))}
+                                </select>
+                                <button
+                                  onClick={() => { onMerge(stat.name, mergeInto); setEditing(null); }}
+                                  disabled={!mergeInto}
+                                  className="shrink-0 px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                                >
+                                  Merge
+                                </button>
+                              </div>
+                              <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">{stat.name} becomes an alias of the chosen tag.</p>
+                            </div>
+                            <div className="flex items-end justify-end">
+                              <button
+                                onClick={() => { onDelete(stat.name); setEditing(null); }}
+                                className="flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+                              >
+                                <Icons.Delete className="w-4 h-4" /> Remove from all logs
+                              </button>
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,336 @@
+import React, { useState, useRef } from 'react';
+import { DailyLog, Project, RecordTemplate, RecordView, Snippet, TagDefinition } from '../types';
+import { Icons } from './ui/Icons';
+import { TagInput } from './TagInput';
+import {
+  TEMPLATE_FIELDS,
+  TEMPLATE_VARIABLES,
+  WEEKDAYS,
+  createTemplate,
+  createSnippet,
+  templatesToJson,
+  parseTemplatesFile
+} from '../services/templates';
+import { downloadText } from '../services/download';
+import { exportFileStamp } from '../services/exportService';
+import { getAllTagNames } from '../services/tags';
+
+interface TemplateManagerProps {
+  templates: RecordTemplate[];
+  snippets: Snippet[];
+  projects: Project[];
+  logs: DailyLog[]; // For tag autocomplete
+  tagRegistry: TagDefinition[];
+  onChange: (templates: RecordTemplate[], snippets: Snippet[]) => void;
+  onClose: () => void;
+}
+
+type Tab = RecordView | 'snippets';
+
+const TABS: { id: Tab; label: string }[] = [
+  { id: 'logs', label: 'Daily Logs' },
+  { id: 'reports', label: 'Monthly Reports' },
+  { id: 'projects', label: 'Projects' },
+  { id: 'snippets', label: 'Snippets' },
+];
+
+// Monday first, like the timesheet
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const TemplateManager: React.FC<TemplateManagerProps> = ({ templates, snippets, projects, logs, tagRegistry, onChange, onClose }) => {
+  const [tab, setTab] = useState<Tab>('logs');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{ tone: 'ok' | 'error'; message: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const tabTemplates = tab === 'snippets' ? [] : templates.filter(t => t.kind === tab);
+  const selected = templates.find(t => t.id === selectedId && t.kind === tab);
+
+  const updateTemplate = (id: string, changes: Partial<RecordTemplate>) =>
+    onChange(templates.map(t => t.id === id ? { ...t, ...changes } : t), snippets);
+
+  const addTemplate = () => {
+    if (tab === 'snippets') return;
+    const template = createTemplate(tab);
+    onChange([...templates, template], snippets);
+    setSelectedId(template.id);
+  };
+
+  const removeTemplate = (id: string) => {
+    onChange(templates.filter(t => t.id !== id), snippets);
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const updateSnippet = (id: string, changes: Partial<Snippet>) =>
+    onChange(templates, snippets.map(s => s.id === id ? { ...s, ...changes } : s));
+
+  const toggleRecurrence = (template: RecordTemplate, day: number) => {
+    const recurrence = template.recurrence.includes(day)
+      ? template.recurrence.filter(d => d !== day)
+      : [...template.recurrence, day].sort();
+    updateTemplate(template.id, { recurrence });
+  };
+
+  const toggleProject = (template: RecordTemplate, projectId: string) => {
+    const projectIds = template.projectIds.includes(projectId)
+      ? template.projectIds.filter(id => id !== projectId)
+      : [...template.projectIds, projectId];
+    updateTemplate(template.id, { projectIds });
+  };
+
+  const handleExport = () => {
+    downloadText(templatesToJson(templates, snippets), `telkom-ddp-templates-${exportFileStamp()}.json`, 'application/json');
+  };
+
+  const handleImport = async (file?: File) => {
+    if (!file) return;
+    try {
+      const imported = parseTemplatesFile(await file.text());
+      onChange([...templates, ...imported.templates], [...snippets, ...imported.snippets]);
+      setNotice({ tone: 'ok', message: `Imported ${imported.templates.length} template(s) and ${imported.snippets.length} snippet(s).` });
+    } catch (e) {
+      setNotice({ tone: 'error', message: e instanceof Error ? e.message : 'Could not read the templates file.' });
+    }
+  };
+
+  const inputClass = "w-full border border-gray-400 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none placeholder-gray-500 dark:placeholder-gray-400";
+  const labelClass = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-center items-center bg-black/20 dark:bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-4xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl overflow-hidden h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-gray-700/50">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 dark:text-white">Templates & Snippets</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Starting points for new records, and reusable text for each log tag.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <Icons.Upload className="w-4 h-4" /> Import
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={templates.length === 0 && snippets.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              <Icons.Download className="w-4 h-4" /> Export
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={e => { handleImport(e.target.files?.[0]); e.target.value = ''; }}
+            />
+            <button onClick={onClose} className="ml-2"><Icons.Close className="w-6 h-6 text-gray-400 dark:text-gray-300" /></button>
+          </div>
+        </div>
+
+        <div className="flex border-b border-gray-200 dark:border-gray-700 px-6">
+          {TABS.map(t => (
+            <button
+              key={t.id}
+              onClick={() => { setTab(t.id); setSelectedId(null); }}
+              className={`px-3 py-2.5 text-sm font-medium border-b-2 -mb-px ${tab === t.id
+                ? 'border-blue-600 text-blue-600 dark:border-blue-400 dark:text-blue-400'
+                : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        {notice && (
+          <div className={`mx-6 mt-4 flex items-start gap-2 p-3 rounded-md text-sm ${notice.tone === 'ok'
+            ? 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300'
+            : 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'}`}
+          >
+            {notice.tone === 'ok' ? <Icons.Success className="w-4 h-4 shrink-0 mt-0.5" /> : <Icons.Alert className="w-4 h-4 shrink-0 mt-0.5" />}
+            <span className="flex-1">{notice.message}</span>
+            <button onClick={() => setNotice(null)}><Icons.Close className="w-4 h-4" /></button>
+          </div>
+        )}
+
+        {tab === 'snippets' ? (
+          <div className="p-6 overflow-y-auto flex-1 space-y-3">
+            <p className="text-xs text-gray-400 dark:text-gray-500">
+              A snippet shows up under the tags field of a log that has its tag. Clicking it appends the text to the activity.
+            </p>
+            {snippets.map(snippet => (
+              <div key={snippet.id} className="flex gap-3 items-start p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+                <input
+                  type="text"
+                  value={snippet.tag}
+                  onChange={e => updateSnippet(snippet.id, { tag: e.target.value })}
+                  placeholder="Tag"
+                  className={`${inputClass} !w-40 shrink-0`}
+                />
+                <textarea
+                  rows={2}
+                  value={snippet.text}
+                  onChange={e => updateSnippet(snippet.id, { text: e.target.value })}
+                  placeholder="e.g. Attended the {{weekday}} stand-up for {{project}}."
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => onChange(templates, snippets.filter(s => s.id !== snippet.id))}
+                  className="p-2 rounded-md text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+                  title="Delete snippet"
+                >
+                  <Icons.Delete className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => onChange(templates, [...snippets, createSnippet()])}
+              className="flex items-center gap-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              <Icons.Plus className="w-4 h-4" /> Add Snippet
+            </button>
+          </div>
+        ) : (
+          <div className="flex flex-1 min-h-0">
+            <div className="w-56 shrink-0 border-r border-gray-200 dark:border-gray-700 p-3 overflow-y-auto space-y-1">
+              {tabTemplates.map(t => (
+                <button
+                  key={t.id}
+                  onClick={() => setSelectedId(t.id)}
+                  className={`w-full text-left px-3 py-2 rounded-md text-sm truncate ${t.id === selectedId
+                    ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 font-medium'
+                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                >
+                  {t.name || 'Untitled template'}
+                  {t.recurrence.length > 0 && <Icons.Waiting className="inline w-3 h-3 ml-1.5 text-gray-400" />}
+                </button>
+              ))}
+              <button
+                onClick={addTemplate}
+                className="w-full flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md"
+              >
+                <Icons.Plus className="w-4 h-4" /> New Template
+              </button>
+            </div>
+
+            <div className="flex-1 p-6 overflow-y-auto">
+              {!selected ? (
+                <div className="h-full flex items-center justify-center text-sm text-gray-400 dark:text-gray-500 text-center">
+                  {tabTemplates.length ? 'Select a template to edit it.' : 'No templates yet. New records use the built-in one.'}
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <div className="flex gap-3 items-end">
+                    <div className="flex-1">
+                      <label className={labelClass}>Name</label>
+                      <input
+                        type="text"
+                        value={selected.name}
+                        onChange={e => updateTemplate(selected.id, { name: e.target.value })}
+                        placeholder="e.g. Sprint Planning Day"
+                        className={inputClass}
+                      />
+                    </div>
+                    <button
+                      onClick={() => removeTemplate(selected.id)}
+                      className="flex items-center gap-1.5 px-3 py-2 text-sm rounded-md text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+                    >
+                      <Icons.Delete className="w-4 h-4" /> Delete
+                    </button>
+                  </div>
+
+                  {TEMPLATE_FIELDS[selected.kind].map(field => (
+                    <div key={field.key}>
+                      <label className={labelClass}>{field.label}</label>
+                      <textarea
+                        rows={3}
+                        value={selected.fields[field.key] || ''}
+                        onChange={e => updateTemplate(selected.id, { fields: { ...selected.fields, [field.key]: e.target.value } })}
+                        placeholder="Leave empty to keep the built-in text"
+                        className={`${inputClass} font-mono`}
+                      />
+                    </div>
+                  ))}
+
+                  {selected.kind === 'logs' && (
+                    <div>
+                      <label className={labelClass}>Default Tags</label>
+                      <TagInput
+                        value={selected.tags}
+                        onChange={tags => updateTemplate(selected.id, { tags })}
+                        registry={tagRegistry}
+                        knownTags={getAllTagNames(tagRegistry, logs)}
+                      />
+                    </div>
+                  )}
+
+                  {selected.kind === 'projects' && (
+                    <div>
+                      <label className={labelClass}>Tech Stack (comma separated)</label>
+                      <input
+                        type="text"
+                        value={selected.tags.join(', ')}
+                        onChange={e => updateTemplate(selected.id, { tags: e.target.value.split(',').map(t => t.trim()) })}
+                        className={inputClass}
+                      />
+                    </div>
+                  )}
+
+                  {selected.kind === 'logs' && (
+                    <>
+                      {projects.length > 0 && (
+                        <div>
+                          <label className={labelClass}>Linked Projects</label>
+                          <div className="flex flex-wrap gap-2">
+                            {projects.map(project => (
+                              <button
+                                key={project.id}
+                                onClick={() => toggleProject(selected, project.id)}
+                                className={`px-2.5 py-1 rounded-full text-xs border ${selected.projectIds.includes(project.id)
+                                  ? 'bg-purple-100 dark:bg-purple-900/30 border-purple-300 dark:border-purple-700 text-purple-700 dark:text-purple-300'
+                                  : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                              >
+                                {project.name}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                      <div>
+                        <label className={labelClass}>Draft Automatically On</label>
+                        <div className="flex flex-wrap gap-2">
+                          {WEEKDAY_ORDER.map(day => (
+                            <button
+                              key={day}
+                              onClick={() => toggleRecurrence(selected, day)}
+                              className={`w-12 py-1 rounded-md text-xs font-medium border ${selected.recurrence.includes(day)
+                                ? 'bg-blue-600 dark:bg-blue-500 border-blue-600 dark:border-blue-500 text-white'
+                                : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                            >
+                              {WEEKDAYS[day].slice(0, 3)}
+                            </button>
+                          ))}
+                        </div>
+                        <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                          When the app opens on one of these days and the day has no log yet, a draft log is created from this template. Holidays and leave days are skipped.
+                        </p>
+                      </div>
+                    </>
+                  )}
+
+                  <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 text-xs text-gray-600 dark:text-gray-300 space-y-1">
+                    <p className="font-semibold text-gray-700 dark:text-gray-200">Variables</p>
+                    {TEMPLATE_VARIABLES.map(v => (
+                      <p key={v.name}><code className="font-mono text-blue-600 dark:text-blue-400">{`{{${v.name}}}`}</code> — {v.description}</p>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
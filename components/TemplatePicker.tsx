@@ -0,0 +1,28 @@
+import React from 'react';
+import { RecordTemplate, RecordView } from '../types';
+
+interface TemplatePickerProps {
+  templates: RecordTemplate[];
+  kind: RecordView;
+  defaultLabel: string; // Name of the built-in template
+  value: string; // Template id; '' for the built-in one
+  onChange: (template: RecordTemplate | null) => void;
+}
+
+// Template choice in a new record's editor header
+export const TemplatePicker: React.FC<TemplatePickerProps> = ({ templates, kind, defaultLabel, value, onChange }) => {
+  const choices = templates.filter(t => t.kind === kind);
+  return (
+    <label className="text-sm text-gray-500 dark:text-gray-400 flex items-center gap-1.5">
+      Template:
+      <select
+        value={value}
+        onChange={e => onChange(choices.find(t => t.id === e.target.value) ?? null)}
+        className="bg-transparent border-0 border-b border-dashed border-gray-300 dark:border-gray-600 py-0 pl-0 pr-6 text-sm text-gray-700 dark:text-gray-200 focus:ring-0 focus:border-blue-500 outline-none cursor-pointer"
+      >
+        <option value="">{defaultLabel}</option>
+        {choices.map(t => <option key={t.id} value={t.id}>{t.name || 'Untitled template'}</option>)}
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useState, useMemo } from 'react';
+import { DailyLog, Project, WorkspaceSettings } from '../types';
+import { Icons } from './ui/Icons';
+import { buildTimesheet, getWeekStart, timesheetToCsv, DayFlag, UNALLOCATED } from '../services/timesheet';
+import { addDays, getDayInfo, parseDateKey, todayKey } from '../services/calendar';
+import { downloadText } from '../services/download';
+
+interface TimesheetProps {
+  logs: DailyLog[];
+  projects: Project[];
+  settings: WorkspaceSettings;
+}
+
+const FLAG_STYLES: Record<DayFlag, string> = {
+  over: 'bg-orange-50 dark:bg-orange-900/20 text-orange-700 dark:text-orange-300',
+  under: 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300',
+  ok: 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300',
+  none: 'text-gray-400 dark:text-gray-500',
+};
+
+const formatHours = (hours: number) => hours > 0 ? `${hours}` : '';
+
+export const Timesheet: React.FC<TimesheetProps> = ({ logs, projects, settings }) => {
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(todayKey()));
+  const targetHours = settings.timesheet.dailyTargetHours;
+
+  const timesheet = useMemo(
+    () => buildTimesheet(logs, projects, weekStart, targetHours, settings.calendar),
+    [logs, projects, weekStart, targetHours, settings.calendar]
+  );
+
+  const weekEnd = addDays(weekStart, 6);
+  const isCurrentWeek = weekStart === getWeekStart(todayKey());
+  const overDays = timesheet.dayFlags.filter(f => f === 'over').length;
+  const underDays = timesheet.dayFlags.filter(f => f === 'under').length;
+
+  const formatRange = () => {
+    const start = parseDateKey(weekStart).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+    const end = parseDateKey(weekEnd).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+    return `${start} – ${end}`;
+  };
+
+  const handleExport = () => {
+    downloadText(timesheetToCsv(timesheet), `timesheet-${weekStart}.csv`, 'text/csv');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h2 className="text-xl font-semibold flex items-center gap-2 text-gray-800 dark:text-gray-100">
+          <Icons.Clock className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          {formatRange()}
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setWeekStart(addDays(weekStart, -7))}
+            className="p-2 rounded-md border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            title="Previous week"
+          >
+            <Icons.ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setWeekStart(getWeekStart(todayKey()))}
+            disabled={isCurrentWeek}
+            className="px-3 py-1.5 rounded-md border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            This Week
+          </button>
+          <button
+            onClick={() => setWeekStart(addDays(weekStart, 7))}
+            className="p-2 rounded-md border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            title="Next week"
+          >
+            <Icons.ChevronRight className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={timesheet.rows.length === 0}
+            className="flex items-center gap-2 bg-blue-600 dark:bg-blue-500 text-white px-4 py-1.5 rounded-md hover:bg-blue-700 dark:hover:bg-blue-600 transition-colors text-sm font-medium disabled:opacity-50"
+          >
+            <Icons.Spreadsheet className="w-4 h-4" /> Export CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+          <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Total Hours</div>
+          <div className="text-2xl font-bold text-gray-800 dark:text-gray-100">{timesheet.total}</div>
+        </div>
+        <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+          <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Under {targetHours}h</div>
+          <div className={`text-2xl font-bold ${underDays > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-800 dark:text-gray-100'}`}>{underDays} days</div>
+        </div>
+        <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+          <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Over {targetHours}h</div>
+          <div className={`text-2xl font-bold ${overDays > 0 ? 'text-orange-600 dark:text-orange-400' : 'text-gray-800 dark:text-gray-100'}`}>{overDays} days</div>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 dark:bg-gray-700 text-gray-500 dark:text-gray-400 font-medium border-b border-gray-200 dark:border-gray-700">
+              <tr>
+                <th className="px-4 py-3">Project</th>
+                {timesheet.days.map(day => {
+                  const info = getDayInfo(day, settings.calendar);
+                  return (
+                    <th
+                      key={day}
+                      title={info.label}
+                      className={`px-3 py-3 text-right w-20 ${info.kind !== 'workday' ? 'text-gray-400 dark:text-gray-500 font-normal' : ''}`}
+                    >
+                      {parseDateKey(day).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' })}
+                    </th>
+                  );
+                })}
+                <th className="px-4 py-3 text-right w-20">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+              {timesheet.rows.length === 0 ? (
+                <tr>
+                  <td colSpan={9} className="px-4 py-8 text-center text-gray-400 dark:text-gray-500">
+                    No hours recorded this week. Add start and end times or project hours to your daily logs.
+                  </td>
+                </tr>
+              ) : (
+                timesheet.rows.map(row => (
+                  <tr key={row.projectId}>
+                    <td className={`px-4 py-2 font-medium ${row.projectId === UNALLOCATED ? 'italic text-gray-400 dark:text-gray-500' : ''}`}>
+                      {row.name}
+                    </td>
+                    {row.hours.map((hours, i) => (
+                      <td key={i} className="px-3 py-2 text-right tabular-nums">{formatHours(hours)}</td>
+                    ))}
+                    <td className="px-4 py-2 text-right font-semibold tabular-nums">{row.total}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+            <tfoot className="border-t-2 border-gray-200 dark:border-gray-700 font-semibold">
+              <tr>
+                <td className="px-4 py-2 text-gray-800 dark:text-gray-100">Daily Total</td>
+                {timesheet.dayTotals.map((hours, i) => (
+                  <td key={i} className={`px-3 py-2 text-right tabular-nums ${FLAG_STYLES[timesheet.dayFlags[i]]}`}>
+                    {hours > 0 ? hours : timesheet.dayFlags[i] === 'none' ? '' : '0'}
+                  </td>
+                ))}
+                <td className="px-4 py-2 text-right tabular-nums text-gray-800 dark:text-gray-100">{timesheet.total}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+        <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-green-200 dark:bg-green-800" /> Meets {targetHours}h target</span>
+        <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-red-200 dark:bg-red-800" /> Under target on a working day</span>
+        <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-orange-200 dark:bg-orange-800" /> Over target</span>
+        <span>Shift time not assigned to a project is listed as Unallocated.</span>
+      </div>
+    </div>
+  );
+};
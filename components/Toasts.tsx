@@ -0,0 +1,41 @@
+import React from 'react';
+import { Icons } from './ui/Icons';
+
+export interface Toast {
+  id: string;
+  message: string;
+  action?: { label: string; run: () => void };
+}
+
+interface ToastsProps {
+  toasts: Toast[];
+  onDismiss: (id: string) => void;
+}
+
+// Short notices at the bottom of the screen, e.g. "Log moved to trash" with an Undo button
+export const Toasts: React.FC<ToastsProps> = ({ toasts, onDismiss }) => (
+  <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[60] flex flex-col items-center gap-2 pointer-events-none" aria-live="polite">
+    {toasts.map(toast => (
+      <div
+        key={toast.id}
+        className="pointer-events-auto flex items-center gap-3 pl-4 pr-2 py-2 rounded-lg shadow-lg bg-gray-900 dark:bg-gray-700 text-sm text-white"
+      >
+        <span>{toast.message}</span>
+        {toast.action && (
+          <button
+            onClick={() => {
+              toast.action!.run();
+              onDismiss(toast.id);
+            }}
+            className="px-2 py-1 rounded font-semibold text-blue-300 hover:bg-white/10"
+          >
+            {toast.action.label}
+          </button>
+        )}
+        <button onClick={() => onDismiss(toast.id)} className="p-1 rounded text-gray-400 hover:text-white hover:bg-white/10" title="Dismiss">
+          <Icons.Close className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    ))}
+  </div>
+);
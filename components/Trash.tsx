@@ -0,0 +1,85 @@
+import React from 'react';
+import { Icons } from './ui/Icons';
+import { TrashItem } from '../types';
+import { recordLabel } from '../services/importService';
+import { TRASH_RETENTION_DAYS, daysLeftInTrash } from '../services/trash';
+
+interface TrashProps {
+  trash: TrashItem[];
+  onRestore: (itemId: string) => void;
+  onDelete: (itemId: string) => void;
+  onEmpty: () => void;
+}
+
+const COLLECTIONS = {
+  logs: { label: 'Daily Log', icon: Icons.Logbook, className: 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300' },
+  reports: { label: 'Monthly Report', icon: Icons.Report, className: 'bg-orange-50 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300' },
+  projects: { label: 'Project', icon: Icons.Project, className: 'bg-purple-50 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300' },
+};
+
+export const Trash: React.FC<TrashProps> = ({ trash, onRestore, onDelete, onEmpty }) => {
+  const now = new Date();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-xl font-semibold flex items-center gap-2 text-gray-800 dark:text-gray-100">
+            <Icons.Delete className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            Trash
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Deleted logs, reports and projects are kept for {TRASH_RETENTION_DAYS} days, then removed for good.
+          </p>
+        </div>
+        <button
+          onClick={onEmpty}
+          disabled={trash.length === 0}
+          className="flex items-center gap-2 px-4 py-1.5 rounded-md border border-gray-300 dark:border-gray-600 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+        >
+          <Icons.Delete className="w-4 h-4" /> Empty Trash
+        </button>
+      </div>
+
+      {trash.length === 0 ? (
+        <div className="text-center py-10 text-gray-400 dark:text-gray-500 border-2 border-dashed border-gray-200 dark:border-gray-700 rounded-lg">
+          The trash is empty.
+        </div>
+      ) : (
+        <ul className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden shadow-sm divide-y divide-gray-100 dark:divide-gray-700">
+          {trash.map(item => {
+            const { label, icon: Icon, className } = COLLECTIONS[item.collection];
+            const daysLeft = daysLeftInTrash(item, now);
+            return (
+              <li key={item.id} className="flex items-center gap-4 px-4 py-3">
+                <div className={`shrink-0 w-8 h-8 rounded flex items-center justify-center ${className}`} title={label}>
+                  <Icon className="w-4 h-4" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{recordLabel(item.collection, item.record)}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {label} · Deleted {new Date(item.deletedAt).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })}
+                    {' · '}{daysLeft === 1 ? '1 day left' : `${daysLeft} days left`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onRestore(item.id)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  <Icons.Restore className="w-3.5 h-3.5" /> Restore
+                </button>
+                <button
+                  onClick={() => onDelete(item.id)}
+                  className="p-1.5 rounded-md text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+                  title="Delete forever"
+                >
+                  <Icons.Delete className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
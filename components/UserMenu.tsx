@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { CurrentUser, InternAccount, UserRole } from '../types';
+import { Icons } from './ui/Icons';
+import { getInitials, getInternLabel } from '../services/interns';
+
+interface UserMenuProps {
+  user: CurrentUser;
+  onUserChange: (user: CurrentUser) => void;
+  interns: InternAccount[];
+  activeInternId: string;
+  onSwitchIntern: (id: string) => void;
+  onAddIntern: (name: string) => void;
+  onRemoveIntern: (id: string) => void;
+  canEdit: boolean; // False while the workspace is loading or read-only
+}
+
+const ROLES: { role: UserRole; label: string }[] = [
+  { role: 'intern', label: 'Intern' },
+  { role: 'mentor', label: 'Mentor' },
+];
+
+// Who is using the app, and for mentors, which intern's workspace is open
+export const UserMenu: React.FC<UserMenuProps> = ({ user, onUserChange, interns, activeInternId, onSwitchIntern, onAddIntern, onRemoveIntern, canEdit }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newInternName, setNewInternName] = useState('');
+
+  const handleAdd = () => {
+    if (!newInternName.trim()) return;
+    onAddIntern(newInternName.trim());
+    setNewInternName('');
+  };
+
+  const handleRemove = (intern: InternAccount, index: number) => {
+    if (confirm(`Delete ${getInternLabel(intern, index)} and all of their logs, reports and projects?`)) onRemoveIntern(intern.id);
+  };
+
+  const inputClass = "w-full border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 outline-none placeholder-gray-500 dark:placeholder-gray-400";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`w-6 h-6 rounded-full text-white flex items-center justify-center text-[10px] font-semibold ${user.role === 'mentor' ? 'bg-green-600' : 'bg-indigo-600'}`}
+        title={`${user.name || 'You'} (${user.role})`}
+      >
+        {getInitials(user.name)}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-20" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-72 z-30 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-3 space-y-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Your name</label>
+              <input
+                value={user.name}
+                onChange={e => onUserChange({ ...user, name: e.target.value })}
+                placeholder="Shown on your review comments"
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Using the app as</label>
+              <div className="flex p-0.5 rounded-md bg-gray-100 dark:bg-gray-700">
+                {ROLES.map(({ role, label }) => (
+                  <button
+                    key={role}
+                    onClick={() => onUserChange({ ...user, role })}
+                    className={`flex-1 px-2 py-1 text-xs font-medium rounded ${
+                      user.role === role
+                        ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow-sm'
+                        : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {user.role === 'mentor' && (
+              <div className="border-t border-gray-100 dark:border-gray-700 pt-3">
+                <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1 flex items-center gap-1">
+                  <Icons.Users className="w-3.5 h-3.5" /> Interns
+                </p>
+                <ul className="space-y-0.5 max-h-48 overflow-y-auto">
+                  {interns.map((intern, index) => (
+                    <li key={intern.id} className="group flex items-center gap-1">
+                      <button
+                        onClick={() => { setIsOpen(false); onSwitchIntern(intern.id); }}
+                        disabled={!canEdit}
+                        className={`flex-1 flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-sm disabled:opacity-50 ${
+                          intern.id === activeInternId
+                            ? 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 font-medium'
+                            : 'text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'
+                        }`}
+                      >
+                        <span className="w-5 h-5 rounded-full bg-indigo-600 text-white flex items-center justify-center text-[9px] font-semibold shrink-0">
+                          {getInitials(getInternLabel(intern, index))}
+                        </span>
+                        <span className="truncate">{getInternLabel(intern, index)}</span>
+                      </button>
+                      {interns.length > 1 && (
+                        <button
+                          onClick={() => handleRemove(intern, index)}
+                          disabled={!canEdit}
+                          className="p-1 text-gray-300 dark:text-gray-600 hover:text-red-500 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 disabled:hidden"
+                          title="Delete intern"
+                        >
+                          <Icons.Delete className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2 mt-2">
+                  <input
+                    value={newInternName}
+                    onChange={e => setNewInternName(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && handleAdd()}
+                    placeholder="New intern's name"
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={handleAdd}
+                    disabled={!canEdit || !newInternName.trim()}
+                    className="px-2 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-40"
+                    title="Add intern"
+                  >
+                    <Icons.Plus className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
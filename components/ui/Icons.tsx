@@ -21,7 +21,52 @@ import {
   Moon,
   Search,
   GanttChart,
-  LayoutGrid
+  LayoutGrid,
+  Upload,
+  Download,
+  Image,
+  File,
+  Eye,
+  ChevronDown,
+  FileJson,
+  FileSpreadsheet,
+  FileArchive,
+  Printer,
+  Settings,
+  User,
+  BarChart3,
+  ChevronLeft,
+  Timer,
+  ListChecks,
+  MessageCircleQuestion,
+  Keyboard,
+  Bold,
+  Italic,
+  Strikethrough,
+  Heading,
+  List,
+  ListOrdered,
+  Quote,
+  Code,
+  SquareCode,
+  Link,
+  Table,
+  Lock,
+  MessageSquare,
+  Users,
+  Send,
+  Cloud,
+  CloudOff,
+  RefreshCw,
+  GitMerge,
+  Undo2,
+  Redo2,
+  ArchiveRestore,
+  LayoutTemplate,
+  GraduationCap,
+  EyeOff,
+  Target,
+  IdCard
 } from 'lucide-react';
 
 export const Icons = {
@@ -46,5 +91,50 @@ export const Icons = {
   Moon: Moon,
   Search: Search,
   Gantt: GanttChart,
-  Grid: LayoutGrid
+  Grid: LayoutGrid,
+  Upload: Upload,
+  Download: Download,
+  Image: Image,
+  File: File,
+  Preview: Eye,
+  ChevronDown: ChevronDown,
+  Json: FileJson,
+  Spreadsheet: FileSpreadsheet,
+  Archive: FileArchive,
+  Print: Printer,
+  Settings: Settings,
+  User: User,
+  Chart: BarChart3,
+  ChevronLeft: ChevronLeft,
+  Clock: Timer,
+  Checklist: ListChecks,
+  Ask: MessageCircleQuestion,
+  Keyboard: Keyboard,
+  Bold: Bold,
+  Italic: Italic,
+  Strikethrough: Strikethrough,
+  Heading: Heading,
+  BulletList: List,
+  NumberedList: ListOrdered,
+  Quote: Quote,
+  Code: Code,
+  CodeBlock: SquareCode,
+  Link: Link,
+  Table: Table,
+  Lock: Lock,
+  Comment: MessageSquare,
+  Users: Users,
+  Send: Send,
+  Cloud: Cloud,
+  CloudOff: CloudOff,
+  Sync: RefreshCw,
+  Merge: GitMerge,
+  Undo: Undo2,
+  Redo: Redo2,
+  Restore: ArchiveRestore,
+  Template: LayoutTemplate,
+  Skills: GraduationCap,
+  Hide: EyeOff,
+  Target: Target,
+  Portfolio: IdCard
 };
\ No newline at end of file
@@ -0,0 +1,180 @@
+import http from 'node:http';
+import { createReadStream, promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { COLLECTIONS, ConflictError, isSafeId, openStore } from './store.js';
+
+// Small sync server for the Telkom DDP workspace. No dependencies: `npm run server`.
+//
+//   GET    /api/health
+//   GET    /api/workspaces/:workspace/changes?since=<cursor>
+//   GET    /api/workspaces/:workspace/:collection
+//   GET    /api/workspaces/:workspace/:collection/:id
+//   PUT    /api/workspaces/:workspace/:collection/:id           { record, baseVersion }
+//   DELETE /api/workspaces/:workspace/:collection/:id?baseVersion=<n>
+//   HEAD | GET | PUT /api/attachments/:id                       raw file contents
+//
+// Listens on 127.0.0.1 unless HOST says otherwise, which then requires SYNC_TOKEN, and
+// only answers browser pages served from APP_ORIGIN.
+//
+// A workspace is one intern's data. Writes based on an outdated version answer
+// 409 with the server's copy, which the app shows in its merge dialog.
+
+const PORT = Number(process.env.PORT) || 4000;
+const HOST = process.env.HOST || '127.0.0.1'; // Only this machine, unless told otherwise
+const DATA_DIR = process.env.DATA_DIR || path.join(path.dirname(fileURLToPath(import.meta.url)), 'data');
+const TOKEN = process.env.SYNC_TOKEN || ''; // Shared secret, sent by the app as a bearer token; required off this machine
+// Pages allowed to call the server from a browser: where the app is served
+const APP_ORIGINS = (process.env.APP_ORIGIN || 'http://localhost:3000,http://127.0.0.1:3000')
+  .split(',').map(origin => origin.trim().replace(/\/+$/, '')).filter(Boolean);
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+const MAX_JSON_BYTES = 5 * 1024 * 1024;
+const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024; // Same limit as the app
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Lets the app's own pages through; any other web page is refused
+const applyCors = (req, res) => {
+  res.setHeader('Vary', 'Origin');
+  const origin = req.headers.origin;
+  if (!origin) return; // Not from a browser page, e.g. curl
+  if (!APP_ORIGINS.includes(origin)) throw new HttpError(403, `Origin ${origin} may not use this sync server; add it to APP_ORIGIN.`);
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req, limit) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > limit) {
+      reject(new HttpError(413, 'Request body is too large.'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const readJson = async req => {
+  try {
+    return JSON.parse((await readBody(req, MAX_JSON_BYTES)).toString('utf8'));
+  } catch (e) {
+    throw e instanceof HttpError ? e : new HttpError(400, 'Request body is not valid JSON.');
+  }
+};
+
+const parseVersion = value => {
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 0) throw new HttpError(400, 'baseVersion must be a whole number.');
+  return version;
+};
+
+const handleAttachment = async (store, req, res, id) => {
+  const file = store.attachmentPath(id);
+  if (req.method === 'PUT') {
+    const body = await readBody(req, MAX_ATTACHMENT_BYTES);
+    await fs.writeFile(`${file}.tmp`, body);
+    await fs.rename(`${file}.tmp`, file);
+    await fs.writeFile(`${file}.type`, req.headers['content-type'] || 'application/octet-stream');
+    return sendJson(res, 200, { id, size: body.length });
+  }
+  if (req.method !== 'GET' && req.method !== 'HEAD') throw new HttpError(405, 'Method not allowed.');
+
+  const stat = await fs.stat(file).catch(() => null);
+  if (!stat) throw new HttpError(404, 'Attachment not found.');
+  const type = await fs.readFile(`${file}.type`, 'utf8').catch(() => 'application/octet-stream');
+  res.writeHead(200, { 'Content-Type': type, 'Content-Length': stat.size });
+  if (req.method === 'HEAD') return res.end();
+  createReadStream(file).pipe(res);
+};
+
+const handleRecords = async (store, req, res, url, [workspace, collection, id]) => {
+  if (!isSafeId(workspace)) throw new HttpError(400, 'Invalid workspace id.');
+
+  if (collection === 'changes' && !id) {
+    if (req.method !== 'GET') throw new HttpError(405, 'Method not allowed.');
+    return sendJson(res, 200, store.changes(workspace, Number(url.searchParams.get('since')) || 0));
+  }
+  if (!COLLECTIONS.includes(collection)) throw new HttpError(404, `Unknown collection "${collection}".`);
+
+  if (!id) {
+    if (req.method !== 'GET') throw new HttpError(405, 'Method not allowed.');
+    return sendJson(res, 200, { records: store.list(workspace, collection) });
+  }
+  if (!isSafeId(id)) throw new HttpError(400, 'Invalid record id.');
+
+  switch (req.method) {
+    case 'GET': {
+      const record = store.get(workspace, collection, id);
+      if (!record) throw new HttpError(404, 'Record not found.');
+      return sendJson(res, 200, { record });
+    }
+    case 'PUT': {
+      const { record, baseVersion } = await readJson(req);
+      if (!record || typeof record !== 'object' || Array.isArray(record)) throw new HttpError(400, 'Missing record.');
+      return sendJson(res, 200, { record: await store.put(workspace, collection, id, record, parseVersion(baseVersion)) });
+    }
+    case 'DELETE':
+      return sendJson(res, 200, { record: await store.remove(workspace, collection, id, parseVersion(url.searchParams.get('baseVersion'))) });
+    default:
+      throw new HttpError(405, 'Method not allowed.');
+  }
+};
+
+if (!TOKEN && !LOOPBACK_HOSTS.includes(HOST)) {
+  console.error(`Refusing to listen on ${HOST} without SYNC_TOKEN: anyone on the network could read and change every workspace.`);
+  process.exit(1);
+}
+
+const store = await openStore(DATA_DIR);
+
+const server = http.createServer(async (req, res) => {
+  try {
+    applyCors(req, res);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      return res.end();
+    }
+    if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) throw new HttpError(401, 'Missing or wrong sync token.');
+
+    const url = new URL(req.url, 'http://localhost');
+    const [api, resource, ...rest] = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    if (api !== 'api') throw new HttpError(404, 'Not found.');
+
+    if (resource === 'health' && rest.length === 0) return sendJson(res, 200, { ok: true });
+    if (resource === 'attachments' && rest.length === 1) {
+      if (!isSafeId(rest[0])) throw new HttpError(400, 'Invalid attachment id.');
+      return await handleAttachment(store, req, res, rest[0]);
+    }
+    if (resource === 'workspaces' && rest.length >= 2 && rest.length <= 3) return await handleRecords(store, req, res, url, rest);
+    throw new HttpError(404, 'Not found.');
+  } catch (e) {
+    if (e instanceof ConflictError) return sendJson(res, 409, { error: e.message, current: e.current });
+    if (e instanceof HttpError) return sendJson(res, e.status, { error: e.message });
+    if (e instanceof URIError) return sendJson(res, 400, { error: 'Malformed URL.' });
+    console.error(e);
+    sendJson(res, 500, { error: 'Internal server error.' });
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Telkom DDP sync server listening on http://${HOST.includes(':') ? `[${HOST}]` : HOST}:${PORT} (data in ${DATA_DIR})`);
+  console.log(`Accepting the app from ${APP_ORIGINS.join(', ')}`);
+});
@@ -0,0 +1,96 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+// Record storage for the sync server: one JSON file holding every workspace, plus a
+// directory of attachment blobs. Each record carries a version that goes up by one on
+// every write; a write must name the version it was based on, so two devices can never
+// silently overwrite each other. Deletions are kept as tombstones so other devices
+// learn about them on their next pull.
+
+export const COLLECTIONS = ['logs', 'reports', 'projects'];
+
+const SAFE_ID = /^[\w-]{1,100}$/;
+
+// Ids are used as object keys and file names, so nothing that could reach a prototype or a parent directory
+export const isSafeId = id => SAFE_ID.test(id) && !(id in Object.prototype);
+
+// The record on the server has moved on from the version the client's change was based on
+export class ConflictError extends Error {
+  constructor(current) {
+    super('The record was changed on the server.');
+    this.name = 'ConflictError';
+    this.current = current; // The server's copy, a tombstone, or null if it never existed
+  }
+}
+
+// `seq` orders changes for pulls and never leaves the server
+const withoutSeq = ({ seq, ...record }) => record;
+
+export const openStore = async dataDir => {
+  const file = path.join(dataDir, 'workspaces.json');
+  const attachmentDir = path.join(dataDir, 'attachments');
+  await fs.mkdir(attachmentDir, { recursive: true });
+
+  let state = { seq: 0, workspaces: {} };
+  try {
+    state = JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (e) {
+    if (e.code !== 'ENOENT') throw e;
+  }
+
+  // Writes are queued so they land in order, and go through a temp file so a crash
+  // never leaves half a file behind
+  let writing = Promise.resolve();
+  const save = () => {
+    writing = writing.then(async () => {
+      await fs.writeFile(`${file}.tmp`, JSON.stringify(state));
+      await fs.rename(`${file}.tmp`, file);
+    });
+    return writing;
+  };
+
+  const recordsOf = (workspace, collection) => {
+    state.workspaces[workspace] ??= { logs: {}, reports: {}, projects: {} };
+    return state.workspaces[workspace][collection];
+  };
+
+  const write = async (workspace, collection, id, baseVersion, build) => {
+    const records = recordsOf(workspace, collection);
+    const current = records[id];
+    if ((current?.version ?? 0) !== baseVersion) throw new ConflictError(current ? withoutSeq(current) : null);
+    records[id] = { ...build(current), id, version: baseVersion + 1, seq: ++state.seq };
+    await save();
+    return withoutSeq(records[id]);
+  };
+
+  return {
+    list: (workspace, collection) =>
+      Object.values(recordsOf(workspace, collection)).filter(r => !r.deleted).map(withoutSeq),
+
+    get: (workspace, collection, id) => {
+      const record = recordsOf(workspace, collection)[id];
+      return record && !record.deleted ? withoutSeq(record) : undefined;
+    },
+
+    put: (workspace, collection, id, record, baseVersion) =>
+      write(workspace, collection, id, baseVersion, () => record),
+
+    remove: async (workspace, collection, id, baseVersion) => {
+      const current = recordsOf(workspace, collection)[id];
+      if (!current || current.deleted) return current ? withoutSeq(current) : { id, deleted: true, version: 0 };
+      return write(workspace, collection, id, baseVersion, () => ({ deleted: true, updatedAt: new Date().toISOString() }));
+    },
+
+    /** Everything written to a workspace after `since`, oldest first, and the cursor to pull from next time. */
+    changes: (workspace, since) => ({
+      changes: COLLECTIONS.flatMap(collection =>
+        Object.values(recordsOf(workspace, collection))
+          .filter(r => r.seq > since)
+          .map(r => ({ collection, seq: r.seq, record: withoutSeq(r) }))
+      ).sort((a, b) => a.seq - b.seq).map(({ collection, record }) => ({ collection, record })),
+      cursor: state.seq,
+    }),
+
+    attachmentPath: id => path.join(attachmentDir, id),
+  };
+};
@@ -0,0 +1,96 @@
+// Provider-neutral AI interface. The active provider, model and key are chosen at
+// runtime in Settings and kept in this browser only: they are never written to
+// the workspace database, so backups and exports do not carry API keys.
+
+// 'none' until a provider is chosen, so AI features fail loudly instead of answering with canned text
+export type AIProviderId = 'none' | 'gemini' | 'openai' | 'mock';
+
+export interface AIRequest {
+  prompt: string;
+  system?: string;
+  signal?: AbortSignal;
+  json?: boolean; // Ask the provider for a JSON object instead of prose
+  sample?: string; // A valid example response, returned as-is by the mock provider
+}
+
+export interface AIProviderConfig {
+  model: string;
+  apiKey: string;
+  baseUrl: string; // Only used by OpenAI-compatible endpoints
+  embeddingModel: string; // Used by semantic search
+}
+
+export interface AISettings {
+  provider: AIProviderId;
+  configs: Record<AIProviderId, AIProviderConfig>;
+}
+
+export interface AIProvider {
+  generate: (request: AIRequest, config: AIProviderConfig) => Promise<string>;
+  /** Yields the response in pieces as the provider produces them. */
+  stream: (request: AIRequest, config: AIProviderConfig) => AsyncIterable<string>;
+  /** One vector per text, in the same order. */
+  embed: (texts: string[], config: AIProviderConfig, signal?: AbortSignal) => Promise<number[][]>;
+}
+
+// 'format' means the provider answered but not in the structure that was asked for
+export type AIErrorKind = 'config' | 'network' | 'provider' | 'format' | 'aborted';
+
+export class AIError extends Error {
+  constructor(message: string, public readonly kind: AIErrorKind, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'AIError';
+  }
+}
+
+export const AI_PROVIDER_LABELS: Record<AIProviderId, string> = {
+  none: 'Not configured',
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible (OpenAI, Ollama, llama.cpp, LM Studio)',
+  mock: 'Offline mock (no network)',
+};
+
+const AI_SETTINGS_KEY = 'telkom_ddp_ai_settings';
+
+export const createDefaultAISettings = (): AISettings => ({
+  // Keep the old behaviour for deployments that set GEMINI_API_KEY at build time
+  provider: process.env.API_KEY ? 'gemini' : 'none',
+  configs: {
+    none: { model: '', apiKey: '', baseUrl: '', embeddingModel: '' },
+    gemini: { model: 'gemini-2.5-flash', apiKey: '', baseUrl: '', embeddingModel: 'text-embedding-004' },
+    openai: { model: 'llama3.1', apiKey: '', baseUrl: 'http://localhost:11434/v1', embeddingModel: 'nomic-embed-text' },
+    mock: { model: 'mock', apiKey: '', baseUrl: '', embeddingModel: 'mock' },
+  }
+});
+
+export const loadAISettings = (): AISettings => {
+  const defaults = createDefaultAISettings();
+  try {
+    const saved = JSON.parse(localStorage.getItem(AI_SETTINGS_KEY) || 'null');
+    if (!saved || !(saved.provider in defaults.configs)) return defaults;
+    return {
+      provider: saved.provider,
+      configs: {
+        none: defaults.configs.none,
+        gemini: { ...defaults.configs.gemini, ...saved.configs?.gemini },
+        openai: { ...defaults.configs.openai, ...saved.configs?.openai },
+        mock: { ...defaults.configs.mock, ...saved.configs?.mock },
+      }
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** Turns anything thrown by a provider into an AIError with a message fit for the UI. */
+export const toAIError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+  if (error instanceof DOMException && error.name === 'AbortError') return new AIError('Generation was cancelled.', 'aborted', error);
+  if (error instanceof TypeError) return new AIError('Could not reach the AI provider. Check the endpoint URL and your connection.', 'network', error);
+  const message = error instanceof Error ? error.message : String(error);
+  return new AIError(`The AI provider returned an error: ${message}`, 'provider', error);
+};
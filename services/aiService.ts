@@ -0,0 +1,128 @@
+import { AIError, AIProvider, AIProviderId, AIRequest, AISettings, loadAISettings, toAIError } from './aiProvider';
+import { geminiProvider } from './geminiProvider';
+import { openaiProvider } from './openaiProvider';
+import { mockProvider } from './mockProvider';
+
+// Prompts used across the app, sent to whichever provider is active. Failures
+// are thrown as AIError so callers can show them instead of silently keeping the input.
+
+const notConfigured = () => new AIError('No AI provider is set up. Choose one under Settings → AI Assistant.', 'config');
+
+const unconfiguredProvider: AIProvider = {
+  generate: async () => { throw notConfigured(); },
+  stream: async function* () { throw notConfigured(); },
+  embed: async () => { throw notConfigured(); },
+};
+
+const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  none: unconfiguredProvider,
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  mock: mockProvider,
+};
+
+export const generate = async (request: AIRequest, settings: AISettings = loadAISettings()): Promise<string> => {
+  try {
+    return await PROVIDERS[settings.provider].generate(request, settings.configs[settings.provider]);
+  } catch (error) {
+    throw toAIError(error);
+  }
+};
+
+/**
+ * Streams a response, calling `onText` with the text received so far after every chunk.
+ * Resolves with the complete text; aborting through `request.signal` rejects with an 'aborted' AIError.
+ */
+export const streamText = async (
+  request: AIRequest,
+  onText: (text: string) => void,
+  settings: AISettings = loadAISettings()
+): Promise<string> => {
+  let text = '';
+  try {
+    for await (const chunk of PROVIDERS[settings.provider].stream(request, settings.configs[settings.provider])) {
+      text += chunk;
+      onText(text);
+    }
+  } catch (error) {
+    if (request.signal?.aborted) throw new AIError('Generation was cancelled.', 'aborted', error);
+    throw toAIError(error);
+  }
+  if (!text.trim()) throw new AIError('The AI provider returned an empty response.', 'provider');
+  return text.trim();
+};
+
+// Providers limit how many texts one embedding request may carry
+const EMBEDDING_BATCH_SIZE = 32;
+
+export const embedTexts = async (
+  texts: string[],
+  signal?: AbortSignal,
+  settings: AISettings = loadAISettings()
+): Promise<number[][]> => {
+  const vectors: number[][] = [];
+  try {
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+      vectors.push(...await PROVIDERS[settings.provider].embed(batch, settings.configs[settings.provider], signal));
+    }
+  } catch (error) {
+    if (signal?.aborted) throw new AIError('Search was cancelled.', 'aborted', error);
+    throw toAIError(error);
+  }
+  return vectors;
+};
+
+/** Identifies the active embedding model, so vectors from different models are never compared. */
+export const getEmbeddingModelKey = (settings: AISettings = loadAISettings()) =>
+  `${settings.provider}:${settings.configs[settings.provider].embeddingModel}`;
+
+/** Parses a JSON answer, tolerating a Markdown code fence around it. Callers narrow the result. */
+export const parseJsonResponse = (text: string): unknown => {
+  try {
+    return JSON.parse(text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+  } catch (error) {
+    throw new AIError('The AI response was not valid JSON.', 'format', error);
+  }
+};
+
+export const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** The strings in a JSON list, or none if it isn't one. */
+export const jsonStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+const textImprovementRequest = (currentText: string, context: string, signal?: AbortSignal): AIRequest => ({
+  signal,
+  system: 'You are a professional helper for an internship logbook.',
+  prompt: `Context: ${context}
+Current Draft: "${currentText}"
+
+Task: Improve, expand, or format the draft to be more professional and detailed.
+If the draft is empty, provide a structured template based on the context.
+Return only the improved text.`,
+});
+
+export const generateTextImprovement = (currentText: string, context: string): Promise<string> =>
+  generate(textImprovementRequest(currentText, context));
+
+export const streamTextImprovement = (
+  currentText: string,
+  context: string,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string> => streamText(textImprovementRequest(currentText, context, signal), onText);
+
+export const generateMonthlySummary = (logs: string): Promise<string> => generate({
+  prompt: `Based on the following daily logs from an internship, write a professional monthly summary highlighting key activities, learnings, and progress.
+
+Logs:
+${logs}
+
+Output format: A concise but comprehensive paragraph.`,
+});
+
+/** Sends a tiny request to check the provider, model and key in Settings. */
+export const testConnection = (settings: AISettings): Promise<string> =>
+  generate({ prompt: 'Reply with the single word: OK' }, settings);
@@ -0,0 +1,89 @@
+import { AppData, Attachment } from '../types';
+import { openDatabase, requestToPromise, transactionDone, STORES } from './db';
+import { downloadBlob } from './download';
+
+// Binary file contents live in IndexedDB, keyed by Attachment.id.
+// Only the lightweight Attachment metadata is kept on the log/report/project record.
+
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024; // 25 MB
+
+export const ACCEPTED_FILE_TYPES = [
+  'image/*',
+  'application/pdf',
+  '.doc', '.docx',
+  '.xls', '.xlsx',
+  '.ppt', '.pptx',
+  '.txt', '.csv'
+].join(',');
+
+// The field holding each record type's attachments
+export const ATTACHMENT_FIELDS = { logs: 'attachments', reports: 'files', projects: 'documents' } as const;
+
+export const getRecordAttachments = (collection: keyof typeof ATTACHMENT_FIELDS, record: object): Attachment[] =>
+  (record as Record<string, Attachment[] | undefined>)[ATTACHMENT_FIELDS[collection]] || [];
+
+// Every attachment referenced anywhere in the workspace, including the trash
+export const collectAttachments = (data: AppData): Attachment[] => [
+  ...data.logs.flatMap(l => l.attachments),
+  ...data.reports.flatMap(r => r.files),
+  ...data.projects.flatMap(p => p.documents),
+  ...data.trash.flatMap(item => getRecordAttachments(item.collection, item.record)),
+];
+
+export const isImageAttachment = (attachment: Attachment) => attachment.type.startsWith('image/');
+export const isPdfAttachment = (attachment: Attachment) => attachment.type === 'application/pdf';
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const saveAttachmentFile = async (file: File): Promise<Attachment> => {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`"${file.name}" is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}.`);
+  }
+
+  const attachment: Attachment = {
+    id: crypto.randomUUID(),
+    name: file.name,
+    size: file.size,
+    type: file.type || 'application/octet-stream',
+  };
+
+  await putAttachmentBlob(attachment.id, file);
+  return attachment;
+};
+
+export const getAttachmentBlob = async (id: string): Promise<Blob | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.attachments, 'readonly');
+  return requestToPromise<Blob | undefined>(tx.objectStore(STORES.attachments).get(id));
+};
+
+export const downloadAttachment = async (attachment: Attachment) => {
+  const blob = await getAttachmentBlob(attachment.id);
+  if (!blob) throw new Error(`File "${attachment.name}" is missing from this browser's storage.`);
+
+  downloadBlob(blob, attachment.name);
+};
+
+export const putAttachmentBlob = async (id: string, blob: Blob) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.attachments, 'readwrite');
+  tx.objectStore(STORES.attachments).put(blob, id);
+  await transactionDone(tx);
+};
+
+// Removes blobs that are no longer referenced by any record.
+// Uploads are written immediately, so cancelled edits and deleted entries leave orphans behind.
+export const pruneOrphanAttachments = async (referencedIds: Set<string>) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.attachments, 'readwrite');
+  const store = tx.objectStore(STORES.attachments);
+  const keys = await requestToPromise(store.getAllKeys());
+  keys.forEach(key => {
+    if (!referencedIds.has(String(key))) store.delete(key);
+  });
+  await transactionDone(tx);
+};
@@ -0,0 +1,97 @@
+import { AttendanceLimits, AttendanceStatus, DailyLog } from '../types';
+import { toDateKey } from './calendar';
+
+// Attendance statistics derived from the daily logbook. Drafts made for missed days
+// carry a placeholder status until the intern confirms them, so they are not counted.
+
+export type MonthlyAttendance = {
+  month: string; // YYYY-MM
+  counts: Record<AttendanceStatus, number>;
+  total: number;
+  unconfirmed: number; // Draft logs, left out of the counts
+};
+
+export type LimitWarning = {
+  status: AttendanceStatus;
+  used: number;
+  limit: number;
+  level: 'warning' | 'exceeded';
+};
+
+export type HeatmapDay = {
+  date: string;
+  log?: DailyLog; // Confirmed logs only
+  unconfirmed: boolean; // The day only has a draft log
+  isFuture: boolean;
+};
+
+const emptyCounts = (): Record<AttendanceStatus, number> =>
+  Object.fromEntries(Object.values(AttendanceStatus).map(s => [s, 0])) as Record<AttendanceStatus, number>;
+
+export const countAttendance = (logs: DailyLog[]): Record<AttendanceStatus, number> => {
+  const counts = emptyCounts();
+  logs.forEach(log => {
+    if (!log.isDraft) counts[log.attendance] = (counts[log.attendance] || 0) + 1;
+  });
+  return counts;
+};
+
+/** Per-month counts by status, newest month first. */
+export const getMonthlyAttendance = (logs: DailyLog[]): MonthlyAttendance[] => {
+  const byMonth = new Map<string, DailyLog[]>();
+  logs.forEach(log => {
+    const month = log.date.slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) || []), log]);
+  });
+
+  return Array.from(byMonth.entries())
+    .map(([month, monthLogs]) => {
+      const unconfirmed = monthLogs.filter(l => l.isDraft).length;
+      return { month, counts: countAttendance(monthLogs), total: monthLogs.length - unconfirmed, unconfirmed };
+    })
+    .sort((a, b) => b.month.localeCompare(a.month));
+};
+
+/** Compares a month's counts against the configured limits (0 means no limit). */
+export const checkAttendanceLimits = (
+  counts: Record<AttendanceStatus, number>,
+  limits: AttendanceLimits
+): LimitWarning[] => {
+  const checks: [AttendanceStatus, number][] = [
+    [AttendanceStatus.Sick, limits.maxSickDays],
+    [AttendanceStatus.Permission, limits.maxPermissionDays],
+    [AttendanceStatus.WFH, limits.maxWfhDays],
+  ];
+
+  return checks.flatMap(([status, limit]): LimitWarning[] => {
+    if (!limit) return [];
+    const used = counts[status];
+    if (used > limit) return [{ status, used, limit, level: 'exceeded' }];
+    // A threshold of 0 turns the early warning off
+    if (limits.warningThreshold > 0 && used >= limit * (limits.warningThreshold / 100)) return [{ status, used, limit, level: 'warning' }];
+    return [];
+  });
+};
+
+/**
+ * Calendar grid for a GitHub-style heatmap: one column per week (Monday first),
+ * ending with the week that contains `end`.
+ */
+export const buildHeatmap = (logs: DailyLog[], weeks: number, end = new Date()): HeatmapDay[][] => {
+  const byDate = new Map(logs.filter(l => !l.isDraft).map(l => [l.date, l]));
+  const draftDates = new Set(logs.filter(l => l.isDraft).map(l => l.date));
+  const todayKey = toDateKey(end);
+
+  const start = new Date(end.getFullYear(), end.getMonth(), end.getDate());
+  const mondayOffset = (start.getDay() + 6) % 7;
+  start.setDate(start.getDate() - mondayOffset - (weeks - 1) * 7);
+
+  return Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) => {
+      const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + week * 7 + day);
+      const key = toDateKey(date);
+      const log = byDate.get(key);
+      return { date: key, log, unconfirmed: !log && draftDates.has(key), isFuture: key > todayKey };
+    })
+  );
+};
@@ -0,0 +1,77 @@
+import { CalendarSettings, DailyLog } from '../types';
+import { INDONESIAN_HOLIDAYS } from './holidays';
+
+// Working calendar: weekends, Indonesian national holidays and the intern's own leave days.
+// Dates are handled as local YYYY-MM-DD keys to match DailyLog.date.
+
+export type DayKind = 'workday' | 'weekend' | 'holiday' | 'leave';
+
+export interface DayInfo {
+  date: string;
+  kind: DayKind;
+  label?: string; // Holiday name or leave note
+}
+
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const todayKey = () => toDateKey(new Date());
+
+export const addDays = (key: string, days: number): string => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+export const isWeekend = (date: Date) => date.getDay() === 0 || date.getDay() === 6;
+
+export const getDayInfo = (key: string, calendar: CalendarSettings): DayInfo => {
+  const leave = calendar.leaveDays.find(l => l.date === key);
+  if (leave) return { date: key, kind: 'leave', label: leave.note || 'Leave' };
+  if (INDONESIAN_HOLIDAYS[key]) return { date: key, kind: 'holiday', label: INDONESIAN_HOLIDAYS[key] };
+  if (isWeekend(parseDateKey(key))) return { date: key, kind: 'weekend' };
+  return { date: key, kind: 'workday' };
+};
+
+export const isWorkingDay = (key: string, calendar: CalendarSettings) =>
+  getDayInfo(key, calendar).kind === 'workday';
+
+/** Every date key from start to end, inclusive. */
+export const eachDay = (start: string, end: string): string[] => {
+  const days: string[] = [];
+  for (let key = start; key <= end; key = addDays(key, 1)) days.push(key);
+  return days;
+};
+
+/** Holidays falling between start and end, inclusive. */
+export const getHolidays = (start: string, end: string): DayInfo[] =>
+  Object.entries(INDONESIAN_HOLIDAYS)
+    .filter(([date]) => date >= start && date <= end)
+    .map(([date, label]) => ({ date, kind: 'holiday' as const, label }));
+
+/**
+ * The first day missing-log checks should cover: the configured internship start,
+ * otherwise the earliest log. Null when there is nothing to anchor on.
+ */
+export const getTrackingStart = (logs: DailyLog[], calendar: CalendarSettings): string | null => {
+  if (calendar.internshipStart) return calendar.internshipStart;
+  if (logs.length === 0) return null;
+  return logs.reduce((min, l) => l.date < min ? l.date : min, logs[0].date);
+};
+
+/** Working days between start and end (inclusive) that have no log. */
+export const findMissingLogDays = (
+  logs: DailyLog[],
+  start: string,
+  end: string,
+  calendar: CalendarSettings
+): string[] => {
+  if (start > end) return [];
+  const logged = new Set(logs.map(l => l.date));
+  return eachDay(start, end).filter(key => !logged.has(key) && isWorkingDay(key, calendar));
+};
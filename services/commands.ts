@@ -0,0 +1,101 @@
+// Commands that can be run from the command palette or a keyboard shortcut.
+// Shortcuts are a per-browser preference, like the theme, so they are kept in
+// localStorage rather than in the workspace data.
+
+export type CommandId =
+  | 'openPalette' | 'showShortcuts'
+  | 'goDashboard' | 'goLogs' | 'goTimesheet' | 'goReports' | 'goProjects' | 'goGoals' | 'goSkills' | 'goTags' | 'goTrash' | 'goSettings'
+  | 'newLog' | 'newReport' | 'newProject' | 'summarizeMonth'
+  | 'manageTemplates' | 'buildPortfolio' | 'undo' | 'redo' | 'toggleTheme' | 'toggleSidebar';
+
+export type CommandGroup = 'Navigation' | 'Create' | 'Actions' | 'Help';
+
+export interface CommandDefinition {
+  id: CommandId;
+  label: string;
+  group: CommandGroup;
+  keywords?: string; // Extra words the palette should match on
+  defaultShortcut: string; // '' when the command has no shortcut by default
+}
+
+export const COMMANDS: CommandDefinition[] = [
+  { id: 'goDashboard', label: 'Go to Dashboard', group: 'Navigation', keywords: 'home', defaultShortcut: 'Alt+1' },
+  { id: 'goLogs', label: 'Go to Daily Logbook', group: 'Navigation', keywords: 'logs entries', defaultShortcut: 'Alt+2' },
+  { id: 'goTimesheet', label: 'Go to Weekly Timesheet', group: 'Navigation', keywords: 'hours', defaultShortcut: 'Alt+3' },
+  { id: 'goReports', label: 'Go to Monthly Reports', group: 'Navigation', defaultShortcut: 'Alt+4' },
+  { id: 'goProjects', label: 'Go to Internship Projects', group: 'Navigation', keywords: 'kanban timeline', defaultShortcut: 'Alt+5' },
+  { id: 'goGoals', label: 'Go to Internship Goals', group: 'Navigation', keywords: 'okr objectives key results', defaultShortcut: '' },
+  { id: 'goSettings', label: 'Go to Settings', group: 'Navigation', keywords: 'preferences profile', defaultShortcut: 'Alt+6' },
+  { id: 'goSkills', label: 'Go to Skills Matrix', group: 'Navigation', keywords: 'competency evaluation level', defaultShortcut: 'Alt+9' },
+  { id: 'goTags', label: 'Go to Tags', group: 'Navigation', keywords: 'labels taxonomy rename merge', defaultShortcut: 'Alt+8' },
+  { id: 'goTrash', label: 'Go to Trash', group: 'Navigation', keywords: 'deleted restore bin', defaultShortcut: 'Alt+7' },
+  { id: 'newLog', label: 'New log for today', group: 'Create', keywords: 'add entry daily', defaultShortcut: 'Alt+N' },
+  { id: 'newReport', label: 'New monthly report', group: 'Create', defaultShortcut: 'Alt+R' },
+  { id: 'newProject', label: 'New project', group: 'Create', defaultShortcut: 'Alt+P' },
+  { id: 'summarizeMonth', label: 'Summarize this month', group: 'Actions', keywords: 'ai report generate', defaultShortcut: 'Alt+S' },
+  { id: 'manageTemplates', label: 'Manage templates & snippets', group: 'Actions', keywords: 'recurring format library', defaultShortcut: '' },
+  { id: 'buildPortfolio', label: 'Build internship portfolio', group: 'Actions', keywords: 'cv resume json html final', defaultShortcut: '' },
+  { id: 'undo', label: 'Undo', group: 'Actions', keywords: 'revert', defaultShortcut: 'Mod+Z' },
+  { id: 'redo', label: 'Redo', group: 'Actions', defaultShortcut: 'Mod+Shift+Z' },
+  { id: 'toggleTheme', label: 'Toggle theme', group: 'Actions', keywords: 'dark light mode', defaultShortcut: 'Alt+T' },
+  { id: 'toggleSidebar', label: 'Toggle sidebar', group: 'Actions', defaultShortcut: 'Alt+B' },
+  { id: 'openPalette', label: 'Open command palette', group: 'Help', defaultShortcut: 'Mod+K' },
+  { id: 'showShortcuts', label: 'Show keyboard shortcuts', group: 'Help', keywords: 'help cheat sheet keys', defaultShortcut: '?' },
+];
+
+export type ShortcutMap = Record<CommandId, string>;
+
+const SHORTCUTS_STORAGE_KEY = 'telkom_ddp_shortcuts';
+
+export const createDefaultShortcuts = (): ShortcutMap =>
+  Object.fromEntries(COMMANDS.map(c => [c.id, c.defaultShortcut])) as ShortcutMap;
+
+export const loadShortcuts = (): ShortcutMap => {
+  const shortcuts = createDefaultShortcuts();
+  try {
+    const saved = JSON.parse(localStorage.getItem(SHORTCUTS_STORAGE_KEY) || '{}');
+    COMMANDS.forEach(({ id }) => {
+      if (typeof saved?.[id] === 'string') shortcuts[id] = saved[id];
+    });
+  } catch {
+    // Fall back to the defaults
+  }
+  return shortcuts;
+};
+
+export const saveShortcuts = (shortcuts: ShortcutMap) => {
+  localStorage.setItem(SHORTCUTS_STORAGE_KEY, JSON.stringify(shortcuts));
+};
+
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock']);
+
+/**
+ * The shortcut a key press stands for, such as "Mod+K" or "Alt+N"; null for a lone modifier.
+ * Ctrl and Cmd both count as "Mod". Letters and digits come from the physical key, since
+ * Alt changes the character they type on macOS.
+ */
+export const eventToShortcut = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  const letterOrDigit = /^(?:Key([A-Z])|Digit([0-9]))$/.exec(e.code);
+  const key = letterOrDigit ? letterOrDigit[1] || letterOrDigit[2] : e.key === ' ' ? 'Space' : e.key;
+  // Shift is part of symbols like "?" already
+  const shift = e.shiftKey && (letterOrDigit || key.length > 1);
+  return [e.ctrlKey || e.metaKey ? 'Mod' : '', e.altKey ? 'Alt' : '', shift ? 'Shift' : '', key]
+    .filter(Boolean).join('+');
+};
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+/** Shortcut text for display, using the platform's name for the Mod key. */
+export const formatShortcut = (shortcut: string) =>
+  shortcut.split('+').map(part => part === 'Mod' ? (IS_MAC ? '⌘' : 'Ctrl') : part === 'Alt' && IS_MAC ? '⌥' : part).join(' + ');
+
+// Plain keys typed into a form field are text, not shortcuts
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Inside a text field these undo typing rather than workspace changes
+export const TEXT_EDITING_COMMANDS: CommandId[] = ['undo', 'redo'];
+
+export const findCommandForShortcut = (shortcuts: ShortcutMap, shortcut: string): CommandId | undefined =>
+  COMMANDS.find(c => shortcuts[c.id] === shortcut)?.id;
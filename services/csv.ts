@@ -0,0 +1,11 @@
+type CsvValue = string | number | boolean | null | undefined;
+
+const escapeCell = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180 CSV with CRLF line endings, which Excel and Google Sheets both open cleanly
+export const toCsv = (headers: string[], rows: CsvValue[][]): string =>
+  [headers, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n');
@@ -0,0 +1,99 @@
+// Shared IndexedDB connection for the workspace.
+// Every object store used by the app is declared here so the upgrade path lives in one place.
+
+const DB_NAME = 'telkom_ddp';
+const DB_VERSION = 7;
+
+// Owner of records stored before multi-intern support
+export const DEFAULT_INTERN_ID = 'default';
+
+export const STORES = {
+  attachments: 'attachments',
+  logs: 'logs',
+  reports: 'reports',
+  projects: 'projects',
+  meta: 'meta',
+  embeddings: 'embeddings',
+  outbox: 'outbox',
+  trash: 'trash',
+} as const;
+
+// Stores holding AppData records, keyed by [internId, id]: interns may hold records with
+// the same id, e.g. after importing one intern's backup into another
+export const RECORD_KEY_PATH = ['internId', 'id'];
+
+export const RECORD_STORES = [STORES.logs, STORES.reports, STORES.projects] as const;
+
+// Every store holding a list from AppData: the records plus the trash
+export const WORKSPACE_STORES = [...RECORD_STORES, STORES.trash] as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const upgrade = request.transaction!;
+      if (!db.objectStoreNames.contains(STORES.attachments)) {
+        db.createObjectStore(STORES.attachments);
+      }
+      WORKSPACE_STORES.forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: RECORD_KEY_PATH });
+          return;
+        }
+        if (upgrade.objectStore(name).keyPath !== 'id') return;
+        // v5 and older keyed records by id alone: move them into a store keyed by owner too
+        const read = upgrade.objectStore(name).getAll();
+        read.onsuccess = () => {
+          db.deleteObjectStore(name);
+          const store = db.createObjectStore(name, { keyPath: RECORD_KEY_PATH });
+          (read.result as { internId?: string }[]).forEach(record =>
+            store.put({ ...record, internId: record.internId || DEFAULT_INTERN_ID }));
+        };
+      });
+      if (!db.objectStoreNames.contains(STORES.meta)) {
+        db.createObjectStore(STORES.meta);
+      }
+      if (!db.objectStoreNames.contains(STORES.embeddings)) {
+        db.createObjectStore(STORES.embeddings);
+      } else if (event.oldVersion < 7) {
+        // v6 and older cached vectors without their intern, so no workspace could tell its own apart
+        upgrade.objectStore(STORES.embeddings).clear();
+      }
+      if (!db.objectStoreNames.contains(STORES.outbox)) {
+        db.createObjectStore(STORES.outbox, { keyPath: 'key' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Database upgrade blocked by another open tab.'));
+  });
+
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
@@ -0,0 +1,12 @@
+// Triggers a browser download for in-memory content
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadText = (content: string, filename: string, type = 'text/plain') =>
+  downloadBlob(new Blob([content], { type: `${type};charset=utf-8` }), filename);
@@ -0,0 +1,195 @@
+import { AppData, Attachment, DailyLog, MonthlyReport, Project, ProjectTask, TaskStatus } from '../types';
+import { SCHEMA_VERSION } from './storage';
+import { getAttachmentBlob, collectAttachments } from './attachmentStore';
+import { toCsv } from './csv';
+import { createZip, ZipEntry } from './zip';
+import { getWorkedHours } from './timesheet';
+import { getProjectProgress } from './projectTasks';
+
+export const BACKUP_FORMAT = 'telkom-ddp-backup';
+
+export interface WorkspaceBackup {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  data: AppData;
+  // Attachment contents as data URLs, keyed by Attachment.id
+  files: Record<string, string>;
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const exportFileStamp = () => new Date().toISOString().split('T')[0];
+
+// --- JSON backup ---
+
+export const createBackup = async (workspace: AppData): Promise<WorkspaceBackup> => {
+  const data = { ...workspace, trash: [] }; // The trash stays behind in this browser
+  const files: Record<string, string> = {};
+  for (const attachment of collectAttachments(data)) {
+    if (files[attachment.id]) continue;
+    const blob = await getAttachmentBlob(attachment.id).catch(() => undefined);
+    if (blob) files[attachment.id] = await blobToDataUrl(blob);
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data,
+    files
+  };
+};
+
+// --- CSV ---
+
+const attachmentNames = (attachments: Attachment[]) => attachments.map(a => a.name).join('; ');
+
+export const logsToCsv = (logs: DailyLog[]) => toCsv(
+  ['id', 'date', 'attendance', 'startTime', 'endTime', 'breakMinutes', 'hours', 'activity', 'learnings', 'challenges', 'tags', 'projectIds', 'attachments', 'reviewStatus'],
+  logs.map(l => [
+    l.id, l.date, l.attendance, l.startTime || '', l.endTime || '', l.breakMinutes ?? '', getWorkedHours(l),
+    l.activity, l.learnings, l.challenges, l.tags.join('; '), l.projectIds.join('; '), attachmentNames(l.attachments), l.review.status
+  ])
+);
+
+export const reportsToCsv = (reports: MonthlyReport[]) => toCsv(
+  ['id', 'month', 'summary', 'achievements', 'challengesSolutions', 'nextMonthPlan', 'linkedLogIds', 'files', 'reviewStatus'],
+  reports.map(r => [r.id, r.month, r.summary, r.achievements, r.challengesSolutions, r.nextMonthPlan, r.linkedLogIds.join('; '), attachmentNames(r.files), r.review.status])
+);
+
+export const projectsToCsv = (projects: Project[]) => toCsv(
+  ['id', 'name', 'status', 'role', 'startDate', 'endDate', 'techStack', 'description', 'deliverables', 'tasks', 'progress', 'documents'],
+  projects.map(p => [
+    p.id, p.name, p.status, p.role, p.startDate, p.endDate, p.techStack.join('; '), p.description, p.deliverables,
+    p.tasks.map(t => `${t.title} [${t.status}]`).join('; '), `${getProjectProgress(p).percent}%`, attachmentNames(p.documents)
+  ])
+);
+
+// --- Markdown pages ---
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'untitled';
+
+const logFileName = (log: DailyLog) => `logs/${log.date}-${log.id.slice(0, 8)}.md`;
+const reportFileName = (report: MonthlyReport) => `reports/${report.month}-${report.id.slice(0, 8)}.md`;
+const projectFileName = (project: Project) => `projects/${slugify(project.name)}-${project.id.slice(0, 8)}.md`;
+
+const attachmentSection = (attachments: Attachment[]) =>
+  attachments.length > 0 ? `\n## Attachments\n\n${attachments.map(a => `- ${a.name}`).join('\n')}\n` : '';
+
+const logToMarkdown = (log: DailyLog, projects: Project[]) => `# Daily Log — ${log.date}
+
+**Attendance:** ${log.attendance}
+**Review:** ${log.review.status}
+**Tags:** ${log.tags.join(', ') || '-'}
+**Projects:** ${projects.filter(p => log.projectIds.includes(p.id)).map(p => `[${p.name}](../${projectFileName(p)})`).join(', ') || '-'}
+
+## Activity
+
+${log.activity}
+
+## Learnings
+
+${log.learnings}
+
+## Challenges
+
+${log.challenges}
+${attachmentSection(log.attachments)}`;
+
+const reportToMarkdown = (report: MonthlyReport, logs: DailyLog[]) => {
+  const linked = logs.filter(l => report.linkedLogIds.includes(l.id));
+  return `# Monthly Report — ${report.month}
+
+**Review:** ${report.review.status}
+
+## Summary
+
+${report.summary || '-'}
+
+## Achievements
+
+${report.achievements}
+
+## Challenges & Solutions
+
+${report.challengesSolutions}
+
+## Next Month Plan
+
+${report.nextMonthPlan}
+
+## Linked Logs
+
+${linked.length > 0 ? linked.map(l => `- [${l.date}](../${logFileName(l)})`).join('\n') : '-'}
+${attachmentSection(report.files)}`;
+};
+
+const taskToMarkdown = (task: ProjectTask) => {
+  const meta = [task.status, task.assignee, task.dueDate && `due ${task.dueDate}`].filter(Boolean).join(', ');
+  const checklist = task.checklist.map(c => `\n  - [${c.done ? 'x' : ' '}] ${c.text}`).join('');
+  return `- [${task.status === TaskStatus.Done ? 'x' : ' '}] ${task.title} (${meta})${checklist}`;
+};
+
+const projectToMarkdown = (project: Project, logs: DailyLog[], projects: Project[]) => `# ${project.name}
+
+**Status:** ${project.status}
+**Role:** ${project.role}
+**Period:** ${project.startDate || '?'} – ${project.endDate || 'ongoing'}
+**Tech Stack:** ${project.techStack.join(', ') || '-'}
+**Depends On:** ${projects.filter(p => project.dependsOn.includes(p.id)).map(p => `[${p.name}](../${projectFileName(p)})`).join(', ') || '-'}
+
+## Description
+
+${project.description || '-'}
+
+## Deliverables
+
+${project.deliverables}
+
+## Milestones
+
+${project.milestones.map(m => `- [${m.done ? 'x' : ' '}] ${m.date} — ${m.title}`).join('\n') || '-'}
+
+## Tasks
+
+${project.tasks.map(taskToMarkdown).join('\n') || '-'}
+
+## Activity
+
+${logs.filter(l => l.projectIds.includes(project.id)).map(l => `- [${l.date}](../${logFileName(l)})`).reverse().join('\n') || '-'}
+${attachmentSection(project.documents)}`;
+
+export const createMarkdownZip = (data: AppData): Blob => {
+  const entries: ZipEntry[] = [
+    ...data.logs.map(l => ({ name: logFileName(l), content: logToMarkdown(l, data.projects) })),
+    ...data.reports.map(r => ({ name: reportFileName(r), content: reportToMarkdown(r, data.logs) })),
+    ...data.projects.map(p => ({ name: projectFileName(p), content: projectToMarkdown(p, data.logs, data.projects) })),
+  ];
+
+  const index = `# Telkom DDP Internship Workspace
+
+Exported ${new Date().toLocaleString()}
+
+## Daily Logbook
+
+${data.logs.map(l => `- [${l.date} — ${l.activity.split('\n')[0]}](${logFileName(l)})`).join('\n') || '-'}
+
+## Monthly Reports
+
+${data.reports.map(r => `- [${r.month}](${reportFileName(r)})`).join('\n') || '-'}
+
+## Internship Projects
+
+${data.projects.map(p => `- [${p.name}](${projectFileName(p)}) — ${p.status}`).join('\n') || '-'}
+`;
+
+  return createZip([{ name: 'index.md', content: index }, ...entries]);
+};
@@ -0,0 +1,45 @@
+import { GoogleGenAI } from "@google/genai";
+import { AIError, AIProvider, AIProviderConfig, AIRequest } from './aiProvider';
+
+const createClient = (config: AIProviderConfig) => {
+  // A key entered in Settings wins over the one baked in at build time
+  const apiKey = config.apiKey || process.env.API_KEY;
+  if (!apiKey) throw new AIError('No Gemini API key configured. Add one in Settings or choose another provider.', 'config');
+  return new GoogleGenAI({ apiKey });
+};
+
+const toParams = (request: AIRequest, config: AIProviderConfig) => ({
+  model: config.model,
+  contents: request.prompt,
+  config: {
+    systemInstruction: request.system,
+    abortSignal: request.signal,
+    responseMimeType: request.json ? 'application/json' : undefined,
+  },
+});
+
+export const geminiProvider: AIProvider = {
+  generate: async (request, config) => {
+    const response = await createClient(config).models.generateContent(toParams(request, config));
+    if (!response.text) throw new AIError('Gemini returned an empty response.', 'provider');
+    return response.text.trim();
+  },
+
+  stream: async function* (request, config) {
+    const response = await createClient(config).models.generateContentStream(toParams(request, config));
+    for await (const chunk of response) {
+      if (chunk.text) yield chunk.text;
+    }
+  },
+
+  embed: async (texts, config, signal) => {
+    const response = await createClient(config).models.embedContent({
+      model: config.embeddingModel,
+      contents: texts,
+      config: { abortSignal: signal },
+    });
+    const vectors = (response.embeddings || []).map(e => e.values || []);
+    if (vectors.length !== texts.length) throw new AIError('Gemini returned the wrong number of embeddings.', 'provider');
+    return vectors;
+  }
+};
@@ -0,0 +1,149 @@
+import { AppData, Review, UserRole, WorkspaceSettings } from '../types';
+import { WORKSPACE_STORES } from './db';
+import { isLocked } from './review';
+
+// Undo/redo for workspace edits. An entry keeps the records one action changed, before
+// and after, rather than whole snapshots, so undoing it leaves other changes alone, such
+// as edits pulled in by a sync since.
+
+export const MAX_HISTORY = 50;
+
+// Edits with the same label to the same records this close together are one step,
+// so typing into a settings field undoes as a whole
+const COALESCE_MS = 1000;
+
+type HistoryCollection = typeof WORKSPACE_STORES[number];
+type Entity = { id: string; version?: number; updatedAt?: string; review?: Review };
+
+// An entry only holds records taken from the collection it writes them back to
+const setRecords = (data: AppData, collection: HistoryCollection, records: Entity[]) => {
+  (data as Record<HistoryCollection, Entity[]>)[collection] = records;
+};
+
+interface RecordChange {
+  collection: HistoryCollection;
+  id: string;
+  before?: Entity; // Missing: the action created it
+  after?: Entity; // Missing: the action removed it
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  changes: RecordChange[];
+  settings?: { before: WorkspaceSettings; after: WorkspaceSettings };
+  at: number;
+}
+
+export interface History {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const createHistory = (): History => ({ past: [], future: [] });
+
+// States produced by an undoable action, with the entry they should be recorded as
+const marks = new WeakMap<AppData, { id: string; label: string }>();
+
+/** Tags the state an action produced, so the change can be recorded for undo. */
+export const markChange = (data: AppData, id: string, label: string): AppData => {
+  marks.set(data, { id, label });
+  return data;
+};
+
+const diffRecords = (previous: AppData, next: AppData): RecordChange[] =>
+  WORKSPACE_STORES.flatMap(collection => {
+    if (previous[collection] === next[collection]) return [];
+    const changes: RecordChange[] = [];
+    const before = new Map((previous[collection] as Entity[]).map(r => [r.id, r]));
+    (next[collection] as Entity[]).forEach(after => {
+      const old = before.get(after.id);
+      before.delete(after.id);
+      if (old !== after) changes.push({ collection, id: after.id, before: old, after });
+    });
+    before.forEach(old => changes.push({ collection, id: old.id, before: old }));
+    return changes;
+  });
+
+const changeKeys = (entry: HistoryEntry) =>
+  [...entry.changes.map(c => `${c.collection}:${c.id}`), ...(entry.settings ? ['settings'] : [])].sort().join('|');
+
+// Folds a newer entry into an older one: the older "before", the newer "after"
+const merge = (older: HistoryEntry, newer: HistoryEntry): HistoryEntry => ({
+  ...older,
+  changes: newer.changes.map(change => ({
+    ...change,
+    before: older.changes.find(c => c.collection === change.collection && c.id === change.id)?.before,
+  })),
+  settings: newer.settings && older.settings && { before: older.settings.before, after: newer.settings.after },
+  at: newer.at,
+});
+
+/**
+ * Adds the change from `previous` to `next` to the history, if an action marked `next`.
+ * Anything else (loading, sync, undo itself) leaves the history as it is.
+ */
+export const recordChange = (history: History, previous: AppData, next: AppData, now = Date.now()): History => {
+  const mark = marks.get(next);
+  if (!mark) return history;
+  const entry: HistoryEntry = {
+    ...mark,
+    changes: diffRecords(previous, next),
+    settings: previous.settings !== next.settings ? { before: previous.settings, after: next.settings } : undefined,
+    at: now,
+  };
+  if (entry.changes.length === 0 && !entry.settings) return history;
+
+  const last = history.past[history.past.length - 1];
+  if (last && last.label === entry.label && now - last.at < COALESCE_MS && changeKeys(last) === changeKeys(entry)) {
+    return { past: [...history.past.slice(0, -1), merge(last, entry)], future: [] };
+  }
+  return { past: [...history.past, entry].slice(-MAX_HISTORY), future: [] };
+};
+
+/**
+ * Why the entry can't be undone or redone by this user, or null if it can. Approval locks a
+ * record against history as well as edits, and only the mentor may take back a review change.
+ */
+export const checkHistoryEntry = (data: AppData, entry: HistoryEntry, direction: 'undo' | 'redo', role: UserRole): string | null => {
+  for (const { collection, id, before, after } of entry.changes) {
+    if (collection === 'trash') continue; // Trashed records are never approved
+    if (before?.review?.status !== after?.review?.status) {
+      if (role !== 'mentor') return 'only the mentor can take back a review change';
+      continue;
+    }
+    const current = (data[collection] as Entity[]).find(r => r.id === id);
+    const wanted = direction === 'undo' ? before : after;
+    if (isLocked(current?.review) || isLocked(wanted?.review)) return 'it changes an approved entry';
+  }
+  return null;
+};
+
+/** Puts the entry's records back the way they were before ('undo') or after ('redo') it. */
+export const applyHistoryEntry = (data: AppData, entry: HistoryEntry, direction: 'undo' | 'redo'): AppData => {
+  const next: AppData = { ...data };
+  const now = new Date().toISOString();
+
+  entry.changes.forEach(({ collection, id, before, after }) => {
+    const wanted = direction === 'undo' ? before : after;
+    const records = next[collection] as Entity[];
+    const index = records.findIndex(r => r.id === id);
+    if (!wanted) {
+      if (index >= 0) setRecords(next, collection, records.filter((_, i) => i !== index));
+      return;
+    }
+
+    let record = wanted;
+    if (typeof wanted.version === 'number') {
+      // Keep the newest server version seen, here or on the trashed copy, so the change syncs cleanly
+      const current = index >= 0 ? records[index] : data.trash.find(i => i.collection === collection && i.record.id === id)?.record;
+      record = { ...wanted, version: Math.max(wanted.version, current?.version ?? 0), updatedAt: now };
+    }
+    setRecords(next, collection, index >= 0 ? records.map((r, i) => i === index ? record : r) : [...records, record]);
+  });
+
+  if (entry.settings) next.settings = entry.settings[direction === 'undo' ? 'before' : 'after'];
+  if (next.logs !== data.logs) next.logs = [...next.logs].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  if (next.trash !== data.trash) next.trash = [...next.trash].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  return next;
+};
@@ -0,0 +1,63 @@
+// Indonesian national public holidays (libur nasional), bundled so the calendar works offline.
+// Source: the joint ministerial decree (SKB 3 Menteri) for each year. Collective leave days
+// (cuti bersama) are not included; add them as leave days in Settings if your unit observes them.
+// Extend this list when the decree for the next year is published.
+
+export const INDONESIAN_HOLIDAYS: Record<string, string> = {
+  // 2024
+  '2024-01-01': 'Tahun Baru Masehi',
+  '2024-02-08': 'Isra Mikraj Nabi Muhammad SAW',
+  '2024-02-10': 'Tahun Baru Imlek',
+  '2024-03-11': 'Hari Suci Nyepi',
+  '2024-03-29': 'Wafat Yesus Kristus',
+  '2024-03-31': 'Hari Paskah',
+  '2024-04-10': 'Hari Raya Idul Fitri',
+  '2024-04-11': 'Hari Raya Idul Fitri',
+  '2024-05-01': 'Hari Buruh Internasional',
+  '2024-05-09': 'Kenaikan Yesus Kristus',
+  '2024-05-23': 'Hari Raya Waisak',
+  '2024-06-01': 'Hari Lahir Pancasila',
+  '2024-06-17': 'Hari Raya Idul Adha',
+  '2024-07-07': 'Tahun Baru Islam',
+  '2024-08-17': 'Hari Kemerdekaan RI',
+  '2024-09-16': 'Maulid Nabi Muhammad SAW',
+  '2024-12-25': 'Hari Raya Natal',
+
+  // 2025
+  '2025-01-01': 'Tahun Baru Masehi',
+  '2025-01-27': 'Isra Mikraj Nabi Muhammad SAW',
+  '2025-01-29': 'Tahun Baru Imlek',
+  '2025-03-29': 'Hari Suci Nyepi',
+  '2025-03-31': 'Hari Raya Idul Fitri',
+  '2025-04-01': 'Hari Raya Idul Fitri',
+  '2025-04-18': 'Wafat Yesus Kristus',
+  '2025-04-20': 'Hari Paskah',
+  '2025-05-01': 'Hari Buruh Internasional',
+  '2025-05-12': 'Hari Raya Waisak',
+  '2025-05-29': 'Kenaikan Yesus Kristus',
+  '2025-06-01': 'Hari Lahir Pancasila',
+  '2025-06-06': 'Hari Raya Idul Adha',
+  '2025-06-27': 'Tahun Baru Islam',
+  '2025-08-17': 'Hari Kemerdekaan RI',
+  '2025-09-05': 'Maulid Nabi Muhammad SAW',
+  '2025-12-25': 'Hari Raya Natal',
+
+  // 2026
+  '2026-01-01': 'Tahun Baru Masehi',
+  '2026-01-16': 'Isra Mikraj Nabi Muhammad SAW',
+  '2026-02-17': 'Tahun Baru Imlek',
+  '2026-03-19': 'Hari Suci Nyepi',
+  '2026-03-20': 'Hari Raya Idul Fitri',
+  '2026-03-21': 'Hari Raya Idul Fitri',
+  '2026-04-03': 'Wafat Yesus Kristus',
+  '2026-04-05': 'Hari Paskah',
+  '2026-05-01': 'Hari Buruh Internasional',
+  '2026-05-14': 'Kenaikan Yesus Kristus',
+  '2026-05-27': 'Hari Raya Idul Adha',
+  '2026-05-31': 'Hari Raya Waisak',
+  '2026-06-01': 'Hari Lahir Pancasila',
+  '2026-06-16': 'Tahun Baru Islam',
+  '2026-08-17': 'Hari Kemerdekaan RI',
+  '2026-08-25': 'Maulid Nabi Muhammad SAW',
+  '2026-12-25': 'Hari Raya Natal',
+};
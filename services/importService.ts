@@ -0,0 +1,270 @@
+import { AppData, AttendanceStatus, DailyLog, MonthlyReport, Project, ProjectStatus, Review, ReviewStatus, TaskStatus } from '../types';
+import { migratePayload, StorageError } from './storage';
+import { putAttachmentBlob, collectAttachments } from './attachmentStore';
+import { BACKUP_FORMAT } from './exportService';
+import { isLocked } from './review';
+
+export type ImportCollection = 'logs' | 'reports' | 'projects';
+export type ConflictResolution = 'overwrite' | 'keep-local' | 'keep-both';
+// 'locked': differs from a local record that is approved, which is kept as it is
+export type ImportAction = 'add' | 'update' | 'skip' | 'locked';
+
+export interface ImportItem {
+  key: string; // `${collection}:${id}`
+  collection: ImportCollection;
+  id: string;
+  label: string;
+  action: ImportAction;
+}
+
+export interface ImportPlan {
+  data: AppData;
+  files: Record<string, string>;
+  exportedAt?: string;
+  items: ImportItem[];
+  settingsDiffer: boolean;
+}
+
+export const IMPORT_COLLECTIONS: ImportCollection[] = ['logs', 'reports', 'projects'];
+
+// --- Shape validation against types.ts ---
+
+type Validator = (value: unknown) => boolean;
+
+const isObject = (v: unknown): v is Record<string, unknown> => v !== null && typeof v === 'object';
+const isString: Validator = v => typeof v === 'string';
+const isNumber: Validator = v => typeof v === 'number' && !Number.isNaN(v);
+const isBoolean: Validator = v => typeof v === 'boolean';
+const isStringArray: Validator = v => Array.isArray(v) && v.every(isString);
+const isOneOf = (values: readonly string[]): Validator => v => typeof v === 'string' && values.includes(v);
+const optional = (check: Validator): Validator => v => v === undefined || check(v);
+const isTime: Validator = v => typeof v === 'string' && /^\d{2}:\d{2}$/.test(v);
+const isProjectHoursList: Validator = v => Array.isArray(v) && v.every(h =>
+  h !== null && typeof h === 'object' && isString(h.projectId) && isNumber(h.hours)
+);
+const isTaskList: Validator = v => Array.isArray(v) && v.every(t =>
+  t !== null && typeof t === 'object' && isString(t.id) && isString(t.title)
+  && isOneOf(Object.values(TaskStatus))(t.status) && isString(t.dueDate) && isString(t.assignee)
+  && Array.isArray(t.checklist) && t.checklist.every((c: unknown) => isObject(c) && isString(c.id) && isString(c.text) && isBoolean(c.done))
+  && isStringArray(t.dependsOn)
+);
+const isMilestoneList: Validator = v => Array.isArray(v) && v.every(m =>
+  m !== null && typeof m === 'object' && isString(m.id) && isString(m.title) && isString(m.date) && isBoolean(m.done)
+);
+const isReview: Validator = v => isObject(v)
+  && isOneOf(Object.values(ReviewStatus))(v.status) && Array.isArray(v.comments)
+  && v.comments.every((c: unknown) => isObject(c) && isString(c.id) && isString(c.author) && isOneOf(['intern', 'mentor'])(c.role)
+    && isString(c.text) && isString(c.createdAt) && optional(isOneOf(Object.values(ReviewStatus)))(c.status));
+const isAttachmentList: Validator = v => Array.isArray(v) && v.every(a =>
+  a !== null && typeof a === 'object' && isString(a.id) && isString(a.name) && isNumber(a.size) && isString(a.type)
+);
+
+const SHAPES: Record<ImportCollection, Record<string, Validator>> = {
+  logs: {
+    id: isString,
+    date: isString,
+    attendance: isOneOf(Object.values(AttendanceStatus)),
+    activity: isString,
+    learnings: isString,
+    challenges: isString,
+    tags: isStringArray,
+    attachments: isAttachmentList,
+    projectIds: isStringArray,
+    startTime: optional(isTime),
+    endTime: optional(isTime),
+    breakMinutes: optional(isNumber),
+    projectHours: optional(isProjectHoursList),
+    isDraft: optional(isBoolean),
+    review: isReview,
+    updatedAt: isString,
+    version: isNumber,
+  },
+  reports: {
+    id: isString,
+    month: isString,
+    summary: isString,
+    achievements: isString,
+    challengesSolutions: isString,
+    nextMonthPlan: isString,
+    linkedLogIds: isStringArray,
+    files: isAttachmentList,
+    review: isReview,
+    updatedAt: isString,
+    version: isNumber,
+  },
+  projects: {
+    id: isString,
+    name: isString,
+    description: isString,
+    startDate: isString,
+    endDate: optional(isString),
+    techStack: isStringArray,
+    role: isString,
+    deliverables: isString,
+    status: isOneOf(Object.values(ProjectStatus)),
+    documents: isAttachmentList,
+    tasks: isTaskList,
+    milestones: isMilestoneList,
+    dependsOn: isStringArray,
+    updatedAt: isString,
+    version: isNumber,
+  },
+};
+
+export const validateWorkspace = (data: AppData): string[] => {
+  const errors: string[] = [];
+  IMPORT_COLLECTIONS.forEach(collection => {
+    const shape = SHAPES[collection];
+    if (!Array.isArray(data[collection])) {
+      errors.push(`${collection} is not a list`);
+      return;
+    }
+    (data[collection] as unknown as Record<string, unknown>[]).forEach((record, index) => {
+      Object.entries(shape).forEach(([field, check]) => {
+        if (!check(record?.[field])) errors.push(`${collection}[${index}].${field} is missing or invalid`);
+      });
+    });
+  });
+
+  const profile = data.settings?.profile as unknown as Record<string, unknown> | undefined;
+  if (!profile || !Object.values(profile).every(isString)) errors.push('settings.profile is missing or invalid');
+  const limits = data.settings?.attendanceLimits as unknown as Record<string, unknown> | undefined;
+  if (!limits || !Object.values(limits).every(isNumber)) errors.push('settings.attendanceLimits is missing or invalid');
+  const calendar = data.settings?.calendar;
+  if (!calendar || !isString(calendar.internshipStart) || !Array.isArray(calendar.leaveDays)
+    || !calendar.leaveDays.every(l => isString(l?.date) && isString(l?.note))) {
+    errors.push('settings.calendar is missing or invalid');
+  }
+  if (!isNumber(data.settings?.timesheet?.dailyTargetHours)) errors.push('settings.timesheet is missing or invalid');
+  if (!Array.isArray(data.settings?.templates)) errors.push('settings.templates is not a list');
+  if (!Array.isArray(data.settings?.snippets)) errors.push('settings.snippets is not a list');
+  if (!Array.isArray(data.settings?.tags)) errors.push('settings.tags is not a list');
+  if (!Array.isArray(data.settings?.skills)) errors.push('settings.skills is not a list');
+  if (!Array.isArray(data.settings?.objectives)) errors.push('settings.objectives is not a list');
+  const portfolio = data.settings?.portfolio;
+  if (!portfolio || !Array.isArray(portfolio.excludedProjectIds) || typeof portfolio.highlights !== 'object' || portfolio.highlights === null) {
+    errors.push('settings.portfolio is missing or invalid');
+  }
+  return errors;
+};
+
+// --- Planning ---
+
+// Key-order independent comparison, so a record that round-tripped through JSON still matches
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (isObject(value)) {
+    return `{${Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const recordLabel = (collection: ImportCollection, record: DailyLog | MonthlyReport | Project): string => {
+  if (collection === 'logs' && 'activity' in record) return `${record.date} — ${record.activity.split('\n')[0]}`;
+  if (collection === 'reports' && 'month' in record) return `Report ${record.month}`;
+  return 'name' in record ? record.name : record.id;
+};
+
+/** Parses and validates a backup file, then works out what importing it would change. */
+export const planImport = (fileText: string, local: AppData): ImportPlan => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fileText);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT || typeof parsed.schemaVersion !== 'number' || !isObject(parsed.data)) {
+    throw new Error('This file is not a Telkom DDP workspace backup.');
+  }
+
+  let data: AppData;
+  try {
+    data = migratePayload(parsed.data, parsed.schemaVersion);
+  } catch (e) {
+    throw new Error(e instanceof StorageError ? e.message : 'The backup could not be upgraded to the current format.');
+  }
+
+  const errors = validateWorkspace(data);
+  if (errors.length > 0) {
+    const shown = errors.slice(0, 5).join('; ');
+    throw new Error(`The backup does not match the expected format: ${shown}${errors.length > 5 ? ` (+${errors.length - 5} more)` : ''}.`);
+  }
+
+  const items: ImportItem[] = IMPORT_COLLECTIONS.flatMap(collection => {
+    const existing = new Map((local[collection] as (DailyLog | MonthlyReport | Project)[]).map(r => [r.id, r]));
+    return (data[collection] as (DailyLog | MonthlyReport | Project)[]).map(record => {
+      const current = existing.get(record.id);
+      const action: ImportAction = !current
+        ? 'add'
+        : stableStringify(current) === stableStringify(record) ? 'skip'
+        : 'review' in current && isLocked(current.review) ? 'locked' : 'update';
+      return { key: `${collection}:${record.id}`, collection, id: record.id, label: recordLabel(collection, record), action };
+    });
+  });
+
+  return {
+    data,
+    files: isObject(parsed.files)
+      ? Object.fromEntries(Object.entries(parsed.files).filter((entry): entry is [string, string] => isString(entry[1])))
+      : {},
+    exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : undefined,
+    items,
+    settingsDiffer: stableStringify(data.settings) !== stableStringify(local.settings)
+  };
+};
+
+// --- Applying ---
+
+// Records only ever move between the same collection of two workspaces
+const setCollection = (data: AppData, collection: ImportCollection, records: { id: string }[]) => {
+  (data as Record<ImportCollection, { id: string }[]>)[collection] = records;
+};
+
+/**
+ * Merges the planned records into the local workspace.
+ * `resolutions` only matters for 'update' items; anything unset is treated as 'overwrite'.
+ */
+export const applyImport = async (
+  local: AppData,
+  plan: ImportPlan,
+  resolutions: Record<string, ConflictResolution>,
+  replaceSettings = false
+): Promise<AppData> => {
+  const next: AppData = { ...local, settings: replaceSettings ? plan.data.settings : local.settings };
+
+  IMPORT_COLLECTIONS.forEach(collection => {
+    const incoming = new Map((plan.data[collection] as { id: string }[]).map(r => [r.id, r]));
+    let records = [...(local[collection] as { id: string; version?: number; review?: Review }[])];
+
+    plan.items.filter(item => item.collection === collection).forEach(item => {
+      const record = incoming.get(item.id)!;
+      if (item.action === 'add') {
+        records.push(record);
+      } else if (item.action === 'update') {
+        // Approval locks a record against every write, imports included
+        if (isLocked(records.find(r => r.id === item.id)?.review)) return;
+        const resolution = resolutions[item.key] || 'overwrite';
+        if (resolution === 'overwrite') {
+          records = records.map(r => r.id === item.id ? record : r);
+        } else if (resolution === 'keep-both') {
+          records.push({ ...record, id: crypto.randomUUID(), version: 0 }); // A new record as far as the server knows
+        }
+      }
+    });
+
+    setCollection(next, collection, records);
+  });
+
+  next.logs = [...next.logs].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  // Restore file contents for every attachment the merged workspace now references
+  const needed = new Set(collectAttachments(next).map(a => a.id));
+  for (const [id, dataUrl] of Object.entries(plan.files)) {
+    if (!needed.has(id)) continue;
+    const blob = await (await fetch(dataUrl)).blob();
+    await putAttachmentBlob(id, blob);
+  }
+
+  return next;
+};
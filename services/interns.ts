@@ -0,0 +1,36 @@
+import { CurrentUser, InternAccount } from '../types';
+import { DEFAULT_INTERN_ID } from './storage';
+
+// Who is using this browser (an intern or their mentor) and which intern's workspace is open.
+// Both are per-browser preferences, like the theme, so they live in localStorage and are not
+// part of exports. The intern list itself is workspace data, see storage.ts.
+
+const USER_STORAGE_KEY = 'telkom_ddp_user';
+const ACTIVE_INTERN_STORAGE_KEY = 'telkom_ddp_active_intern';
+
+export const loadCurrentUser = (): CurrentUser => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(USER_STORAGE_KEY) || '{}');
+    return {
+      role: saved?.role === 'mentor' ? 'mentor' : 'intern',
+      name: typeof saved?.name === 'string' ? saved.name : '',
+    };
+  } catch {
+    return { role: 'intern', name: '' };
+  }
+};
+
+export const saveCurrentUser = (user: CurrentUser) => {
+  localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+};
+
+export const loadActiveInternId = (): string => localStorage.getItem(ACTIVE_INTERN_STORAGE_KEY) || DEFAULT_INTERN_ID;
+
+export const saveActiveInternId = (internId: string) => {
+  localStorage.setItem(ACTIVE_INTERN_STORAGE_KEY, internId);
+};
+
+export const getInternLabel = (intern: InternAccount, index: number) => intern.name.trim() || `Intern ${index + 1}`;
+
+export const getInitials = (name: string) =>
+  name.trim().split(/\s+/).slice(0, 2).map(part => part[0]?.toUpperCase() || '').join('') || 'Me';
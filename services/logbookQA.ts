@@ -0,0 +1,82 @@
+import { DailyLog, Project } from '../types';
+import { AIError } from './aiProvider';
+import { generate, isJsonObject, jsonStringList, parseJsonResponse } from './aiService';
+import { MOCK_LABEL } from './mockProvider';
+import { describeLog } from './reportDraft';
+import { buildSearchIndex, searchDocuments } from './searchIndex';
+import { fuseRankings, semanticSearch } from './semanticSearch';
+
+// Answers questions about the logbook ("when did I first work with Kubernetes?")
+// from the handful of entries retrieval finds, citing the ones the answer used.
+
+export interface LogbookAnswer {
+  answer: string;
+  sourceIds: string[]; // Logs the answer cites
+  retrievedIds: string[]; // Every log the model was shown
+}
+
+// Enough context for "first time" questions without flooding the prompt
+const MAX_CONTEXT_LOGS = 12;
+
+const SYSTEM_PROMPT = `You answer questions about an intern's daily logbook.
+Only use the log entries you are given; if they don't contain the answer, say so.
+Respond with a single JSON object and nothing else.`;
+
+const buildSample = (logs: DailyLog[]) => JSON.stringify({
+  answer: `${MOCK_LABEL} The earliest related entry is from ${logs[0].date}: ${logs[0].activity.split('\n').find(l => l.trim()) || 'no activity recorded'}`,
+  sources: [logs[0].date],
+});
+
+const retrieve = async (
+  question: string,
+  logs: DailyLog[],
+  projects: Project[],
+  semantic: boolean,
+  internId: string,
+  signal?: AbortSignal
+): Promise<DailyLog[]> => {
+  const keyword = searchDocuments(buildSearchIndex(logs, projects), question);
+  const ranked = semantic
+    ? fuseRankings([keyword, (await semanticSearch(question, logs, projects, internId, signal)).slice(0, MAX_CONTEXT_LOGS)])
+    : keyword;
+  const byId = new Map(logs.map(l => [l.id, l]));
+  // Chronological order lets the model answer "first" and "last" questions
+  return ranked.slice(0, MAX_CONTEXT_LOGS).map(r => byId.get(r.id)!).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const askLogbook = async (
+  question: string,
+  logs: DailyLog[],
+  projects: Project[],
+  semantic: boolean,
+  internId: string,
+  signal?: AbortSignal
+): Promise<LogbookAnswer> => {
+  const context = await retrieve(question, logs, projects, semantic, internId, signal);
+  if (context.length === 0) {
+    return { answer: 'No log entries mention anything related to this question.', sourceIds: [], retrievedIds: [] };
+  }
+
+  const projectNames = new Map(projects.map(p => [p.id, p.name]));
+  const text = await generate({
+    system: SYSTEM_PROMPT,
+    prompt: `Question: ${question}
+
+Return JSON shaped {"answer": string, "sources": ["YYYY-MM-DD", ...]} where sources are the dates of the entries the answer relies on.
+
+Log entries, oldest first:
+${context.map(l => describeLog(l, projectNames)).join('\n\n')}`,
+    json: true,
+    signal,
+    sample: buildSample(context),
+  });
+
+  const parsed = parseJsonResponse(text);
+  if (!isJsonObject(parsed) || typeof parsed.answer !== 'string' || !parsed.answer.trim()) throw new AIError('The AI response has no answer.', 'format');
+  const cited = new Set(jsonStringList(parsed.sources));
+  return {
+    answer: parsed.answer.trim(),
+    sourceIds: context.filter(l => cited.has(l.date)).map(l => l.id),
+    retrievedIds: context.map(l => l.id),
+  };
+};
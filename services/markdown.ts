@@ -0,0 +1,352 @@
+// A small Markdown parser for log and report fields. It produces a syntax tree
+// that components/Markdown.tsx renders as React elements, so raw HTML in the
+// text is never interpreted and only safe link and image targets survive.
+//
+// Supported: headings, paragraphs (single newlines become line breaks), bullet,
+// numbered and task lists, block quotes, fenced code blocks, pipe tables,
+// horizontal rules, **bold**, *italic*, ~~strikethrough~~, `code`, links, bare
+// URLs and images, including `attachment:<id>` images stored with the record.
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: Inline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: Inline[] }
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'break' };
+
+export type Align = 'left' | 'center' | 'right' | null;
+
+export interface ListItem {
+  checked: boolean | null; // null when the item is not a task
+  line: number; // Source line of the item, for toggling its checkbox
+  children: Block[];
+}
+
+export type Block =
+  | { type: 'heading'; level: number; children: Inline[] }
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: ListItem[] }
+  | { type: 'quote'; children: Block[] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'table'; align: Align[]; header: Inline[][]; rows: Inline[][][] }
+  | { type: 'rule' };
+
+export const ATTACHMENT_SCHEME = 'attachment:';
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?\s*#*\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(?:[ \t]+(.*)|[ \t]*)$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const TASK = /^\[([ xX])\](?:\s+|$)/;
+
+/** Links may only point at web pages or email; anything else (javascript:, data:) is dropped. */
+export const safeLinkUrl = (href: string): string | null =>
+  /^(https?:|mailto:)/i.test(href.trim()) ? href.trim() : null;
+
+/** Images may only come from the record's attachments or over https. */
+export const safeImageUrl = (src: string): string | null =>
+  src.startsWith(ATTACHMENT_SCHEME) || /^https:/i.test(src.trim()) ? src.trim() : null;
+
+const splitRow = (line: string): string[] => {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const isTableStart = (lines: string[], i: number) =>
+  i + 1 < lines.length && lines[i].includes('|') && TABLE_DELIMITER.test(lines[i + 1]) && lines[i + 1].includes('-');
+
+// Lines that end a paragraph because they start a block of their own
+const startsBlock = (lines: string[], i: number) =>
+  FENCE.test(lines[i]) || HEADING.test(lines[i]) || RULE.test(lines[i]) || QUOTE.test(lines[i])
+  || LIST_ITEM.test(lines[i]) || isTableStart(lines, i);
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+const stripIndent = (line: string, width: number) => {
+  let removed = 0;
+  let i = 0;
+  while (i < line.length && removed < width && (line[i] === ' ' || line[i] === '\t')) {
+    removed += line[i] === '\t' ? 4 : 1;
+    i++;
+  }
+  return line.slice(i);
+};
+
+const parseList = (lines: string[], start: number, offset: number): { block: Block; next: number } => {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const ordered = /\d/.test(first[2]);
+  const markerIndent = indentOf(first[1]);
+  const items: ListItem[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const match = LIST_ITEM.exec(lines[i]);
+    if (!match || indentOf(match[1]) !== markerIndent || /\d/.test(match[2]) !== ordered) break;
+
+    const contentIndent = markerIndent + match[2].length + 1;
+    const itemLine = i;
+    const content = [match[3] || ''];
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (!line.trim()) {
+        // A blank line only stays in the item if more of the item follows
+        const nextText = lines.slice(i + 1).findIndex(l => l.trim());
+        if (nextText === -1 || indentOf(lines[i + 1 + nextText]) < contentIndent) break;
+        content.push('');
+      } else if (indentOf(line) >= contentIndent) {
+        content.push(stripIndent(line, contentIndent));
+      } else if (!startsBlock(lines, i) && content[content.length - 1].trim()) {
+        content.push(line.trim()); // Lazy continuation of the item's text
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    const task = TASK.exec(content[0]);
+    if (task) content[0] = content[0].slice(task[0].length);
+    items.push({
+      checked: task ? task[1] !== ' ' : null,
+      line: offset + itemLine,
+      children: parseBlockLines(content, offset + itemLine),
+    });
+
+    // Blank lines between items keep the list going
+    let next = i;
+    while (next < lines.length && !lines[next].trim()) next++;
+    const following = next < lines.length ? LIST_ITEM.exec(lines[next]) : null;
+    if (!following || indentOf(following[1]) !== markerIndent) break;
+    i = next;
+  }
+
+  return { block: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, next: i };
+};
+
+// `offset` is the source line of lines[0], so task items can report where they are
+const parseBlockLines = (lines: string[], offset: number): Block[] => {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      i++; // Closing fence (or end of text)
+      blocks.push({ type: 'code', lang: fence[2].toLowerCase(), text: body.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] || '') });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const start = i;
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) body.push(lines[i++].replace(QUOTE, ''));
+      blocks.push({ type: 'quote', children: parseBlockLines(body, offset + start) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align: Align[] = splitRow(lines[i + 1]).map(cell =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : null);
+      i += 2;
+      const rows: Inline[][][] = [];
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        const cells = splitRow(lines[i++]);
+        rows.push(header.map((_, c) => parseInline(cells[c] || '')));
+      }
+      blocks.push({ type: 'table', align: header.map((_, c) => align[c] ?? null), header: header.map(h => parseInline(h)), rows });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { block, next } = parseList(lines, i, offset);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    const body = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) body.push(lines[i++].trim());
+    blocks.push({ type: 'paragraph', children: parseInline(body.join('\n')) });
+  }
+
+  return blocks;
+};
+
+export const parseMarkdown = (text: string): Block[] => parseBlockLines(text.replace(/\r\n?/g, '\n').split('\n'), 0);
+
+const BARE_URL = /^https?:\/\/[^\s<]*[^\s<.,:;"')\]]/;
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~>]/;
+
+// Index of the closing `delimiter`, skipping code spans; -1 when there is none
+const findClosing = (text: string, from: number, delimiter: string): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end !== -1) { i = end; continue; }
+    }
+    if (text.startsWith(delimiter, i) && i > from && !/\s/.test(text[i - 1])) {
+      // A single * or _ must not be part of a double one
+      if (delimiter.length === 1 && text[i + 1] === delimiter) { i++; continue; }
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Parses `[label](url)` starting at the "[" at `at`; null if it is not a link
+const parseLinkAt = (text: string, at: number): { label: string; url: string; end: number } | null => {
+  let depth = 0;
+  for (let i = at; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === '[') depth++;
+    if (text[i] === ']' && --depth === 0) {
+      if (text[i + 1] !== '(') return null;
+      const close = text.indexOf(')', i + 2);
+      if (close === -1) return null;
+      const url = text.slice(i + 2, close).trim().split(/\s+/)[0] || '';
+      return { label: text.slice(at + 1, i), url, end: close + 1 };
+    }
+  }
+  return null;
+};
+
+export const parseInline = (text: string): Inline[] => {
+  const nodes: Inline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] || '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + run.length, end).replace(/^ (.*) $/, '$1') });
+        i = end + run.length;
+        continue;
+      }
+    }
+
+    if (char === '!' && text[i + 1] === '[') {
+      const link = parseLinkAt(text, i + 1);
+      const src = link && safeImageUrl(link.url);
+      if (link && src) {
+        flush();
+        nodes.push({ type: 'image', src, alt: link.label });
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const link = parseLinkAt(text, i);
+      const href = link && safeLinkUrl(link.url);
+      if (link && href) {
+        flush();
+        nodes.push({ type: 'link', href, children: parseInline(link.label) });
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (char === 'h' && (i === 0 || /[\s(]/.test(text[i - 1]))) {
+      const url = BARE_URL.exec(text.slice(i));
+      if (url) {
+        flush();
+        nodes.push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    const double = text.slice(i, i + 2);
+    if ((double === '**' || double === '__' || double === '~~') && text[i + 2] && !/\s/.test(text[i + 2])) {
+      const end = findClosing(text, i + 2, double);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: double === '~~' ? 'del' : 'strong', children: parseInline(text.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    // Underscores inside words (snake_case) are not emphasis
+    if ((char === '*' || (char === '_' && !/\w/.test(text[i - 1] || ''))) && text[i + 1] && !/\s/.test(text[i + 1])) {
+      const end = findClosing(text, i + 1, char);
+      if (end !== -1 && (char === '*' || !/\w/.test(text[end + 1] || ''))) {
+        flush();
+        nodes.push({ type: 'em', children: parseInline(text.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
+
+/** The first line with text, without its list, heading or quote marker, for one-line previews. */
+export const getPreviewLine = (text: string): string => {
+  const line = text.split('\n').find(l => l.replace(/^[\s>#*+-]*(\d+[.)])?\s*(\[[ xX]\])?/, '').trim()) || '';
+  return line.replace(/^\s*(>\s*)*(#{1,6}\s+)?([-*+]|\d+[.)])?\s*(\[[ xX]\]\s*)?/, '').trim();
+};
+
+/** Flips the checkbox of the task item on the given source line. */
+export const toggleTaskAt = (text: string, line: number): string => {
+  const lines = text.split('\n');
+  if (line < lines.length) {
+    lines[line] = lines[line].replace(/^(\s*(?:>\s*)*(?:[-*+]|\d+[.)])\s+)\[([ xX])\]/, (_, marker, mark) => `${marker}[${mark === ' ' ? 'x' : ' '}]`);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,63 @@
+import { AIProvider } from './aiProvider';
+
+// Deterministic stand-in for tests, demos and offline use: the same request
+// always yields the same text and nothing leaves the browser. Only used when
+// picked explicitly in Settings.
+
+const MOCK_DELAY_MS = 300;
+const MOCK_CHUNK_DELAY_MS = 40;
+
+// Starts every piece of mock text, so it is never mistaken for a real answer
+export const MOCK_LABEL = '[Mock AI response]';
+
+export const mockResponse = (prompt: string): string => {
+  const lines = prompt.split('\n').map(l => l.trim()).filter(Boolean);
+  return [
+    MOCK_LABEL,
+    `Prompt received with ${lines.length} line(s) and ${prompt.length} character(s).`,
+    `First line: ${lines[0] || '(empty)'}`,
+  ].join('\n');
+};
+
+// Hashed bag of words: texts sharing words end up close together, which is
+// enough to exercise semantic search without a model
+const MOCK_EMBEDDING_SIZE = 256;
+
+export const mockEmbedding = (text: string): number[] => {
+  const vector = new Array(MOCK_EMBEDDING_SIZE).fill(0);
+  (text.toLowerCase().match(/[a-z0-9]+/g) || []).forEach(word => {
+    let hash = 2166136261;
+    for (let i = 0; i < word.length; i++) hash = Math.imul(hash ^ word.charCodeAt(i), 16777619);
+    vector[(hash >>> 0) % MOCK_EMBEDDING_SIZE] += 1;
+  });
+  return vector;
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  });
+});
+
+export const mockProvider: AIProvider = {
+  generate: async (request) => {
+    await wait(MOCK_DELAY_MS, request.signal);
+    return request.sample ?? mockResponse(request.prompt);
+  },
+
+  stream: async function* (request) {
+    await wait(MOCK_DELAY_MS, request.signal);
+    for (const word of (request.sample ?? mockResponse(request.prompt)).match(/\s*\S+/g) || []) {
+      await wait(MOCK_CHUNK_DELAY_MS, request.signal);
+      yield word;
+    }
+  },
+
+  embed: async (texts, _config, signal) => {
+    await wait(MOCK_DELAY_MS, signal);
+    return texts.map(mockEmbedding);
+  }
+};
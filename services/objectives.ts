@@ -0,0 +1,183 @@
+import { DailyLog, KeyResult, KeyResultMeasure, MonthlyReport, Objective, Project, TagDefinition } from '../types';
+import { getTagFamily, tagKey } from './tags';
+import { getHoursForProject } from './timesheet';
+import { toDateKey } from './calendar';
+
+// Internship goals (objectives with measurable key results). Counted key results are
+// worked out from the logbook and projects as of any date, so a month's report can show
+// how far each goal moved between the end of the previous month and the end of this one.
+
+export const MEASURES: Record<KeyResultMeasure, { label: string; unit?: string }> = {
+  manual: { label: 'Update by hand' },
+  logDays: { label: 'Days logged', unit: 'days' },
+  projectHours: { label: 'Hours on a project', unit: 'hours' },
+  milestones: { label: 'Project milestones done', unit: 'milestones' },
+};
+
+export const createObjective = (): Objective => ({
+  id: crypto.randomUUID(),
+  title: '',
+  description: '',
+  dueDate: '',
+  keyResults: [createKeyResult()],
+});
+
+export const createKeyResult = (): KeyResult => ({
+  id: crypto.randomUUID(),
+  title: '',
+  measure: 'manual',
+  target: 1,
+  unit: '',
+  checkIns: [],
+  tag: '',
+  projectId: '',
+});
+
+export const getKeyResultUnit = (kr: KeyResult) => MEASURES[kr.measure].unit ?? kr.unit;
+
+// What goal progress is counted from
+export interface GoalContext {
+  logs: DailyLog[];
+  projects: Project[];
+  registry: TagDefinition[];
+}
+
+/** The key result's value on a day (YYYY-MM-DD), counting everything up to and including it. */
+export const getKeyResultValue = (kr: KeyResult, { logs, projects, registry }: GoalContext, asOf: string): number => {
+  switch (kr.measure) {
+    case 'manual': {
+      const checkIns = kr.checkIns.filter(c => c.date <= asOf);
+      return checkIns.length ? checkIns[checkIns.length - 1].value : 0;
+    }
+    case 'logDays': {
+      const family = kr.tag ? getTagFamily(kr.tag, registry) : null;
+      const days = logs.filter(log =>
+        log.date <= asOf
+        && (!kr.projectId || log.projectIds.includes(kr.projectId))
+        && (!family || log.tags.some(t => family.has(tagKey(t))))
+      ).map(log => log.date);
+      return new Set(days).size;
+    }
+    case 'projectHours':
+      return Math.round(logs
+        .filter(log => log.date <= asOf && kr.projectId)
+        .reduce((sum, log) => sum + (getHoursForProject(log, kr.projectId) ?? 0), 0) * 10) / 10;
+    case 'milestones':
+      return projects.find(p => p.id === kr.projectId)?.milestones.filter(m => m.done && m.date <= asOf).length ?? 0;
+  }
+};
+
+export const getProgressRatio = (value: number, target: number) =>
+  target > 0 ? Math.min(1, Math.max(0, value / target)) : 0;
+
+/** An objective's progress: the average of its key results, from 0 to 1. */
+export const getObjectiveProgress = (objective: Objective, context: GoalContext, asOf: string) => {
+  if (objective.keyResults.length === 0) return 0;
+  const ratios = objective.keyResults.map(kr => getProgressRatio(getKeyResultValue(kr, context, asOf), kr.target));
+  return ratios.reduce((sum, r) => sum + r, 0) / ratios.length;
+};
+
+/** Records a manual key result's value for a day, replacing an earlier check-in that day. */
+export const checkInKeyResult = (kr: KeyResult, date: string, value: number): KeyResult => ({
+  ...kr,
+  checkIns: [...kr.checkIns.filter(c => c.date !== date), { date, value }].sort((a, b) => a.date.localeCompare(b.date)),
+});
+
+// --- Monthly review ---
+
+export const previousMonth = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return toDateKey(new Date(year, m - 2, 1)).slice(0, 7);
+};
+
+export const getMonthEnd = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return toDateKey(new Date(year, m, 0));
+};
+
+export interface KeyResultMove {
+  keyResult: KeyResult;
+  before: number; // At the end of the previous month
+  after: number; // At the end of the month
+}
+
+export interface ObjectiveMove {
+  objective: Objective;
+  before: number; // Progress ratio at the end of the previous month
+  after: number;
+  keyResults: KeyResultMove[];
+}
+
+/** How every objective moved during a month (YYYY-MM), those that moved first. */
+export const getMonthlyGoalMoves = (objectives: Objective[], context: GoalContext, month: string): ObjectiveMove[] => {
+  const start = getMonthEnd(previousMonth(month));
+  const end = getMonthEnd(month);
+  return objectives.map(objective => ({
+    objective,
+    before: getObjectiveProgress(objective, context, start),
+    after: getObjectiveProgress(objective, context, end),
+    keyResults: objective.keyResults.map(keyResult => ({
+      keyResult,
+      before: getKeyResultValue(keyResult, context, start),
+      after: getKeyResultValue(keyResult, context, end),
+    })),
+  })).sort((a, b) => Number(hasMoved(b)) - Number(hasMoved(a)));
+};
+
+export const hasMoved = (move: ObjectiveMove) => move.keyResults.some(kr => kr.after !== kr.before);
+
+// --- Plan carry-over ---
+
+export type CarryOverStatus = 'done' | 'partial' | 'open';
+
+export interface CarryOverItem {
+  plan: string;
+  status: CarryOverStatus;
+  match?: string; // The achievement that covers it
+}
+
+const DONE_SCORE = 0.6;
+const PARTIAL_SCORE = 0.3;
+
+// Too common to say whether two lines are about the same thing (English and Indonesian)
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'onto', 'about', 'this', 'that', 'next', 'month', 'more', 'some', 'will',
+  'focus', 'learn', 'continue', 'start', 'finish', 'work',
+  'dan', 'yang', 'untuk', 'dengan', 'dari', 'pada', 'akan', 'bulan', 'depan', 'lebih',
+]);
+
+/** Items of a Markdown list (or plain lines), without bullets, checkboxes and formatting. Empty "Label:" lines are dropped. */
+export const parsePlanItems = (text: string): string[] =>
+  text.split('\n')
+    .map(line => line
+      .replace(/^\s*(?:[-*+]|\d+[.)])\s*/, '')
+      .replace(/^\[[ xX]\]\s*/, '')
+      .replace(/[*_`~]/g, '')
+      .trim())
+    .filter(line => line && !/:\s*$/.test(line));
+
+const keywords = (text: string) =>
+  new Set(text.toLowerCase().split(/[^\p{L}\p{N}+#.]+/u).map(w => w.replace(/\.+$/, '')).filter(w => w.length > 2 && !STOP_WORDS.has(w)));
+
+/** Matches each item of last month's plan against this month's achievements. */
+export const compareCarryOver = (plan: string, achievements: string): CarryOverItem[] => {
+  const achieved = parsePlanItems(achievements).map(text => ({ text, words: keywords(text) }));
+  return parsePlanItems(plan).map(item => {
+    const words = keywords(item);
+    let best: { text: string; score: number } | undefined;
+    achieved.forEach(a => {
+      const shared = [...words].filter(w => a.words.has(w)).length;
+      const score = words.size ? shared / words.size : 0;
+      if (!best || score > best.score) best = { text: a.text, score };
+    });
+    if (!best || best.score < PARTIAL_SCORE) return { plan: item, status: 'open' };
+    return { plan: item, status: best.score >= DONE_SCORE ? 'done' : 'partial', match: best.text };
+  });
+};
+
+/** Last month's plan next to this month's achievements, when there is a plan to compare. */
+export const getCarryOver = (reports: MonthlyReport[], month: string, achievements: string) => {
+  const previous = reports.find(r => r.month === previousMonth(month));
+  if (!previous || parsePlanItems(previous.nextMonthPlan).length === 0) return null;
+  return { previous, items: compareCarryOver(previous.nextMonthPlan, achievements) };
+};
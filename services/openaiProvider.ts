@@ -0,0 +1,80 @@
+import { AIError, AIProvider, AIProviderConfig, AIRequest } from './aiProvider';
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, or a local
+// Ollama / llama.cpp / LM Studio instance so logs never leave the machine.
+
+const post = async (path: string, body: object, config: AIProviderConfig, signal?: AbortSignal): Promise<Response> => {
+  if (!config.baseUrl) throw new AIError('No endpoint URL configured for the OpenAI-compatible provider.', 'config');
+
+  const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new AIError(`The endpoint answered ${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 200)}` : ''}`, 'provider');
+  }
+  return response;
+};
+
+const postChat = (request: AIRequest, config: AIProviderConfig, stream: boolean): Promise<Response> => {
+  if (!config.model) throw new AIError('No model configured for the OpenAI-compatible provider.', 'config');
+
+  const messages = [
+    ...(request.system ? [{ role: 'system', content: request.system }] : []),
+    { role: 'user', content: request.prompt },
+  ];
+
+  return post('/chat/completions', {
+    model: config.model,
+    messages,
+    stream,
+    ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+  }, config, request.signal);
+};
+
+export const openaiProvider: AIProvider = {
+  generate: async (request, config) => {
+    const body = await (await postChat(request, config, false)).json();
+    const text = body?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string' || !text.trim()) throw new AIError('The endpoint returned an empty response.', 'provider');
+    return text.trim();
+  },
+
+  // Server-sent events: one `data: {json}` line per delta, ending with `data: [DONE]`
+  stream: async function* (request, config) {
+    const response = await postChat(request, config, true);
+    if (!response.body) throw new AIError('The endpoint does not support streaming responses.', 'provider');
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (!data || data === '[DONE]') continue;
+        const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  },
+
+  embed: async (texts, config, signal) => {
+    if (!config.embeddingModel) throw new AIError('No embedding model configured for the OpenAI-compatible provider.', 'config');
+    const body = await (await post('/embeddings', { model: config.embeddingModel, input: texts }, config, signal)).json();
+    const data: { index: number; embedding: number[] }[] = Array.isArray(body?.data) ? body.data : [];
+    if (data.length !== texts.length) throw new AIError('The endpoint returned the wrong number of embeddings.', 'provider');
+    return [...data].sort((a, b) => a.index - b.index).map(d => d.embedding);
+  }
+};
@@ -0,0 +1,70 @@
+import { DailyLog, MonthlyReport, Project } from '../types';
+import { openDatabase, requestToPromise, transactionDone, STORES } from './db';
+import { SyncCollection } from './syncApi';
+
+// Local changes waiting to be pushed to the sync server, kept in IndexedDB so they
+// survive reloads and time offline. There is at most one entry per record: a newer
+// change to the same record replaces the older one.
+
+export type SyncRecord = DailyLog | MonthlyReport | Project;
+
+export interface OutboxEntry {
+  key: string; // `${internId}:${collection}:${id}`
+  internId: string;
+  collection: SyncCollection;
+  id: string;
+  op: 'put' | 'delete';
+  record?: SyncRecord; // Only for 'put'
+  baseVersion: number; // Server version the change was made on top of
+  changeId: string; // Tells a change apart from a newer one to the same record
+}
+
+export type OutboxChange = Omit<OutboxEntry, 'key' | 'changeId'>;
+
+export const outboxKey = (internId: string, collection: SyncCollection, id: string) => `${internId}:${collection}:${id}`;
+
+// Every entry of one intern
+export const outboxRange = (internId: string) => IDBKeyRange.bound(`${internId}:`, `${internId}:\uffff`);
+
+export const queueChanges = async (changes: OutboxChange[]) => {
+  if (changes.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.outbox, 'readwrite');
+  const store = tx.objectStore(STORES.outbox);
+  changes.forEach(change => {
+    const key = outboxKey(change.internId, change.collection, change.id);
+    // Deleting a record the server never saw leaves nothing to tell it
+    if (change.op === 'delete' && change.baseVersion === 0) store.delete(key);
+    else store.put({ ...change, key, changeId: crypto.randomUUID() });
+  });
+  await transactionDone(tx);
+};
+
+export const getOutbox = async (internId: string): Promise<OutboxEntry[]> => {
+  const db = await openDatabase();
+  return requestToPromise<OutboxEntry[]>(db.transaction(STORES.outbox, 'readonly').objectStore(STORES.outbox).getAll(outboxRange(internId)));
+};
+
+export const countOutbox = async (internId: string): Promise<number> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(STORES.outbox, 'readonly').objectStore(STORES.outbox).count(outboxRange(internId)));
+};
+
+/** Removes a pushed entry, unless a newer change to the same record was queued while it was in flight. */
+export const acknowledgeEntry = async (entry: OutboxEntry) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.outbox, 'readwrite');
+  const store = tx.objectStore(STORES.outbox);
+  const request = store.get(entry.key);
+  request.onsuccess = () => {
+    if ((request.result as OutboxEntry | undefined)?.changeId === entry.changeId) store.delete(entry.key);
+  };
+  await transactionDone(tx);
+};
+
+export const dropEntry = async (key: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.outbox, 'readwrite');
+  tx.objectStore(STORES.outbox).delete(key);
+  await transactionDone(tx);
+};
@@ -0,0 +1,335 @@
+import { AppData, DailyLog, InternProfile, PortfolioSettings, PortfolioTheme, Project, ProjectStatus, ReviewStatus } from '../types';
+import { ATTACHMENT_SCHEME, Block, Inline, getPreviewLine, parseMarkdown } from './markdown';
+import { getHoursForProject } from './timesheet';
+import { resolveTag, tagKey } from './tags';
+import { SKILL_LEVELS, findAssessment } from './skills';
+import { parseDateKey, todayKey } from './calendar';
+
+// The end-of-internship portfolio: completed projects with their role, description,
+// tech stack, deliverables and documents, plus highlights picked from the logs linked to
+// each one. Rendered as a standalone themed HTML page, Markdown, or a JSON Resume file.
+
+export const HIGHLIGHTS_PER_PROJECT = 3;
+
+export const PORTFOLIO_THEMES: Record<PortfolioTheme, { label: string; colors: Record<'bg' | 'card' | 'text' | 'muted' | 'border' | 'accent' | 'chip', string> }> = {
+  telkom: {
+    label: 'Telkom Red',
+    colors: { bg: '#f7f7f5', card: '#ffffff', text: '#1f2937', muted: '#6b7280', border: '#e5e7eb', accent: '#dc2626', chip: '#fef2f2' },
+  },
+  minimal: {
+    label: 'Minimal',
+    colors: { bg: '#ffffff', card: '#ffffff', text: '#111827', muted: '#6b7280', border: '#d1d5db', accent: '#2563eb', chip: '#eff6ff' },
+  },
+  dark: {
+    label: 'Dark',
+    colors: { bg: '#111827', card: '#1f2937', text: '#f3f4f6', muted: '#9ca3af', border: '#374151', accent: '#818cf8', chip: '#312e81' },
+  },
+};
+
+export interface PortfolioHighlight {
+  logId: string;
+  date: string;
+  text: string;
+}
+
+export interface PortfolioProject {
+  project: Project;
+  hours: number; // Logged on the project
+  days: number; // Distinct days with a linked log
+  highlights: PortfolioHighlight[];
+}
+
+export interface PortfolioSkill {
+  name: string;
+  level: number; // Self-assessed, 0 when not assessed
+}
+
+export interface Portfolio {
+  profile: InternProfile;
+  settings: PortfolioSettings;
+  start: string; // YYYY-MM-DD, empty when nothing is logged
+  end: string;
+  projects: PortfolioProject[];
+  skills: PortfolioSkill[];
+  generatedOn: string;
+}
+
+export const getCompletedProjects = (projects: Project[]) =>
+  projects
+    .filter(p => p.status === ProjectStatus.Completed)
+    .sort((a, b) => (b.endDate || b.startDate).localeCompare(a.endDate || a.startDate));
+
+const toHighlight = (log: DailyLog): PortfolioHighlight => ({ logId: log.id, date: log.date, text: getPreviewLine(log.activity) });
+
+/** Logs that could become a project's highlights, best first: approved by the mentor, then with the most written. */
+export const getHighlightCandidates = (project: Project, logs: DailyLog[]): DailyLog[] =>
+  logs
+    .filter(l => l.projectIds.includes(project.id) && !l.isDraft && getPreviewLine(l.activity))
+    .sort((a, b) =>
+      Number(b.review.status === ReviewStatus.Approved) - Number(a.review.status === ReviewStatus.Approved)
+      || b.activity.length - a.activity.length
+      || b.date.localeCompare(a.date));
+
+/** The picked highlights (or the best candidates when none were picked), oldest first. */
+export const getProjectHighlights = (project: Project, logs: DailyLog[], settings: PortfolioSettings): PortfolioHighlight[] => {
+  const picked = settings.highlights[project.id];
+  const chosen = picked
+    ? logs.filter(l => picked.includes(l.id))
+    : getHighlightCandidates(project, logs).slice(0, HIGHLIGHTS_PER_PROJECT);
+  return chosen.sort((a, b) => a.date.localeCompare(b.date)).map(toHighlight);
+};
+
+export const buildPortfolio = (data: AppData, today = todayKey()): Portfolio => {
+  const { settings, logs } = data;
+  const portfolio = settings.portfolio;
+  const projects = getCompletedProjects(data.projects).filter(p => !portfolio.excludedProjectIds.includes(p.id));
+
+  const dates = logs.map(l => l.date).sort();
+  const skills = new Map<string, PortfolioSkill>();
+  projects.forEach(p => p.techStack.forEach(tech => {
+    const name = resolveTag(tech, settings.tags);
+    const assessment = findAssessment(settings.skills, name);
+    if (tagKey(name) && !skills.has(tagKey(name)) && !assessment?.hidden) skills.set(tagKey(name), { name, level: assessment?.level ?? 0 });
+  }));
+
+  return {
+    profile: settings.profile,
+    settings: portfolio,
+    start: settings.calendar.internshipStart || dates[0] || '',
+    end: dates[dates.length - 1] || '',
+    projects: projects.map(project => {
+      const linked = logs.filter(l => l.projectIds.includes(project.id));
+      const hours = linked.reduce((sum, log) => sum + (getHoursForProject(log, project.id) ?? 0), 0);
+      return {
+        project,
+        hours: Math.round(hours * 10) / 10,
+        days: new Set(linked.map(l => l.date)).size,
+        highlights: getProjectHighlights(project, logs, portfolio),
+      };
+    }),
+    skills: Array.from(skills.values()).sort((a, b) => b.level - a.level || a.name.localeCompare(b.name)),
+    generatedOn: today,
+  };
+};
+
+const formatMonth = (key: string) => {
+  if (!key) return '';
+  const [year, month] = key.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
+
+const formatPeriod = (start: string, end: string) => [formatMonth(start), formatMonth(end) || 'Present'].filter(Boolean).join(' – ');
+
+// --- Plain text ---
+
+const inlineText = (nodes: Inline[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text': case 'code': return node.text;
+    case 'break': return ' ';
+    case 'image': return node.alt;
+    default: return inlineText(node.children);
+  }
+}).join('');
+
+const blocksText = (blocks: Block[]): string[] => blocks.flatMap(block => {
+  switch (block.type) {
+    case 'heading': case 'paragraph': return [inlineText(block.children)];
+    case 'list': return block.items.flatMap(item => blocksText(item.children));
+    case 'quote': return blocksText(block.children);
+    case 'code': return [block.text];
+    case 'table': return block.rows.map(row => row.map(inlineText).join(', '));
+    case 'rule': return [];
+  }
+});
+
+/** Markdown as plain lines, for formats that do not render it. */
+const toPlainLines = (markdown: string) => blocksText(parseMarkdown(markdown)).map(line => line.trim()).filter(Boolean);
+
+// --- HTML ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const inlineHtml = (nodes: Inline[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text': return escapeHtml(node.text);
+    case 'strong': return `<strong>${inlineHtml(node.children)}</strong>`;
+    case 'em': return `<em>${inlineHtml(node.children)}</em>`;
+    case 'del': return `<del>${inlineHtml(node.children)}</del>`;
+    case 'code': return `<code>${escapeHtml(node.text)}</code>`;
+    case 'link': return `<a href="${escapeHtml(node.href)}">${inlineHtml(node.children)}</a>`;
+    case 'break': return '<br>';
+    // Attachments only exist in this browser, so the page keeps their alt text
+    case 'image': return node.src.startsWith(ATTACHMENT_SCHEME) ? escapeHtml(node.alt) : `<img src="${escapeHtml(node.src)}" alt="${escapeHtml(node.alt)}">`;
+  }
+}).join('');
+
+// Link and image targets were already made safe by the parser
+const blocksHtml = (blocks: Block[]): string => blocks.map(block => {
+  switch (block.type) {
+    case 'heading': return `<h${Math.min(6, block.level + 3)}>${inlineHtml(block.children)}</h${Math.min(6, block.level + 3)}>`;
+    case 'paragraph': return `<p>${inlineHtml(block.children)}</p>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      const items = block.items.map(item => `<li>${item.checked === null ? '' : item.checked ? '☑ ' : '☐ '}${blocksHtml(item.children)}</li>`).join('');
+      return `<${tag}${block.ordered && block.start !== 1 ? ` start="${block.start}"` : ''}>${items}</${tag}>`;
+    }
+    case 'quote': return `<blockquote>${blocksHtml(block.children)}</blockquote>`;
+    case 'code': return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+    case 'table': return `<table><thead><tr>${block.header.map(cell => `<th>${inlineHtml(cell)}</th>`).join('')}</tr></thead>`
+      + `<tbody>${block.rows.map(row => `<tr>${row.map(cell => `<td>${inlineHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+    case 'rule': return '<hr>';
+  }
+}).join('\n');
+
+const markdownHtml = (text: string) => blocksHtml(parseMarkdown(text));
+
+const chips = (items: string[]) => items.map(item => `<span class="chip">${escapeHtml(item)}</span>`).join('');
+
+const projectHtml = ({ project, hours, days, highlights }: PortfolioProject) => `
+<article class="card">
+  <header>
+    <h3>${escapeHtml(project.name)}</h3>
+    <p class="muted">${escapeHtml([project.role, formatPeriod(project.startDate, project.endDate)].filter(Boolean).join(' · '))}</p>
+  </header>
+  ${project.description.trim() ? `<div class="prose">${markdownHtml(project.description)}</div>` : ''}
+  ${project.techStack.length ? `<div class="chips">${chips(project.techStack)}</div>` : ''}
+  ${highlights.length ? `<h4>Highlights</h4>
+  <ul class="highlights">${highlights.map(h => `<li><span class="muted">${escapeHtml(formatMonth(h.date))}</span> ${escapeHtml(h.text)}</li>`).join('')}</ul>` : ''}
+  ${project.deliverables.trim() ? `<h4>Deliverables</h4><div class="prose">${markdownHtml(project.deliverables)}</div>` : ''}
+  ${project.documents.length ? `<h4>Documents</h4><ul>${project.documents.map(d => `<li>${escapeHtml(d.name)}</li>`).join('')}</ul>` : ''}
+  ${days ? `<p class="muted small">${days} day${days === 1 ? '' : 's'} logged${hours ? `, ${hours} hours` : ''}</p>` : ''}
+</article>`;
+
+export const portfolioToHtml = (portfolio: Portfolio): string => {
+  const { profile, settings, projects, skills } = portfolio;
+  const c = PORTFOLIO_THEMES[settings.theme]?.colors ?? PORTFOLIO_THEMES.telkom.colors;
+  const name = profile.name || 'Internship Portfolio';
+  const subtitle = [settings.headline, profile.division && `${profile.division}, Telkom Indonesia`, profile.university].filter(Boolean);
+  const contact = [
+    settings.email && `<a href="mailto:${escapeHtml(settings.email)}">${escapeHtml(settings.email)}</a>`,
+    /^https?:\/\//i.test(settings.website) && `<a href="${escapeHtml(settings.website)}">${escapeHtml(settings.website.replace(/^https?:\/\//i, ''))}</a>`,
+    profile.city && escapeHtml(profile.city),
+  ].filter(Boolean);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(name)} · Portfolio</title>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; background: ${c.bg}; color: ${c.text}; font: 15px/1.6 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; }
+  main { max-width: 860px; margin: 0 auto; padding: 48px 24px; }
+  a { color: ${c.accent}; }
+  h1 { margin: 0; font-size: 2.2em; line-height: 1.2; }
+  h2 { margin: 40px 0 16px; font-size: 1em; text-transform: uppercase; letter-spacing: .08em; color: ${c.muted}; }
+  h3 { margin: 0; font-size: 1.25em; }
+  h4 { margin: 16px 0 4px; font-size: .8em; text-transform: uppercase; letter-spacing: .06em; color: ${c.muted}; }
+  .hero { border-left: 4px solid ${c.accent}; padding-left: 20px; }
+  .muted { color: ${c.muted}; margin: 4px 0 0; }
+  .small { font-size: .85em; margin-top: 16px; }
+  .contact { display: flex; flex-wrap: wrap; gap: 16px; margin-top: 12px; font-size: .9em; }
+  .card { background: ${c.card}; border: 1px solid ${c.border}; border-radius: 12px; padding: 24px; margin-bottom: 20px; }
+  .chips { display: flex; flex-wrap: wrap; gap: 6px; margin-top: 12px; }
+  .chip { background: ${c.chip}; color: ${c.accent}; border-radius: 999px; padding: 2px 10px; font-size: .8em; font-weight: 600; }
+  .chip small { opacity: .7; font-weight: 400; }
+  .prose p { margin: 8px 0; }
+  .prose ul, .prose ol, ul { margin: 4px 0; padding-left: 20px; }
+  .highlights .muted { display: inline; font-size: .85em; margin-right: 6px; }
+  pre { background: ${c.bg}; border: 1px solid ${c.border}; border-radius: 6px; padding: 12px; overflow-x: auto; }
+  code { font-size: .9em; }
+  table { border-collapse: collapse; } th, td { border: 1px solid ${c.border}; padding: 4px 8px; }
+  blockquote { margin: 8px 0; padding-left: 12px; border-left: 3px solid ${c.border}; color: ${c.muted}; }
+  footer { margin-top: 48px; font-size: .8em; color: ${c.muted}; text-align: center; }
+  @media print { body { background: #fff; } .card { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<main>
+  <section class="hero">
+    <h1>${escapeHtml(name)}</h1>
+    ${subtitle.length ? `<p class="muted">${escapeHtml(subtitle.join(' · '))}</p>` : ''}
+    ${portfolio.start ? `<p class="muted">Telkom DDP internship, ${escapeHtml(formatPeriod(portfolio.start, portfolio.end))}</p>` : ''}
+    ${contact.length ? `<div class="contact">${contact.map(item => `<span>${item}</span>`).join('')}</div>` : ''}
+  </section>
+  ${settings.summary.trim() ? `<h2>About</h2><div class="prose">${markdownHtml(settings.summary)}</div>` : ''}
+  ${skills.length ? `<h2>Skills</h2><div class="chips">${skills.map(s => `<span class="chip">${escapeHtml(s.name)}${s.level ? ` <small>${escapeHtml(SKILL_LEVELS[s.level])}</small>` : ''}</span>`).join('')}</div>` : ''}
+  <h2>Projects</h2>
+  ${projects.map(projectHtml).join('\n') || '<p class="muted">No completed projects yet.</p>'}
+  <footer>Generated ${escapeHtml(parseDateKey(portfolio.generatedOn).toLocaleDateString('en-US', { day: 'numeric', month: 'long', year: 'numeric' }))}</footer>
+</main>
+</body>
+</html>
+`;
+};
+
+// --- Markdown ---
+
+export const portfolioToMarkdown = (portfolio: Portfolio): string => {
+  const { profile, settings, projects, skills } = portfolio;
+  const lines = [
+    `# ${profile.name || 'Internship Portfolio'}`,
+    '',
+    [settings.headline, profile.division && `${profile.division}, Telkom Indonesia`, profile.university].filter(Boolean).join(' · '),
+    portfolio.start ? `Telkom DDP internship, ${formatPeriod(portfolio.start, portfolio.end)}` : '',
+    [settings.email, settings.website, profile.city].filter(Boolean).join(' · '),
+  ].filter((line, i) => i < 2 || line);
+
+  if (settings.summary.trim()) lines.push('', '## About', '', settings.summary.trim());
+  if (skills.length) lines.push('', '## Skills', '', skills.map(s => s.level ? `${s.name} (${SKILL_LEVELS[s.level]})` : s.name).join(', '));
+
+  lines.push('', '## Projects');
+  if (projects.length === 0) lines.push('', 'No completed projects yet.');
+  projects.forEach(({ project, hours, days, highlights }) => {
+    lines.push('', `### ${project.name}`, '', `*${[project.role, formatPeriod(project.startDate, project.endDate)].filter(Boolean).join(' · ')}*`);
+    if (project.description.trim()) lines.push('', project.description.trim());
+    if (project.techStack.length) lines.push('', `**Tech Stack:** ${project.techStack.join(', ')}`);
+    if (highlights.length) lines.push('', '**Highlights**', '', ...highlights.map(h => `- ${h.text} (${formatMonth(h.date)})`));
+    if (project.deliverables.trim()) lines.push('', '**Deliverables**', '', project.deliverables.trim());
+    if (project.documents.length) lines.push('', `**Documents:** ${project.documents.map(d => d.name).join(', ')}`);
+    if (days) lines.push('', `_${days} day${days === 1 ? '' : 's'} logged${hours ? `, ${hours} hours` : ''}_`);
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+// --- JSON Resume (https://jsonresume.org/schema) ---
+
+export const portfolioToJsonResume = (portfolio: Portfolio) => {
+  const { profile, settings, projects, skills } = portfolio;
+  const company = 'Telkom Indonesia';
+  return {
+    $schema: 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json',
+    basics: {
+      name: profile.name,
+      label: settings.headline,
+      email: settings.email || undefined,
+      url: settings.website || undefined,
+      summary: toPlainLines(settings.summary).join('\n'),
+      location: profile.city ? { city: profile.city } : undefined,
+    },
+    work: portfolio.start ? [{
+      name: company,
+      position: settings.headline || 'Intern',
+      startDate: portfolio.start,
+      endDate: portfolio.end || undefined,
+      summary: profile.division ? `DDP intern in ${profile.division}` : undefined,
+      highlights: projects.map(p => `${p.project.role ? `${p.project.role}, ` : ''}${p.project.name}`),
+    }] : [],
+    education: profile.university ? [{ institution: profile.university }] : [],
+    skills: skills.map(s => ({ name: s.name, level: s.level ? SKILL_LEVELS[s.level] : undefined, keywords: [] })),
+    projects: projects.map(({ project, highlights }) => ({
+      name: project.name,
+      description: toPlainLines(project.description).join(' '),
+      highlights: [...highlights.map(h => h.text), ...toPlainLines(project.deliverables).map(d => `Delivered: ${d}`)],
+      keywords: project.techStack,
+      startDate: project.startDate || undefined,
+      endDate: project.endDate || undefined,
+      roles: project.role ? [project.role] : [],
+      entity: company,
+      type: 'application',
+    })),
+    meta: { lastModified: portfolio.generatedOn },
+  };
+};
@@ -0,0 +1,28 @@
+import { DailyLog, Project } from '../types';
+import { getHoursForProject } from './timesheet';
+
+export interface ProjectActivity {
+  logs: DailyLog[]; // Oldest first
+  days: number;
+  hours: number; // Recorded in time entries only
+  untimedLogs: number; // Linked logs with no hours recorded for the project
+  latest?: DailyLog;
+}
+
+export const getProjectLogs = (projectId: string, logs: DailyLog[]): DailyLog[] =>
+  logs
+    .filter(l => l.projectIds.includes(projectId))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+export const getProjectActivity = (project: Project, logs: DailyLog[]): ProjectActivity => {
+  const linked = getProjectLogs(project.id, logs);
+  const days = new Set(linked.map(l => l.date)).size;
+  const recorded = linked.map(log => getHoursForProject(log, project.id));
+  return {
+    logs: linked,
+    days,
+    hours: Math.round(recorded.reduce<number>((sum, hours) => sum + (hours ?? 0), 0) * 10) / 10,
+    untimedLogs: recorded.filter(hours => hours === null).length,
+    latest: linked[linked.length - 1]
+  };
+};
@@ -0,0 +1,93 @@
+import { Project, ProjectStatus, ProjectTask } from '../types';
+import { parseDateKey, todayKey } from './calendar';
+
+// Scheduling helpers for the project timeline: spans, overdue checks,
+// dependency graphs and the critical path.
+
+export interface ProjectSpan {
+  start: string;
+  end: string;
+  openEnded: boolean; // No end date yet; the bar runs up to today
+}
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / 86400000);
+
+export const getProjectSpan = (project: Project, today = todayKey()): ProjectSpan => {
+  const start = project.startDate || project.endDate || today;
+  if (project.endDate) return { start, end: project.endDate < start ? start : project.endDate, openEnded: false };
+  return { start, end: today > start ? today : start, openEnded: true };
+};
+
+export const isProjectOverdue = (project: Project, today = todayKey()) =>
+  !!project.endDate && project.endDate < today && project.status !== ProjectStatus.Completed;
+
+/** True when `from` already depends on `target`, directly or through other items. */
+export const dependsOnTransitively = (
+  items: { id: string; dependsOn: string[] }[],
+  from: string,
+  target: string
+): boolean => {
+  const byId = new Map(items.map(i => [i.id, i.dependsOn]));
+  const seen = new Set<string>();
+  const stack = [from];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === target) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(byId.get(id) || []));
+  }
+  return false;
+};
+
+/** Items that `id` may depend on without creating a cycle. */
+export const getDependencyCandidates = <T extends { id: string; dependsOn: string[] }>(items: T[], id: string): T[] =>
+  items.filter(i => i.id !== id && !dependsOnTransitively(items, i.id, id));
+
+/**
+ * Longest chain of dependent projects measured in days, i.e. the sequence that
+ * decides the earliest possible finish. Empty when no project has dependencies.
+ */
+export const findCriticalPath = (projects: Project[], today = todayKey()): string[] => {
+  const byId = new Map(projects.map(p => [p.id, p]));
+  if (!projects.some(p => p.dependsOn.some(id => byId.has(id)))) return [];
+
+  const finish = new Map<string, { length: number; previous?: string }>();
+  const visiting = new Set<string>();
+
+  // Earliest finish in days from the start of the chain; cycles from imported data are cut
+  const visit = (id: string): number => {
+    const cached = finish.get(id);
+    if (cached) return cached.length;
+    if (visiting.has(id)) return 0;
+    visiting.add(id);
+
+    const project = byId.get(id)!;
+    const span = getProjectSpan(project, today);
+    let best = { length: 0, previous: undefined as string | undefined };
+    project.dependsOn.filter(dep => byId.has(dep)).forEach(dep => {
+      const length = visit(dep);
+      if (length > best.length) best = { length, previous: dep };
+    });
+
+    visiting.delete(id);
+    const result = { length: best.length + daysBetween(span.start, span.end) + 1, previous: best.previous };
+    finish.set(id, result);
+    return result.length;
+  };
+
+  let last: string | undefined;
+  projects.forEach(p => {
+    if (!last || visit(p.id) > visit(last)) last = p.id;
+  });
+
+  const path: string[] = [];
+  for (let id = last; id; id = finish.get(id)?.previous) path.unshift(id);
+  return path.length > 1 ? path : [];
+};
+
+export const removeTaskDependency = (taskId: string, tasks: ProjectTask[]): ProjectTask[] =>
+  tasks.map(t => t.dependsOn.includes(taskId)
+    ? { ...t, dependsOn: t.dependsOn.filter(id => id !== taskId) }
+    : t);
@@ -0,0 +1,58 @@
+import { Project, ProjectStatus, ProjectTask, TaskStatus } from '../types';
+import { todayKey } from './calendar';
+
+// Kanban task helpers and the task-based project progress.
+
+export const TASK_COLUMNS: TaskStatus[] = [TaskStatus.Todo, TaskStatus.InProgress, TaskStatus.Review, TaskStatus.Done];
+
+export interface ProjectProgress {
+  done: number;
+  total: number;
+  percent: number;
+}
+
+export const createTask = (title: string, status = TaskStatus.Todo): ProjectTask => ({
+  id: crypto.randomUUID(),
+  title,
+  status,
+  dueDate: '',
+  assignee: '',
+  checklist: [],
+  dependsOn: []
+});
+
+/**
+ * Share of tasks in Done. Projects without tasks fall back to their status so
+ * older projects still show as finished once marked Completed.
+ */
+export const getProjectProgress = (project: Project): ProjectProgress => {
+  const total = project.tasks.length;
+  if (total === 0) {
+    return { done: 0, total: 0, percent: project.status === ProjectStatus.Completed ? 100 : 0 };
+  }
+  const done = project.tasks.filter(t => t.status === TaskStatus.Done).length;
+  return { done, total, percent: Math.round((done / total) * 100) };
+};
+
+export const isTaskOverdue = (task: ProjectTask, today = todayKey()) =>
+  !!task.dueDate && task.dueDate < today && task.status !== TaskStatus.Done;
+
+/**
+ * Moves a task to a column, placing it before `beforeId` (or at the end of the
+ * column). Order is kept in the flat list, so columns are just filtered views.
+ */
+export const moveTask = (tasks: ProjectTask[], taskId: string, status: TaskStatus, beforeId?: string): ProjectTask[] => {
+  const task = tasks.find(t => t.id === taskId);
+  if (!task || taskId === beforeId) return tasks;
+  const moved = { ...task, status };
+  const rest = tasks.filter(t => t.id !== taskId);
+
+  const beforeIndex = beforeId ? rest.findIndex(t => t.id === beforeId) : -1;
+  if (beforeIndex >= 0) return [...rest.slice(0, beforeIndex), moved, ...rest.slice(beforeIndex)];
+
+  // Append after the last task already in the target column
+  const lastInColumn = rest.map(t => t.status).lastIndexOf(status);
+  return lastInColumn >= 0
+    ? [...rest.slice(0, lastInColumn + 1), moved, ...rest.slice(lastInColumn + 1)]
+    : [...rest, moved];
+};
@@ -0,0 +1,137 @@
+import { DailyLog, MonthlyReport, Project, TaskStatus } from '../types';
+import { AIError } from './aiProvider';
+import { generate, isJsonObject, jsonStringList, parseJsonResponse } from './aiService';
+import { MOCK_LABEL } from './mockProvider';
+import { getProjectProgress } from './projectTasks';
+
+// Drafts every section of a monthly report from that month's logs. The model must
+// answer with JSON in which every bullet cites the log dates it is based on, so
+// the intern can check each claim against the logbook before applying it.
+
+export type DraftSection = 'summary' | 'achievements' | 'challengesSolutions' | 'nextMonthPlan';
+
+export interface DraftBullet {
+  text: string;
+  sources: string[]; // YYYY-MM-DD dates of logs from the month
+  unverified: boolean; // None of the cited dates match a log
+}
+
+export type ReportDraft = Record<DraftSection, DraftBullet[]>;
+
+export const DRAFT_SECTIONS: { key: DraftSection; label: string }[] = [
+  { key: 'summary', label: 'Monthly Summary' },
+  { key: 'achievements', label: 'Key Achievements' },
+  { key: 'challengesSolutions', label: 'Challenges & Solutions' },
+  { key: 'nextMonthPlan', label: 'Next Month Plan' },
+];
+
+const SYSTEM_PROMPT = `You write monthly internship reports for the Telkom Digital Development Program.
+Only use facts present in the daily logs you are given. Every item must cite the dates (YYYY-MM-DD)
+of the logs it is based on. Respond with a single JSON object and nothing else.`;
+
+/** A log as prompt text, also used when answering logbook questions. */
+export const describeLog = (log: DailyLog, projectNames: Map<string, string>) => [
+  `## ${log.date} (${log.attendance})`,
+  `Activity: ${log.activity}`,
+  `Learnings: ${log.learnings}`,
+  `Challenges: ${log.challenges}`,
+  log.tags.length > 0 ? `Tags: ${log.tags.join(', ')}` : '',
+  log.projectIds.length > 0 ? `Projects: ${log.projectIds.map(id => projectNames.get(id)).filter(Boolean).join(', ')}` : '',
+].filter(Boolean).join('\n');
+
+const describeProject = (project: Project) => {
+  const progress = getProjectProgress(project);
+  const openTasks = project.tasks.filter(t => t.status !== TaskStatus.Done).map(t => t.title);
+  return [
+    `- ${project.name} (${project.status}, ${progress.percent}% of tasks done, role: ${project.role})`,
+    project.description ? `  Description: ${project.description}` : '',
+    openTasks.length > 0 ? `  Open tasks: ${openTasks.join('; ')}` : '',
+  ].filter(Boolean).join('\n');
+};
+
+// Cites no logs, so every sample bullet is shown as unverified
+const buildSample = (logs: DailyLog[]): string => {
+  const bullet = (text: string) => [{ text: `${MOCK_LABEL} ${text}`, sources: [] }];
+  return JSON.stringify({
+    summary: bullet(`Logged ${logs.length} day(s) of internship activity this month.`),
+    achievements: bullet('Completed the work recorded in the daily logbook.'),
+    challengesSolutions: bullet('Challenge: as noted in the logs. Solution: as noted in the logs.'),
+    nextMonthPlan: bullet('Continue the ongoing project work.'),
+  }, null, 2);
+};
+
+const buildPrompt = (month: string, logs: DailyLog[], projects: Project[]) => {
+  const projectNames = new Map(projects.map(p => [p.id, p.name]));
+  const linkedProjects = projects.filter(p => logs.some(l => l.projectIds.includes(p.id)));
+  return `Draft the monthly report for ${month}.
+
+Return JSON with exactly these keys, each a list of items shaped {"text": string, "sources": ["YYYY-MM-DD", ...]}:
+- "summary": 1-3 items that together form a short paragraph about the month
+- "achievements": concrete results and deliverables
+- "challengesSolutions": each item states a challenge from the logs and how it was handled
+- "nextMonthPlan": next steps, grounded in unfinished work, open tasks and recurring challenges
+
+Projects worked on:
+${linkedProjects.map(describeProject).join('\n') || '- none linked'}
+
+Daily logs:
+${logs.map(l => describeLog(l, projectNames)).join('\n\n')}`;
+};
+
+/** Validates the model output and marks bullets whose citations don't match any log. */
+export const parseReportDraft = (text: string, logDates: Set<string>): ReportDraft => {
+  const parsed = parseJsonResponse(text);
+  if (!isJsonObject(parsed)) throw new AIError('The AI response is not a JSON object.', 'format');
+  const draft = {} as ReportDraft;
+  DRAFT_SECTIONS.forEach(({ key }) => {
+    const items = parsed[key];
+    if (!Array.isArray(items)) throw new AIError(`The AI response is missing the "${key}" list.`, 'format');
+    draft[key] = items.map((item: unknown, index) => {
+      if (!isJsonObject(item) || typeof item.text !== 'string' || !item.text.trim()) {
+        throw new AIError(`Item ${index + 1} of "${key}" has no text.`, 'format');
+      }
+      const sources = Array.from(new Set(jsonStringList(item.sources).filter(date => logDates.has(date)))).sort();
+      return { text: item.text.trim(), sources, unverified: sources.length === 0 };
+    });
+  });
+  return draft;
+};
+
+export const generateReportDraft = async (
+  month: string,
+  logs: DailyLog[],
+  projects: Project[],
+  signal?: AbortSignal
+): Promise<ReportDraft> => {
+  const monthLogs = logs.filter(l => l.date.startsWith(month)).sort((a, b) => a.date.localeCompare(b.date));
+  if (monthLogs.length === 0) throw new AIError('No logs found for this month to draft from.', 'config');
+
+  const request = { system: SYSTEM_PROMPT, prompt: buildPrompt(month, monthLogs, projects), json: true, signal, sample: buildSample(monthLogs) };
+  const logDates = new Set(monthLogs.map(l => l.date));
+
+  // Models occasionally break the format; ask once more with the problem spelled out
+  try {
+    return parseReportDraft(await generate(request), logDates);
+  } catch (error) {
+    if (!(error instanceof AIError) || error.kind !== 'format') throw error;
+    const retry = { ...request, prompt: `${request.prompt}\n\nYour previous answer was rejected: ${error.message} Follow the JSON format exactly.` };
+    return parseReportDraft(await generate(retry), logDates);
+  }
+};
+
+const formatBullet = (bullet: DraftBullet) =>
+  `- ${bullet.text}${bullet.sources.length > 0 ? ` (${bullet.sources.join(', ')})` : ' (unverified)'}`;
+
+/** Report fields for the chosen sections; the summary becomes a paragraph with its sources listed after it. */
+export const draftToReportFields = (draft: ReportDraft, sections: DraftSection[]): Partial<MonthlyReport> => {
+  const fields: Partial<MonthlyReport> = {};
+  sections.forEach(section => {
+    if (section === 'summary') {
+      const sources = Array.from(new Set(draft.summary.flatMap(b => b.sources))).sort();
+      fields.summary = `${draft.summary.map(b => b.text).join(' ')}${sources.length > 0 ? `\n\nSources: ${sources.join(', ')}` : ''}`;
+    } else {
+      fields[section] = draft[section].map(formatBullet).join('\n');
+    }
+  });
+  return fields;
+};
@@ -0,0 +1,52 @@
+import { CurrentUser, Review, ReviewComment, ReviewStatus, UserRole } from '../types';
+
+// Mentor review of logs and reports: Draft → Submitted → Approved / Needs Revision.
+// Interns submit, mentors decide; an approved entry is frozen until a mentor reopens it.
+
+export const createReview = (): Review => ({ status: ReviewStatus.Draft, comments: [] });
+
+export const isLocked = (review: Review | undefined) => review?.status === ReviewStatus.Approved;
+
+// Status changes each role may make from a given status, with the button label for each
+const TRANSITIONS: Record<UserRole, Partial<Record<ReviewStatus, { to: ReviewStatus; label: string }[]>>> = {
+  intern: {
+    [ReviewStatus.Draft]: [{ to: ReviewStatus.Submitted, label: 'Submit for review' }],
+    [ReviewStatus.NeedsRevision]: [{ to: ReviewStatus.Submitted, label: 'Resubmit' }],
+    [ReviewStatus.Submitted]: [{ to: ReviewStatus.Draft, label: 'Withdraw' }],
+  },
+  mentor: {
+    [ReviewStatus.Submitted]: [
+      { to: ReviewStatus.Approved, label: 'Approve' },
+      { to: ReviewStatus.NeedsRevision, label: 'Request revision' },
+    ],
+    [ReviewStatus.Draft]: [{ to: ReviewStatus.NeedsRevision, label: 'Request revision' }],
+    [ReviewStatus.Approved]: [{ to: ReviewStatus.NeedsRevision, label: 'Reopen' }],
+  },
+};
+
+export const getTransitions = (status: ReviewStatus, role: UserRole) => TRANSITIONS[role][status] || [];
+
+export const getAuthorName = (user: CurrentUser, internName: string) =>
+  user.name.trim() || (user.role === 'mentor' ? 'Mentor' : internName || 'Intern');
+
+const createComment = (user: CurrentUser, internName: string, text: string, status?: ReviewStatus): ReviewComment => ({
+  id: crypto.randomUUID(),
+  author: getAuthorName(user, internName),
+  role: user.role,
+  text: text.trim(),
+  createdAt: new Date().toISOString(),
+  ...(status ? { status } : {}),
+});
+
+export const addComment = (review: Review, user: CurrentUser, internName: string, text: string): Review => ({
+  ...review,
+  comments: [...review.comments, createComment(user, internName, text)],
+});
+
+/** Moves a review to a new status, recording who did it (and an optional note) in the thread. */
+export const changeStatus = (review: Review, to: ReviewStatus, user: CurrentUser, internName: string, note = ''): Review => {
+  if (!getTransitions(review.status, user.role).some(t => t.to === to)) {
+    throw new Error(`A ${user.role} cannot move an entry from ${review.status} to ${to}.`);
+  }
+  return { status: to, comments: [...review.comments, createComment(user, internName, note, to)] };
+};
@@ -0,0 +1,53 @@
+import { ViewState } from '../types';
+
+// Hash-based routing, so links work on any static host without server rewrites:
+//   #/                      dashboard
+//   #/logs?q=api&tag=React  a view with its filters in the query string
+//   #/logs/<id>             a log open in the editor
+//   #/reports/2026-09       the report for a month
+//   #/projects/<id>         a project open in the editor
+
+export type RouteQuery = Record<string, string>;
+
+export interface Route {
+  view: ViewState;
+  id?: string; // Record open in the view: a log or project id, or a report month
+  query: RouteQuery;
+}
+
+const VIEWS: ViewState[] = ['dashboard', 'logs', 'timesheet', 'reports', 'projects', 'goals', 'skills', 'tags', 'trash', 'settings'];
+
+const decodePart = (part: string) => {
+  try {
+    return decodeURIComponent(part);
+  } catch {
+    return part; // Malformed escape in a hand-edited link
+  }
+};
+
+export const parseRoute = (hash: string): Route => {
+  const [path, search = ''] = hash.replace(/^#\/?/, '').split('?');
+  const [view = '', id] = path.split('/').filter(Boolean).map(decodePart);
+  const query: RouteQuery = {};
+  new URLSearchParams(search).forEach((value, key) => {
+    if (value) query[key] = value;
+  });
+  if (!VIEWS.includes(view as ViewState) || view === 'dashboard') return { view: 'dashboard', query: {} };
+  return { view: view as ViewState, id, query };
+};
+
+export const formatRoute = ({ view, id, query }: Route): string => {
+  const path = view === 'dashboard' ? '' : [view, id].filter(Boolean).map(part => encodeURIComponent(part!)).join('/');
+  const search = new URLSearchParams(Object.entries(query).filter(([, value]) => value)).toString();
+  return `#/${path}${search ? `?${search}` : ''}`;
+};
+
+export const readRoute = (): Route => parseRoute(window.location.hash);
+
+/** Sets (or, with an empty value, removes) one query parameter. */
+export const setQueryParam = (query: RouteQuery, key: string, value: string): RouteQuery => {
+  const next = { ...query };
+  if (value) next[key] = value;
+  else delete next[key];
+  return next;
+};
@@ -0,0 +1,199 @@
+import { DailyLog, Project } from '../types';
+
+// Local full-text search over workspace records: an inverted index ranked with BM25,
+// where query words also match prefixes and near-misses so typos still find entries.
+
+export interface SearchDocument {
+  id: string;
+  fields: [text: string, weight: number][];
+}
+
+export interface SearchIndex {
+  postings: Map<string, Map<string, number>>; // term -> document id -> weighted term frequency
+  lengths: Map<string, number>; // document id -> weighted number of terms
+  averageLength: number;
+  docCount: number;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  terms: string[]; // Index terms that matched, for highlighting
+}
+
+export interface TextPart {
+  text: string;
+  match: boolean;
+}
+
+// Tags and project names say more about an entry than any single word of prose
+const FIELD_WEIGHTS = { activity: 1, learnings: 1, challenges: 1, tags: 2, projects: 1.5 };
+
+const K1 = 1.2;
+const B = 0.75;
+const PREFIX_WEIGHT = 0.8;
+const FUZZY_WEIGHT = 0.6;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'me', 'my', 'of', 'on', 'or', 'that', 'the', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'with',
+  // Common Indonesian function words, since many logs are written in Bahasa
+  'dan', 'di', 'ke', 'dari', 'yang', 'untuk', 'dengan', 'ini', 'itu', 'pada', 'saya',
+]);
+
+export const normalizeTerm = (word: string) => word.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export const tokenize = (text: string): string[] =>
+  (normalizeTerm(text).match(/[a-z0-9]+/g) || []).filter(t => !STOP_WORDS.has(t));
+
+export const buildIndex = (documents: SearchDocument[]): SearchIndex => {
+  const postings = new Map<string, Map<string, number>>();
+  const lengths = new Map<string, number>();
+
+  documents.forEach(({ id, fields }) => {
+    let length = 0;
+    fields.forEach(([text, weight]) => {
+      tokenize(text).forEach(term => {
+        let docs = postings.get(term);
+        if (!docs) postings.set(term, docs = new Map());
+        docs.set(id, (docs.get(id) || 0) + weight);
+        length += weight;
+      });
+    });
+    lengths.set(id, length);
+  });
+
+  const total = Array.from(lengths.values()).reduce((sum, l) => sum + l, 0);
+  return { postings, lengths, averageLength: documents.length > 0 ? total / documents.length : 0, docCount: documents.length };
+};
+
+export const logToDocument = (log: DailyLog, projectNames: Map<string, string>): SearchDocument => ({
+  id: log.id,
+  fields: [
+    [log.activity, FIELD_WEIGHTS.activity],
+    [log.learnings, FIELD_WEIGHTS.learnings],
+    [log.challenges, FIELD_WEIGHTS.challenges],
+    [log.tags.join(' '), FIELD_WEIGHTS.tags],
+    [log.projectIds.map(id => projectNames.get(id) || '').join(' '), FIELD_WEIGHTS.projects],
+  ],
+});
+
+export const buildSearchIndex = (logs: DailyLog[], projects: Project[]): SearchIndex => {
+  const projectNames = new Map(projects.map(p => [p.id, p.name]));
+  return buildIndex(logs.map(log => logToDocument(log, projectNames)));
+};
+
+// Optimal string alignment distance, giving up once it exceeds `max`
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) value = Math.min(value, prevPrev[j - 2] + 1);
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+const allowedTypos = (term: string) => term.length < 4 ? 0 : term.length < 8 ? 1 : 2;
+
+/** Index terms a query word should match, with how much a match on each counts. */
+const expandTerm = (index: SearchIndex, word: string): Map<string, number> => {
+  const matches = new Map<string, number>();
+  if (index.postings.has(word)) matches.set(word, 1);
+  const typos = allowedTypos(word);
+  index.postings.forEach((_, term) => {
+    if (term === word) return;
+    if (word.length >= 3 && term.startsWith(word)) matches.set(term, PREFIX_WEIGHT);
+    else if (typos > 0 && editDistance(word, term, typos) <= typos) matches.set(term, FUZZY_WEIGHT);
+  });
+  return matches;
+};
+
+/** Documents matching the query, best first. Each query word counts once, through its best-scoring variant. */
+export const searchDocuments = (index: SearchIndex, query: string): SearchHit[] => {
+  const words = Array.from(new Set(tokenize(query)));
+  const scores = new Map<string, number>();
+  const matched = new Map<string, Set<string>>();
+
+  words.forEach(word => {
+    const best = new Map<string, number>();
+    expandTerm(index, word).forEach((weight, term) => {
+      const docs = index.postings.get(term)!;
+      const idf = Math.log(1 + (index.docCount - docs.size + 0.5) / (docs.size + 0.5));
+      docs.forEach((tf, id) => {
+        const norm = K1 * (1 - B + B * (index.lengths.get(id)! / (index.averageLength || 1)));
+        const score = weight * idf * (tf * (K1 + 1)) / (tf + norm);
+        if (score > (best.get(id) || 0)) best.set(id, score);
+        if (!matched.has(id)) matched.set(id, new Set());
+        matched.get(id)!.add(term);
+      });
+    });
+    best.forEach((score, id) => scores.set(id, (scores.get(id) || 0) + score));
+  });
+
+  return Array.from(scores, ([id, score]) => ({ id, score, terms: Array.from(matched.get(id)!) }))
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Scores `text` against a short query typed character by character (a palette filter):
+ * every query character must appear in order; runs and word starts score higher. 0 means no match.
+ */
+export const fuzzyMatch = (query: string, text: string): number => {
+  const q = normalizeTerm(query).replace(/\s+/g, '');
+  const t = normalizeTerm(text);
+  if (!q) return 1;
+  let score = 0;
+  let run = 0;
+  let from = 0;
+  for (const char of q) {
+    const at = t.indexOf(char, from);
+    if (at === -1) return 0;
+    run = at === from ? run + 1 : 1;
+    score += run + (at === 0 || /[^a-z0-9]/.test(t[at - 1]) ? 2 : 0);
+    from = at + 1;
+  }
+  // Prefer shorter texts when the match is otherwise equal
+  return score / Math.sqrt(t.length);
+};
+
+/**
+ * An excerpt of `text` around the first matched term, split into plain and highlighted parts.
+ * Returns the start of the text unhighlighted when nothing matches.
+ */
+export const getSnippet = (text: string, terms: string[], radius = 60): TextPart[] => {
+  const wanted = new Set(terms);
+  const words = Array.from(text.matchAll(/[\p{L}\p{N}]+/gu));
+  const first = words.find(w => wanted.has(normalizeTerm(w[0])));
+  if (!first) return [{ text: text.length > radius * 2 ? `${text.slice(0, radius * 2)}...` : text, match: false }];
+
+  // Start the excerpt on a word boundary
+  let start = Math.max(0, first.index! - radius);
+  const space = text.indexOf(' ', start);
+  if (start > 0 && space !== -1 && space < first.index!) start = space + 1;
+  const end = Math.min(text.length, first.index! + first[0].length + radius);
+  const parts: TextPart[] = [];
+  let cursor = start;
+  words.forEach(w => {
+    const at = w.index!;
+    if (at < start || at + w[0].length > end || !wanted.has(normalizeTerm(w[0]))) return;
+    if (at > cursor) parts.push({ text: text.slice(cursor, at), match: false });
+    parts.push({ text: w[0], match: true });
+    cursor = at + w[0].length;
+  });
+  if (cursor < end) parts.push({ text: text.slice(cursor, end), match: false });
+  if (start > 0) parts.unshift({ text: '...', match: false });
+  if (end < text.length) parts.push({ text: '...', match: false });
+  return parts;
+};
@@ -0,0 +1,104 @@
+import { DailyLog, Project } from '../types';
+import { embedTexts, getEmbeddingModelKey } from './aiService';
+import { openDatabase, requestToPromise, transactionDone, STORES } from './db';
+
+// Meaning-based search through the active AI provider's embedding model. Log
+// vectors are cached in IndexedDB under the intern, the model and a hash of the
+// embedded text, so only new or edited entries are sent to the provider on later
+// searches. The store is shared by every workspace on the device.
+
+export interface RankedLog {
+  id: string;
+  score: number;
+}
+
+/** Every cached vector of one intern, whichever model made it. */
+export const embeddingRange = (internId: string) => IDBKeyRange.bound(`${internId}|`, `${internId}|\uffff`);
+
+// Reciprocal rank fusion constant; larger values flatten the gap between top ranks
+const RRF_K = 60;
+
+const describeLog = (log: DailyLog, projectNames: Map<string, string>) => [
+  log.date,
+  log.activity,
+  log.learnings,
+  log.challenges,
+  log.tags.join(', '),
+  log.projectIds.map(id => projectNames.get(id)).filter(Boolean).join(', '),
+].filter(Boolean).join('\n');
+
+const hashText = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const cosine = (a: number[], b: number[]) => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/** Vectors for every log, embedding only those missing from the cache and dropping the intern's stale ones; other interns' vectors are left alone. */
+const getLogVectors = async (logs: DailyLog[], projects: Project[], internId: string, modelKey: string, signal?: AbortSignal) => {
+  const projectNames = new Map(projects.map(p => [p.id, p.name]));
+  const texts = logs.map(log => describeLog(log, projectNames));
+  const prefix = `${internId}|${modelKey}|`;
+  const keys = await Promise.all(texts.map(async text => `${prefix}${await hashText(text)}`));
+
+  const db = await openDatabase();
+  const readTx = db.transaction(STORES.embeddings, 'readonly');
+  const store = readTx.objectStore(STORES.embeddings);
+  const [cached, storedKeys] = await Promise.all([
+    Promise.all(keys.map(key => requestToPromise<number[] | undefined>(store.get(key)))),
+    requestToPromise(store.getAllKeys(embeddingRange(internId))),
+  ]);
+
+  const missing = keys.flatMap((_, i) => cached[i] ? [] : [i]);
+  const fresh = missing.length > 0 ? await embedTexts(missing.map(i => texts[i]), signal) : [];
+
+  const writeTx = db.transaction(STORES.embeddings, 'readwrite');
+  const writeStore = writeTx.objectStore(STORES.embeddings);
+  missing.forEach((i, n) => {
+    cached[i] = fresh[n];
+    writeStore.put(fresh[n], keys[i]);
+  });
+  const current = new Set(keys);
+  storedKeys.forEach(key => {
+    if (String(key).startsWith(prefix) && !current.has(String(key))) writeStore.delete(key);
+  });
+  await transactionDone(writeTx);
+
+  return logs.map((log, i) => ({ id: log.id, vector: cached[i]! }));
+};
+
+/** Every log ranked by similarity to the query, most similar first. */
+export const semanticSearch = async (
+  query: string,
+  logs: DailyLog[],
+  projects: Project[],
+  internId: string,
+  signal?: AbortSignal
+): Promise<RankedLog[]> => {
+  if (!query.trim() || logs.length === 0) return [];
+  const modelKey = getEmbeddingModelKey();
+  const [logVectors, [queryVector]] = await Promise.all([
+    getLogVectors(logs, projects, internId, modelKey, signal),
+    embedTexts([query], signal),
+  ]);
+  return logVectors
+    .map(({ id, vector }) => ({ id, score: cosine(queryVector, vector) }))
+    .sort((a, b) => b.score - a.score);
+};
+
+/** Merges keyword and semantic rankings; a log ranked highly by either comes out near the top. */
+export const fuseRankings = (rankings: RankedLog[][]): RankedLog[] => {
+  const scores = new Map<string, number>();
+  rankings.forEach(ranking => ranking.forEach(({ id }, rank) => {
+    scores.set(id, (scores.get(id) || 0) + 1 / (RRF_K + rank + 1));
+  }));
+  return Array.from(scores, ([id, score]) => ({ id, score })).sort((a, b) => b.score - a.score);
+};
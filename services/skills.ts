@@ -0,0 +1,132 @@
+import { DailyLog, Project, SkillAssessment, TagDefinition } from '../types';
+import { findTag, resolveTag, tagKey } from './tags';
+import { todayKey } from './calendar';
+import { toCsv } from './csv';
+
+// The skills matrix: every technology or skill found in project tech stacks, log tags
+// and learnings, with how often and where it was used, next to the intern's own
+// assessment. Names go through the tag registry, so "ReactJS" in a tech stack and a
+// "React" tag with that alias count as one skill.
+
+export const SKILL_LEVELS = ['Not assessed', 'Aware', 'Beginner', 'Competent', 'Proficient', 'Expert'];
+
+export type SkillSource = 'project' | 'tag' | 'learnings' | 'manual';
+
+export const SKILL_SOURCE_LABELS: Record<SkillSource, string> = {
+  project: 'Tech stack',
+  tag: 'Log tags',
+  learnings: 'Learnings',
+  manual: 'Added by hand',
+};
+
+export interface SkillRow {
+  name: string;
+  sources: SkillSource[];
+  days: number; // Distinct days with a log tagged with or mentioning the skill
+  projectDays: number; // Distinct days logged on projects with the skill in their tech stack
+  firstSeen?: string; // YYYY-MM-DD
+  lastSeen?: string;
+  projectIds: string[];
+  level: number;
+  target: number;
+  hidden: boolean;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match that also works for names like "C++" or "Node.js"
+const mentionPattern = (spellings: string[]) =>
+  new RegExp(`(?<![\\w])(${spellings.map(escapeRegExp).join('|')})(?![\\w])`, 'i');
+
+export const findAssessment = (assessments: SkillAssessment[], name: string) =>
+  assessments.find(a => tagKey(a.name) === tagKey(name));
+
+export const buildSkillMatrix = (
+  logs: DailyLog[],
+  projects: Project[],
+  registry: TagDefinition[],
+  assessments: SkillAssessment[],
+  today = todayKey()
+): SkillRow[] => {
+  const skills = new Map<string, { name: string; sources: Set<SkillSource> }>();
+  const add = (raw: string, source: SkillSource) => {
+    const name = resolveTag(raw, registry);
+    const key = tagKey(name);
+    if (!key) return;
+    if (!skills.has(key)) skills.set(key, { name, sources: new Set() });
+    skills.get(key)!.sources.add(source);
+  };
+  projects.forEach(p => p.techStack.forEach(tech => add(tech, 'project')));
+  logs.forEach(log => log.tags.forEach(tag => add(tag, 'tag')));
+  assessments.forEach(a => {
+    if (!skills.has(tagKey(resolveTag(a.name, registry)))) add(a.name, 'manual');
+  });
+
+  return Array.from(skills.entries()).map(([key, { name, sources }]) => {
+    const isSkill = (value: string) => tagKey(resolveTag(value, registry)) === key;
+    const stackProjects = projects.filter(p => p.techStack.some(isSkill));
+    const stackIds = new Set(stackProjects.map(p => p.id));
+    const pattern = mentionPattern([name, ...(findTag(registry, name)?.aliases || [])]);
+
+    const projectIds = new Set(stackIds);
+    const dates = new Set<string>();
+    const projectDates = new Set<string>();
+    logs.forEach(log => {
+      const tagged = log.tags.some(isSkill);
+      const mentioned = pattern.test(log.learnings);
+      if (mentioned) sources.add('learnings');
+      if (tagged || mentioned) {
+        log.projectIds.forEach(id => projectIds.add(id));
+        dates.add(log.date);
+      }
+      // A day on a stack project doesn't show the skill itself was used, so it is counted apart
+      if (log.projectIds.some(id => stackIds.has(id))) projectDates.add(log.date);
+    });
+
+    // Projects count from their start, and up to their end once it has passed
+    const seen = [...dates, ...stackProjects.flatMap(p => [p.startDate, p.endDate && p.endDate <= today ? p.endDate : ''])]
+      .filter(Boolean)
+      .sort();
+    const assessment = findAssessment(assessments, name);
+    return {
+      name,
+      sources: Array.from(sources),
+      days: dates.size,
+      projectDays: projectDates.size,
+      firstSeen: seen[0],
+      lastSeen: seen[seen.length - 1],
+      projectIds: projects.filter(p => projectIds.has(p.id)).map(p => p.id),
+      level: assessment?.level ?? 0,
+      target: assessment?.target ?? 0,
+      hidden: !!assessment?.hidden,
+    };
+  });
+};
+
+/** Sets part of a skill's assessment, adding the skill to the list if needed. */
+export const setSkillAssessment = (assessments: SkillAssessment[], name: string, changes: Partial<Omit<SkillAssessment, 'name'>>): SkillAssessment[] => {
+  const existing = findAssessment(assessments, name);
+  if (!existing) return [...assessments, { name, level: 0, target: 0, ...changes }];
+  return assessments.map(a => a === existing ? { ...a, ...changes } : a);
+};
+
+export const removeSkillAssessment = (assessments: SkillAssessment[], name: string) =>
+  assessments.filter(a => tagKey(a.name) !== tagKey(name));
+
+export const skillsToCsv = (rows: SkillRow[], projects: Project[]): string => {
+  const projectNames = new Map(projects.map(p => [p.id, p.name]));
+  return toCsv(
+    ['Skill', 'Current Level', 'Target Level', 'Days Used', 'Days on Stack Projects', 'First Seen', 'Last Seen', 'Projects', 'Found In'],
+    rows.map(r => [
+      r.name,
+      r.level ? `${r.level} - ${SKILL_LEVELS[r.level]}` : '',
+      r.target ? `${r.target} - ${SKILL_LEVELS[r.target]}` : '',
+      r.days,
+      r.projectDays,
+      r.firstSeen,
+      r.lastSeen,
+      r.projectIds.map(id => projectNames.get(id)).join('; '),
+      r.sources.map(s => SKILL_SOURCE_LABELS[s]).join('; '),
+    ])
+  );
+};
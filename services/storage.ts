@@ -0,0 +1,470 @@
+import { AppData, AttendanceLimits, DailyLog, InternAccount, MonthlyReport, PortfolioSettings, Project, ReviewStatus, TrashItem, WorkspaceSettings } from '../types';
+import { openDatabase, requestToPromise, transactionDone, DEFAULT_INTERN_ID, STORES, RECORD_STORES, WORKSPACE_STORES } from './db';
+import { outboxRange } from './outbox';
+import { embeddingRange } from './semanticSearch';
+
+// Versioned persistence for AppData.
+// Records live in one IndexedDB object store per entity; the data schema version is kept
+// in the meta store and upgraded through MIGRATIONS before the app ever sees the data.
+// Each intern in the workspace has their own AppData: stored records are keyed by the
+// owner's `internId` and their own id (records from before multi-intern support belong to
+// the default intern), and settings are kept under a per-intern meta key.
+
+export const SCHEMA_VERSION = 18;
+
+export { DEFAULT_INTERN_ID };
+
+const LEGACY_STORAGE_KEY = 'telkom_ddp_data_v1';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const SETTINGS_KEY = 'settings';
+const INTERNS_KEY = 'interns';
+
+export class StorageError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+type RecordCollection = typeof RECORD_STORES[number];
+type WorkspaceCollection = typeof WORKSPACE_STORES[number];
+type Payload = Record<string, any>;
+type Migration = (payload: Payload) => Payload;
+type StoredRecord = { id: string; internId?: string };
+
+export const DEFAULT_ATTENDANCE_LIMITS: AttendanceLimits = {
+  maxSickDays: 3,
+  maxPermissionDays: 2,
+  maxWfhDays: 0,
+  warningThreshold: 80
+};
+
+export const createDefaultPortfolio = (): PortfolioSettings => ({
+  headline: '',
+  summary: '',
+  email: '',
+  website: '',
+  theme: 'telkom',
+  excludedProjectIds: [],
+  highlights: {},
+});
+
+export const createDefaultSettings = (): WorkspaceSettings => ({
+  attendanceLimits: { ...DEFAULT_ATTENDANCE_LIMITS },
+  calendar: { internshipStart: '', leaveDays: [] },
+  timesheet: { dailyTargetHours: 8 },
+  templates: [],
+  snippets: [],
+  tags: [],
+  skills: [],
+  objectives: [],
+  portfolio: createDefaultPortfolio(),
+  profile: {
+    name: '',
+    studentId: '',
+    university: '',
+    division: '',
+    mentorName: '',
+    supervisorName: '',
+    city: ''
+  }
+});
+
+export const createEmptyWorkspace = (): AppData => ({
+  logs: [],
+  reports: [],
+  projects: [],
+  trash: [],
+  settings: createDefaultSettings()
+});
+
+// --- Migrations ---
+
+const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+const isPayload = (value: unknown): value is Payload => typeof value === 'object' && value !== null;
+
+const withAttachmentIds = (attachments: unknown) =>
+  asArray(attachments).filter(isPayload).map(a => ({ ...a, id: a.id || crypto.randomUUID() }));
+
+// MIGRATIONS[n] upgrades a version n payload to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 is the single localStorage blob. New records were created from templates that
+  // did not always set the array fields, so fill them in here.
+  1: payload => {
+    if (!Array.isArray(payload.logs) || !Array.isArray(payload.reports) || !Array.isArray(payload.projects)) {
+      throw new StorageError('Saved data is missing the logs, reports or projects list.');
+    }
+    return {
+      logs: payload.logs.map((log: Payload) => ({
+        ...log,
+        tags: asArray(log.tags),
+        attachments: withAttachmentIds(log.attachments)
+      })),
+      reports: payload.reports.map((report: Payload) => ({
+        ...report,
+        linkedLogIds: asArray(report.linkedLogIds),
+        files: withAttachmentIds(report.files)
+      })),
+      projects: payload.projects.map((project: Payload) => ({
+        ...project,
+        techStack: asArray(project.techStack),
+        documents: withAttachmentIds(project.documents)
+      }))
+    };
+  },
+  // v3 adds workspace settings (intern profile for printed reports)
+  2: payload => ({ ...payload, settings: createDefaultSettings() }),
+  // v4 adds monthly attendance limits
+  3: payload => ({
+    ...payload,
+    settings: { ...payload.settings, attendanceLimits: { ...DEFAULT_ATTENDANCE_LIMITS } }
+  }),
+  // v5 adds the working calendar (internship start and leave days)
+  4: payload => ({
+    ...payload,
+    settings: { ...payload.settings, calendar: { internshipStart: '', leaveDays: [] } }
+  }),
+  // v6 links daily logs to projects
+  5: payload => ({
+    ...payload,
+    logs: payload.logs.map((log: Payload) => ({ ...log, projectIds: asArray(log.projectIds) }))
+  }),
+  // v7 adds timesheet settings; the time fields on logs are optional
+  6: payload => ({
+    ...payload,
+    settings: { ...payload.settings, timesheet: { dailyTargetHours: 8 } }
+  }),
+  // v8 adds Kanban tasks to projects
+  7: payload => ({
+    ...payload,
+    projects: payload.projects.map((project: Payload) => ({ ...project, tasks: asArray(project.tasks) }))
+  }),
+  // v9 adds milestones and dependencies between projects and between tasks
+  8: payload => ({
+    ...payload,
+    projects: payload.projects.map((project: Payload) => ({
+      ...project,
+      milestones: asArray(project.milestones),
+      dependsOn: asArray(project.dependsOn),
+      tasks: project.tasks.map((task: Payload) => ({ ...task, dependsOn: asArray(task.dependsOn) }))
+    }))
+  }),
+  // v10 adds mentor review (approval status and comments) to logs and reports
+  9: payload => ({
+    ...payload,
+    logs: payload.logs.map((log: Payload) => ({ ...log, review: { status: ReviewStatus.Draft, comments: [] } })),
+    reports: payload.reports.map((report: Payload) => ({ ...report, review: { status: ReviewStatus.Draft, comments: [] } }))
+  }),
+  // v11 adds sync metadata; existing records have never been on a server
+  10: payload => {
+    const now = new Date().toISOString();
+    const unsynced = (record: Payload) => ({ ...record, updatedAt: now, version: 0 });
+    return {
+      ...payload,
+      logs: payload.logs.map(unsynced),
+      reports: payload.reports.map(unsynced),
+      projects: payload.projects.map(unsynced)
+    };
+  },
+  // v12 adds the trash for deleted records
+  11: payload => ({ ...payload, trash: asArray(payload.trash) }),
+  // v13 adds record templates and tag snippets
+  12: payload => ({
+    ...payload,
+    settings: { ...payload.settings, templates: [], snippets: [] }
+  }),
+  // v14 adds the tag registry
+  13: payload => ({ ...payload, settings: { ...payload.settings, tags: [] } }),
+  // v15 adds self-assessed skill levels
+  14: payload => ({ ...payload, settings: { ...payload.settings, skills: [] } }),
+  // v16 adds internship goals (objectives and key results)
+  15: payload => ({ ...payload, settings: { ...payload.settings, objectives: [] } }),
+  // v17 adds the portfolio builder's settings
+  16: payload => ({ ...payload, settings: { ...payload.settings, portfolio: createDefaultPortfolio() } }),
+  // v18 gives every intern a sync workspace of their own (see prepareDatabase); records are unchanged
+  17: payload => payload
+};
+
+export const migratePayload = (payload: Payload, fromVersion: number): AppData => {
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new StorageError(`Saved data uses schema v${fromVersion}, but this app only understands up to v${SCHEMA_VERSION}. Please update the app.`);
+  }
+
+  let current = payload;
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new StorageError(`No migration available from schema v${version}.`);
+    try {
+      current = migrate(current);
+    } catch (e) {
+      if (e instanceof StorageError) throw e;
+      throw new StorageError(`Migration from schema v${version} failed.`, e);
+    }
+  }
+  return current as AppData;
+};
+
+// --- Raw store access ---
+
+const sortLogs = (logs: DailyLog[]) =>
+  logs.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+// The default intern keeps the original key, so data from before multi-intern support stays put
+const settingsKey = (internId: string) => internId === DEFAULT_INTERN_ID ? SETTINGS_KEY : `${SETTINGS_KEY}:${internId}`;
+
+// Every record of one intern; stores are keyed by [internId, id]
+const ownerRange = (internId: string) => IDBKeyRange.bound([internId], [internId, []]);
+
+const withoutOwner = ({ internId, ...record }: StoredRecord) => record;
+
+const createDefaultInterns = (): InternAccount[] => [{ id: DEFAULT_INTERN_ID, name: '', workspaceId: crypto.randomUUID() }];
+
+// The workspace as if it had never been synced, for a move to another sync workspace
+const withoutSyncVersions = (data: AppData): AppData => {
+  const unsynced = <T extends { version: number }>(record: T): T => ({ ...record, version: 0 });
+  return {
+    ...data,
+    logs: data.logs.map(unsynced),
+    reports: data.reports.map(unsynced),
+    projects: data.projects.map(unsynced),
+    trash: data.trash.map(item => ({ ...item, record: unsynced(item.record) })),
+  };
+};
+
+const readInterns = async (db: IDBDatabase): Promise<InternAccount[]> => {
+  const stored = await requestToPromise<InternAccount[] | undefined>(
+    db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta).get(INTERNS_KEY)
+  );
+  return stored?.length ? stored : createDefaultInterns();
+};
+
+const readWorkspace = async (db: IDBDatabase, internId: string): Promise<AppData> => {
+  const tx = db.transaction([...WORKSPACE_STORES, STORES.meta], 'readonly');
+  const [[logs, reports, projects, trash], settings] = await Promise.all([
+    Promise.all(WORKSPACE_STORES.map(name => requestToPromise<StoredRecord[]>(tx.objectStore(name).getAll(ownerRange(internId)))
+      .then(records => records.map(withoutOwner)))),
+    requestToPromise<WorkspaceSettings | undefined>(tx.objectStore(STORES.meta).get(settingsKey(internId)))
+  ]);
+  return {
+    logs: sortLogs(logs as DailyLog[]),
+    reports: reports as MonthlyReport[],
+    projects: projects as Project[],
+    trash: (trash as TrashItem[]).sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)),
+    settings: settings || createDefaultSettings()
+  };
+};
+
+// Replaces every record store in a single transaction, so a failure leaves the old data intact
+const writeAll = async (db: IDBDatabase, interns: InternAccount[], workspaces: Record<string, AppData>) => {
+  const tx = db.transaction([...WORKSPACE_STORES, STORES.meta], 'readwrite');
+  WORKSPACE_STORES.forEach(name => {
+    const store = tx.objectStore(name);
+    store.clear();
+    Object.entries(workspaces).forEach(([internId, data]) =>
+      (data[name] as StoredRecord[]).forEach(record => store.put({ ...record, internId }))
+    );
+  });
+  const meta = tx.objectStore(STORES.meta);
+  Object.entries(workspaces).forEach(([internId, data]) => {
+    if (data.settings) meta.put(data.settings, settingsKey(internId));
+  });
+  meta.put(interns, INTERNS_KEY);
+  meta.put(SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+  await transactionDone(tx);
+};
+
+const readLegacyPayload = (): Payload | null => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    throw new StorageError('Your saved workspace is corrupted and could not be read.', e);
+  }
+};
+
+// --- Public API ---
+
+let preparePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the database and brings every intern's data up to SCHEMA_VERSION, once per session.
+ * Throws a StorageError instead of falling back to an empty workspace, so nothing is written
+ * over data that could not be read.
+ */
+const prepareDatabase = (): Promise<IDBDatabase> => {
+  if (preparePromise) return preparePromise;
+
+  preparePromise = (async () => {
+    let db: IDBDatabase;
+    try {
+      db = await openDatabase();
+    } catch (e) {
+      throw new StorageError('Could not open browser storage.', e);
+    }
+
+    const storedVersion = await requestToPromise<number | undefined>(
+      db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta).get(SCHEMA_VERSION_KEY)
+    );
+
+    if (storedVersion === undefined) {
+      // First run on IndexedDB: import the old localStorage blob if there is one.
+      // The blob itself is left in place as a backup.
+      const legacy = readLegacyPayload();
+      const data = legacy ? migratePayload(legacy, 1) : createEmptyWorkspace();
+      await writeAll(db, createDefaultInterns(), { [DEFAULT_INTERN_ID]: data });
+      return db;
+    }
+
+    if (storedVersion !== SCHEMA_VERSION) {
+      // Before v18 the sync workspace was the intern's local id. The default intern has that id
+      // in every browser, so only they move to a new workspace; the others keep theirs.
+      const interns = (await readInterns(db)).map(intern => intern.workspaceId ? intern : {
+        ...intern,
+        workspaceId: intern.id === DEFAULT_INTERN_ID ? crypto.randomUUID() : intern.id,
+      });
+      const workspaces: Record<string, AppData> = {};
+      for (const intern of interns) {
+        const data = migratePayload(await readWorkspace(db, intern.id), storedVersion);
+        workspaces[intern.id] = storedVersion < 18 && intern.id === DEFAULT_INTERN_ID ? withoutSyncVersions(data) : data;
+      }
+      await writeAll(db, interns, workspaces);
+      if (storedVersion < 18) {
+        const tx = db.transaction(STORES.outbox, 'readwrite');
+        tx.objectStore(STORES.outbox).delete(outboxRange(DEFAULT_INTERN_ID));
+        await transactionDone(tx);
+      }
+    }
+    return db;
+  })();
+
+  // Allow a retry after a failed load
+  preparePromise.catch(() => { preparePromise = null; });
+  return preparePromise;
+};
+
+/** Opens one intern's workspace, migrating older data first. */
+export const loadWorkspace = async (internId = DEFAULT_INTERN_ID): Promise<AppData> =>
+  readWorkspace(await prepareDatabase(), internId);
+
+/** Every intern's workspace, e.g. to find attachments that no record points at. */
+export const loadAllWorkspaces = async (): Promise<AppData[]> => {
+  const db = await prepareDatabase();
+  const interns = await readInterns(db);
+  return Promise.all(interns.map(intern => readWorkspace(db, intern.id)));
+};
+
+export const loadInterns = async (): Promise<InternAccount[]> => readInterns(await prepareDatabase());
+
+export const saveInterns = async (interns: InternAccount[]) => {
+  const db = await prepareDatabase();
+  const tx = db.transaction(STORES.meta, 'readwrite');
+  tx.objectStore(STORES.meta).put(interns, INTERNS_KEY);
+  await transactionDone(tx);
+};
+
+/** Adds an intern with an empty workspace whose profile carries their name. */
+export const addIntern = async (interns: InternAccount[], name: string): Promise<InternAccount[]> => {
+  const intern: InternAccount = { id: crypto.randomUUID(), name, workspaceId: crypto.randomUUID() };
+  const settings = createDefaultSettings();
+  settings.profile.name = name;
+
+  const db = await prepareDatabase();
+  const tx = db.transaction(STORES.meta, 'readwrite');
+  const next = [...interns, intern];
+  tx.objectStore(STORES.meta).put(next, INTERNS_KEY);
+  tx.objectStore(STORES.meta).put(settings, settingsKey(intern.id));
+  await transactionDone(tx);
+  return next;
+};
+
+/** Deletes an intern together with all of their records, settings, unsynced changes and search vectors. */
+export const removeIntern = async (interns: InternAccount[], internId: string): Promise<InternAccount[]> => {
+  const db = await prepareDatabase();
+  const tx = db.transaction([...WORKSPACE_STORES, STORES.meta, STORES.outbox, STORES.embeddings], 'readwrite');
+  const next = interns.filter(i => i.id !== internId);
+  tx.objectStore(STORES.meta).delete(settingsKey(internId));
+  tx.objectStore(STORES.meta).put(next, INTERNS_KEY);
+  tx.objectStore(STORES.outbox).delete(outboxRange(internId));
+  tx.objectStore(STORES.embeddings).delete(embeddingRange(internId));
+  WORKSPACE_STORES.forEach(name => tx.objectStore(name).delete(ownerRange(internId)));
+  await transactionDone(tx);
+  return next;
+};
+
+/**
+ * Moves an intern to another sync workspace, e.g. the one their other device uses. Their
+ * records count as never synced, so the next sync pushes them there, and changes queued
+ * for the old workspace are dropped.
+ */
+export const setSyncWorkspace = async (interns: InternAccount[], internId: string, workspaceId: string): Promise<InternAccount[]> => {
+  const db = await prepareDatabase();
+  const data = withoutSyncVersions(await readWorkspace(db, internId));
+  const next = interns.map(i => i.id === internId ? { ...i, workspaceId } : i);
+  const tx = db.transaction([...WORKSPACE_STORES, STORES.meta, STORES.outbox], 'readwrite');
+  WORKSPACE_STORES.forEach(name => {
+    const store = tx.objectStore(name);
+    (data[name] as StoredRecord[]).forEach(record => store.put({ ...record, internId }));
+  });
+  tx.objectStore(STORES.meta).put(next, INTERNS_KEY);
+  tx.objectStore(STORES.outbox).delete(outboxRange(internId));
+  await transactionDone(tx);
+  return next;
+};
+
+/**
+ * Writes only the records that differ between two snapshots of an intern's AppData.
+ * Records are immutable in app state, so a changed reference means a changed record.
+ */
+export const persistChanges = async (previous: AppData, next: AppData, internId = DEFAULT_INTERN_ID) => {
+  const dirty = WORKSPACE_STORES.filter(name => previous[name] !== next[name]);
+  const settingsChanged = previous.settings !== next.settings;
+  if (dirty.length === 0 && !settingsChanged) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction([...dirty, STORES.meta], 'readwrite');
+  if (settingsChanged) tx.objectStore(STORES.meta).put(next.settings, settingsKey(internId));
+  dirty.forEach((name: WorkspaceCollection) => {
+    const store = tx.objectStore(name);
+    const before = new Map((previous[name] as StoredRecord[]).map(r => [r.id, r]));
+    const after = next[name] as StoredRecord[];
+
+    after.forEach(record => {
+      if (before.get(record.id) !== record) store.put({ ...record, internId });
+      before.delete(record.id);
+    });
+    before.forEach((_, id) => store.delete([internId, id]));
+  });
+  await transactionDone(tx);
+};
+
+// --- Repositories ---
+
+const createRepository = <T extends { id: string }>(storeName: RecordCollection) => ({
+  getAll: async (internId = DEFAULT_INTERN_ID): Promise<T[]> => {
+    const db = await openDatabase();
+    const records = await requestToPromise<StoredRecord[]>(db.transaction(storeName, 'readonly').objectStore(storeName).getAll(ownerRange(internId)));
+    return records.map(withoutOwner) as unknown as T[];
+  },
+  get: async (id: string, internId = DEFAULT_INTERN_ID): Promise<T | undefined> => {
+    const db = await openDatabase();
+    const record = await requestToPromise<StoredRecord | undefined>(db.transaction(storeName, 'readonly').objectStore(storeName).get([internId, id]));
+    return record && withoutOwner(record) as unknown as T;
+  },
+  save: async (record: T, internId = DEFAULT_INTERN_ID) => {
+    const db = await openDatabase();
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).put({ ...record, internId });
+    await transactionDone(tx);
+  },
+  remove: async (id: string, internId = DEFAULT_INTERN_ID) => {
+    const db = await openDatabase();
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).delete([internId, id]);
+    await transactionDone(tx);
+  }
+});
+
+export const logRepository = createRepository<DailyLog>(STORES.logs);
+export const reportRepository = createRepository<MonthlyReport>(STORES.reports);
+export const projectRepository = createRepository<Project>(STORES.projects);
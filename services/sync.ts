@@ -0,0 +1,282 @@
+import { AppData, DailyLog, InternAccount, SyncedRecord } from '../types';
+import { openDatabase, requestToPromise, transactionDone, STORES, RECORD_STORES } from './db';
+import { getAttachmentBlob, getRecordAttachments, putAttachmentBlob } from './attachmentStore';
+import { OutboxChange, OutboxEntry, SyncRecord, acknowledgeEntry, dropEntry, getOutbox, outboxKey, queueChanges } from './outbox';
+import {
+  RemoteChange,
+  RemoteRecord,
+  SyncCollection,
+  SyncConflictError,
+  SyncServer,
+  deleteRecord,
+  downloadAttachment,
+  fetchChanges,
+  hasAttachment,
+  pushRecord,
+  uploadAttachment
+} from './syncApi';
+
+// Offline-first replication with the sync server in /server.
+// Every local change is queued in the outbox (outbox.ts) as it is saved, whether or not a
+// server is configured. A sync pushes the queue, then pulls whatever other devices wrote
+// since the last pull. Each record carries the server `version` it is based on; a push
+// based on an outdated version is refused and comes back as a SyncConflict for the merge
+// dialog. Sync settings are per browser, like the AI settings.
+
+export interface SyncSettings extends SyncServer {
+  enabled: boolean;
+}
+
+export interface SyncConflict {
+  key: string;
+  collection: SyncCollection;
+  id: string;
+  local: SyncRecord | null; // null: deleted in this browser
+  remote: SyncRecord | null; // null: deleted on the server
+  remoteVersion: number;
+}
+
+export interface SyncResult {
+  internId: string;
+  changes: RemoteChange[]; // Pulled from the server
+  versions: { collection: SyncCollection; id: string; version: number }[]; // Pushed and accepted
+  conflicts: SyncConflict[];
+  pending: number; // Changes still in the outbox, including conflicted ones
+  syncedAt: string;
+}
+
+// What the sidebar and Settings show about replication
+export interface SyncStatus {
+  state: 'off' | 'idle' | 'syncing' | 'offline' | 'error';
+  pending: number;
+  lastSyncedAt?: string;
+  error?: string;
+}
+
+const SYNC_SETTINGS_KEY = 'telkom_ddp_sync';
+const CURSOR_KEY_PREFIX = 'syncCursor:';
+
+export const createDefaultSyncSettings = (): SyncSettings => ({ enabled: false, serverUrl: 'http://localhost:4000', token: '' });
+
+export const loadSyncSettings = (): SyncSettings => {
+  const defaults = createDefaultSyncSettings();
+  try {
+    const saved = JSON.parse(localStorage.getItem(SYNC_SETTINGS_KEY) || 'null');
+    return {
+      enabled: saved?.enabled === true,
+      serverUrl: typeof saved?.serverUrl === 'string' ? saved.serverUrl : defaults.serverUrl,
+      token: typeof saved?.token === 'string' ? saved.token : defaults.token,
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveSyncSettings = (settings: SyncSettings) => {
+  localStorage.setItem(SYNC_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** Stamps a record as edited now. Every save action goes through this. */
+export const touch = <T extends SyncedRecord>(record: T): T => ({ ...record, updatedAt: new Date().toISOString() });
+
+// Record objects that came from the server or were queued by a conflict resolution, and
+// records deleted by a pull, so queueLocalChanges doesn't send them straight back
+const fromSync = new WeakSet<object>();
+const deletedBySync = new Set<string>();
+
+// Versions the server accepted during this session. A change queued before the new
+// version reached app state would otherwise be pushed on top of the old one.
+const acceptedVersions = new Map<string, number>();
+
+const baseVersionOf = (key: string, version: number) => Math.max(version, acceptedVersions.get(key) ?? 0);
+
+/**
+ * Queues every record that differs between two snapshots of an intern's AppData.
+ * Like persistChanges, a changed reference means a changed record.
+ */
+export const queueLocalChanges = (internId: string, previous: AppData, next: AppData) => {
+  const changes: OutboxChange[] = [];
+  RECORD_STORES.forEach(collection => {
+    if (previous[collection] === next[collection]) return;
+    const before = new Map((previous[collection] as SyncRecord[]).map(r => [r.id, r]));
+    (next[collection] as SyncRecord[]).forEach(record => {
+      const old = before.get(record.id);
+      before.delete(record.id);
+      if (old === record || fromSync.has(record)) return;
+      const key = outboxKey(internId, collection, record.id);
+      changes.push({ internId, collection, id: record.id, op: 'put', record, baseVersion: baseVersionOf(key, record.version) });
+    });
+    before.forEach(record => {
+      const key = outboxKey(internId, collection, record.id);
+      if (deletedBySync.delete(key)) return;
+      changes.push({ internId, collection, id: record.id, op: 'delete', baseVersion: baseVersionOf(key, record.version) });
+    });
+  });
+  return queueChanges(changes);
+};
+
+// --- Pull cursor ---
+
+// Where the last pull stopped, per intern. It only means something for the server and workspace it came from.
+const loadCursor = async (internId: string, serverUrl: string, workspaceId: string): Promise<number | null> => {
+  const db = await openDatabase();
+  const saved = await requestToPromise<{ serverUrl: string; workspaceId?: string; cursor: number } | undefined>(
+    db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta).get(CURSOR_KEY_PREFIX + internId)
+  );
+  return saved?.serverUrl === serverUrl && saved.workspaceId === workspaceId ? saved.cursor : null;
+};
+
+const saveCursor = async (internId: string, serverUrl: string, workspaceId: string, cursor: number) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.meta, 'readwrite');
+  tx.objectStore(STORES.meta).put({ serverUrl, workspaceId, cursor }, CURSOR_KEY_PREFIX + internId);
+  await transactionDone(tx);
+};
+
+// --- Syncing ---
+
+const uploadMissingAttachments = async (server: SyncServer, collection: SyncCollection, record: SyncRecord) => {
+  for (const attachment of getRecordAttachments(collection, record)) {
+    if (await hasAttachment(server, attachment.id)) continue;
+    const blob = await getAttachmentBlob(attachment.id);
+    if (blob) await uploadAttachment(server, attachment.id, blob);
+  }
+};
+
+const downloadMissingAttachments = async (server: SyncServer, collection: SyncCollection, record: RemoteRecord) => {
+  for (const attachment of getRecordAttachments(collection, record)) {
+    if (await getAttachmentBlob(attachment.id)) continue;
+    const blob = await downloadAttachment(server, attachment.id);
+    if (blob) await putAttachmentBlob(attachment.id, blob);
+  }
+};
+
+const asLocalRecord = (record: RemoteRecord | null): SyncRecord | null =>
+  record && !record.deleted ? record as unknown as SyncRecord : null;
+
+const push = async (server: SyncServer, workspaceId: string, entry: OutboxEntry): Promise<number> => {
+  const baseVersion = baseVersionOf(entry.key, entry.baseVersion);
+  if (entry.op === 'put' && entry.record) {
+    await uploadMissingAttachments(server, entry.collection, entry.record);
+    return (await pushRecord(server, workspaceId, entry.collection, entry.record, baseVersion)).version;
+  }
+  return (await deleteRecord(server, workspaceId, entry.collection, entry.id, baseVersion)).version;
+};
+
+/**
+ * Pushes the intern's outbox to their server workspace, then pulls changes from other devices.
+ * `base` is the app state when the sync started; see applySyncResult.
+ */
+export const syncWorkspace = async ({ id: internId, workspaceId }: InternAccount, base: AppData, settings: SyncSettings): Promise<SyncResult> => {
+  const cursor = await loadCursor(internId, settings.serverUrl, workspaceId);
+
+  // First sync with this server or workspace: records from before sync existed have never been
+  // queued, and versions accepted by another workspace mean nothing here
+  if (cursor === null) {
+    Array.from(acceptedVersions.keys()).filter(key => key.startsWith(`${internId}:`)).forEach(key => acceptedVersions.delete(key));
+    const queued = new Set((await getOutbox(internId)).map(e => e.key));
+    await queueChanges(RECORD_STORES.flatMap(collection => (base[collection] as SyncRecord[])
+      .filter(r => r.version === 0 && !queued.has(outboxKey(internId, collection, r.id)))
+      .map(record => ({ internId, collection, id: record.id, op: 'put' as const, record, baseVersion: 0 }))));
+  }
+
+  const versions: SyncResult['versions'] = [];
+  const conflicts: SyncConflict[] = [];
+  for (const entry of await getOutbox(internId)) {
+    try {
+      const version = await push(settings, workspaceId, entry);
+      acceptedVersions.set(entry.key, version);
+      versions.push({ collection: entry.collection, id: entry.id, version });
+      await acknowledgeEntry(entry);
+    } catch (e) {
+      if (!(e instanceof SyncConflictError)) throw e;
+      conflicts.push({
+        key: entry.key,
+        collection: entry.collection,
+        id: entry.id,
+        local: entry.op === 'put' ? entry.record ?? null : null,
+        remote: asLocalRecord(e.current),
+        remoteVersion: e.current?.version ?? 0,
+      });
+    }
+  }
+
+  // Records with a change still waiting (a conflict) are left alone until it is resolved
+  const pendingKeys = new Set((await getOutbox(internId)).map(e => e.key));
+  const pulled = await fetchChanges(settings, workspaceId, cursor ?? 0);
+  const changes = pulled.changes.filter(change => !pendingKeys.has(outboxKey(internId, change.collection, change.record.id)));
+  for (const change of changes) {
+    if (!change.record.deleted) await downloadMissingAttachments(settings, change.collection, change.record);
+  }
+  await saveCursor(internId, settings.serverUrl, workspaceId, pulled.cursor);
+
+  return { internId, changes, versions, conflicts, pending: pendingKeys.size, syncedAt: new Date().toISOString() };
+};
+
+const sortLogs = (logs: DailyLog[]) => logs.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+// Replaces, adds or (with null) removes one record
+const setRecord = (data: AppData, collection: SyncCollection, id: string, record: SyncRecord | null): AppData => {
+  const records = (data[collection] as SyncRecord[]).filter(r => r.id !== id);
+  if (record) records.push(record);
+  return { ...data, [collection]: collection === 'logs' ? sortLogs(records as DailyLog[]) : records };
+};
+
+const findRecord = (data: AppData, collection: SyncCollection, id: string) =>
+  (data[collection] as SyncRecord[]).find(r => r.id === id);
+
+/**
+ * Folds a sync into the current app state. A record edited since the sync started
+ * (no longer the same object as in `base`) keeps the edit; it is pushed next time.
+ */
+export const applySyncResult = (data: AppData, base: AppData, result: SyncResult): AppData => {
+  let next = data;
+  result.versions.forEach(({ collection, id, version }) => {
+    const local = findRecord(next, collection, id);
+    if (!local) {
+      // A delete went through: the trashed copy takes the new version, so restoring it isn't a conflict
+      const trashed = next.trash.find(i => i.collection === collection && i.record.id === id);
+      if (trashed && trashed.record.version < version) {
+        next = { ...next, trash: next.trash.map(i => i === trashed ? { ...i, record: { ...i.record, version } } : i) };
+      }
+      return;
+    }
+    if (local.version >= version) return;
+    const updated = { ...local, version };
+    fromSync.add(updated);
+    next = setRecord(next, collection, id, updated);
+  });
+  result.changes.forEach(({ collection, record }) => {
+    const local = findRecord(next, collection, record.id);
+    if (local !== findRecord(base, collection, record.id)) return;
+    if (local && local.version >= record.version) return;
+    if (record.deleted) {
+      if (!local) return;
+      deletedBySync.add(outboxKey(result.internId, collection, record.id));
+      next = setRecord(next, collection, record.id, null);
+    } else {
+      const incoming = asLocalRecord(record)!;
+      fromSync.add(incoming);
+      next = setRecord(next, collection, record.id, incoming);
+    }
+  });
+  return next;
+};
+
+/**
+ * Settles a conflict with the version to keep: the server's copy, this browser's copy,
+ * a merge of the two, or null to delete. Returns the change to make to app state.
+ */
+export const resolveConflict = async (internId: string, conflict: SyncConflict, keep: SyncRecord | null): Promise<(data: AppData) => AppData> => {
+  const { key, collection, id, remote, remoteVersion } = conflict;
+  const record = keep && { ...keep, version: remoteVersion };
+  if (keep === remote) {
+    await dropEntry(key);
+  } else {
+    // Based on the server's current version, so the next push goes through
+    await queueChanges([{ internId, collection, id, op: record ? 'put' : 'delete', record: record ?? undefined, baseVersion: remoteVersion }]);
+  }
+  if (record) fromSync.add(record);
+  else if (conflict.local) deletedBySync.add(key);
+  return data => findRecord(data, collection, id) || record ? setRecord(data, collection, id, record) : data;
+};
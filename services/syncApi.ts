@@ -0,0 +1,108 @@
+import { RECORD_STORES } from './db';
+
+// REST client for the sync server in /server. Only sync.ts talks to it.
+
+export type SyncCollection = typeof RECORD_STORES[number];
+
+// A record as the server stores it; deleted records come back as tombstones
+export interface RemoteRecord {
+  id: string;
+  version: number;
+  updatedAt?: string;
+  deleted?: boolean;
+  [field: string]: unknown;
+}
+
+export interface RemoteChange {
+  collection: SyncCollection;
+  record: RemoteRecord;
+}
+
+export interface SyncServer {
+  serverUrl: string;
+  token: string;
+}
+
+export type SyncErrorKind = 'config' | 'network' | 'auth' | 'server';
+
+export class SyncError extends Error {
+  constructor(message: string, public readonly kind: SyncErrorKind, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+// The server's copy moved on since the version a change was based on
+export class SyncConflictError extends Error {
+  constructor(public readonly current: RemoteRecord | null) {
+    super('The record was changed on the server.');
+    this.name = 'SyncConflictError';
+  }
+}
+
+const request = async (server: SyncServer, path: string, init: RequestInit = {}): Promise<Response> => {
+  if (!server.serverUrl.trim()) throw new SyncError('Set the sync server URL in Settings first.', 'config');
+  let response: Response;
+  try {
+    response = await fetch(`${server.serverUrl.trim().replace(/\/+$/, '')}/api${path}`, {
+      ...init,
+      headers: {
+        ...(server.token ? { Authorization: `Bearer ${server.token}` } : {}),
+        ...init.headers,
+      },
+    });
+  } catch (e) {
+    throw new SyncError('Could not reach the sync server.', 'network', e);
+  }
+  if (response.ok || response.status === 404 || response.status === 409) return response;
+
+  const body = await response.json().catch(() => null);
+  const message = body?.error || `The sync server answered ${response.status}.`;
+  throw new SyncError(message, response.status === 401 ? 'auth' : 'server');
+};
+
+const readRecord = async (response: Response): Promise<RemoteRecord> => {
+  const body = await response.json();
+  if (response.status === 409) throw new SyncConflictError(body.current ?? null);
+  if (!response.ok) throw new SyncError(body?.error || 'The sync server could not find the record.', 'server');
+  return body.record;
+};
+
+const recordPath = (workspace: string, collection: SyncCollection, id: string) =>
+  `/workspaces/${encodeURIComponent(workspace)}/${collection}/${encodeURIComponent(id)}`;
+
+export const checkServer = async (server: SyncServer) => {
+  await request(server, '/health');
+};
+
+export const fetchChanges = async (server: SyncServer, workspace: string, since: number): Promise<{ changes: RemoteChange[]; cursor: number }> => {
+  const response = await request(server, `/workspaces/${encodeURIComponent(workspace)}/changes?since=${since}`);
+  return response.json();
+};
+
+/** Writes a record on top of `baseVersion`; throws a SyncConflictError when the server has moved on. */
+export const pushRecord = async (server: SyncServer, workspace: string, collection: SyncCollection, record: { id: string }, baseVersion: number) =>
+  readRecord(await request(server, recordPath(workspace, collection, record.id), {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ record, baseVersion }),
+  }));
+
+export const deleteRecord = async (server: SyncServer, workspace: string, collection: SyncCollection, id: string, baseVersion: number) =>
+  readRecord(await request(server, `${recordPath(workspace, collection, id)}?baseVersion=${baseVersion}`, { method: 'DELETE' }));
+
+export const hasAttachment = async (server: SyncServer, id: string) =>
+  (await request(server, `/attachments/${encodeURIComponent(id)}`, { method: 'HEAD' })).ok;
+
+export const uploadAttachment = async (server: SyncServer, id: string, blob: Blob) => {
+  await request(server, `/attachments/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': blob.type || 'application/octet-stream' },
+    body: blob,
+  });
+};
+
+export const downloadAttachment = async (server: SyncServer, id: string): Promise<Blob | undefined> => {
+  const response = await request(server, `/attachments/${encodeURIComponent(id)}`);
+  return response.ok ? response.blob() : undefined;
+};
@@ -0,0 +1,90 @@
+// Lightweight highlighting for fenced code blocks: comments, strings, numbers and
+// keywords for the languages interns most often paste into logs. Unknown
+// languages are shown as plain text.
+
+export type TokenKind = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'literal';
+
+export interface CodeToken {
+  kind: TokenKind;
+  text: string;
+}
+
+interface Grammar {
+  comment: RegExp;
+  keywords: string;
+}
+
+const C_COMMENT = /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/;
+const HASH_COMMENT = /#[^\n]*/;
+
+const JS_KEYWORDS = 'async await break case catch class const continue default delete do else export extends finally for from function if import in instanceof interface let new of return static switch throw try type typeof var void while yield enum implements private public protected readonly as';
+
+const GRAMMARS: Record<string, Grammar> = {
+  js: { comment: C_COMMENT, keywords: JS_KEYWORDS },
+  java: { comment: C_COMMENT, keywords: 'abstract boolean break byte case catch char class continue default do double else enum extends final finally float for if implements import instanceof int interface long new package private protected public return short static super switch this throw throws try void while var record' },
+  go: { comment: C_COMMENT, keywords: 'break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var' },
+  c: { comment: C_COMMENT, keywords: 'auto break case char class const continue default delete do double else enum extern float for if include int long namespace new private protected public return short signed sizeof static struct switch template this throw try typedef union unsigned using virtual void volatile while' },
+  kotlin: { comment: C_COMMENT, keywords: 'as break class continue data do else fun for if import in interface is object override package private public return sealed suspend this throw try val var when while' },
+  dart: { comment: C_COMMENT, keywords: 'abstract async await break case catch class const continue default do else enum extends final finally for if import in is late new required return static super switch this throw try var void while with' },
+  rust: { comment: C_COMMENT, keywords: 'as async await break const continue crate else enum fn for if impl in let loop match mod move mut pub ref return self static struct trait type unsafe use where while' },
+  php: { comment: C_COMMENT, keywords: 'abstract array as break case catch class const continue declare default do echo else elseif extends final for foreach function if implements interface namespace new private protected public return static switch throw try use var while' },
+  python: { comment: HASH_COMMENT, keywords: 'and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield' },
+  ruby: { comment: HASH_COMMENT, keywords: 'begin break case class def do else elsif end ensure for if in module next raise require rescue return then unless until when while yield' },
+  shell: { comment: HASH_COMMENT, keywords: 'if then else elif fi for in do done while case esac function return export local echo sudo cd' },
+  yaml: { comment: HASH_COMMENT, keywords: '' },
+  sql: { comment: /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/, keywords: 'select from where insert into values update set delete create table alter drop index join left right inner outer on group by order having limit offset as and or not null primary key foreign references distinct union all case when then else end' },
+  json: { comment: /(?!)/, keywords: '' },
+};
+
+const ALIASES: Record<string, string> = {
+  javascript: 'js', jsx: 'js', ts: 'js', tsx: 'js', typescript: 'js', mjs: 'js',
+  cpp: 'c', 'c++': 'c', h: 'c', cs: 'c', csharp: 'c', swift: 'kotlin', kt: 'kotlin',
+  py: 'python', rb: 'ruby', sh: 'shell', bash: 'shell', zsh: 'shell', console: 'shell',
+  yml: 'yaml', postgres: 'sql', mysql: 'sql', rs: 'rust',
+};
+
+const LITERALS = new Set(['true', 'false', 'null', 'undefined', 'none', 'nil', 'True', 'False', 'None', 'this', 'self']);
+
+const compiled = new Map<string, { pattern: RegExp; keywords: Set<string>; caseInsensitive: boolean }>();
+
+const getGrammar = (lang: string) => {
+  const name = ALIASES[lang] || lang;
+  const grammar = GRAMMARS[name];
+  if (!grammar) return null;
+  if (!compiled.has(name)) {
+    const pattern = new RegExp(
+      `(${grammar.comment.source})|("(?:[^"\\\\\\n]|\\\\.)*"|'(?:[^'\\\\\\n]|\\\\.)*'|\`(?:[^\`\\\\]|\\\\.)*\`)|(\\b\\d[\\d_]*(?:\\.\\d+)?(?:e[+-]?\\d+)?\\b|\\b0x[\\da-f]+\\b)|([A-Za-z_$][\\w$]*)`,
+      'gi'
+    );
+    compiled.set(name, { pattern, keywords: new Set(grammar.keywords.split(' ').filter(Boolean)), caseInsensitive: name === 'sql' });
+  }
+  return compiled.get(name)!;
+};
+
+export const highlightCode = (code: string, lang: string): CodeToken[] => {
+  const grammar = getGrammar(lang.toLowerCase());
+  if (!grammar) return [{ kind: 'plain', text: code }];
+
+  const tokens: CodeToken[] = [];
+  const push = (kind: TokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else tokens.push({ kind, text });
+  };
+
+  let cursor = 0;
+  grammar.pattern.lastIndex = 0;
+  for (const match of code.matchAll(grammar.pattern)) {
+    const [text, comment, string, number, word] = match;
+    if (match.index! > cursor) push('plain', code.slice(cursor, match.index));
+    if (comment) push('comment', text);
+    else if (string) push('string', text);
+    else if (number) push('number', text);
+    else if (word && grammar.keywords.has(grammar.caseInsensitive ? word.toLowerCase() : word)) push('keyword', text);
+    else if (word && LITERALS.has(word)) push('literal', text);
+    else push('plain', text);
+    cursor = match.index! + text.length;
+  }
+  if (cursor < code.length) push('plain', code.slice(cursor));
+  return tokens;
+};
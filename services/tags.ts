@@ -0,0 +1,327 @@
+import { AppData, DailyLog, SkillAssessment, TagColor, TagDefinition } from '../types';
+import { touch } from './sync';
+import { getWorkedHours } from './timesheet';
+import { todayKey } from './calendar';
+import { isLocked } from './review';
+
+// The tag registry: colors, a parent/child hierarchy and aliases for the free-form
+// tags on logs. Logs keep storing plain tag names, so a tag doesn't have to be in the
+// registry to be used; it gets an entry once it is given a color, parent or alias.
+
+export const TAG_COLORS: TagColor[] = ['gray', 'red', 'orange', 'yellow', 'green', 'teal', 'blue', 'purple', 'pink'];
+
+const MAX_SUGGESTIONS = 8;
+const STATS_MONTHS = 6;
+
+/** Tidies a typed tag: trims it and collapses inner whitespace. */
+export const cleanTag = (name: string) => name.trim().replace(/\s+/g, ' ');
+
+// Tags are compared case-insensitively, so "React" and "react " are the same tag
+export const tagKey = (name: string) => cleanTag(name).toLowerCase();
+
+export const findTag = (registry: TagDefinition[], name: string) =>
+  registry.find(t => tagKey(t.name) === tagKey(name));
+
+/** The registered spelling of a tag, following aliases; unknown tags are just cleaned up. */
+export const resolveTag = (name: string, registry: TagDefinition[]): string => {
+  const key = tagKey(name);
+  const match = registry.find(t => tagKey(t.name) === key)
+    ?? registry.find(t => t.aliases.some(a => tagKey(a) === key));
+  return match ? match.name : cleanTag(name);
+};
+
+/** Resolves a list of tags and drops empty and duplicate ones. */
+export const normalizeTags = (tags: string[], registry: TagDefinition[]): string[] => {
+  const seen = new Set<string>();
+  return tags.map(t => resolveTag(t, registry)).filter(t => {
+    const key = tagKey(t);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/** Names from the root down to the tag, e.g. ['Frontend', 'React']. */
+export const getTagPath = (name: string, registry: TagDefinition[]): string[] => {
+  const path = [name];
+  const visited = new Set<string>();
+  let tag = findTag(registry, name);
+  while (tag?.parentId && !visited.has(tag.id)) {
+    visited.add(tag.id);
+    tag = registry.find(t => t.id === tag!.parentId);
+    if (tag) path.unshift(tag.name);
+  }
+  return path;
+};
+
+export const formatTagPath = (name: string, registry: TagDefinition[]) => getTagPath(name, registry).join(' / ');
+
+/** Keys of the tag and every tag below it, so filtering by Frontend also finds React logs. */
+export const getTagFamily = (name: string, registry: TagDefinition[]): Set<string> => {
+  const family = new Set([tagKey(name)]);
+  const root = findTag(registry, name);
+  if (!root) return family;
+  const ids = new Set([root.id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    registry.forEach(t => {
+      if (t.parentId && ids.has(t.parentId) && !ids.has(t.id)) {
+        ids.add(t.id);
+        family.add(tagKey(t.name));
+        grew = true;
+      }
+    });
+  }
+  return family;
+};
+
+/** Every tag in the workspace, registered or only used on logs, in hierarchy order. */
+export const getAllTagNames = (registry: TagDefinition[], logs: DailyLog[]): string[] => {
+  const names = new Map<string, string>();
+  registry.forEach(t => names.set(tagKey(t.name), t.name));
+  logs.forEach(log => log.tags.forEach(tag => {
+    if (!names.has(tagKey(tag))) names.set(tagKey(tag), tag);
+  }));
+  const sortKey = (name: string) => getTagPath(name, registry).map(tagKey).join('\u0000');
+  return Array.from(names.values()).sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+};
+
+/** Autocomplete for a tag being typed; names and aliases match, the name is suggested. */
+export const suggestTags = (query: string, allNames: string[], registry: TagDefinition[], exclude: string[]): string[] => {
+  const q = tagKey(query);
+  if (!q) return [];
+  const excluded = new Set(exclude.map(tagKey));
+  const scored = allNames.flatMap(name => {
+    if (excluded.has(tagKey(name))) return [];
+    const spellings = [name, ...(findTag(registry, name)?.aliases || [])].map(tagKey);
+    if (spellings.some(s => s.startsWith(q))) return [{ name, score: 0 }];
+    if (spellings.some(s => s.includes(q))) return [{ name, score: 1 }];
+    return [];
+  });
+  return scored.sort((a, b) => a.score - b.score).slice(0, MAX_SUGGESTIONS).map(s => s.name);
+};
+
+// --- Registry edits ---
+
+export const createTagDefinition = (name: string): TagDefinition => ({
+  id: crypto.randomUUID(),
+  name: cleanTag(name),
+  color: 'gray',
+  aliases: [],
+});
+
+// Registers a tag that was only used on logs, so it can be given a color or parent
+const ensureTag = (registry: TagDefinition[], name: string): [TagDefinition[], TagDefinition] => {
+  const existing = findTag(registry, name);
+  if (existing) return [registry, existing];
+  const created = createTagDefinition(name);
+  return [[...registry, created], created];
+};
+
+export const setTagColor = (registry: TagDefinition[], name: string, color: TagColor): TagDefinition[] => {
+  const [next, tag] = ensureTag(registry, name);
+  return next.map(t => t === tag ? { ...t, color } : t);
+};
+
+/** Moves a tag under `parent`, or to the top level when `parent` is empty. */
+export const setTagParent = (registry: TagDefinition[], name: string, parent: string): TagDefinition[] => {
+  let [next, tag] = ensureTag(registry, name);
+  let parentId: string | undefined;
+  if (parent) {
+    if (getTagFamily(name, registry).has(tagKey(parent))) return registry; // Would make a loop
+    const [withParent, parentTag] = ensureTag(next, parent);
+    next = withParent;
+    parentId = parentTag.id;
+  }
+  return next.map(t => t === tag ? { ...t, parentId } : t);
+};
+
+/** Tags that can become the tag's parent: anything but itself and the tags below it. */
+export const getParentCandidates = (name: string, registry: TagDefinition[], allNames: string[]) => {
+  const family = getTagFamily(name, registry);
+  return allNames.filter(n => !family.has(tagKey(n)));
+};
+
+// Runs every stored tag list through `rewrite`: logs (also in the trash), log templates' default tags,
+// snippets and skill assessments. Approved logs are locked, so they keep their tags as they are.
+const rewriteTags = (data: AppData, rewrite: (tags: string[]) => string[]): AppData => {
+  const changed = (before: string[], after: string[]) =>
+    before.length !== after.length || before.some((t, i) => t !== after[i]);
+  const logs = data.logs.map(log => {
+    if (isLocked(log.review)) return log;
+    const tags = rewrite(log.tags);
+    return changed(log.tags, tags) ? touch({ ...log, tags }) : log;
+  });
+  const trash = data.trash.map(item => {
+    if (item.collection !== 'logs') return item;
+    const record = item.record as DailyLog;
+    if (isLocked(record.review)) return item;
+    const tags = rewrite(record.tags);
+    return changed(record.tags, tags) ? { ...item, record: { ...record, tags } } : item;
+  });
+  const templates = data.settings.templates.map(t => {
+    if (t.kind !== 'logs') return t;
+    const tags = rewrite(t.tags);
+    return changed(t.tags, tags) ? { ...t, tags } : t;
+  });
+  const snippets = data.settings.snippets.map(s => {
+    const [tag = s.tag] = rewrite([s.tag]);
+    return tag !== s.tag ? { ...s, tag } : s;
+  });
+  // An assessment follows its tag; when two end up with one name, the one that kept its name wins
+  const moved = new Set<SkillAssessment>();
+  const renamed = data.settings.skills.map(s => {
+    const [name = s.name] = rewrite([s.name]);
+    if (name === s.name) return s;
+    const next = { ...s, name };
+    moved.add(next);
+    return next;
+  });
+  const skillKeys = new Set<string>();
+  const skills = [...renamed.filter(s => !moved.has(s)), ...renamed.filter(s => moved.has(s))].filter(s => {
+    if (skillKeys.has(tagKey(s.name))) return false;
+    skillKeys.add(tagKey(s.name));
+    return true;
+  });
+  return { ...data, logs, trash, settings: { ...data.settings, templates, snippets, skills: moved.size ? skills : data.settings.skills } };
+};
+
+// Swaps one tag for another in a list (other spellings of `to` included) and drops duplicates
+const replaceTag = (tags: string[], from: string, to: string) => {
+  const keys = [tagKey(from), tagKey(to)];
+  const seen = new Set<string>();
+  return tags.map(t => keys.includes(tagKey(t)) ? to : t).filter(t => {
+    if (seen.has(tagKey(t))) return false;
+    seen.add(tagKey(t));
+    return true;
+  });
+};
+
+/** Approved logs carrying the tag, which renaming, merging or removing it leaves alone. */
+export const countLockedLogsWithTag = (data: AppData, name: string) =>
+  data.logs.filter(log => isLocked(log.review) && log.tags.some(t => tagKey(t) === tagKey(name))).length;
+
+const withRegistry = (data: AppData, tags: TagDefinition[]): AppData =>
+  ({ ...data, settings: { ...data.settings, tags } });
+
+const isTagUsed = (data: AppData, name: string) =>
+  !!findTag(data.settings.tags, name) || data.logs.some(log => log.tags.some(t => tagKey(t) === tagKey(name)));
+
+/**
+ * Merges `source` into `target` everywhere: logs tagged with `source` get `target`,
+ * `source` and its aliases become aliases of `target`, and its child tags move under `target`.
+ */
+export const mergeTags = (data: AppData, source: string, target: string): AppData => {
+  target = cleanTag(target);
+  if (!target || tagKey(source) === tagKey(target)) return data;
+  const registry = data.settings.tags;
+  const sourceDef = findTag(registry, source);
+  const existingTarget = findTag(registry, target);
+  // A registered source keeps its color and place when the target isn't registered yet
+  const targetDef: TagDefinition = existingTarget ?? (sourceDef ? { ...sourceDef, name: target, aliases: [] } : createTagDefinition(target));
+
+  const aliasKeys = new Set<string>([tagKey(targetDef.name)]);
+  const aliases = [...targetDef.aliases, sourceDef?.name ?? cleanTag(source), ...(sourceDef?.aliases || [])].filter(a => {
+    if (aliasKeys.has(tagKey(a))) return false;
+    aliasKeys.add(tagKey(a));
+    return true;
+  });
+  const merged: TagDefinition = {
+    ...targetDef,
+    aliases,
+    // The target can't end up below the source it absorbed
+    parentId: sourceDef && targetDef.parentId === sourceDef.id ? sourceDef.parentId : targetDef.parentId,
+  };
+
+  const nextRegistry = registry
+    .filter(t => t !== sourceDef && t !== existingTarget)
+    .map(t => sourceDef && t.parentId === sourceDef.id ? { ...t, parentId: merged.id } : t);
+  const next = withRegistry(data, [...nextRegistry, merged]);
+  return rewriteTags(next, tags => replaceTag(tags, source, merged.name));
+};
+
+/** Renames a tag everywhere. Renaming to a tag that already exists (or its alias) merges the two. */
+export const renameTag = (data: AppData, from: string, to: string): AppData => {
+  to = cleanTag(to);
+  if (!to || to === from) return data;
+  const existing = resolveTag(to, data.settings.tags);
+  if (tagKey(existing) !== tagKey(from) && isTagUsed(data, existing)) return mergeTags(data, from, existing);
+
+  const def = findTag(data.settings.tags, from);
+  const next = def
+    ? withRegistry(data, data.settings.tags.map(t => t === def
+      ? { ...t, name: to, aliases: t.aliases.filter(a => tagKey(a) !== tagKey(to)) }
+      : t))
+    : data;
+  return rewriteTags(next, tags => replaceTag(tags, from, to));
+};
+
+/**
+ * Sets a tag's aliases. Logs that used one of them as a tag of its own switch to the
+ * tag's name, as if the alias had been typed.
+ */
+export const setTagAliases = (data: AppData, name: string, aliases: string[]): AppData => {
+  const registry = data.settings.tags;
+  const taken = new Set(registry.filter(t => tagKey(t.name) !== tagKey(name)).map(t => tagKey(t.name)));
+  const seen = new Set([tagKey(name)]);
+  const cleaned = aliases.map(cleanTag).filter(a => {
+    const key = tagKey(a);
+    if (!key || seen.has(key) || taken.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  const existing = findTag(registry, name);
+  const nextRegistry = existing
+    ? registry.map(t => t === existing ? { ...t, aliases: cleaned } : t)
+    : [...registry, { ...createTagDefinition(name), aliases: cleaned }];
+  return rewriteTags(withRegistry(data, nextRegistry), tags => normalizeTags(tags, nextRegistry));
+};
+
+/** Removes a tag from every log and from the registry; its child tags move up a level. */
+export const deleteTag = (data: AppData, name: string): AppData => {
+  const def = findTag(data.settings.tags, name);
+  const registry = data.settings.tags
+    .filter(t => t !== def)
+    .map(t => def && t.parentId === def.id ? { ...t, parentId: def.parentId } : t);
+  return rewriteTags(withRegistry(data, registry), tags => tags.filter(t => tagKey(t) !== tagKey(name)));
+};
+
+// --- Statistics ---
+
+export interface TagStats {
+  name: string;
+  logCount: number; // Logs with this exact tag
+  familyLogCount: number; // Logs with this tag or any tag below it
+  hours: number;
+  firstUsed?: string; // YYYY-MM-DD
+  lastUsed?: string;
+  monthly: { month: string; count: number }[]; // The last STATS_MONTHS months, oldest first
+}
+
+const recentMonths = (today: string): string[] => {
+  const [year, month] = today.split('-').map(Number);
+  return Array.from({ length: STATS_MONTHS }, (_, i) => {
+    const d = new Date(year, month - 1 - (STATS_MONTHS - 1 - i), 1);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+  });
+};
+
+export const getTagStats = (logs: DailyLog[], registry: TagDefinition[], today = todayKey()): TagStats[] => {
+  const months = recentMonths(today);
+  return getAllTagNames(registry, logs).map(name => {
+    const key = tagKey(name);
+    const family = getTagFamily(name, registry);
+    const tagged = logs.filter(log => log.tags.some(t => tagKey(t) === key));
+    const dates = tagged.map(log => log.date).sort();
+    return {
+      name,
+      logCount: tagged.length,
+      familyLogCount: logs.filter(log => log.tags.some(t => family.has(tagKey(t)))).length,
+      hours: tagged.reduce((sum, log) => sum + getWorkedHours(log), 0),
+      firstUsed: dates[0],
+      lastUsed: dates[dates.length - 1],
+      monthly: months.map(month => ({ month, count: tagged.filter(log => log.date.startsWith(month)).length })),
+    };
+  });
+};
@@ -0,0 +1,172 @@
+import { AppData, DailyLog, Project, ProjectStatus, RecordTemplate, RecordView, Snippet } from '../types';
+import { getDayInfo, parseDateKey } from './calendar';
+
+// User-defined templates for new logs, reports and projects, and per-tag snippets.
+// Both live in the workspace settings. Templates can be shared as a JSON file.
+
+export const TEMPLATES_FORMAT = 'telkom-ddp-templates';
+
+// The text fields a template can fill, per record type
+export const TEMPLATE_FIELDS: Record<RecordView, { key: string; label: string }[]> = {
+  logs: [
+    { key: 'activity', label: 'Activity Description' },
+    { key: 'learnings', label: 'Learnings' },
+    { key: 'challenges', label: 'Challenges' },
+  ],
+  reports: [
+    { key: 'summary', label: 'Monthly Summary' },
+    { key: 'achievements', label: 'Achievements' },
+    { key: 'challengesSolutions', label: 'Challenges & Solutions' },
+    { key: 'nextMonthPlan', label: 'Next Month Plan' },
+  ],
+  projects: [
+    { key: 'description', label: 'Description' },
+    { key: 'role', label: 'My Role' },
+    { key: 'deliverables', label: 'Deliverables' },
+  ],
+};
+
+export const TEMPLATE_VARIABLES = [
+  { name: 'date', description: "The log's date, the report month's first day or the project's start date" },
+  { name: 'weekday', description: 'Day of the week of that date, e.g. Monday' },
+  { name: 'month', description: 'Month and year of that date, e.g. October 2026' },
+  { name: 'project', description: "Linked projects' names; in reports, the projects in progress" },
+];
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const createTemplate = (kind: RecordView): RecordTemplate => ({
+  id: crypto.randomUUID(),
+  kind,
+  name: '',
+  fields: Object.fromEntries(TEMPLATE_FIELDS[kind].map(f => [f.key, ''])),
+  tags: [],
+  projectIds: [],
+  recurrence: [],
+});
+
+export const createSnippet = (tag = ''): Snippet => ({ id: crypto.randomUUID(), tag, text: '' });
+
+// What the variables stand for when a template is used
+export interface TemplateContext {
+  date: string; // YYYY-MM-DD
+  projectNames: string[];
+}
+
+/** Replaces {{variables}} in a template text; unknown variables are left as typed. */
+export const fillVariables = (text: string, context: TemplateContext): string => {
+  const date = parseDateKey(context.date);
+  const values: Record<string, string> = {
+    date: context.date,
+    weekday: WEEKDAYS[date.getDay()],
+    month: date.toLocaleDateString(undefined, { month: 'long', year: 'numeric' }),
+    project: context.projectNames.join(', '),
+  };
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
+};
+
+/**
+ * Fills a new record from a template. `projects` are the workspace's projects, used for
+ * {{project}}: a log template names the projects it links, other templates the active ones.
+ */
+export const applyTemplate = <T extends object>(template: RecordTemplate, record: T, date: string, projects: Project[]): T => {
+  const linked = template.kind === 'logs'
+    ? projects.filter(p => template.projectIds.includes(p.id))
+    : projects.filter(p => p.status === ProjectStatus.OnProgress);
+  const context: TemplateContext = { date, projectNames: linked.map(p => p.name) };
+
+  const tags = template.tags.filter(Boolean);
+  const next = { ...record } as Record<string, unknown>;
+  TEMPLATE_FIELDS[template.kind].forEach(({ key }) => {
+    if (template.fields[key]) next[key] = fillVariables(template.fields[key], context);
+  });
+  if (template.kind === 'logs') {
+    next.tags = tags;
+    next.projectIds = linked.map(p => p.id);
+  }
+  if (template.kind === 'projects' && tags.length > 0) next.techStack = tags;
+  return next as T;
+};
+
+/** Snippets for any of a log's tags, matched case-insensitively. */
+export const getSnippetsForTags = (snippets: Snippet[], tags: string[]) => {
+  const wanted = new Set(tags.map(t => t.toLowerCase()));
+  return snippets.filter(s => s.text.trim() && wanted.has(s.tag.trim().toLowerCase()));
+};
+
+/**
+ * Drafts the day's log from a recurring template, unless the day already has a log, is a
+ * holiday or leave day, or was drafted before (the draft may have been deleted since).
+ * `createLog` makes the blank draft the template is applied to.
+ */
+export const draftRecurringLog = (data: AppData, date: string, createLog: (date: string) => DailyLog): AppData => {
+  const { templates, calendar } = data.settings;
+  const weekday = parseDateKey(date).getDay();
+  const due = templates.filter(t => t.kind === 'logs' && t.recurrence.includes(weekday));
+  if (due.length === 0 || due.some(t => t.lastDraftedOn === date)) return data;
+  if (data.logs.some(l => l.date === date)) return data;
+  const { kind } = getDayInfo(date, calendar);
+  if (kind === 'holiday' || kind === 'leave') return data;
+
+  const template = due[0];
+  const log = applyTemplate(template, createLog(date), date, data.projects);
+  return {
+    ...data,
+    logs: [log, ...data.logs].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+    settings: {
+      ...data.settings,
+      templates: templates.map(t => t === template ? { ...t, lastDraftedOn: date } : t),
+    },
+  };
+};
+
+// --- Sharing ---
+
+export const templatesToJson = (templates: RecordTemplate[], snippets: Snippet[]) =>
+  JSON.stringify({
+    format: TEMPLATES_FORMAT,
+    exportedAt: new Date().toISOString(),
+    // Project links and draft bookkeeping only mean something in this workspace
+    templates: templates.map(({ lastDraftedOn, ...t }) => ({ ...t, projectIds: [] })),
+    snippets,
+  }, null, 2);
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isTemplateKind = (value: unknown): value is RecordView => typeof value === 'string' && value in TEMPLATE_FIELDS;
+const isWeekday = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0 && (value as number) < 7;
+
+const parseTemplate = (t: unknown): RecordTemplate[] => {
+  if (!isObject(t) || typeof t.name !== 'string' || !isTemplateKind(t.kind) || !isObject(t.fields)) return [];
+  const fields = t.fields;
+  return [{
+    ...createTemplate(t.kind),
+    name: t.name,
+    fields: Object.fromEntries(TEMPLATE_FIELDS[t.kind].map(({ key }) => {
+      const value = fields[key];
+      return [key, typeof value === 'string' ? value : ''];
+    })),
+    tags: isStringList(t.tags) ? t.tags : [],
+    recurrence: Array.isArray(t.recurrence) ? t.recurrence.filter(isWeekday) : [],
+  }];
+};
+
+const parseSnippet = (s: unknown): Snippet[] =>
+  isObject(s) && typeof s.tag === 'string' && typeof s.text === 'string' ? [{ id: crypto.randomUUID(), tag: s.tag, text: s.text }] : [];
+
+/** Reads a shared templates file. Everything gets a new id, so importing twice adds copies. */
+export const parseTemplatesFile = (text: string): { templates: RecordTemplate[]; snippets: Snippet[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  if (!isObject(parsed) || parsed.format !== TEMPLATES_FORMAT) throw new Error('This file is not a Telkom DDP templates file.');
+
+  const templates = Array.isArray(parsed.templates) ? parsed.templates.flatMap(parseTemplate) : [];
+  const snippets = Array.isArray(parsed.snippets) ? parsed.snippets.flatMap(parseSnippet) : [];
+
+  if (templates.length === 0 && snippets.length === 0) throw new Error('The file has no templates or snippets.');
+  return { templates, snippets };
+};
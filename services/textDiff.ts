@@ -0,0 +1,86 @@
+// Word-level diff between a draft and an AI suggestion, grouped into changes
+// that can be accepted one by one.
+
+export type DiffSegment =
+  | { kind: 'equal'; text: string }
+  | { kind: 'change'; id: number; removed: string; added: string };
+
+// Above this many LCS cells the texts are treated as one whole replacement
+const MAX_DIFF_CELLS = 2_000_000;
+
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+
+type Op = { type: 'equal' | 'delete' | 'insert'; token: string };
+
+const diffTokens = (a: string[], b: string[]): Op[] => {
+  const n = a.length;
+  const m = b.length;
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    return [...a.map(token => ({ type: 'delete' as const, token })), ...b.map(token => ({ type: 'insert' as const, token }))];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const width = m + 1;
+  const lengths = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', token: a[i] });
+      i++; j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      ops.push({ type: 'delete', token: a[i++] });
+    } else {
+      ops.push({ type: 'insert', token: b[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: 'delete', token: a[i++] });
+  while (j < m) ops.push({ type: 'insert', token: b[j++] });
+  return ops;
+};
+
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const segments: DiffSegment[] = [];
+  let nextId = 0;
+
+  diffTokens(tokenize(before), tokenize(after)).forEach(op => {
+    const last = segments[segments.length - 1];
+    if (op.type === 'equal') {
+      if (last?.kind === 'equal') last.text += op.token;
+      else segments.push({ kind: 'equal', text: op.token });
+      return;
+    }
+    const change = last?.kind === 'change' ? last : { kind: 'change' as const, id: nextId++, removed: '', added: '' };
+    if (change !== last) segments.push(change);
+    if (op.type === 'delete') change.removed += op.token;
+    else change.added += op.token;
+  });
+
+  // A lone space between two changes reads better as part of one larger change
+  for (let k = segments.length - 2; k > 0; k--) {
+    const [prev, mid, next] = [segments[k - 1], segments[k], segments[k + 1]];
+    if (prev.kind === 'change' && mid.kind === 'equal' && next.kind === 'change' && /^[ \t]+$/.test(mid.text)) {
+      prev.removed += mid.text + next.removed;
+      prev.added += mid.text + next.added;
+      segments.splice(k, 2);
+    }
+  }
+
+  return segments;
+};
+
+export const getChangeIds = (segments: DiffSegment[]): number[] =>
+  segments.flatMap(s => s.kind === 'change' ? [s.id] : []);
+
+/** Rebuilds the text keeping the suggestion only for the accepted changes. */
+export const applyChanges = (segments: DiffSegment[], accepted: Set<number>): string =>
+  segments.map(s => s.kind === 'equal' ? s.text : accepted.has(s.id) ? s.added : s.removed).join('');
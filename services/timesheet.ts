@@ -0,0 +1,131 @@
+import { AttendanceStatus, CalendarSettings, DailyLog, Project } from '../types';
+import { addDays, isWorkingDay, parseDateKey, toDateKey } from './calendar';
+import { toCsv } from './csv';
+
+// Hours worked per log and the weekly timesheet built from them.
+
+export const UNALLOCATED = 'unallocated';
+
+export type DayFlag = 'over' | 'under' | 'ok' | 'none';
+
+export interface TimesheetRow {
+  projectId: string; // A project id, or UNALLOCATED for hours not assigned to any project
+  name: string;
+  hours: number[]; // One entry per day of the week, Monday first
+  total: number;
+}
+
+export interface Timesheet {
+  days: string[]; // Date keys, Monday to Sunday
+  rows: TimesheetRow[];
+  dayTotals: number[];
+  dayFlags: DayFlag[];
+  total: number;
+}
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+const round = (hours: number) => Math.round(hours * 100) / 100;
+
+/** Net hours from start/end time minus break; null when the log has no time range. */
+export const getShiftHours = (log: Pick<DailyLog, 'startTime' | 'endTime' | 'breakMinutes'>): number | null => {
+  if (!log.startTime || !log.endTime) return null;
+  const minutes = toMinutes(log.endTime) - toMinutes(log.startTime) - (log.breakMinutes || 0);
+  return minutes > 0 ? round(minutes / 60) : 0;
+};
+
+export const getAllocatedHours = (log: DailyLog): number =>
+  round((log.projectHours || []).reduce((sum, h) => sum + h.hours, 0));
+
+/** Total hours for a log: the shift length if recorded, otherwise the sum of project allocations. */
+export const getWorkedHours = (log: DailyLog): number => getShiftHours(log) ?? getAllocatedHours(log);
+
+/** Hours a log contributed to one project; unallocated shift time is split evenly across linked projects. */
+export const getHoursForProject = (log: DailyLog, projectId: string): number | null => {
+  const allocation = log.projectHours?.find(h => h.projectId === projectId);
+  if (allocation) return allocation.hours;
+
+  const shift = getShiftHours(log);
+  if (shift === null || !log.projectIds.includes(projectId)) return null;
+  const unallocatedProjects = log.projectIds.filter(id => !log.projectHours?.some(h => h.projectId === id));
+  const remaining = Math.max(0, shift - getAllocatedHours(log));
+  return round(remaining / unallocatedProjects.length);
+};
+
+export const getWeekStart = (key: string): string => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return toDateKey(date);
+};
+
+export const buildTimesheet = (
+  logs: DailyLog[],
+  projects: Project[],
+  weekStart: string,
+  targetHours: number,
+  calendar: CalendarSettings
+): Timesheet => {
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const weekLogs = logs.filter(l => l.date >= days[0] && l.date <= days[6]);
+  const names = new Map(projects.map(p => [p.id, p.name]));
+  const rows = new Map<string, TimesheetRow>();
+
+  const addHours = (projectId: string, dayIndex: number, hours: number) => {
+    if (hours <= 0) return;
+    if (!rows.has(projectId)) {
+      const name = projectId === UNALLOCATED ? 'Unallocated' : names.get(projectId) || 'Deleted project';
+      rows.set(projectId, { projectId, name, hours: Array(7).fill(0), total: 0 });
+    }
+    const row = rows.get(projectId)!;
+    row.hours[dayIndex] = round(row.hours[dayIndex] + hours);
+    row.total = round(row.total + hours);
+  };
+
+  weekLogs.forEach(log => {
+    const dayIndex = days.indexOf(log.date);
+    let projectTotal = 0;
+    log.projectIds.forEach(projectId => {
+      const hours = getHoursForProject(log, projectId) || 0;
+      projectTotal += hours;
+      addHours(projectId, dayIndex, hours);
+    });
+    addHours(UNALLOCATED, dayIndex, getWorkedHours(log) - projectTotal);
+  });
+
+  const sortedRows = Array.from(rows.values()).sort((a, b) =>
+    a.projectId === UNALLOCATED ? 1 : b.projectId === UNALLOCATED ? -1 : a.name.localeCompare(b.name)
+  );
+  const dayTotals = days.map((_, i) => round(sortedRows.reduce((sum, r) => sum + r.hours[i], 0)));
+  const today = toDateKey(new Date());
+  const absentDays = new Set(weekLogs
+    .filter(l => l.attendance === AttendanceStatus.Sick || l.attendance === AttendanceStatus.Permission)
+    .map(l => l.date));
+
+  const dayFlags = days.map((day, i): DayFlag => {
+    const total = dayTotals[i];
+    const working = isWorkingDay(day, calendar) && !absentDays.has(day);
+    if (total === 0 && (!working || day > today)) return 'none';
+    if (total > targetHours) return 'over';
+    if (working && total < targetHours) return 'under';
+    return 'ok';
+  });
+
+  return {
+    days,
+    rows: sortedRows,
+    dayTotals,
+    dayFlags,
+    total: round(dayTotals.reduce((sum, h) => sum + h, 0))
+  };
+};
+
+export const timesheetToCsv = (timesheet: Timesheet): string => toCsv(
+  ['Project', ...timesheet.days, 'Total'],
+  [
+    ...timesheet.rows.map(r => [r.name, ...r.hours, r.total]),
+    ['Total', ...timesheet.dayTotals, timesheet.total]
+  ]
+);
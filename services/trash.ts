@@ -0,0 +1,138 @@
+import { AppData, DailyLog, Review, SyncedRecord, TrashCollection, TrashItem } from '../types';
+import { isLocked } from './review';
+import { touch } from './sync';
+
+// Deleted logs, reports and projects go to the trash for TRASH_RETENTION_DAYS before they
+// are gone for good. Deleting a record also removes the links other records had to it
+// (a report's linked logs, a log's projects and its hours on them, a project's dependencies);
+// the trash item remembers them so a restore can put them back. Approved records are locked,
+// so they keep their links either way.
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Entity = SyncedRecord & { id: string; review?: Review };
+
+// The fields through which one record points at another
+const REFERENCES: { from: TrashCollection; field: string; to: TrashCollection }[] = [
+  { from: 'reports', field: 'linkedLogIds', to: 'logs' },
+  { from: 'logs', field: 'projectIds', to: 'projects' },
+  { from: 'projects', field: 'dependsOn', to: 'projects' },
+];
+
+const idsIn = (record: Entity, field: string) => (record as unknown as Record<string, string[]>)[field];
+
+const withIds = <T extends Entity>(record: T, field: string, ids: string[]): T => ({ ...record, [field]: ids });
+
+// A log's hours on a project go with its link to the project
+const linkedHours = (record: Entity, field: string, id: string) =>
+  field === 'projectIds' ? (record as DailyLog).projectHours?.find(h => h.projectId === id)?.hours : undefined;
+
+const withoutLink = <T extends Entity>(record: T, field: string, id: string): T => {
+  const next = withIds(record, field, idsIn(record, field).filter(linked => linked !== id));
+  const hours = field === 'projectIds' ? (record as unknown as DailyLog).projectHours : undefined;
+  return hours?.some(h => h.projectId === id) ? { ...next, projectHours: hours.filter(h => h.projectId !== id) } : next;
+};
+
+const withLink = <T extends Entity>(record: T, field: string, id: string, hours?: number): T => {
+  const next = idsIn(record, field).includes(id) ? record : withIds(record, field, [...idsIn(record, field), id]);
+  if (hours === undefined || linkedHours(next, field, id) !== undefined) return next;
+  return { ...next, projectHours: [...((next as unknown as DailyLog).projectHours || []), { projectId: id, hours }] };
+};
+
+const sortLogs = (logs: DailyLog[]) => logs.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+const withRecords = (data: AppData, collection: TrashCollection, records: Entity[]): AppData =>
+  ({ ...data, [collection]: collection === 'logs' ? sortLogs(records as DailyLog[]) : records });
+
+const findTrashed = (data: AppData, collection: TrashCollection, id: string) =>
+  data.trash.find(item => item.collection === collection && item.record.id === id);
+
+export const daysLeftInTrash = (item: TrashItem, now = new Date()) =>
+  Math.max(0, Math.ceil((new Date(item.deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS - now.getTime()) / DAY_MS));
+
+/** Moves a record to the trash and unlinks it from the records that pointed at it. */
+export const moveToTrash = (data: AppData, collection: TrashCollection, id: string): AppData => {
+  const record = (data[collection] as Entity[]).find(r => r.id === id);
+  if (!record) return data;
+
+  let next = withRecords(data, collection, (data[collection] as Entity[]).filter(r => r !== record));
+  const referencedBy: TrashItem['referencedBy'] = [];
+  REFERENCES.filter(ref => ref.to === collection).forEach(({ from, field }) => {
+    next = withRecords(next, from, (next[from] as Entity[]).map(r => {
+      if (!idsIn(r, field).includes(id) || isLocked(r.review)) return r;
+      const hours = linkedHours(r, field, id);
+      referencedBy.push(hours === undefined ? { collection: from, id: r.id } : { collection: from, id: r.id, hours });
+      return touch(withoutLink(r, field, id));
+    }));
+  });
+
+  const item: TrashItem = {
+    id: crypto.randomUUID(),
+    collection,
+    record: record as TrashItem['record'],
+    deletedAt: new Date().toISOString(),
+    referencedBy,
+  };
+  return { ...next, trash: [item, ...next.trash] };
+};
+
+/**
+ * Puts a trashed record back, along with its links. Links to records that are in the
+ * trash themselves are handed over to those items, so they come back with them.
+ */
+export const restoreFromTrash = (data: AppData, itemId: string): AppData => {
+  const item = data.trash.find(i => i.id === itemId);
+  if (!item) return data;
+  const { collection, record } = item;
+  let trash = data.trash.filter(i => i !== item);
+
+  // Points one record (live or trashed) back at the restored one
+  const relink = (next: AppData, from: TrashCollection, field: string, id: string, hours?: number): AppData => {
+    const add = <T extends Entity>(r: T) => withLink(r, field, record.id, hours);
+    if ((next[from] as Entity[]).some(r => r.id === id)) {
+      return withRecords(next, from, (next[from] as Entity[]).map(r => {
+        if (r.id !== id || isLocked(r.review)) return r;
+        const linked = add(r);
+        return linked === r ? r : touch(linked);
+      }));
+    }
+    trash = trash.map(i => i.collection === from && i.record.id === id ? { ...i, record: add(i.record) } : i);
+    return next;
+  };
+
+  // The restored record's own links: kept to live records, deferred for trashed ones, dropped otherwise
+  let restored: Entity = record;
+  REFERENCES.filter(ref => ref.from === collection).forEach(({ field, to }) => {
+    idsIn(restored, field).forEach(id => {
+      if ((data[to] as Entity[]).some(r => r.id === id)) return;
+      const target = findTrashed(data, to, id);
+      if (target && !target.referencedBy.some(r => r.collection === collection && r.id === record.id)) {
+        const hours = linkedHours(restored, field, id);
+        const link = hours === undefined ? { collection, id: record.id } : { collection, id: record.id, hours };
+        trash = trash.map(i => i.id === target.id ? { ...i, referencedBy: [...i.referencedBy, link] } : i);
+      }
+      restored = withoutLink(restored, field, id);
+    });
+  });
+
+  if (restored !== record) restored = touch(restored);
+  let next = withRecords(data, collection, [...(data[collection] as Entity[]).filter(r => r.id !== record.id), restored]);
+  item.referencedBy.forEach(({ collection: from, id, hours }) => {
+    const ref = REFERENCES.find(r => r.from === from && r.to === collection);
+    if (ref) next = relink(next, from, ref.field, id, hours);
+  });
+  return { ...next, trash };
+};
+
+export const deleteFromTrash = (data: AppData, itemId: string): AppData =>
+  ({ ...data, trash: data.trash.filter(i => i.id !== itemId) });
+
+export const emptyTrash = (data: AppData): AppData => data.trash.length ? { ...data, trash: [] } : data;
+
+/** Drops items that have been in the trash longer than the retention period. */
+export const purgeExpiredTrash = (data: AppData, now = new Date()): AppData => {
+  const kept = data.trash.filter(item => daysLeftInTrash(item, now) > 0);
+  return kept.length === data.trash.length ? data : { ...data, trash: kept };
+};
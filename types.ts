@@ -11,13 +11,56 @@ export enum ProjectStatus {
   Waiting = 'Waiting'
 }
 
+export enum TaskStatus {
+  Todo = 'Todo',
+  InProgress = 'In Progress',
+  Review = 'Review',
+  Done = 'Done'
+}
+
 export interface Attachment {
+  id: string; // Key of the file contents in the IndexedDB attachment store
   name: string;
   size: number;
   type: string;
 }
 
-export interface DailyLog {
+export enum ReviewStatus {
+  Draft = 'Draft',
+  Submitted = 'Submitted',
+  Approved = 'Approved',
+  NeedsRevision = 'Needs Revision'
+}
+
+export type UserRole = 'intern' | 'mentor';
+
+export interface ReviewComment {
+  id: string;
+  author: string;
+  role: UserRole;
+  text: string; // Empty for a bare status change
+  createdAt: string; // ISO timestamp
+  status?: ReviewStatus; // Set when the comment came with a status change
+}
+
+// Mentor sign-off on a log or report; approved entries can no longer be edited
+export interface Review {
+  status: ReviewStatus;
+  comments: ReviewComment[];
+}
+
+// Replication bookkeeping for the sync server, see services/sync.ts
+export interface SyncedRecord {
+  updatedAt: string; // ISO timestamp of the last edit
+  version: number; // Server version this copy is based on; 0 until it has been synced
+}
+
+export interface ProjectHours {
+  projectId: string;
+  hours: number;
+}
+
+export interface DailyLog extends SyncedRecord {
   id: string;
   date: string; // ISO Date string
   attendance: AttendanceStatus;
@@ -26,9 +69,16 @@ export interface DailyLog {
   challenges: string;
   tags: string[];
   attachments: Attachment[];
+  projectIds: string[]; // Projects this day's work went into
+  startTime?: string; // HH:mm
+  endTime?: string; // HH:mm
+  breakMinutes?: number;
+  projectHours?: ProjectHours[]; // Hours allocated to each linked project
+  isDraft?: boolean; // Created automatically for a missing day and not yet reviewed
+  review: Review;
 }
 
-export interface MonthlyReport {
+export interface MonthlyReport extends SyncedRecord {
   id: string;
   month: string; // YYYY-MM
   summary: string;
@@ -37,9 +87,33 @@ export interface MonthlyReport {
   nextMonthPlan: string;
   linkedLogIds: string[]; // Simulation of Relation
   files: Attachment[];
+  review: Review;
+}
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+export interface ProjectTask {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  dueDate: string; // YYYY-MM-DD, empty when not set
+  assignee: string;
+  checklist: ChecklistItem[];
+  dependsOn: string[]; // Ids of tasks in the same project that must finish first
 }
 
-export interface Project {
+export interface Milestone {
+  id: string;
+  title: string;
+  date: string;
+  done: boolean;
+}
+
+export interface Project extends SyncedRecord {
   id: string;
   name: string;
   description: string;
@@ -50,12 +124,180 @@ export interface Project {
   deliverables: string;
   status: ProjectStatus;
   documents: Attachment[];
+  tasks: ProjectTask[]; // Ordered within each status column of the Kanban board
+  milestones: Milestone[];
+  dependsOn: string[]; // Ids of projects that must finish before this one starts
+}
+
+export interface InternProfile {
+  name: string;
+  studentId: string;
+  university: string;
+  division: string; // Telkom unit the intern is placed in
+  mentorName: string;
+  supervisorName: string;
+  city: string; // Used for the signature line on printed reports
+}
+
+// Maximum days per month for each status; 0 disables the limit
+export interface AttendanceLimits {
+  maxSickDays: number;
+  maxPermissionDays: number;
+  maxWfhDays: number;
+  warningThreshold: number; // Percent of a limit at which to start warning; 0 for none
+}
+
+export interface LeaveDay {
+  date: string; // YYYY-MM-DD
+  note: string;
+}
+
+export interface CalendarSettings {
+  internshipStart: string; // YYYY-MM-DD; missing-log checks start here, or at the first log when empty
+  leaveDays: LeaveDay[];
+}
+
+export interface TimesheetSettings {
+  dailyTargetHours: number;
+}
+
+// A named starting point for a new log, report or project. Text fields may contain
+// variables such as {{date}} or {{project}}, filled in when the template is used.
+export interface RecordTemplate {
+  id: string;
+  kind: RecordView;
+  name: string;
+  fields: Record<string, string>; // Text fields of the record, by field name
+  tags: string[]; // Logs: default tags; projects: default tech stack
+  projectIds: string[]; // Logs only: projects to link, also what {{project}} names
+  recurrence: number[]; // Logs only: weekdays (0 = Sunday) to draft a log on automatically
+  lastDraftedOn?: string; // YYYY-MM-DD; a draft deleted that day is not drafted again
+}
+
+// A reusable piece of text, offered in the log editor when the log has its tag
+export interface Snippet {
+  id: string;
+  tag: string;
+  text: string;
+}
+
+export type TagColor = 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue' | 'purple' | 'pink';
+
+// A tag in the workspace's tag registry. Logs store the tag's name; aliases are other
+// spellings (e.g. "ReactJS") that turn into the name when typed.
+export interface TagDefinition {
+  id: string;
+  name: string;
+  color: TagColor;
+  parentId?: string; // e.g. Frontend for React, shown as "Frontend / React"
+  aliases: string[];
+}
+
+// The intern's own assessment of a skill, for the DDP final evaluation. Skills are
+// found in project tech stacks, log tags and learnings; the assessment is kept by name.
+export interface SkillAssessment {
+  name: string;
+  level: number; // 0 = not assessed, 1 (aware) to 5 (expert)
+  target: number; // Level the intern aims for by the end of the internship, 0 = none
+  hidden?: boolean; // Not a skill, e.g. a "Meeting" tag
+}
+
+// How a key result's progress is measured: entered by hand, or counted from the logbook and projects
+export type KeyResultMeasure = 'manual' | 'logDays' | 'projectHours' | 'milestones';
+
+export interface KeyResultCheckIn {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+export interface KeyResult {
+  id: string;
+  title: string;
+  measure: KeyResultMeasure;
+  target: number;
+  unit: string; // Manual only; counted measures have their own unit
+  checkIns: KeyResultCheckIn[]; // Manual only, oldest first
+  tag: string; // logDays: only logs with this tag or a tag below it; empty for any
+  projectId: string; // The project counted from; logDays may leave it empty for any
+}
+
+// An internship goal with measurable key results, reviewed month by month in the reports
+export interface Objective {
+  id: string;
+  title: string;
+  description: string;
+  dueDate: string; // YYYY-MM-DD, empty when not set
+  keyResults: KeyResult[];
 }
 
-export type ViewState = 'dashboard' | 'logs' | 'reports' | 'projects';
+export type PortfolioTheme = 'telkom' | 'minimal' | 'dark';
+
+// The end-of-internship portfolio built from completed projects
+export interface PortfolioSettings {
+  headline: string; // e.g. "Backend Developer Intern"
+  summary: string; // Markdown
+  email: string;
+  website: string;
+  theme: PortfolioTheme;
+  excludedProjectIds: string[]; // Completed projects left out; new ones are included
+  highlights: Record<string, string[]>; // Log ids picked for each project; automatic when missing
+}
+
+export interface WorkspaceSettings {
+  profile: InternProfile;
+  attendanceLimits: AttendanceLimits;
+  calendar: CalendarSettings;
+  timesheet: TimesheetSettings;
+  templates: RecordTemplate[];
+  snippets: Snippet[];
+  tags: TagDefinition[];
+  skills: SkillAssessment[];
+  objectives: Objective[];
+  portfolio: PortfolioSettings;
+}
+
+export type ViewState = 'dashboard' | 'logs' | 'timesheet' | 'reports' | 'projects' | 'goals' | 'skills' | 'tags' | 'trash' | 'settings';
+
+export type RecordView = 'logs' | 'reports' | 'projects';
+
+// Asks a view to open one of its records in the editor, or a new record when `id` is empty
+export interface OpenRequest {
+  view: RecordView;
+  id?: string;
+  close?: boolean; // Close the editor instead, e.g. after going back from a record's URL
+  summarize?: boolean; // Reports only: generate the AI summary once the report is open
+  month?: string; // Reports only: the month (YYYY-MM) of a new report
+}
+
+// An intern in the workspace. Each one has their own AppData, stored under their id.
+export interface InternAccount {
+  id: string;
+  name: string;
+  workspaceId: string; // Their workspace on the sync server; random, so it is unique across browsers
+}
+
+// Who is using this browser; a per-browser preference like the theme
+export interface CurrentUser {
+  role: UserRole;
+  name: string;
+}
+
+export type TrashCollection = 'logs' | 'reports' | 'projects';
+
+// A deleted log, report or project, kept for a while so it can be restored
+export interface TrashItem {
+  id: string;
+  collection: TrashCollection;
+  record: DailyLog | MonthlyReport | Project;
+  deletedAt: string; // ISO timestamp
+  // Records whose link to it was removed on delete, with the hours a log had recorded for a deleted project
+  referencedBy: { collection: TrashCollection; id: string; hours?: number }[];
+}
 
 export interface AppData {
   logs: DailyLog[];
   reports: MonthlyReport[];
   projects: Project[];
+  trash: TrashItem[];
+  settings: WorkspaceSettings;
 }
\ No newline at end of file